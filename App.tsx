@@ -1,45 +1,93 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { POLineRow, GeminiParsingResult } from './types.ts';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { POLineRow } from './types.ts';
 import { ReferencePack } from './referencePack.schema.ts';
-import { parseDocument, parsePacketSegment } from './services/geminiService.ts';
-import { geminiResultToPOLineRows } from './services/mappingService.ts';
 import { buildControlSurfaceWorkbook, downloadBlob } from './services/xlsxExport.ts';
-import { ReferenceService } from './services/referenceService.ts';
-import { enrichAndValidate } from './services/enrichAndValidate.ts';
 import DataTable from './components/DataTable.tsx';
 import { loadPolicy } from './policy/policyLocalStore.ts';
 import { PolicyAdmin } from './components/PolicyAdmin.tsx';
 import { ControlSurfacePolicy } from './policy/controlSurfacePolicy.ts';
 import { loadReferencePack, saveReferencePack } from './reference/referenceLocalStore.ts';
+import { loadCustomerMaster } from './reference/customerLocalStore.ts';
+import { CustomerMaster } from './customerMaster.schema.ts';
+import { CustomerMasterPanel } from './components/CustomerMasterPanel.tsx';
+import { loadCrossReference, saveCrossReference } from './reference/crossReferenceLocalStore.ts';
+import { PartCrossReference } from './partCrossReference.schema.ts';
+import { confirmCrossReferences, crossReferenceAccount, recordCrossReference } from './services/partCrossReference.ts';
+import { CrossReferencePanel } from './components/CrossReferencePanel.tsx';
 import { ReferencePackAdmin } from './components/ReferencePackAdmin.tsx';
 import { SetupWizard } from './components/SetupWizard.tsx';
 import { HelpGuide } from './components/HelpGuide.tsx';
 import { loadOrgProfile, ensureOrgProfileSeed } from './setup/orgProfile.store.ts';
 import { isSetupComplete, OrgSetupProfile } from './setup/orgProfile.types.ts';
-import { buildPOExportsV1 } from './services/jsonExport.ts';
 import { POExportV1, AuditEvent } from './services/abhSchema.ts';
 import JsonExportPanel from './components/JsonExportPanel.tsx';
-import { extractPdfPageText, triagePages, buildSegments } from './services/pdfPacketTriage.ts';
-import { renderPdfPagesToPngBase64 } from './services/pdfRender.ts';
+import { browserPdfBackend } from './services/pdfRender.ts';
+import {
+  PageRenderer,
+  PipelineFile,
+  PipelineOptions,
+  RenderedPage,
+  processFile,
+  buildExportsForRows,
+  mimeTypeForFilename,
+} from './services/pipeline.ts';
 import { RegressionHarness } from './components/RegressionHarness.tsx';
+import { ExtractionSettingsPanel } from './components/ExtractionSettingsPanel.tsx';
+import { ExtractionSettings, ExtractionFixtureSet, ColumnMappingSet, PROVIDER_DEFAULTS } from './extraction/extractionSettings.ts';
+import { loadExtractionSettings, loadFixtureSet, loadColumnMappings } from './extraction/extractionLocalStore.ts';
+import { ColumnMappingsPanel } from './components/ColumnMappingsPanel.tsx';
+import { createExtractionProvider, ExtractionProvider } from './services/extractionProviders.ts';
+import { IndexedDbResponseCacheStore, ResponseCacheMode, withResponseCache } from './services/responseCache.ts';
+import { IndexedDbWorkQueueStore, QueueDocument } from './services/workQueueStore.ts';
+import { sha256Bytes } from './services/regressionHarness.ts';
+import QueueArchivePanel from './components/QueueArchivePanel.tsx';
+import DocumentViewer from './components/DocumentViewer.tsx';
+import SegmentEditor from './components/SegmentEditor.tsx';
+import { DocSegment, PageTriage } from './services/pdfPacketTriage.ts';
+import { PageClassifierModel, trainPageClassifier } from './services/pageClassifier.ts';
+import { BarcodeHit, DEFAULT_SEPARATOR_SHEETS } from './services/pageMarks.ts';
+import { loadPageClassifier, savePageClassifier } from './triage/triageLocalStore.ts';
+import { EDI_850_EVENT, buildEdiResponses } from './services/ediTransactions.ts';
+import { X12_MIME_TYPE } from './services/x12.ts';
+import { loadEdiControlNumbers, saveEdiControlNumbers } from './edi/ediLocalStore.ts';
 
 declare const Tesseract: any;
+declare const BarcodeDetector: any;   // Chromium Shape Detection API; absent elsewhere
+
+const rowKey = (r: POLineRow) => `${r.doc_id}#${r.line_no}`;
 
 const App: React.FC = () => {
   const [currentPolicy, setCurrentPolicy] = useState<ControlSurfacePolicy>(() => loadPolicy());
   const [referencePack, setReferencePack] = useState<ReferencePack>(() => loadReferencePack());
+  const [customerMaster, setCustomerMaster] = useState<CustomerMaster>(() => loadCustomerMaster());
+  const [crossReference, setCrossReference] = useState<PartCrossReference>(() => loadCrossReference());
+  const [extractionSettings, setExtractionSettings] = useState<ExtractionSettings>(() => loadExtractionSettings());
+  const [fixtureSet, setFixtureSet] = useState<ExtractionFixtureSet>(() => loadFixtureSet());
+  const [columnMappings, setColumnMappings] = useState<ColumnMappingSet>(() => loadColumnMappings());
+  const [pageClassifier, setPageClassifier] = useState<PageClassifierModel>(() => loadPageClassifier());
   const [rows, setRows] = useState<POLineRow[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStatus, setProcessingStatus] = useState<string>('');
   const [progress, setProgress] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
-  const [activeTab, setActiveTab] = useState<'ops' | 'policy' | 'reference' | 'setup' | 'help' | 'regression'>('ops');
+  const [activeTab, setActiveTab] = useState<'ops' | 'policy' | 'reference' | 'setup' | 'help' | 'regression' | 'engine'>('ops');
   const [bypassSetup, setBypassSetup] = useState(false);
   const [showJsonExport, setShowJsonExport] = useState(false);
   const [poExports, setPoExports] = useState<POExportV1[]>([]);
   const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
   const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
   const [lastError, setLastError] = useState<string | null>(null);
+  const [queueRestored, setQueueRestored] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const [viewerKey, setViewerKey] = useState<string | null>(null);   // `${doc_id}#${line_no}` shown in the source viewer
+  const [reviewSegmentation, setReviewSegmentation] = useState(false);
+  const [segmentReview, setSegmentReview] = useState<{
+    filename: string;
+    renderPages: PageRenderer;
+    triage: PageTriage[];
+    segments: DocSegment[];
+    resolve: (segments: DocSegment[]) => void;
+  } | null>(null);
   
   const [orgProfileState, setOrgProfileState] = useState<OrgSetupProfile>(() => ensureOrgProfileSeed());
 
@@ -55,6 +103,32 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const workQueueStore = useMemo(() => new IndexedDbWorkQueueStore(), []);
+  const viewerRow = viewerKey ? rows.find(r => rowKey(r) === viewerKey) ?? null : null;
+
+  // Restore the work queue persisted before the last reload
+  useEffect(() => {
+    workQueueStore.loadActive()
+      .then(snapshot => {
+        if (!snapshot) return;
+        setRows(snapshot.rows);
+        setPoExports(snapshot.po_exports);
+        setAuditEvents(snapshot.audit_events);
+      })
+      .catch(e => console.warn("Work queue restore failed", e))
+      .finally(() => setQueueRestored(true));
+  }, [workQueueStore]);
+
+  // Persist every change (debounced); skipped until the restore above has finished
+  useEffect(() => {
+    if (!queueRestored) return;
+    const timer = setTimeout(() => {
+      workQueueStore.saveActive({ rows, po_exports: poExports, audit_events: auditEvents, updated_at: new Date().toISOString() })
+        .catch(e => console.warn("Work queue save failed", e));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [rows, poExports, auditEvents, queueRestored, workQueueStore]);
+
   const handleUpdateRow = (idx: number, patch: Partial<POLineRow>) => {
     setRows(prev => {
       const next = [...prev];
@@ -63,6 +137,27 @@ const App: React.FC = () => {
     });
   };
 
+  // Saved outside the state updater: StrictMode runs updaters twice.
+  const updateCrossReference = useCallback((next: PartCrossReference) => {
+    if (next === crossReference) return;
+    setCrossReference(next);
+    saveCrossReference(next);
+  }, [crossReference]);
+
+  const markCrossReferenceConfirmed = (confirmed: POLineRow[], at: string) => {
+    if (confirmed.length === 0) return;
+    const keys = new Set(confirmed.map(rowKey));
+    setRows(prev => prev.map(r => keys.has(rowKey(r)) ? { ...r, cross_reference_confirmed_at: at } : r));
+  };
+
+  // Approved or exported rows confirm the cross-reference they were matched by.
+  const confirmHistoricalMatches = useCallback((targets: POLineRow[]) => {
+    const at = new Date().toISOString();
+    const { xref, confirmed } = confirmCrossReferences(crossReference, targets, at);
+    updateCrossReference(xref);
+    markCrossReferenceConfirmed(confirmed, at);
+  }, [crossReference, updateCrossReference]);
+
   const handleHumanOverride = useCallback((evt: any) => {
     setAuditEvents(prev => [...prev, {
       at: new Date().toISOString(),
@@ -70,7 +165,26 @@ const App: React.FC = () => {
       actor: 'HUMAN',
       details: evt,
     }]);
-  }, []);
+    const row = rows.find(r => r.doc_id === evt.doc_id && r.line_no === evt.line_no);
+    if (!row) return;
+    if (evt.field === 'review_status' && evt.after === 'APPROVED') {
+      confirmHistoricalMatches([row]);
+      return;
+    }
+    // A reviewer-entered ABH item is remembered for this customer's part number, and counts as the
+    // row's confirmation.
+    if (evt.field === 'abh_item_no_final' && row.customer_item_no && String(evt.after ?? '').trim()) {
+      const at = new Date().toISOString();
+      updateCrossReference(recordCrossReference(crossReference, {
+        account_id: crossReferenceAccount(row),
+        customer_item_no: row.customer_item_no,
+        abh_item_no: String(evt.after),
+        at,
+        source: 'REVIEW',
+      }));
+      markCrossReferenceConfirmed([row], at);
+    }
+  }, [rows, crossReference, updateCrossReference, confirmHistoricalMatches]);
 
   const handlePolicyUpdated = (updated: ControlSurfacePolicy) => {
     setCurrentPolicy(updated);
@@ -85,8 +199,19 @@ const App: React.FC = () => {
     setOrgProfileState(updated);
   };
 
+  const responseCacheStore = useMemo(() => new IndexedDbResponseCacheStore(), []);
+
+  const buildExtractionProvider = useCallback((cacheMode?: ResponseCacheMode) => withResponseCache(
+    createExtractionProvider(extractionSettings, fixtureSet),
+    responseCacheStore,
+    cacheMode ?? extractionSettings.cache_mode ?? 'OFF'
+  ), [extractionSettings, fixtureSet, responseCacheStore]);
+
+  const extractionProvider = useMemo(() => buildExtractionProvider(), [buildExtractionProvider]);
+
   const handleExportXlsx = async () => {
     if (rows.length === 0) return;
+    confirmHistoricalMatches(rows);
     try {
       const blob = buildControlSurfaceWorkbook({ poLineRows: rows });
       const timestamp = new Date().toISOString().split('T')[0];
@@ -98,28 +223,39 @@ const App: React.FC = () => {
 
   const handleExportJson = () => {
     if (rows.length === 0) return;
-    const exports = buildPOExportsV1({
-      rows,
-      appVersion: '2.5.0',
-      runMode: 'PRODUCTION',
-      environment: 'PROD',
-      vendorName: 'ABH Manufacturing',
-      thresholds: {
-        auto_stage_min: currentPolicy.defaults.phase_min_confidence_auto.PHASE_1,
-        review_min: currentPolicy.defaults.phase_min_confidence_auto.PHASE_1 - 0.15
-      },
-      auditEvents
-    });
+    confirmHistoricalMatches(rows);
+    const exports = buildExportsForRows(rows, currentPolicy, auditEvents);
     setPoExports(exports);
     setShowJsonExport(true);
   };
 
-  const handleClearQueue = () => {
-    if (confirm("Clear all extracted line items?")) {
-      setRows([]);
-      setAuditEvents([]);
-      setLastError(null);
+  const hasEdiOrders = auditEvents.some(e => e.event_type === EDI_850_EVENT);
+
+  // One X12 file per EDI order; control numbers are only advanced once every document built.
+  const handleExportEdi = (setId: '855' | '810') => {
+    try {
+      const { documents, control } = buildEdiResponses(setId, rows, auditEvents, loadEdiControlNumbers());
+      saveEdiControlNumbers(control);
+      for (const doc of documents) {
+        downloadBlob(`${doc.po_number}_${setId}_${doc.interchange_control_no}.x12`, new Blob([doc.x12], { type: X12_MIME_TYPE }));
+      }
+    } catch (err: any) {
+      alert(`EDI ${setId} failed: ${err?.message || err}`);
+    }
+  };
+
+  const handleArchiveQueue = async () => {
+    if (!confirm(`Archive all ${rows.length} line items? The queue is cleared; archived items can be exported or purged later.`)) return;
+    try {
+      await workQueueStore.saveActive({ rows, po_exports: poExports, audit_events: auditEvents, updated_at: new Date().toISOString() });
+      await workQueueStore.archiveActive("CLEARED_BY_OPERATOR");
+    } catch (err: any) {
+      if (!confirm(`Archiving failed (${err?.message || err}). Clear the queue without keeping a copy?`)) return;
     }
+    setRows([]);
+    setPoExports([]);
+    setAuditEvents([]);
+    setLastError(null);
   };
 
   const fileToUint8Array = async (file: File): Promise<Uint8Array> => {
@@ -127,83 +263,78 @@ const App: React.FC = () => {
     return new Uint8Array(buf);
   };
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const base64String = reader.result?.toString().split(',')[1];
-        if (base64String) resolve(base64String);
-        else reject(new Error("Base64 conversion failed"));
-      };
-      reader.onerror = error => reject(error);
-    });
+  const tesseractOcr = async (file: PipelineFile): Promise<string> => {
+    if (typeof Tesseract === 'undefined') return '';
+    const result = await Tesseract.recognize(new Blob([file.data as BlobPart], { type: file.mimeType }), 'eng');
+    return result.data.text;
   };
 
-  const runParseForFile = async (file: File): Promise<POExportV1[]> => {
-    const fileStem = file.name.replace(/\.[^/.]+$/, "");
-    let documents: POExportV1[] = [];
-
-    if (file.type === 'application/pdf') {
-      const data = await fileToUint8Array(file);
-      const pageTexts = await extractPdfPageText(data.slice());
-      const triage = triagePages(pageTexts);
-      const segments = buildSegments(triage).filter(s => s.label !== "UNKNOWN" || (s.pageEnd - s.pageStart) >= 0);
-
-      for (const seg of segments) {
-        if (seg.label === 'EMAIL_COVER') continue;
-        const rendered = await renderPdfPagesToPngBase64(data.slice(), seg.pages, 2.0);
-        const parts = rendered.map(r => ({ base64: r.base64, mimeType: r.mimeType }));
-        const triageHint = seg.triage
-          .map(p => `PAGE ${p.pageIndex + 1}: ${p.label} (${p.score.toFixed(2)}) ${p.reasons.join(", ")}`)
-          .join("\n");
-
-        const result = await parsePacketSegment(
-          parts,
-          {
-            segmentLabelHint: seg.label,
-            sourcePages: seg.pages,
-            pageStart: seg.pageStart,
-            pageEnd: seg.pageEnd,
-            packetFilename: file.name,
-            triageTextHint: triageHint,
-          },
-          referencePack
-        );
-        documents = [...documents, ...(result.documents || [])];
-      }
-    } else {
-      const base64 = await fileToBase64(file);
-      let ocrTextHint = '';
-      if (file.type.startsWith('image/')) {
-        try {
-          const result = await Tesseract.recognize(file, 'eng');
-          ocrTextHint = result.data.text;
-        } catch {}
-      }
-      const parsed = await parseDocument(base64, file.type, ocrTextHint, referencePack || undefined);
-      documents = parsed.documents || [];
+  const tesseractOcrPage = async (page: RenderedPage): Promise<string> => {
+    if (typeof Tesseract === 'undefined') return '';
+    const result = await Tesseract.recognize(`data:${page.mimeType};base64,${page.base64}`, 'eng');
+    return result.data.text;
+  };
+
+  const detectPageBarcodes = async (page: RenderedPage): Promise<BarcodeHit[]> => {
+    if (typeof BarcodeDetector === 'undefined') return [];
+    // Only the symbologies separator sheets are configured with; QR codes and carrier labels are not wanted.
+    const supported: string[] = await BarcodeDetector.getSupportedFormats();
+    const formats = (currentPolicy.separator_sheets ?? DEFAULT_SEPARATOR_SHEETS).formats.filter(f => supported.includes(f));
+    if (formats.length === 0) return [];
+    const blob = await (await fetch(`data:${page.mimeType};base64,${page.base64}`)).blob();
+    const bitmap = await createImageBitmap(blob);
+    try {
+      const codes = await new BarcodeDetector({ formats }).detect(bitmap);
+      return codes.map((c: any) => ({ format: String(c.format), payload: String(c.rawValue ?? '') }));
+    } finally {
+      bitmap.close();
     }
+  };
 
-    const mappedRows = geminiResultToPOLineRows({
-      parsed: { documents },
-      sourceFileStem: fileStem,
-      policy: currentPolicy,
-      refPack: referencePack
-    });
+  const pipelineOptions = (provider: ExtractionProvider): PipelineOptions => ({
+    policy: currentPolicy,
+    referencePack,
+    customerMaster,
+    crossReference,
+    provider,
+    pdf: browserPdfBackend,
+    ocrImage: tesseractOcr,
+    ocrPage: tesseractOcrPage,
+    decodeBarcodes: typeof BarcodeDetector === 'undefined' ? undefined : detectPageBarcodes,
+    pageClassifier,
+    columnMappings,
+  });
+
+  // Pauses the pipeline until the operator confirms (or skips) the packet's segmentation.
+  const reviewSegments: PipelineOptions['reviewSegments'] = ({ file, triage, segments, renderPages }) =>
+    new Promise(resolve => setSegmentReview({ filename: file.name, renderPages, triage, segments, resolve }));
+
+  const handlePageClassifierChange = (next: PageClassifierModel) => {
+    setPageClassifier(next);
+    savePageClassifier(next);
+  };
 
-    return buildPOExportsV1({
-      rows: mappedRows,
-      appVersion: '2.5.0',
-      runMode: 'PRODUCTION',
-      environment: 'PROD',
-      vendorName: 'ABH Manufacturing',
-      thresholds: {
-        auto_stage_min: currentPolicy.defaults.phase_min_confidence_auto.PHASE_1,
-        review_min: currentPolicy.defaults.phase_min_confidence_auto.PHASE_1 - 0.15
-      },
-      auditEvents: []
-    });
+  const finishSegmentReview = (segments: DocSegment[]) => {
+    // Confirmed (or corrected) page labels are the classifier's training data; skipped files teach nothing.
+    if (segmentReview && segments.length > 0) {
+      const textByPage = new Map(segmentReview.triage.map(p => [p.pageIndex, p.text]));
+      const pages = segments
+        .flatMap(seg => seg.triage)
+        .filter(p => p.label !== 'UNKNOWN')
+        .map(p => ({ text: textByPage.get(p.pageIndex) ?? p.text, label: p.label }));
+      handlePageClassifierChange(trainPageClassifier(pageClassifier, pages));
+    }
+    segmentReview?.resolve(segments);
+    setSegmentReview(null);
+  };
+
+  const runParseForFile = async (file: File, opts?: { cacheMode?: ResponseCacheMode }): Promise<POExportV1[]> => {
+    const provider = opts?.cacheMode ? buildExtractionProvider(opts.cacheMode) : extractionProvider;
+    const { rows: mappedRows, auditEvents: fileEvents } = await processFile(
+      { name: file.name, mimeType: file.type || mimeTypeForFilename(file.name) || '', data: await fileToUint8Array(file) },
+      pipelineOptions(provider)
+    );
+    return buildExportsForRows(mappedRows, currentPolicy, fileEvents);
   };
 
   const processFiles = async (files: FileList) => {
@@ -221,12 +352,13 @@ const App: React.FC = () => {
 
     setIsProcessing(true);
     let allNewRows: POLineRow[] = [];
+    const newAuditEvents: AuditEvent[] = [];
+    const failures: string[] = [];
     const filesArray = Array.from(files);
 
     try {
       for (let i = 0; i < filesArray.length; i++) {
         const file = filesArray[i];
-        const fileStem = file.name.replace(/\.[^/.]+$/, "");
         const stepSize = 100 / filesArray.length;
         const baseProgress = (i / filesArray.length) * 100;
 
@@ -235,104 +367,50 @@ const App: React.FC = () => {
           await new Promise(r => setTimeout(r, 1000));
         }
 
-        if (file.type === 'application/pdf') {
-          setProcessingStatus(`Analyzing Document Packet: ${file.name}...`);
-          setProgress(baseProgress + (stepSize * 0.1));
-
+        try {
           const data = await fileToUint8Array(file);
-          const pageTexts = await extractPdfPageText(data.slice());
-          const triage = triagePages(pageTexts);
-          const segments = buildSegments(triage).filter(s => s.label !== "UNKNOWN" || (s.pageEnd - s.pageStart) >= 0);
-
-          setProcessingStatus(`Found ${segments.length} documents in ${file.name}...`);
-
-          for (let sIdx = 0; sIdx < segments.length; sIdx++) {
-            const seg = segments[sIdx];
-            if (seg.label === 'EMAIL_COVER') continue;
-
-            setProcessingStatus(`Processing ${seg.label} (Part ${sIdx + 1}/${segments.length})...`);
-            setProgress(baseProgress + (stepSize * (0.2 + (0.8 * ((sIdx + 1) / segments.length)))));
-
-            const rendered = await renderPdfPagesToPngBase64(data.slice(), seg.pages, 2.0);
-            const parts = rendered.map(r => ({ base64: r.base64, mimeType: r.mimeType }));
-            const triageHint = seg.triage
-              .map(p => `PAGE ${p.pageIndex + 1}: ${p.label} (${p.score.toFixed(2)}) ${p.reasons.join(", ")}`)
-              .join("\n");
-
-            const result = await parsePacketSegment(
-              parts,
-              {
-                segmentLabelHint: seg.label,
-                sourcePages: seg.pages,
-                pageStart: seg.pageStart,
-                pageEnd: seg.pageEnd,
-                packetFilename: file.name,
-                triageTextHint: triageHint,
-              },
-              referencePack,
-              (status) => setProcessingStatus(status)
-            );
-            
-            let mappedRows = geminiResultToPOLineRows({ 
-              parsed: result, 
-              sourceFileStem: `${fileStem}_doc${sIdx+1}`,
-              policy: currentPolicy,
-              refPack: referencePack
-            });
-
-            if (referencePack && referencePack.manufacturers.length > 0) {
-              const refService = new ReferenceService(referencePack);
-              mappedRows = enrichAndValidate(mappedRows, refService, referencePack.version);
+          const sourceSha256 = await sha256Bytes(data);
+          const processed = await processFile(
+            { name: file.name, mimeType: file.type || mimeTypeForFilename(file.name) || '', data },
+            {
+              ...pipelineOptions(extractionProvider),
+              reviewSegments: reviewSegmentation ? reviewSegments : undefined,
+              onStatus: setProcessingStatus,
+              onProgress: (fraction) => setProgress(baseProgress + (stepSize * fraction)),
             }
-            allNewRows = [...allNewRows, ...mappedRows];
-          }
-        } else {
-          const base64 = await fileToBase64(file);
-          let ocrTextHint = '';
-          if (file.type.startsWith('image/')) {
-            setProcessingStatus(`Running OCR: ${file.name}...`);
-            setProgress(baseProgress + (stepSize * 0.2));
-            try {
-              if (typeof Tesseract !== 'undefined') {
-                const result = await Tesseract.recognize(file, 'eng');
-                ocrTextHint = result.data.text;
-              }
-            } catch (ocrErr) {
-              console.warn("OCR Hint failed", ocrErr);
-            }
-          }
-
-          setProcessingStatus(`AI Extracting: ${file.name}...`);
-          setProgress(baseProgress + (stepSize * 0.5));
-
-          const parsed: GeminiParsingResult = await parseDocument(
-            base64, 
-            file.type, 
-            ocrTextHint, 
-            referencePack || undefined,
-            (status) => setProcessingStatus(`${file.name}: ${status}`)
           );
-          
-          let mappedRows = geminiResultToPOLineRows({ 
-            parsed, 
-            sourceFileStem: fileStem,
-            policy: currentPolicy,
-            refPack: referencePack
-          });
-
-          if (referencePack && referencePack.manufacturers.length > 0) {
-            const refService = new ReferenceService(referencePack);
-            mappedRows = enrichAndValidate(mappedRows, refService, referencePack.version);
-          }
-          allNewRows = [...allNewRows, ...mappedRows];
+
+          const addedAt = processed.processedAt;
+          const queueDocs: QueueDocument[] = processed.documents.map(doc => ({
+            ...doc,
+            source_sha256: sourceSha256,
+            filename: file.name,
+            added_at: addedAt,
+          }));
+          newAuditEvents.push(...processed.auditEvents);
+          allNewRows = [...allNewRows, ...processed.rows];
+
+          // Keep the original file and page images with the queue so review survives a reload
+          await workQueueStore.addSource(
+            { sha256: sourceSha256, filename: file.name, mime_type: file.type, size: file.size, blob: file, added_at: addedAt },
+            queueDocs
+          ).catch(e => console.warn("Work queue source save failed", e));
+        } catch (fileErr: any) {
+          // One bad file must not abort the batch; keep what was parsed so far.
+          console.error(`Processing failed for ${file.name}:`, fileErr);
+          failures.push(`${file.name}: ${fileErr?.message || "unknown error"}`);
         }
         setProgress(Math.round(((i + 1) / filesArray.length) * 100));
       }
-      setRows(prev => [...allNewRows, ...prev]);
     } catch (error: any) {
       console.error("Critical Processing Error:", error);
-      setLastError(error?.message || "An unknown error occurred during document processing.");
+      failures.push(error?.message || "An unknown error occurred during document processing.");
     } finally {
+      setRows(prev => [...allNewRows, ...prev]);
+      if (newAuditEvents.length) setAuditEvents(prev => [...prev, ...newAuditEvents]);
+      if (failures.length) {
+        setLastError(`${failures.length} file(s) failed: ${failures.join(" | ")}`);
+      }
       setIsProcessing(false);
       setProgress(0);
       setProcessingStatus('');
@@ -351,6 +429,21 @@ const App: React.FC = () => {
         <JsonExportPanel exports={poExports} onClose={() => setShowJsonExport(false)} />
       )}
 
+      {segmentReview && (
+        <SegmentEditor
+          filename={segmentReview.filename}
+          renderPages={segmentReview.renderPages}
+          triage={segmentReview.triage}
+          segments={segmentReview.segments}
+          onConfirm={finishSegmentReview}
+          onSkip={() => finishSegmentReview([])}
+        />
+      )}
+
+      {showArchive && (
+        <QueueArchivePanel store={workQueueStore} onClose={() => setShowArchive(false)} />
+      )}
+
       <header className="bg-white/95 border-b border-slate-200 sticky top-0 z-40 backdrop-blur-xl shadow-sm">
         <div className="max-w-7xl mx-auto px-6 py-4 flex flex-wrap items-center justify-between gap-4">
           <div className="flex items-center gap-4">
@@ -388,6 +481,12 @@ const App: React.FC = () => {
             >
               <i className="fa-solid fa-flask"></i> Regressions
             </button>
+            <button 
+              onClick={() => setActiveTab('engine')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold transition-all ${activeTab === 'engine' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              <i className="fa-solid fa-microchip"></i> Engine
+            </button>
             <button 
               onClick={() => setActiveTab('setup')}
               className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold transition-all ${activeTab === 'setup' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
@@ -397,14 +496,40 @@ const App: React.FC = () => {
           </nav>
 
           <div className="flex items-center gap-3">
+            {activeTab === 'ops' && (
+              <button
+                onClick={() => setReviewSegmentation(v => !v)}
+                title="Pause before parsing each PDF to review page splits and labels"
+                className={`text-[10px] font-bold px-3 py-1.5 rounded-lg transition-all flex items-center gap-1.5 ${reviewSegmentation ? 'bg-indigo-50 text-indigo-700' : 'text-slate-400 hover:text-slate-700'}`}
+              >
+                <i className={`fa-solid ${reviewSegmentation ? 'fa-toggle-on' : 'fa-toggle-off'}`}></i> Review Splits
+              </button>
+            )}
+
+            {activeTab === 'ops' && (
+              <button onClick={() => setShowArchive(true)} className="text-[10px] font-bold text-slate-400 hover:text-slate-700 px-3 py-1.5 rounded-lg transition-all flex items-center gap-1.5">
+                <i className="fa-solid fa-clock-rotate-left"></i> Archived
+              </button>
+            )}
+
             {activeTab === 'ops' && rows.length > 0 && (
-              <button onClick={handleClearQueue} className="text-[10px] font-bold text-slate-400 hover:text-rose-500 px-3 py-1.5 rounded-lg transition-all flex items-center gap-1.5">
-                <i className="fa-solid fa-trash-can"></i> Clear
+              <button onClick={handleArchiveQueue} className="text-[10px] font-bold text-slate-400 hover:text-amber-600 px-3 py-1.5 rounded-lg transition-all flex items-center gap-1.5">
+                <i className="fa-solid fa-box-archive"></i> Archive
               </button>
             )}
             
             {activeTab === 'ops' && rows.length > 0 && (
               <div className="flex items-center gap-2 border-l border-slate-200 pl-3">
+                {hasEdiOrders && (
+                  <>
+                    <button onClick={() => handleExportEdi('855')} title="PO acknowledgments for the EDI orders" className="px-4 py-2.5 bg-slate-100 text-slate-700 rounded-xl font-bold hover:bg-slate-200 transition-all text-xs flex items-center gap-2">
+                      <i className="fa-solid fa-file-signature"></i> EDI 855
+                    </button>
+                    <button onClick={() => handleExportEdi('810')} title="Invoices for the accepted EDI order lines" className="px-4 py-2.5 bg-slate-100 text-slate-700 rounded-xl font-bold hover:bg-slate-200 transition-all text-xs flex items-center gap-2">
+                      <i className="fa-solid fa-file-invoice-dollar"></i> EDI 810
+                    </button>
+                  </>
+                )}
                 <button onClick={handleExportJson} className="px-4 py-2.5 bg-slate-100 text-slate-700 rounded-xl font-bold hover:bg-slate-200 transition-all text-xs flex items-center gap-2">
                   <i className="fa-solid fa-code"></i> JSON Export
                 </button>
@@ -419,7 +544,7 @@ const App: React.FC = () => {
                 <i className="fa-solid fa-plus-circle"></i> Import PDF
               </button>
             )}
-            <input type="file" ref={fileInputRef} onChange={(e) => { if(activeTab === 'ops' && e.target.files) processFiles(e.target.files); else setSelectedFiles(e.target.files); }} className="hidden" multiple accept="application/pdf,image/*" />
+            <input type="file" ref={fileInputRef} onChange={(e) => { if(activeTab === 'ops' && e.target.files) processFiles(e.target.files); else setSelectedFiles(e.target.files); }} className="hidden" multiple accept="application/pdf,image/*,.tif,.tiff,.eml,.msg,message/rfc822,.zip,application/zip,.xlsx,.xls,.csv,text/csv,.edi,.x12" />
           </div>
         </div>
       </header>
@@ -448,7 +573,7 @@ const App: React.FC = () => {
                 <div className="flex flex-col items-center gap-8">
                   <div className="w-24 h-24 border-[5px] border-slate-100 border-t-indigo-600 rounded-full animate-spin"></div>
                   <h3 className="text-2xl font-black text-slate-900 tracking-tight">{processingStatus}</h3>
-                  <p className="text-slate-400 font-medium max-w-sm">Gemini Flash is analyzing document structure and extracting line items...</p>
+                  <p className="text-slate-400 font-medium max-w-sm">{PROVIDER_DEFAULTS[extractionProvider.id].label} is analyzing document structure and extracting line items...</p>
                 </div>
               </div>
             ) : rows.length === 0 ? (
@@ -475,21 +600,48 @@ const App: React.FC = () => {
                     <i className="fa-solid fa-circle-info mr-1"></i> Tip: You can edit cells directly in the table before exporting.
                   </div>
                 </div>
-                <DataTable 
-                  data={rows} 
-                  onDelete={(idx) => setRows(prev => prev.filter((_, i) => i !== idx))} 
-                  onUpdate={handleUpdateRow}
-                  onHumanOverride={handleHumanOverride}
-                />
+                <div className={viewerRow ? 'grid grid-cols-1 xl:grid-cols-[minmax(0,3fr)_minmax(0,2fr)] gap-4 items-start' : ''}>
+                  <DataTable 
+                    data={rows} 
+                    onDelete={(idx) => setRows(prev => prev.filter((_, i) => i !== idx))} 
+                    onUpdate={handleUpdateRow}
+                    onHumanOverride={handleHumanOverride}
+                    selectedIndex={viewerRow ? rows.indexOf(viewerRow) : undefined}
+                    onSelect={(idx) => setViewerKey(rowKey(rows[idx]))}
+                  />
+                  {viewerRow && (
+                    <DocumentViewer store={workQueueStore} row={viewerRow} onClose={() => setViewerKey(null)} />
+                  )}
+                </div>
               </div>
             )}
           </>
         ) : activeTab === 'policy' ? (
-          <PolicyAdmin policy={currentPolicy} onPolicyChange={handlePolicyUpdated} />
+          <PolicyAdmin
+            policy={currentPolicy}
+            onPolicyChange={handlePolicyUpdated}
+            pageClassifier={pageClassifier}
+            onPageClassifierChange={handlePageClassifierChange}
+          />
         ) : activeTab === 'reference' ? (
-          <ReferencePackAdmin referencePack={referencePack} onReferencePackChange={handleReferencePackUpdated} />
+          <div className="space-y-8">
+            <ReferencePackAdmin referencePack={referencePack} onReferencePackChange={handleReferencePackUpdated} />
+            <CustomerMasterPanel customerMaster={customerMaster} onChange={setCustomerMaster} />
+            <CrossReferencePanel crossReference={crossReference} onChange={setCrossReference} />
+          </div>
         ) : activeTab === 'regression' ? (
-          <RegressionHarness files={selectedFiles} runParseForFile={runParseForFile} />
+          <RegressionHarness files={selectedFiles} runParseForFile={runParseForFile} defaultCacheMode={extractionSettings.cache_mode ?? 'OFF'} />
+        ) : activeTab === 'engine' ? (
+          <div className="space-y-8">
+            <ExtractionSettingsPanel
+              settings={extractionSettings}
+              onSettingsChange={setExtractionSettings}
+              fixtureSet={fixtureSet}
+              onFixtureSetChange={setFixtureSet}
+              cacheStore={responseCacheStore}
+            />
+            <ColumnMappingsPanel mappings={columnMappings} onChange={setColumnMappings} />
+          </div>
         ) : activeTab === 'setup' ? (
           <SetupWizard
             currentPolicy={currentPolicy}
@@ -508,7 +660,7 @@ const App: React.FC = () => {
           OrderFlow Spreadsheet Utility • v2.5.0
         </div>
         <div className="flex items-center gap-4 text-[10px] font-bold text-slate-400">
-          <span className="flex items-center gap-1.5"><i className="fa-solid fa-circle text-emerald-500 text-[6px]"></i> Gemini Engine Online</span>
+          <span className="flex items-center gap-1.5"><i className="fa-solid fa-circle text-emerald-500 text-[6px]"></i> {PROVIDER_DEFAULTS[extractionProvider.id].label} Engine Online</span>
           <span className="flex items-center gap-1.5"><i className="fa-solid fa-lock"></i> AES-256 Local Encryption</span>
         </div>
       </footer>
@@ -0,0 +1,354 @@
+// cli/httpServer.ts
+// Local HTTP API for ERP middleware: parse, re-route, EDI 855/810 output, active policy/reference pack, async jobs, schema.
+import http from "node:http";
+import { randomUUID, createHash, timingSafeEqual } from "node:crypto";
+import { processFile, buildExportsForRows, mimeTypeForFilename, PipelineOptions } from "../services/pipeline.ts";
+import { isEmailFile } from "../services/emailIngest.ts";
+import { isZipFile } from "../services/zipArchive.ts";
+import { isSpreadsheetFile } from "../services/spreadsheetPo.ts";
+import { isX12File, X12ControlNumbers } from "../services/x12.ts";
+import { buildEdiResponses } from "../services/ediTransactions.ts";
+import { applyPolicyRouting } from "../services/policyRouting.ts";
+import { policySha256 } from "../policy/policyVersioning.ts";
+import { PolicyContext } from "../policy/controlSurfacePolicy.ts";
+import { ABH_PO_V1_SCHEMA, ABH_PO_V1_SCHEMA_ID, AuditEvent, POExportV1 } from "../services/abhSchema.ts";
+import { sha256Text } from "../services/regressionHarness.ts";
+import { POLineRow } from "../types.ts";
+
+export type JobStatus = "QUEUED" | "RUNNING" | "SUCCEEDED" | "FAILED";
+
+export type ParseJob = {
+  id: string;
+  status: JobStatus;
+  filename: string;
+  mime_type: string;
+  sha256: string;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  policy_version?: string;
+  reference_version?: string;
+  result?: POExportV1[];
+  error?: string;
+};
+
+export type ApiServerOptions = {
+  loadPipeline: () => Promise<PipelineOptions>;   // called per request so edited policy/pack files take effect
+  token?: string;                                  // when set, requests need `Authorization: Bearer <token>`
+  maxBodyBytes?: number;
+  maxJobs?: number;
+  ediControl?: {                                   // X12 control numbers for generated 855 / 810 documents
+    load: () => Promise<X12ControlNumbers>;
+    save: (next: X12ControlNumbers) => Promise<void>;
+  };
+  log: (line: string) => void;
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+const DEFAULT_MAX_BODY_BYTES = 50 * 1024 * 1024;
+const DEFAULT_MAX_JOBS = 200;
+const SCHEMA_PATH = new URL(ABH_PO_V1_SCHEMA_ID).pathname;
+const PHASES: PolicyContext["phase"][] = ["PHASE_1", "PHASE_2", "PHASE_3"];
+
+/**
+ * Parses run one at a time (model rate limits, one-CPU hosts); synchronous requests
+ * simply wait for their own job.
+ */
+class JobQueue {
+  private jobs = new Map<string, ParseJob>();
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(private maxJobs: number) {}
+
+  get(id: string): ParseJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  enqueue(job: ParseJob, run: (job: ParseJob) => Promise<POExportV1[]>): Promise<ParseJob> {
+    this.jobs.set(job.id, job);
+    this.prune();
+
+    const done = this.tail.then(async () => {
+      job.status = "RUNNING";
+      job.started_at = new Date().toISOString();
+      try {
+        job.result = await run(job);
+        job.status = "SUCCEEDED";
+      } catch (err: any) {
+        job.error = err?.message || String(err);
+        job.status = "FAILED";
+      }
+      job.finished_at = new Date().toISOString();
+      return job;
+    });
+    this.tail = done.then(() => undefined);
+    return done;
+  }
+
+  // Forget the oldest finished jobs beyond the retention limit.
+  private prune() {
+    if (this.jobs.size <= this.maxJobs) return;
+    for (const [id, job] of this.jobs) {
+      if (this.jobs.size <= this.maxJobs) break;
+      if (job.status === "SUCCEEDED" || job.status === "FAILED") this.jobs.delete(id);
+    }
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, contentType = "application/json") {
+  const payload = JSON.stringify(body, null, 2);
+  res.writeHead(status, { "Content-Type": `${contentType}; charset=utf-8`, "Content-Length": Buffer.byteLength(payload) });
+  res.end(payload);
+}
+
+/**
+ * Reads the body up to `limit` bytes. Past it, reading stops and the 413 goes out with
+ * `Connection: close` (see createApiServer); destroying the request here would lose the response.
+ */
+function readBody(req: http.IncomingMessage, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const tooLarge = () => {
+      req.off("data", onData);
+      req.pause();
+      reject(new HttpError(413, `Request body exceeds ${limit} bytes.`));
+    };
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) return tooLarge();
+      chunks.push(chunk);
+    };
+    if (Number(req.headers["content-length"]) > limit) return tooLarge();
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function parseJsonBody(body: Buffer): any {
+  try {
+    return JSON.parse(body.toString("utf8"));
+  } catch (e: any) {
+    throw new HttpError(400, `Invalid JSON body: ${e.message}`);
+  }
+}
+
+/**
+ * Constant-time bearer token check; both sides are hashed first so timingSafeEqual gets
+ * equal-length buffers and the token length does not leak either.
+ */
+function hasBearerToken(req: http.IncomingMessage, token: string): boolean {
+  const digest = (s: string) => createHash("sha256").update(s).digest();
+  return timingSafeEqual(digest(req.headers["authorization"] ?? ""), digest(`Bearer ${token}`));
+}
+
+/**
+ * Accepts either the raw document (Content-Type application/pdf, image/*, a spreadsheet, X12 EDI, an email or a ZIP, filename via
+ * `?filename=` or `X-Filename`) or JSON `{ filename, mime_type?, data_base64 }`.
+ */
+function readUpload(req: http.IncomingMessage, url: URL, body: Buffer): { filename: string; mimeType: string; data: Uint8Array } {
+  const contentType = String(req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+
+  if (contentType === "application/json") {
+    const json = parseJsonBody(body);
+    if (typeof json?.data_base64 !== "string" || !json.data_base64) {
+      throw new HttpError(400, "JSON uploads need a data_base64 field.");
+    }
+    const filename = String(json.filename || "upload.pdf");
+    const mimeType = json.mime_type || mimeTypeForFilename(filename);
+    if (!mimeType) throw new HttpError(415, `Cannot determine the type of ${filename}; send mime_type.`);
+    return { filename, mimeType, data: new Uint8Array(Buffer.from(json.data_base64, "base64")) };
+  }
+
+  const filename = url.searchParams.get("filename") || String(req.headers["x-filename"] || "") || "upload";
+  const mimeType = contentType && contentType !== "application/octet-stream" ? contentType : mimeTypeForFilename(filename);
+  const accepted = mimeType === "application/pdf" || mimeType?.startsWith("image/");
+  const file = { name: filename, mimeType: mimeType ?? "" };
+  if (!mimeType || !(accepted || isEmailFile(file) || isZipFile(file) || isSpreadsheetFile(file) || isX12File(file))) {
+    throw new HttpError(415, "Send a PDF, image, spreadsheet, X12 EDI, email or ZIP (Content-Type application/pdf, image/*, text/csv, an Excel type, application/edi-x12, message/rfc822, application/vnd.ms-outlook or application/zip).");
+  }
+  if (body.length === 0) throw new HttpError(400, "Empty request body.");
+  return { filename, mimeType, data: new Uint8Array(body.buffer, body.byteOffset, body.byteLength) };
+}
+
+function wantsAsync(req: http.IncomingMessage, url: URL): boolean {
+  const flag = url.searchParams.get("async");
+  if (flag === "1" || flag === "true") return true;
+  return /respond-async/i.test(String(req.headers["prefer"] || ""));
+}
+
+function normalizeRows(input: unknown): POLineRow[] {
+  const rows = Array.isArray(input) ? input : (input as any)?.rows;
+  if (!Array.isArray(rows)) throw new HttpError(400, "Expected POLineRow[] (or { rows: POLineRow[] }).");
+  return rows.map((r: any, i: number) => {
+    if (!r || typeof r !== "object" || !r.doc_id || typeof r.line_no !== "number") {
+      throw new HttpError(400, `rows[${i}]: doc_id and numeric line_no are required.`);
+    }
+    return {
+      ...r,
+      doc_type: r.doc_type ?? "UNKNOWN",
+      item_class: r.item_class ?? "UNKNOWN",
+      automation_lane: r.automation_lane ?? "REVIEW",
+      edge_case_flags: Array.isArray(r.edge_case_flags) ? r.edge_case_flags : [],
+    } as POLineRow;
+  });
+}
+
+/**
+ * The EDI_850_RECEIVED events travel in the audit trail of the /v1/parse exports; either the
+ * exports or their events can be sent back with the reviewed rows.
+ */
+function ediAuditEvents(body: any): AuditEvent[] {
+  if (Array.isArray(body?.audit_events)) return body.audit_events;
+  if (Array.isArray(body?.exports)) return body.exports.flatMap((e: POExportV1) => e?.audit?.events ?? []);
+  throw new HttpError(400, "Send audit_events (or the exports from /v1/parse) with the rows.");
+}
+
+export function createApiServer(opts: ApiServerOptions): http.Server {
+  const jobs = new JobQueue(opts.maxJobs ?? DEFAULT_MAX_JOBS);
+  const maxBody = opts.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  let ediTail: Promise<unknown> = Promise.resolve();
+
+  async function handleParse(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+    const upload = readUpload(req, url, await readBody(req, maxBody));
+    const job: ParseJob = {
+      id: `job_${randomUUID()}`,
+      status: "QUEUED",
+      filename: upload.filename,
+      mime_type: upload.mimeType,
+      sha256: createHash("sha256").update(upload.data).digest("hex"),
+      created_at: new Date().toISOString(),
+    };
+
+    const finished = jobs.enqueue(job, async (j) => {
+      const pipeline = await opts.loadPipeline();
+      j.policy_version = pipeline.policy.meta.version;
+      j.reference_version = pipeline.referencePack?.version;
+      const { rows, auditEvents } = await processFile({ name: upload.filename, mimeType: upload.mimeType, data: upload.data }, pipeline);
+      return buildExportsForRows(rows, pipeline.policy, auditEvents);
+    });
+    opts.log(`parse ${job.id} ${job.filename} (${upload.data.length} bytes)`);
+
+    if (wantsAsync(req, url)) {
+      res.setHeader("Location", `/v1/jobs/${job.id}`);
+      sendJson(res, 202, { job_id: job.id, status: job.status, status_url: `/v1/jobs/${job.id}` });
+      return;
+    }
+
+    const done = await finished;
+    res.setHeader("X-Job-Id", done.id);
+    if (done.status === "FAILED") throw new HttpError(422, done.error || "Parse failed.");
+    sendJson(res, 200, done.result ?? []);
+  }
+
+  async function handleRoute(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+    const body = parseJsonBody(await readBody(req, maxBody));
+    const rows = normalizeRows(body);
+    const phase = (body?.phase ?? url.searchParams.get("phase") ?? "PHASE_1") as PolicyContext["phase"];
+    if (!PHASES.includes(phase)) throw new HttpError(400, `phase must be one of ${PHASES.join(", ")}.`);
+
+    const { policy } = await opts.loadPipeline();
+    const routed = applyPolicyRouting(rows, policy, { phase, customer_name: body?.customer_name });
+    sendJson(res, 200, {
+      policy_version: policy.meta.version,
+      policy_sha256: await policySha256(policy),
+      phase,
+      rows: routed,
+      exports: url.searchParams.get("exports") === "true" ? buildExportsForRows(routed, policy) : undefined,
+    });
+  }
+
+  async function handleEdi(req: http.IncomingMessage, res: http.ServerResponse, setId: "855" | "810") {
+    const ediControl = opts.ediControl;
+    if (!ediControl) throw new HttpError(404, "EDI output is not enabled on this server.");
+    const body = parseJsonBody(await readBody(req, maxBody));
+    const rows = normalizeRows(body);
+    const auditEvents = ediAuditEvents(body);
+
+    // One build at a time, so concurrent requests never reuse a control number.
+    const built = ediTail.then(async () => {
+      let result;
+      try {
+        result = buildEdiResponses(setId, rows, auditEvents, await ediControl.load());
+      } catch (err: any) {
+        throw new HttpError(422, err?.message || String(err));
+      }
+      if (result.documents.length === 0) throw new HttpError(422, "None of the rows belong to an EDI 850 document.");
+      await ediControl.save(result.control);
+      return result;
+    });
+    ediTail = built.catch(() => undefined);
+
+    const { documents } = await built;
+    opts.log(`edi ${setId} ${documents.map(d => `${d.po_number} (ISA ${d.interchange_control_no})`).join(", ")}`);
+    sendJson(res, 200, { documents });
+  }
+
+  async function route(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || "/", "http://localhost");
+    const method = req.method || "GET";
+
+    if (opts.token && !hasBearerToken(req, opts.token)) {
+      throw new HttpError(401, "Missing or invalid bearer token.");
+    }
+
+    if (method === "POST" && url.pathname === "/v1/parse") return handleParse(req, res, url);
+    if (method === "POST" && url.pathname === "/v1/route") return handleRoute(req, res, url);
+    if (method === "POST" && url.pathname === "/v1/edi/855") return handleEdi(req, res, "855");
+    if (method === "POST" && url.pathname === "/v1/edi/810") return handleEdi(req, res, "810");
+
+    if (method === "GET" && url.pathname === "/v1/policy") {
+      const { policy } = await opts.loadPipeline();
+      return sendJson(res, 200, { version: policy.meta.version, sha256: await policySha256(policy), policy });
+    }
+
+    if (method === "GET" && url.pathname === "/v1/reference-pack") {
+      const { referencePack } = await opts.loadPipeline();
+      if (!referencePack) throw new HttpError(404, "No reference pack loaded.");
+      return sendJson(res, 200, {
+        version: referencePack.version,
+        sha256: await sha256Text(JSON.stringify(referencePack)),
+        reference_pack: referencePack,
+      });
+    }
+
+    const jobMatch = url.pathname.match(/^\/v1\/jobs\/([\w-]+)$/);
+    if (method === "GET" && jobMatch) {
+      const job = jobs.get(jobMatch[1]);
+      if (!job) throw new HttpError(404, `Unknown job ${jobMatch[1]}.`);
+      return sendJson(res, 200, job);
+    }
+
+    if (method === "GET" && (url.pathname === SCHEMA_PATH || url.pathname === "/v1/schema")) {
+      return sendJson(res, 200, ABH_PO_V1_SCHEMA, "application/schema+json");
+    }
+
+    if (method === "GET" && url.pathname === "/v1/health") {
+      const { provider } = await opts.loadPipeline();
+      return sendJson(res, 200, { ok: true, provider: provider.id, model_id: provider.modelId, schema_id: ABH_PO_V1_SCHEMA_ID });
+    }
+
+    throw new HttpError(404, `No route for ${method} ${url.pathname}.`);
+  }
+
+  return http.createServer((req, res) => {
+    route(req, res).catch((err: any) => {
+      const status = err instanceof HttpError ? err.status : 500;
+      if (status >= 500) console.error(`${req.method} ${req.url} failed:`, err);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      // The rest of an oversize body is never read, so the connection cannot be reused.
+      if (status === 413) res.setHeader("Connection", "close");
+      sendJson(res, status, { error: err?.message || "Internal error" });
+    });
+  });
+}
@@ -0,0 +1,258 @@
+// cli/nodeRuntime.ts
+// File-system counterparts of the browser's localStorage stores and download helpers.
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { ControlSurfacePolicy } from "../policy/controlSurfacePolicy.ts";
+import { DEFAULT_POLICY } from "../policy/policyStore.ts";
+import { ReferencePack } from "../referencePack.schema.ts";
+import { EMPTY_REFERENCE_PACK } from "../reference/referenceLocalStore.ts";
+import { importReferencePackFromXlsx } from "../services/referencePackXlsx.ts";
+import { CustomerMaster } from "../customerMaster.schema.ts";
+import { EMPTY_CUSTOMER_MASTER } from "../reference/customerLocalStore.ts";
+import { importCustomerMasterFromXlsx } from "../services/customerMasterXlsx.ts";
+import { PartCrossReference } from "../partCrossReference.schema.ts";
+import { EMPTY_CROSS_REFERENCE } from "../reference/crossReferenceLocalStore.ts";
+import { importCrossReferenceFromXlsx } from "../services/crossReferenceXlsx.ts";
+import {
+  ExtractionSettings,
+  ExtractionFixtureSet,
+  ExtractionProviderId,
+  PROVIDER_DEFAULTS,
+  EMPTY_FIXTURE_SET,
+} from "../extraction/extractionSettings.ts";
+import { createExtractionProvider, ExtractionProvider } from "../services/extractionProviders.ts";
+import { POLineRow } from "../types.ts";
+import { POExportV1 } from "../services/abhSchema.ts";
+import { buildControlSurfaceWorkbook } from "../services/xlsxExport.ts";
+import { mimeTypeForFilename, PipelineFile } from "../services/pipeline.ts";
+import { PageClassifierModel, parsePageClassifier } from "../services/pageClassifier.ts";
+import { ColumnMappingSet } from "../extraction/extractionSettings.ts";
+import { parseColumnMappings } from "../services/spreadsheetPo.ts";
+import { INITIAL_CONTROL_NUMBERS, X12ControlNumbers } from "../services/x12.ts";
+
+async function readJson(file: string): Promise<any> {
+  const raw = await fs.readFile(file, "utf8");
+  try {
+    return JSON.parse(raw);
+  } catch (e: any) {
+    throw new Error(`${file}: invalid JSON (${e.message})`);
+  }
+}
+
+export async function loadPolicyFile(file?: string): Promise<ControlSurfacePolicy> {
+  if (!file) return DEFAULT_POLICY;
+  const parsed = await readJson(file);
+  if (!parsed?.meta?.version || !parsed?.defaults?.phase_min_confidence_auto || !Array.isArray(parsed?.rules)) {
+    throw new Error(`${file}: not a control-surface policy (expected meta.version, defaults and rules).`);
+  }
+  return parsed;
+}
+
+/**
+ * Accepts the JSON pack (as exported from the admin screen) or the XLSX workbook format.
+ */
+export async function loadReferencePackFile(file?: string): Promise<ReferencePack> {
+  if (!file) return EMPTY_REFERENCE_PACK;
+  if (/\.xlsx$/i.test(file)) {
+    const buf = await fs.readFile(file);
+    return importReferencePackFromXlsx(buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength), EMPTY_REFERENCE_PACK);
+  }
+  const parsed = await readJson(file);
+  if (!parsed?.version || !Array.isArray(parsed?.manufacturers)) {
+    throw new Error(`${file}: not a reference pack (expected version and manufacturers).`);
+  }
+  return parsed;
+}
+
+/**
+ * Customer master as JSON (exported from the Catalog screen), XLSX workbook or CSV; none means
+ * documents are not resolved to accounts.
+ */
+export async function loadCustomerMasterFile(file?: string): Promise<CustomerMaster | undefined> {
+  if (!file) return undefined;
+  if (/\.(xlsx|xls|csv)$/i.test(file)) {
+    const buf = await fs.readFile(file);
+    try {
+      return importCustomerMasterFromXlsx(buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength), EMPTY_CUSTOMER_MASTER);
+    } catch (e: any) {
+      throw new Error(`${file}: ${e.message}`);
+    }
+  }
+  const parsed = await readJson(file);
+  if (!parsed?.version || !Array.isArray(parsed?.accounts)) {
+    throw new Error(`${file}: not a customer master (expected version and accounts).`);
+  }
+  return parsed;
+}
+
+/**
+ * Part cross-reference as JSON (exported from the Catalog screen), XLSX or CSV; none means no
+ * historical matching. The CLI only reads it; it is learned from reviewer edits in the app.
+ */
+export async function loadCrossReferenceFile(file?: string): Promise<PartCrossReference | undefined> {
+  if (!file) return undefined;
+  if (/\.(xlsx|xls|csv)$/i.test(file)) {
+    const buf = await fs.readFile(file);
+    try {
+      return importCrossReferenceFromXlsx(buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength), EMPTY_CROSS_REFERENCE);
+    } catch (e: any) {
+      throw new Error(`${file}: ${e.message}`);
+    }
+  }
+  const parsed = await readJson(file);
+  if (!parsed?.version || !Array.isArray(parsed?.entries)) {
+    throw new Error(`${file}: not a part cross-reference (expected version and entries).`);
+  }
+  return parsed;
+}
+
+export async function loadFixtureSetFile(file?: string): Promise<ExtractionFixtureSet> {
+  if (!file) return EMPTY_FIXTURE_SET;
+  const parsed = await readJson(file);
+  if (!parsed?.fixtures || typeof parsed.fixtures !== "object") {
+    throw new Error(`${file}: expected an object with a 'fixtures' map.`);
+  }
+  return parsed;
+}
+
+/**
+ * Page classifier weights as exported from the Policy screen; none means rule-only triage.
+ */
+export async function loadPageClassifierFile(file?: string): Promise<PageClassifierModel | undefined> {
+  if (!file) return undefined;
+  try {
+    return parsePageClassifier(await readJson(file));
+  } catch (e: any) {
+    throw new Error(`${file}: ${e.message}`);
+  }
+}
+
+/**
+ * Spreadsheet column mappings as exported from the Extraction Engine screen; none means header synonyms only.
+ */
+export async function loadColumnMappingsFile(file?: string): Promise<ColumnMappingSet | undefined> {
+  if (!file) return undefined;
+  try {
+    return parseColumnMappings(await readJson(file));
+  } catch (e: any) {
+    throw new Error(`${file}: ${e.message}`);
+  }
+}
+
+/**
+ * X12 control numbers for generated 855 / 810 documents; a missing file starts at 1.
+ */
+export async function loadEdiControlFile(file: string): Promise<X12ControlNumbers> {
+  try {
+    await fs.access(file);
+  } catch {
+    return INITIAL_CONTROL_NUMBERS;
+  }
+  const parsed = await readJson(file);
+  if (![parsed?.interchange, parsed?.group, parsed?.transaction].every(n => Number.isInteger(n) && n > 0)) {
+    throw new Error(`${file}: expected positive integer interchange, group and transaction numbers.`);
+  }
+  return parsed;
+}
+
+// Write-then-rename so a crash never leaves truncated counters behind.
+export async function saveEdiControlFile(file: string, control: X12ControlNumbers): Promise<void> {
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(control, null, 2));
+  await fs.rename(tmp, file);
+}
+
+/**
+ * Provider from command-line flags; API keys come from the environment
+ * (GEMINI_API_KEY / API_KEY for Gemini, OPENAI_API_KEY for OpenAI-compatible servers).
+ */
+export function providerFromFlags(
+  flags: { provider?: string; model?: string; baseUrl?: string },
+  fixtureSet: ExtractionFixtureSet
+): ExtractionProvider {
+  const id = (flags.provider ?? "GEMINI").toUpperCase() as ExtractionProviderId;
+  if (!PROVIDER_DEFAULTS[id]) {
+    throw new Error(`Unknown provider "${flags.provider}". Expected one of ${Object.keys(PROVIDER_DEFAULTS).join(", ")}.`);
+  }
+  const apiKey = id === "GEMINI"
+    ? process.env.GEMINI_API_KEY || process.env.API_KEY
+    : process.env.OPENAI_API_KEY;
+
+  const settings: ExtractionSettings = {
+    provider: id,
+    model_id: flags.model,
+    base_url: flags.baseUrl,
+    api_key: apiKey,
+  };
+  return createExtractionProvider(settings, fixtureSet);
+}
+
+/**
+ * Supported documents (PDF, images, spreadsheets, X12 EDI, emails, archives) directly under `dir`, or below it when `recursive`.
+ */
+export async function listInputFiles(dir: string, recursive = false): Promise<string[]> {
+  const out: string[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  for (const e of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const full = path.join(dir, e.name);
+    if (e.isDirectory()) {
+      if (recursive) out.push(...(await listInputFiles(full, true)));
+    } else if (e.isFile() && mimeTypeForFilename(e.name)) {
+      out.push(full);
+    }
+  }
+  return out;
+}
+
+export async function readPipelineFile(file: string): Promise<PipelineFile> {
+  const mimeType = mimeTypeForFilename(file);
+  if (!mimeType) throw new Error(`${file}: unsupported file type.`);
+  const buf = await fs.readFile(file);
+  return { name: path.basename(file), mimeType, data: new Uint8Array(buf.buffer, buf.byteOffset, buf.byteLength) };
+}
+
+/**
+ * Writes `<stem>.xlsx` (control surface) and `<stem>.abh.po.v1.json` into `outDir`.
+ */
+export async function writeFileOutputs(
+  outDir: string,
+  stem: string,
+  rows: POLineRow[],
+  exports: POExportV1[]
+): Promise<{ xlsx: string; json: string }> {
+  await fs.mkdir(outDir, { recursive: true });
+  const xlsx = path.join(outDir, `${stem}.xlsx`);
+  const json = path.join(outDir, `${stem}.abh.po.v1.json`);
+
+  const blob = buildControlSurfaceWorkbook({ poLineRows: rows });
+  await fs.writeFile(xlsx, Buffer.from(await blob.arrayBuffer()));
+  await fs.writeFile(json, JSON.stringify(exports, null, 2));
+  return { xlsx, json };
+}
+
+/**
+ * Writes `<doc_id>-<sha8>.xlsx` and `<doc_id>-<sha8>.abh.po.v1.json` for every exported document,
+ * sha8 being the start of the source file's sha256: two files of the same PO (a resend, a
+ * correction) do not overwrite each other. Returns the paths.
+ */
+export async function writeDocOutputs(
+  outDir: string,
+  rows: POLineRow[],
+  exports: POExportV1[],
+  sourceSha256: string
+): Promise<string[]> {
+  await fs.mkdir(outDir, { recursive: true });
+  const written: string[] = [];
+  for (const exp of exports) {
+    const docId = exp.document.document_id;
+    const name = `${docId.replace(/[^\w.-]+/g, "_")}-${sourceSha256.slice(0, 8)}`;
+    const xlsx = path.join(outDir, `${name}.xlsx`);
+    const json = path.join(outDir, `${name}.abh.po.v1.json`);
+
+    const blob = buildControlSurfaceWorkbook({ poLineRows: rows.filter(r => r.doc_id === docId) });
+    await fs.writeFile(xlsx, Buffer.from(await blob.arrayBuffer()));
+    await fs.writeFile(json, JSON.stringify(exp, null, 2));
+    written.push(xlsx, json);
+  }
+  return written;
+}
@@ -0,0 +1,317 @@
+// cli/orderflow.ts
+// Headless entry point:
+//   orderflow parse <dir> --policy policy.json --refpack pack.json --out out/
+//   orderflow watch <inbox> --policy policy.json --refpack pack.json
+//   orderflow serve --port 8787 --policy policy.json --refpack pack.json
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { processFile, buildExportsForRows, fileStem, PipelineOptions } from "../services/pipeline.ts";
+import { nodePdfBackend } from "./pdfNode.ts";
+import { runWatch } from "./watchFolder.ts";
+import { createApiServer } from "./httpServer.ts";
+import {
+  loadPolicyFile,
+  loadReferencePackFile,
+  loadCustomerMasterFile,
+  loadCrossReferenceFile,
+  loadFixtureSetFile,
+  loadPageClassifierFile,
+  loadColumnMappingsFile,
+  loadEdiControlFile,
+  saveEdiControlFile,
+  providerFromFlags,
+  listInputFiles,
+  readPipelineFile,
+  writeFileOutputs,
+} from "./nodeRuntime.ts";
+
+const USAGE = `Usage:
+  orderflow parse <dir> [options]     Parse every PDF/image/spreadsheet/EDI/email/ZIP in <dir> once
+  orderflow watch <inbox> [options]   Hot folder: parse files as they arrive
+  orderflow serve [options]           Local HTTP API (POST /v1/parse, POST /v1/route, POST /v1/edi/855, ...)
+
+Common options:
+  --policy <file.json>          Control-surface policy (default: built-in policy)
+  --refpack <file.json|.xlsx>   Reference pack used for grounding and validation
+  --customers <file.json|.xlsx|.csv>
+                                Customer master: resolves customers to accounts, checks ship-tos
+  --xref <file.json|.xlsx|.csv> Part cross-reference: customer part -> ABH item (HISTORICAL_MATCH)
+  --out <dir>                   Output directory (default: <dir>/out)
+  --provider <id>               GEMINI | OPENAI | LOCAL_SERVER | FIXTURE_REPLAY (default: GEMINI)
+  --model <id>                  Model id override
+  --base-url <url>              Endpoint for OPENAI / LOCAL_SERVER
+  --fixtures <file.json>        Fixture set for FIXTURE_REPLAY
+  --classifier <file.json>      Page classifier weights exported from the Policy screen
+  --column-mappings <file.json> Spreadsheet column mappings exported from the Extraction Engine screen
+  --quiet                       Only print the per-file summary
+
+parse:
+  --recursive                   Include sub-directories
+  Writes <stem>.xlsx and <stem>.abh.po.v1.json per input file.
+
+watch:
+  --interval <seconds>          Poll interval (default: 5)
+  --ledger <file.json>          Processed-file ledger (default: <inbox>/.orderflow-ledger.json)
+  --once                        Process what is in the inbox now, then exit
+  --retry-failed                Re-process files whose ledger outcome is FAILED
+  Writes <doc_id>-<sha8>.xlsx and <doc_id>-<sha8>.abh.po.v1.json per document (<sha8>: start of the
+  source sha256) and moves each original to <inbox>/processed, <inbox>/quarantine or <inbox>/failed
+  by routing decision.
+
+serve:
+  --host <addr>                 Bind address (default: 127.0.0.1)
+  --port <n>                    Port (default: 8787)
+  --token <secret>              Require "Authorization: Bearer <secret>" (or ORDERFLOW_API_TOKEN)
+  --edi-control <file.json>     X12 control numbers for 855/810 output (default: .orderflow-edi-control.json)
+  Policy, reference pack, customer, cross-reference, classifier and column mapping files are re-read when they change on disk.
+
+No OCR: consecutive pages without a text layer (scans, TIFF faxes) are parsed as one document.
+
+API keys: GEMINI_API_KEY (or API_KEY), OPENAI_API_KEY.`;
+
+const PIPELINE_FLAGS = {
+  policy: { type: "string" },
+  refpack: { type: "string" },
+  customers: { type: "string" },
+  xref: { type: "string" },
+  out: { type: "string" },
+  provider: { type: "string" },
+  model: { type: "string" },
+  "base-url": { type: "string" },
+  fixtures: { type: "string" },
+  classifier: { type: "string" },
+  "column-mappings": { type: "string" },
+  quiet: { type: "boolean", default: false },
+} as const;
+
+async function pipelineFromFlags(values: {
+  policy?: string;
+  refpack?: string;
+  customers?: string;
+  xref?: string;
+  provider?: string;
+  model?: string;
+  "base-url"?: string;
+  fixtures?: string;
+  classifier?: string;
+  "column-mappings"?: string;
+  quiet?: boolean;
+}): Promise<PipelineOptions> {
+  const policy = await loadPolicyFile(values.policy);
+  const referencePack = await loadReferencePackFile(values.refpack);
+  const customerMaster = await loadCustomerMasterFile(values.customers);
+  const crossReference = await loadCrossReferenceFile(values.xref);
+  const fixtureSet = await loadFixtureSetFile(values.fixtures);
+  const pageClassifier = await loadPageClassifierFile(values.classifier);
+  const columnMappings = await loadColumnMappingsFile(values["column-mappings"]);
+  const provider = providerFromFlags({ provider: values.provider, model: values.model, baseUrl: values["base-url"] }, fixtureSet);
+  return {
+    policy,
+    referencePack,
+    customerMaster,
+    crossReference,
+    provider,
+    pdf: nodePdfBackend,
+    pageClassifier,
+    columnMappings,
+    onStatus: values.quiet ? undefined : (s) => console.log(`  ${s}`),
+  };
+}
+
+function describePipeline(opts: PipelineOptions): string {
+  const customers = opts.customerMaster ? ` | customers v${opts.customerMaster.version} (${opts.customerMaster.accounts.length})` : "";
+  const xref = opts.crossReference ? ` | xref v${opts.crossReference.version} (${opts.crossReference.entries.length})` : "";
+  return `provider ${opts.provider.id}:${opts.provider.modelId} | policy v${opts.policy.meta.version} | refpack v${opts.referencePack?.version ?? "-"}${customers}${xref}`;
+}
+
+async function runParse(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...PIPELINE_FLAGS,
+      recursive: { type: "boolean", default: false },
+    },
+  });
+
+  const dir = positionals[0];
+  if (!dir) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const outDir = values.out ?? path.join(dir, "out");
+  const pipeline = await pipelineFromFlags(values);
+  const { policy } = pipeline;
+
+  // Earlier outputs (control-surface .xlsx) are spreadsheets too; skip them on recursive runs.
+  const outPrefix = path.resolve(outDir) + path.sep;
+  const files = (await listInputFiles(dir, values.recursive)).filter(f => !path.resolve(f).startsWith(outPrefix));
+  if (files.length === 0) {
+    console.error(`No PDF, image, spreadsheet, EDI, email or ZIP files found in ${dir}.`);
+    return 1;
+  }
+
+  console.log(`OrderFlow: ${files.length} file(s) | ${describePipeline(pipeline)}`);
+
+  let failed = 0;
+  for (const file of files) {
+    const started = Date.now();
+    try {
+      const input = await readPipelineFile(file);
+      const { rows, auditEvents } = await processFile(input, pipeline);
+      const exports = buildExportsForRows(rows, policy, auditEvents);
+      const stem = fileStem(path.relative(dir, file)).split(path.sep).join("__");
+      const written = await writeFileOutputs(outDir, stem, rows, exports);
+
+      const review = rows.filter(r => r.automation_lane !== "AUTO").length;
+      console.log(`OK   ${file}: ${exports.length} doc(s), ${rows.length} line(s), ${review} not AUTO -> ${written.xlsx}, ${written.json} (${Date.now() - started} ms)`);
+    } catch (err: any) {
+      // One bad file must not abort the batch.
+      failed++;
+      console.error(`FAIL ${file}: ${err?.message || err}`);
+    }
+  }
+
+  console.log(`Done: ${files.length - failed} succeeded, ${failed} failed.`);
+  return failed ? 1 : 0;
+}
+
+async function runWatchCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...PIPELINE_FLAGS,
+      interval: { type: "string", default: "5" },
+      ledger: { type: "string" },
+      once: { type: "boolean", default: false },
+      "retry-failed": { type: "boolean", default: false },
+    },
+  });
+
+  const inbox = positionals[0];
+  const intervalSeconds = Number(values.interval);
+  if (!inbox || !Number.isFinite(intervalSeconds) || intervalSeconds <= 0) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const pipeline = await pipelineFromFlags(values);
+  console.log(`OrderFlow watch | ${describePipeline(pipeline)}`);
+
+  await runWatch({
+    inbox,
+    outDir: values.out ?? path.join(inbox, "out"),
+    ledgerPath: values.ledger ?? path.join(inbox, ".orderflow-ledger.json"),
+    intervalMs: intervalSeconds * 1000,
+    once: values.once,
+    retryFailed: values["retry-failed"],
+    pipeline,
+    log: (line) => console.log(`[${new Date().toISOString()}] ${line}`),
+  });
+  return 0;
+}
+
+/**
+ * Returns the pipeline, rebuilt whenever the policy / reference pack files' mtimes change.
+ */
+function reloadingPipeline(values: Parameters<typeof pipelineFromFlags>[0], log: (line: string) => void) {
+  let current: PipelineOptions | null = null;
+  let stamp = "";
+
+  const mtimes = async () => {
+    const files = [values.policy, values.refpack, values.customers, values.xref, values.classifier, values["column-mappings"]].filter((f): f is string => !!f);
+    const stats = await Promise.all(files.map(f => fs.stat(f).then(s => `${f}:${s.mtimeMs}`, () => `${f}:missing`)));
+    return stats.join("|");
+  };
+
+  return async (): Promise<PipelineOptions> => {
+    const next = await mtimes();
+    if (!current || next !== stamp) {
+      current = await pipelineFromFlags(values);
+      if (stamp) log(`Reloaded configuration | ${describePipeline(current)}`);
+      stamp = next;
+    }
+    return current;
+  };
+}
+
+async function runServe(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...PIPELINE_FLAGS,
+      host: { type: "string", default: "127.0.0.1" },
+      port: { type: "string", default: "8787" },
+      token: { type: "string" },
+      "edi-control": { type: "string", default: ".orderflow-edi-control.json" },
+    },
+  });
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port <= 0) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const log = (line: string) => console.log(`[${new Date().toISOString()}] ${line}`);
+  const loadPipeline = reloadingPipeline(values, log);
+  const pipeline = await loadPipeline();   // fail fast on bad config files
+
+  const ediControlFile = values["edi-control"];
+  await loadEdiControlFile(ediControlFile);   // fail fast on a corrupt counter file
+
+  const server = createApiServer({
+    loadPipeline,
+    token: values.token || process.env.ORDERFLOW_API_TOKEN,
+    ediControl: {
+      load: () => loadEdiControlFile(ediControlFile),
+      save: (next) => saveEdiControlFile(ediControlFile, next),
+    },
+    log,
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, values.host, () => resolve());
+  });
+  log(`OrderFlow API on http://${values.host}:${port} | ${describePipeline(pipeline)}`);
+
+  await new Promise<void>((resolve) => {
+    const stop = () => server.close(() => resolve());
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+  });
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  switch (command) {
+    case "parse":
+      return runParse(rest);
+    case "watch":
+      return runWatchCommand(rest);
+    case "serve":
+      return runServe(rest);
+    case undefined:
+    case "help":
+    case "--help":
+    case "-h":
+      console.log(USAGE);
+      return command ? 0 : 2;
+    default:
+      console.error(`Unknown command "${command}".\n\n${USAGE}`);
+      return 2;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err?.message || err);
+    process.exit(1);
+  }
+);
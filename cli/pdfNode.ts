@@ -0,0 +1,87 @@
+// cli/pdfNode.ts
+// Node PDF backend: pdf.js legacy build with its built-in @napi-rs/canvas factory (no DOM).
+import { createRequire } from "node:module";
+import path from "node:path";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { PdfBackend, RenderedPage } from "../services/pipeline.ts";
+import { PdfPageText, textItemBox } from "../services/lineEvidence.ts";
+import { inkCoverage } from "../services/pageMarks.ts";
+
+const require = createRequire(import.meta.url);
+const PDFJS_ROOT = path.dirname(require.resolve("pdfjs-dist/package.json"));
+const STANDARD_FONT_DATA_URL = path.join(PDFJS_ROOT, "standard_fonts") + path.sep;
+const CMAP_URL = path.join(PDFJS_ROOT, "cmaps") + path.sep;
+
+function openPdf(data: Uint8Array) {
+  return getDocument({
+    data: data.slice(),
+    verbosity: 0,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+    cMapUrl: CMAP_URL,
+    cMapPacked: true,
+  }).promise;
+}
+
+export async function extractPdfPageTextNode(data: Uint8Array): Promise<PdfPageText[]> {
+  const pdf = await openPdf(data);
+  const pages: PdfPageText[] = [];
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const items = (content.items || [])
+        .filter((it: any) => it.str)
+        .map((it: any) => ({ str: String(it.str), bbox: textItemBox(it.transform, it.width, viewport) }));
+      pages.push({ pageIndex: i - 1, text: items.map(it => it.str).join(" "), items });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+}
+
+/**
+ * Renders pages to PNG via pdf.js' NodeCanvasFactory (requires the optional @napi-rs/canvas dependency).
+ */
+export async function renderPdfPagesToPngBase64Node(
+  data: Uint8Array,
+  pageIndexes: number[],
+  scale = 2.0
+): Promise<RenderedPage[]> {
+  const pdf = await openPdf(data);
+  const canvasFactory = (pdf as any).canvasFactory;
+  const results: RenderedPage[] = [];
+
+  try {
+    for (const idx of pageIndexes) {
+      try {
+        const page = await pdf.getPage(idx + 1);
+        const viewport = page.getViewport({ scale });
+        const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+        await page.render({ canvasContext: context, viewport }).promise;
+
+        const png: Buffer = canvas.toBuffer("image/png");
+        const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+        results.push({
+          pageIndex: idx,
+          base64: png.toString("base64"),
+          mimeType: "image/png",
+          ink: inkCoverage(pixels.data, pixels.width, pixels.height),
+        });
+        canvasFactory.destroy({ canvas, context });
+      } catch (err) {
+        console.error(`Error rendering page ${idx + 1}:`, err);
+      }
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return results;
+}
+
+export const nodePdfBackend: PdfBackend = {
+  extractPageText: extractPdfPageTextNode,
+  renderPages: renderPdfPagesToPngBase64Node,
+};
@@ -0,0 +1,235 @@
+// cli/watchFolder.ts
+// Hot-folder mode: poll an inbox, run the pipeline on new files, write outputs per doc_id
+// and move each original to processed/, quarantine/ or failed/ based on the routing decision.
+import { promises as fs } from "node:fs";
+import { createHash } from "node:crypto";
+import path from "node:path";
+import { processFile, buildExportsForRows, PipelineOptions } from "../services/pipeline.ts";
+import { RoutingDecision } from "../services/abhSchema.ts";
+import { POLineRow } from "../types.ts";
+import { readPipelineFile, writeDocOutputs } from "./nodeRuntime.ts";
+
+export type WatchOutcome = "PROCESSED" | "QUARANTINE" | "FAILED";
+
+export type LedgerEntry = {
+  sha256: string;
+  filename: string;
+  outcome: WatchOutcome;
+  decision?: RoutingDecision;        // worst decision across the file's documents
+  doc_ids: string[];
+  outputs: string[];
+  moved_to?: string;
+  error?: string;
+  policy_version: string;
+  reference_version: string;
+  processed_at: string;              // ISO
+};
+
+export type WatchLedger = {
+  version: 1;
+  entries: Record<string, LedgerEntry>;   // keyed by file sha256
+};
+
+export type WatchOptions = {
+  inbox: string;
+  outDir: string;
+  ledgerPath: string;
+  intervalMs: number;
+  once: boolean;
+  retryFailed: boolean;
+  pipeline: PipelineOptions;
+  log: (line: string) => void;
+};
+
+export const OUTCOME_FOLDERS: Record<WatchOutcome, string> = {
+  PROCESSED: "processed",
+  QUARANTINE: "quarantine",
+  FAILED: "failed",
+};
+
+/**
+ * AUTO_STAGE and REVIEW continue through the normal control-surface flow; HUMAN_REQUIRED is held
+ * in quarantine; REJECTED (and anything the pipeline could not parse) lands in failed/.
+ */
+export const OUTCOME_FOR_DECISION: Record<RoutingDecision, WatchOutcome> = {
+  AUTO_STAGE: "PROCESSED",
+  REVIEW: "PROCESSED",
+  HUMAN_REQUIRED: "QUARANTINE",
+  REJECTED: "FAILED",
+};
+
+const DECISION_SEVERITY: RoutingDecision[] = ["AUTO_STAGE", "REVIEW", "HUMAN_REQUIRED", "REJECTED"];
+
+const EMPTY_LEDGER: WatchLedger = { version: 1, entries: {} };
+
+export async function loadLedger(file: string): Promise<WatchLedger> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(file, "utf8"));
+    if (parsed?.version !== 1 || typeof parsed.entries !== "object") {
+      throw new Error("unrecognised ledger format");
+    }
+    return parsed;
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return { ...EMPTY_LEDGER, entries: {} };
+    throw new Error(`${file}: ${e.message}`);
+  }
+}
+
+export async function saveLedger(file: string, ledger: WatchLedger): Promise<void> {
+  // Write-then-rename so a crash never leaves a truncated ledger behind.
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(ledger, null, 2));
+  await fs.rename(tmp, file);
+}
+
+export function worstDecision(decisions: RoutingDecision[]): RoutingDecision | undefined {
+  let worst: RoutingDecision | undefined;
+  for (const d of decisions) {
+    if (!worst || DECISION_SEVERITY.indexOf(d) > DECISION_SEVERITY.indexOf(worst)) worst = d;
+  }
+  return worst;
+}
+
+function outcomeForRows(rows: POLineRow[], decision: RoutingDecision | undefined): WatchOutcome {
+  if (!decision) return "FAILED";
+  if (rows.some(r => r.edge_case_flags.includes("PARSING_ERROR"))) return "FAILED";
+  return OUTCOME_FOR_DECISION[decision];
+}
+
+async function sha256File(file: string): Promise<string> {
+  return createHash("sha256").update(await fs.readFile(file)).digest("hex");
+}
+
+async function moveFile(src: string, destDir: string, sha256: string): Promise<string> {
+  await fs.mkdir(destDir, { recursive: true });
+  let dest = path.join(destDir, path.basename(src));
+  try {
+    await fs.access(dest);
+    const ext = path.extname(dest);
+    dest = path.join(destDir, `${path.basename(src, ext)}-${sha256.slice(0, 8)}${ext}`);
+  } catch {
+    // destination name is free
+  }
+  try {
+    await fs.rename(src, dest);
+  } catch (e: any) {
+    if (e?.code !== "EXDEV") throw e;
+    await fs.copyFile(src, dest);   // inbox and archive on different volumes
+    await fs.unlink(src);
+  }
+  return dest;
+}
+
+async function handleFile(file: string, sha256: string, opts: WatchOptions): Promise<LedgerEntry> {
+  const base = {
+    sha256,
+    filename: path.basename(file),
+    policy_version: opts.pipeline.policy.meta.version,
+    reference_version: opts.pipeline.referencePack?.version ?? "",
+  };
+
+  let entry: LedgerEntry;
+  try {
+    const { rows, auditEvents } = await processFile(await readPipelineFile(file), opts.pipeline);
+    const exports = buildExportsForRows(rows, opts.pipeline.policy, auditEvents);
+    const outputs = await writeDocOutputs(opts.outDir, rows, exports, sha256);
+    const decision = worstDecision(exports.map(e => e.routing.decision));
+    entry = {
+      ...base,
+      outcome: outcomeForRows(rows, decision),
+      decision,
+      doc_ids: exports.map(e => e.document.document_id),
+      outputs,
+      error: exports.length === 0 ? "No documents extracted" : undefined,
+      processed_at: new Date().toISOString(),
+    };
+  } catch (err: any) {
+    entry = {
+      ...base,
+      outcome: "FAILED",
+      doc_ids: [],
+      outputs: [],
+      error: err?.message || String(err),
+      processed_at: new Date().toISOString(),
+    };
+  }
+
+  try {
+    entry.moved_to = await moveFile(file, path.join(opts.inbox, OUTCOME_FOLDERS[entry.outcome]), sha256);
+  } catch (err: any) {
+    // Ledgered all the same: the next poll recognises the sha256 and only retries the move.
+    opts.log(`Could not move ${base.filename}: ${err?.message || String(err)}`);
+  }
+  return entry;
+}
+
+async function listInbox(inbox: string): Promise<string[]> {
+  const entries = await fs.readdir(inbox, { withFileTypes: true });
+  return entries
+    .filter(e => e.isFile() && !e.name.startsWith("."))
+    .map(e => path.join(inbox, e.name))
+    .sort();
+}
+
+/**
+ * Polls rather than using fs.watch: change notifications are unreliable on network shares,
+ * and polling lets us wait until a file's size/mtime is stable (copy finished) before reading it.
+ */
+export async function runWatch(opts: WatchOptions): Promise<void> {
+  const ledger = await loadLedger(opts.ledgerPath);
+  const lastSeen = new Map<string, string>();
+  let stopping = false;
+
+  const stop = () => {
+    if (!stopping) opts.log("Stopping after the current file...");
+    stopping = true;
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  opts.log(`Watching ${opts.inbox} (${Object.keys(ledger.entries).length} file(s) in ledger)`);
+
+  try {
+    while (!stopping) {
+      for (const file of await listInbox(opts.inbox)) {
+        if (stopping) break;
+
+        const stat = await fs.stat(file).catch(() => null);
+        if (!stat) continue;
+        const signature = `${stat.size}:${stat.mtimeMs}`;
+        if (!opts.once && lastSeen.get(file) !== signature) {
+          lastSeen.set(file, signature);   // still being written; look again next poll
+          continue;
+        }
+        lastSeen.delete(file);
+
+        // One bad file (vanished mid-poll, unreadable, unmovable) must not stop the watcher.
+        try {
+          const sha256 = await sha256File(file);
+          const known = ledger.entries[sha256];
+          if (known && !(opts.retryFailed && known.outcome === "FAILED")) {
+            const dest = await moveFile(file, path.join(opts.inbox, OUTCOME_FOLDERS[known.outcome]), sha256);
+            opts.log(`SKIP ${path.basename(file)}: already handled ${known.processed_at} (${known.outcome}) -> ${dest}`);
+            continue;
+          }
+
+          opts.log(`NEW  ${path.basename(file)} (${sha256.slice(0, 12)})`);
+          const entry = await handleFile(file, sha256, opts);
+          ledger.entries[sha256] = entry;
+          await saveLedger(opts.ledgerPath, ledger);
+
+          const detail = entry.error ? `: ${entry.error}` : ` [${entry.decision}] ${entry.doc_ids.join(", ")}`;
+          opts.log(`${entry.outcome.padEnd(10)} ${entry.filename}${detail} -> ${entry.moved_to ?? "left in inbox"}`);
+        } catch (err: any) {
+          opts.log(`ERROR ${path.basename(file)}: ${err?.message || String(err)}`);
+        }
+      }
+
+      if (opts.once) break;
+      await new Promise(r => setTimeout(r, opts.intervalMs));
+    }
+  } finally {
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+  }
+}
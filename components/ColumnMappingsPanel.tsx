@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ColumnMapping, ColumnMappingSet, TabularField } from "../extraction/extractionSettings.ts";
+import { saveColumnMappings } from "../extraction/extractionLocalStore.ts";
+import { TABULAR_FIELDS, TabularPo, parseColumnMappings, readSpreadsheetPo } from "../services/spreadsheetPo.ts";
+import { mimeTypeForFilename } from "../services/pipeline.ts";
+import { downloadJson } from "../services/jsonExport.ts";
+import { HeaderInfo } from "./SharedUI.tsx";
+
+type Props = {
+  mappings: ColumnMappingSet;
+  onChange: (next: ColumnMappingSet) => void;
+};
+
+const FIELD_LABELS: Record<TabularField, string> = {
+  line_no: "Line #",
+  customer_item_no: "Item / Part #",
+  description: "Description",
+  qty: "Quantity",
+  uom: "UOM",
+  unit_price: "Unit Price",
+  extended_price: "Extended Price",
+  manufacturer: "Manufacturer",
+  customer_order_no: "PO Number",
+};
+
+function newColumnMapping(from?: TabularPo): ColumnMapping {
+  return {
+    mapping_id: `CM-${Math.floor(Math.random() * 9000) + 1000}`,
+    customer_name: from?.customer_name ?? "",
+    match: [],
+    sheet: from?.sheet,
+    header_row: from?.header_row,
+    columns: { ...(from?.columns ?? {}) },
+  };
+}
+
+const splitList = (v: string) => v.split(/[\n,]/).map(x => x.trim()).filter(Boolean);
+
+export function ColumnMappingsPanel({ mappings, onChange }: Props) {
+  const [draft, setDraft] = useState<ColumnMappingSet>(mappings);
+  const [sample, setSample] = useState<{ filename: string; table: TabularPo | null } | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => setDraft(mappings), [mappings]);
+
+  function updateMapping(idx: number, patch: Partial<ColumnMapping>) {
+    setDraft({ ...draft, mappings: draft.mappings.map((m, i) => (i === idx ? { ...m, ...patch, updated_at: new Date().toISOString() } : m)) });
+  }
+
+  function handleSave() {
+    saveColumnMappings(draft);
+    onChange(draft);
+    alert(`Saved ${draft.mappings.length} column mapping(s).`);
+  }
+
+  async function detectSample(file: File) {
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      const table = readSpreadsheetPo({ name: file.name, mimeType: file.type || mimeTypeForFilename(file.name) || "", data });
+      setSample({ filename: file.name, table });
+    } catch (err: any) {
+      alert("Could not read spreadsheet: " + (err?.message || err));
+    }
+  }
+
+  async function importMappings(file: File) {
+    try {
+      const next = parseColumnMappings(JSON.parse(await file.text()));
+      if (!confirm(`Replace ${draft.mappings.length} local mapping(s) with ${next.mappings.length} imported?`)) return;
+      saveColumnMappings(next);
+      onChange(next);
+    } catch (err: any) {
+      alert(err?.message || "Could not read mapping file");
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-[2rem] shadow-2xl shadow-slate-200/50 border border-slate-200 overflow-hidden">
+      <div className="px-8 py-6 border-b border-slate-100 bg-slate-50/50 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-black text-slate-900 flex items-center gap-3">
+            <div className="bg-emerald-600 text-white w-8 h-8 rounded-xl flex items-center justify-center shadow-lg shadow-emerald-500/30">
+              <i className="fa-solid fa-table-columns text-sm"></i>
+            </div>
+            Spreadsheet Column Mappings
+            <HeaderInfo
+              title="Spreadsheet POs"
+              description="XLSX / XLS / CSV purchase orders are read as tables, without the model."
+              align="left"
+              details={[
+                "Columns are found by header synonyms (Qty, Part #, Unit Price, ...).",
+                "A saved mapping pins a customer's sheet, header row and column names.",
+                "Mappings are selected when a match string occurs in the filename or sender address.",
+                "Export the set for the CLI (--column-mappings).",
+              ]}
+            />
+          </h2>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            {draft.mappings.length} customer mapping(s) • sheets without a recognisable header row go to the model as CSV
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => downloadJson(`OrderFlow_ColumnMappings_${new Date().toISOString().slice(0, 10)}.json`, draft)}
+            disabled={draft.mappings.length === 0}
+            className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-100 disabled:opacity-50 transition-all"
+          >
+            <i className="fa-solid fa-download mr-2"></i>Export
+          </button>
+          <button
+            onClick={() => importRef.current?.click()}
+            className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-100 transition-all"
+          >
+            <i className="fa-solid fa-upload mr-2"></i>Import
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) importMappings(f); e.target.value = ""; }}
+          />
+          <button
+            onClick={() => setDraft({ ...draft, mappings: [...draft.mappings, newColumnMapping()] })}
+            className="px-4 py-2 bg-slate-100 text-slate-700 rounded-xl text-xs font-bold hover:bg-slate-200 transition-all"
+          >
+            <i className="fa-solid fa-plus mr-1"></i> Mapping
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-5 py-2.5 bg-slate-900 text-white rounded-xl text-xs font-bold hover:bg-emerald-600 transition-all shadow-xl active:scale-95 flex items-center gap-2"
+          >
+            <i className="fa-solid fa-floppy-disk"></i> Save Mappings
+          </button>
+        </div>
+      </div>
+
+      <div className="p-8 space-y-6">
+        <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <h4 className="text-sm font-bold text-slate-700 mr-auto">Detect Columns in a Sample</h4>
+            <input
+              type="file"
+              accept=".xlsx,.xls,.csv,text/csv"
+              onChange={(e) => { const f = e.target.files?.[0]; if (f) detectSample(f); }}
+              className="text-[11px] bg-white border border-slate-200 rounded-xl px-3 py-2"
+            />
+          </div>
+          {sample && !sample.table && (
+            <div className="text-xs font-bold text-rose-600">
+              No header row with a quantity and an item or description column in {sample.filename}.
+            </div>
+          )}
+          {sample?.table && (
+            <div className="space-y-3">
+              <div className="text-[10px] font-bold text-slate-500">
+                {sample.filename}: sheet "{sample.table.sheet}", header row {sample.table.header_row}, {sample.table.lines.length} line(s)
+                {sample.table.customer_order_no ? ` • PO ${sample.table.customer_order_no}` : ""}
+                {sample.table.skipped_rows ? ` • ${sample.table.skipped_rows} row(s) skipped` : ""}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {TABULAR_FIELDS.map(f => (
+                  <span
+                    key={f}
+                    className={`px-2 py-1 rounded-lg border text-[10px] font-bold ${sample.table!.columns[f] ? "bg-emerald-50 text-emerald-700 border-emerald-100" : "bg-white text-slate-400 border-slate-200"}`}
+                  >
+                    {FIELD_LABELS[f]}: {sample.table!.columns[f] ?? "—"}
+                  </span>
+                ))}
+              </div>
+              <button
+                onClick={() => setDraft({ ...draft, mappings: [...draft.mappings, newColumnMapping(sample.table!)] })}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-xl text-xs font-bold hover:bg-emerald-700 transition-all shadow-lg"
+              >
+                Create Mapping from Sample
+              </button>
+            </div>
+          )}
+        </div>
+
+        {draft.mappings.map((m, idx) => (
+          <div key={idx} className="p-6 rounded-3xl border border-slate-100 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Mapping Id</label>
+                <input
+                  value={m.mapping_id}
+                  onChange={(e) => updateMapping(idx, { mapping_id: e.target.value.toUpperCase().replace(/\s+/g, "_") })}
+                  className="w-full text-[11px] font-mono font-bold border border-slate-100 rounded-lg px-2 py-1.5 bg-slate-50/50"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Customer</label>
+                <input
+                  value={m.customer_name}
+                  onChange={(e) => updateMapping(idx, { customer_name: e.target.value })}
+                  className="w-full text-[11px] border border-slate-100 rounded-lg px-2 py-1.5 bg-slate-50/50"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Match (filename / sender)</label>
+                <input
+                  value={m.match.join(", ")}
+                  onChange={(e) => updateMapping(idx, { match: splitList(e.target.value) })}
+                  placeholder="e.g. acme.com, ACME_PO_"
+                  className="w-full text-[11px] font-mono border border-slate-100 rounded-lg px-2 py-1.5 bg-slate-50/50"
+                />
+              </div>
+              <div className="flex gap-2">
+                <div className="flex-grow">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Sheet / Row</label>
+                  <div className="flex gap-1">
+                    <input
+                      value={m.sheet ?? ""}
+                      onChange={(e) => updateMapping(idx, { sheet: e.target.value || undefined })}
+                      placeholder="Any"
+                      className="w-full text-[11px] border border-slate-100 rounded-lg px-2 py-1.5 bg-slate-50/50"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      value={m.header_row ?? ""}
+                      onChange={(e) => updateMapping(idx, { header_row: e.target.value ? Number(e.target.value) : undefined })}
+                      placeholder="Auto"
+                      className="w-16 text-[11px] border border-slate-100 rounded-lg px-2 py-1.5 bg-slate-50/50 text-center"
+                    />
+                  </div>
+                </div>
+                <button
+                  onClick={() => setDraft({ ...draft, mappings: draft.mappings.filter((_, i) => i !== idx) })}
+                  className="self-end p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-xl transition-all"
+                  title="Delete Mapping"
+                >
+                  <i className="fa-solid fa-trash-can"></i>
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+              {TABULAR_FIELDS.map(f => (
+                <div key={f}>
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">{FIELD_LABELS[f]}</label>
+                  <input
+                    value={m.columns[f] ?? ""}
+                    onChange={(e) => updateMapping(idx, { columns: { ...m.columns, [f]: e.target.value || undefined } })}
+                    placeholder="Synonyms"
+                    className="w-full text-[11px] border border-slate-100 rounded-lg px-2 py-1.5 bg-slate-50/50"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
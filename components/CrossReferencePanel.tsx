@@ -0,0 +1,135 @@
+import React, { useRef } from "react";
+import { PartCrossReference } from "../partCrossReference.schema.ts";
+import { saveCrossReference, clearCrossReference, EMPTY_CROSS_REFERENCE } from "../reference/crossReferenceLocalStore.ts";
+import { exportCrossReferenceToXlsx, importCrossReferenceFromXlsx } from "../services/crossReferenceXlsx.ts";
+import { downloadJson } from "../services/jsonExport.ts";
+import { HeaderInfo } from "./SharedUI.tsx";
+
+type Props = {
+  crossReference: PartCrossReference;
+  onChange: (next: PartCrossReference) => void;
+};
+
+export function CrossReferencePanel({ crossReference, onChange }: Props) {
+  const importRef = useRef<HTMLInputElement>(null);
+  const entries = [...crossReference.entries].sort((a, b) => b.last_confirmed_at.localeCompare(a.last_confirmed_at));
+
+  async function handleImport(file: File) {
+    try {
+      const next = importCrossReferenceFromXlsx(await file.arrayBuffer(), crossReference);
+      const added = next.entries.length - crossReference.entries.length;
+      if (!confirm(`Merge into ${crossReference.entries.length} cross-reference(s): ${added} new (v${next.version})?`)) return;
+      saveCrossReference(next);
+      onChange(next);
+    } catch (err: any) {
+      alert(`Import failed: ${err?.message || err}`);
+    }
+  }
+
+  function handleExport() {
+    const blob = exportCrossReferenceToXlsx(crossReference);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `OrderFlow_CrossReference_v${crossReference.version}.xlsx`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function handleReset() {
+    if (confirm("Clear the part cross-reference? Reviewer-confirmed ABH items will be forgotten.")) {
+      clearCrossReference();
+      onChange(EMPTY_CROSS_REFERENCE);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-[2rem] shadow-2xl shadow-slate-200/50 border border-slate-200 overflow-hidden">
+      <div className="px-8 py-6 border-b border-slate-100 bg-slate-50/50 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-black text-slate-900 flex items-center gap-3">
+            <div className="bg-violet-600 text-white w-8 h-8 rounded-xl flex items-center justify-center shadow-lg shadow-violet-500/30">
+              <i className="fa-solid fa-right-left text-sm"></i>
+            </div>
+            Part Cross-Reference
+            <HeaderInfo
+              title="Historical Matching"
+              description="Customer part numbers mapped to ABH items, per customer account."
+              align="left"
+              details={[
+                "Learned whenever a reviewer enters or corrects the ABH item # in the work queue.",
+                "Matching lines get that ABH item as the candidate and a HISTORICAL_MATCH signal.",
+                "Each confirmation adds a use; a different ABH item replaces the old mapping.",
+                "Import XLSX / CSV (account, customer part, ABH item); export the JSON for the CLI (--xref).",
+              ]}
+            />
+          </h2>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            Version <span className="font-bold text-violet-600">{crossReference.version}</span> •
+            {" "}{crossReference.entries.length} mapping(s)
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleExport}
+            disabled={crossReference.entries.length === 0}
+            className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-100 disabled:opacity-50 transition-all"
+          >
+            <i className="fa-solid fa-file-excel mr-2"></i>XLSX
+          </button>
+          <button
+            onClick={() => downloadJson(`OrderFlow_CrossReference_v${crossReference.version}.json`, crossReference)}
+            disabled={crossReference.entries.length === 0}
+            className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-100 disabled:opacity-50 transition-all"
+          >
+            <i className="fa-solid fa-download mr-2"></i>JSON
+          </button>
+          <button
+            onClick={() => importRef.current?.click()}
+            className="px-4 py-2 bg-violet-600 text-white rounded-xl text-xs font-bold hover:bg-violet-700 transition-all shadow-lg"
+          >
+            <i className="fa-solid fa-upload mr-2"></i>Import
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".xlsx,.xls,.csv,text/csv"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) handleImport(f); e.target.value = ""; }}
+          />
+          <button onClick={handleReset} className="px-4 py-2.5 text-rose-500 hover:bg-rose-50 rounded-xl text-xs font-bold transition-all">
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-[400px] overflow-y-auto p-2">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-100/50">
+              {["Account", "Customer Part", "ABH Item", "Uses", "Last Confirmed", "Source"].map(h => (
+                <th key={h} className="px-4 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-200">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {entries.length > 0 ? (
+              entries.map(e => (
+                <tr key={`${e.account_id}|${e.customer_item_no}`} className="hover:bg-slate-50/50">
+                  <td className="px-4 py-3 text-xs font-mono font-bold text-violet-600">{e.account_id}</td>
+                  <td className="px-4 py-3 text-xs font-mono text-slate-700">{e.customer_item_no}</td>
+                  <td className="px-4 py-3 text-xs font-mono font-bold text-blue-700">{e.abh_item_no}</td>
+                  <td className="px-4 py-3 text-xs text-slate-600">{e.uses}</td>
+                  <td className="px-4 py-3 text-[10px] text-slate-500">{e.last_confirmed_at.slice(0, 10)}</td>
+                  <td className="px-4 py-3 text-[10px] font-bold text-slate-400">{e.source}</td>
+                </tr>
+              ))
+            ) : (
+              <tr><td colSpan={6} className="px-4 py-10 text-center text-slate-400 text-xs italic">No cross-references yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
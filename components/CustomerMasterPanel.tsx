@@ -0,0 +1,146 @@
+import React, { useRef } from "react";
+import { CustomerMaster } from "../customerMaster.schema.ts";
+import { saveCustomerMaster, clearCustomerMaster, EMPTY_CUSTOMER_MASTER } from "../reference/customerLocalStore.ts";
+import { exportCustomerMasterToXlsx, importCustomerMasterFromXlsx } from "../services/customerMasterXlsx.ts";
+import { downloadJson } from "../services/jsonExport.ts";
+import { formatAddress } from "../services/addressNormalize.ts";
+import { HeaderInfo } from "./SharedUI.tsx";
+
+type Props = {
+  customerMaster: CustomerMaster;
+  onChange: (next: CustomerMaster) => void;
+};
+
+export function CustomerMasterPanel({ customerMaster, onChange }: Props) {
+  const importRef = useRef<HTMLInputElement>(null);
+  const shipToCount = customerMaster.accounts.reduce((n, a) => n + a.ship_tos.length, 0);
+
+  async function handleImport(file: File) {
+    try {
+      const next = importCustomerMasterFromXlsx(await file.arrayBuffer(), customerMaster);
+      if (!confirm(`Replace ${customerMaster.accounts.length} account(s) with ${next.accounts.length} imported (v${next.version})?`)) return;
+      saveCustomerMaster(next);
+      onChange(next);
+    } catch (err: any) {
+      alert(`Import failed: ${err?.message || err}`);
+    }
+  }
+
+  function handleExport() {
+    const blob = exportCustomerMasterToXlsx(customerMaster);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `OrderFlow_Customers_v${customerMaster.version}.xlsx`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function handleReset() {
+    if (confirm("Clear the customer master? Documents will no longer be resolved to accounts.")) {
+      clearCustomerMaster();
+      onChange(EMPTY_CUSTOMER_MASTER);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-[2rem] shadow-2xl shadow-slate-200/50 border border-slate-200 overflow-hidden">
+      <div className="px-8 py-6 border-b border-slate-100 bg-slate-50/50 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-black text-slate-900 flex items-center gap-3">
+            <div className="bg-sky-600 text-white w-8 h-8 rounded-xl flex items-center justify-center shadow-lg shadow-sky-500/30">
+              <i className="fa-solid fa-address-book text-sm"></i>
+            </div>
+            Customer Master
+            <HeaderInfo
+              title="Account Resolution"
+              description="Each document's customer is resolved to an account before policy routing."
+              align="left"
+              details={[
+                "Matched by printed account number, name or alias (typo-tolerant) and the sender's email domain.",
+                "Below a 0.80 match score the lines are flagged UNKNOWN_CUSTOMER.",
+                "A ship-to that matches none of the account's addresses is flagged UNKNOWN_SHIP_TO.",
+                "Import XLSX (Customers + ShipTos sheets) or CSV; export the JSON for the CLI (--customers).",
+              ]}
+            />
+          </h2>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            Version <span className="font-bold text-sky-600">{customerMaster.version}</span> •
+            {" "}{customerMaster.accounts.length} account(s) • {shipToCount} ship-to address(es)
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleExport}
+            disabled={customerMaster.accounts.length === 0}
+            className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-100 disabled:opacity-50 transition-all"
+          >
+            <i className="fa-solid fa-file-excel mr-2"></i>XLSX
+          </button>
+          <button
+            onClick={() => downloadJson(`OrderFlow_Customers_v${customerMaster.version}.json`, customerMaster)}
+            disabled={customerMaster.accounts.length === 0}
+            className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-100 disabled:opacity-50 transition-all"
+          >
+            <i className="fa-solid fa-download mr-2"></i>JSON
+          </button>
+          <button
+            onClick={() => importRef.current?.click()}
+            className="px-4 py-2 bg-sky-600 text-white rounded-xl text-xs font-bold hover:bg-sky-700 transition-all shadow-lg"
+          >
+            <i className="fa-solid fa-upload mr-2"></i>Import
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".xlsx,.xls,.csv,text/csv"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) handleImport(f); e.target.value = ""; }}
+          />
+          <button onClick={handleReset} className="px-4 py-2.5 text-rose-500 hover:bg-rose-50 rounded-xl text-xs font-bold transition-all">
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-[400px] overflow-y-auto p-2">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-100/50">
+              {["Account", "Name / Aliases", "Email Domains", "Terms", "Ship-To Addresses"].map(h => (
+                <th key={h} className="px-4 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-200">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {customerMaster.accounts.length > 0 ? (
+              customerMaster.accounts.map(a => (
+                <tr key={a.account_id} className="hover:bg-slate-50/50 align-top">
+                  <td className="px-4 py-3 text-xs font-mono font-bold text-sky-600">{a.account_id}</td>
+                  <td className="px-4 py-3">
+                    <div className="text-xs font-bold text-slate-700">{a.name}</div>
+                    {a.aliases.length > 0 && <div className="text-[10px] text-slate-400">{a.aliases.join(", ")}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-[10px] font-mono text-slate-500">{a.email_domains.join(", ") || "---"}</td>
+                  <td className="px-4 py-3 text-xs text-slate-600">{a.default_terms || "---"}</td>
+                  <td className="px-4 py-3 text-[10px] text-slate-500 space-y-1">
+                    {a.ship_tos.length > 0
+                      ? a.ship_tos.map(s => (
+                          <div key={s.ship_to_id}>
+                            <span className="font-mono font-bold text-slate-600">{s.ship_to_id}</span>{" "}
+                            {[s.address.name, formatAddress(s.address)].filter(Boolean).join(", ")}
+                          </div>
+                        ))
+                      : "---"}
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr><td colSpan={5} className="px-4 py-10 text-center text-slate-400 text-xs italic">No customers imported yet.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { POLineRow } from '../types.ts';
+import { POLineRow, ReviewStatus } from '../types.ts';
 
 interface DataTableProps {
   data: POLineRow[];
@@ -12,9 +12,11 @@ interface DataTableProps {
     before: any;
     after: any;
   }) => void;
+  selectedIndex?: number;
+  onSelect?: (index: number) => void;   // opens the row in the source viewer
 }
 
-const DataTable: React.FC<DataTableProps> = ({ data, onDelete, onUpdate, onHumanOverride }) => {
+const DataTable: React.FC<DataTableProps> = ({ data, onDelete, onUpdate, onHumanOverride, selectedIndex, onSelect }) => {
   if (data.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-32 bg-white border-2 border-dashed border-slate-200 rounded-[2rem]">
@@ -37,6 +39,27 @@ const DataTable: React.FC<DataTableProps> = ({ data, onDelete, onUpdate, onHuman
     }
   };
 
+  const getReviewBadge = (status: ReviewStatus) => {
+    switch (status) {
+      case 'APPROVED': return 'bg-emerald-50 text-emerald-700 border-emerald-200';
+      case 'REJECTED': return 'bg-rose-50 text-rose-700 border-rose-200';
+      default: return 'bg-slate-50 text-slate-500 border-slate-200';
+    }
+  };
+
+  const handleReviewChange = (idx: number, status: ReviewStatus) => {
+    const before = data[idx].review_status ?? 'PENDING';
+    if (before === status) return;
+    onUpdate(idx, { review_status: status, review_timestamp: new Date().toISOString() });
+    onHumanOverride?.({
+      doc_id: data[idx].doc_id,
+      line_no: data[idx].line_no,
+      field: 'review_status',
+      before,
+      after: status,
+    });
+  };
+
   const handleCellBlur = (idx: number, field: keyof POLineRow, value: string) => {
     let parsedValue: any = value;
     if (field === 'qty' || field === 'unit_price' || field === 'extended_price') {
@@ -71,13 +94,17 @@ const DataTable: React.FC<DataTableProps> = ({ data, onDelete, onUpdate, onHuman
               <th className="w-24 px-4 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-widest">Finish</th>
               <th className="w-20 px-4 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-widest text-right">Qty</th>
               <th className="w-24 px-4 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-widest text-right">Extended</th>
-              <th className="w-16 px-4 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-widest text-center">Action</th>
+              <th className="w-28 px-4 py-4 text-[10px] font-bold text-slate-500 uppercase tracking-widest text-center">Review</th>
             </tr>
           </thead>
 
           <tbody className="bg-white divide-y divide-slate-100">
             {data.map((row, idx) => (
-              <tr key={idx} className="hover:bg-slate-50/50 transition-colors group divide-x divide-slate-100">
+              <tr
+                key={idx}
+                onClick={() => onSelect?.(idx)}
+                className={`transition-colors group divide-x divide-slate-100 ${onSelect ? 'cursor-pointer' : ''} ${selectedIndex === idx ? 'bg-indigo-50/60' : 'hover:bg-slate-50/50'}`}
+              >
                 <td className="px-4 py-3">
                   <div className="space-y-1">
                     <span className={`block px-2 py-0.5 rounded-lg border text-[9px] font-black text-center ${getLaneBadge(row.automation_lane)}`}>
@@ -104,10 +131,26 @@ const DataTable: React.FC<DataTableProps> = ({ data, onDelete, onUpdate, onHuman
                         )}
                       </div>
                     )}
+
+                    {row.sage_blockers && row.sage_blockers.length > 0 && (
+                      <div
+                        className="px-1.5 py-1 rounded-md bg-rose-50 border border-rose-100 text-rose-700 text-[8px] font-black leading-tight cursor-help"
+                        title={row.sage_blockers.join("\n")}
+                      >
+                        <i className="fa-solid fa-ban mr-1"></i>
+                        {row.sage_blockers.length} BLOCKER{row.sage_blockers.length > 1 ? 'S' : ''}
+                        <div className="font-mono font-bold text-rose-600/80 mt-0.5 break-all line-clamp-2">{row.sage_blockers[0]}</div>
+                      </div>
+                    )}
                   </div>
                 </td>
 
-                <td className="px-4 py-3 text-xs font-bold text-slate-900 truncate">{row.doc_id}</td>
+                <td className="px-4 py-3 text-xs font-bold text-slate-900 truncate">
+                  {row.evidence?.bbox && (
+                    <i className="fa-solid fa-crosshairs text-indigo-400 mr-1.5" title={`Located on page ${row.evidence.page + 1}`}></i>
+                  )}
+                  {row.doc_id}
+                </td>
 
                 <td className="px-4 py-3">
                   <div className="text-[11px] text-slate-700 font-medium line-clamp-2 leading-snug">{row.customer_item_desc_raw}</div>
@@ -116,13 +159,19 @@ const DataTable: React.FC<DataTableProps> = ({ data, onDelete, onUpdate, onHuman
                 <td className="px-4 py-3">
                   <input
                     defaultValue={row.abh_item_no_final || row.abh_item_no_candidate || ''}
-                    onBlur={(e) => handleCellBlur(idx, 'abh_item_no_final', e.target.value)}
+                    // Only an edit counts: tabbing past the pre-filled candidate is not a confirmation.
+                    onBlur={(e) => { if (e.target.value !== e.target.defaultValue) handleCellBlur(idx, 'abh_item_no_final', e.target.value); }}
                     className="w-full text-[11px] font-mono font-black text-blue-700 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-400/30"
                     placeholder="ABH item #"
                   />
                   <div className="mt-1 text-[9px] font-bold text-slate-400">
                     cand: {row.abh_item_no_candidate || '---'}
                   </div>
+                  {row.abh_item_no_replacement && (
+                    <div className="text-[9px] font-bold text-amber-600">
+                      repl: {row.abh_item_no_replacement}
+                    </div>
+                  )}
                 </td>
 
                 <td className="px-4 py-3 text-xs text-slate-600">{row.manufacturer || '---'}</td>
@@ -144,9 +193,21 @@ const DataTable: React.FC<DataTableProps> = ({ data, onDelete, onUpdate, onHuman
                 </td>
 
                 <td className="px-4 py-3 text-center">
-                  <button onClick={() => onDelete(idx)} className="p-1.5 text-slate-300 hover:text-rose-500 rounded-lg transition-all">
-                    <i className="fa-solid fa-trash-can text-xs"></i>
-                  </button>
+                  <div className="flex items-center justify-center gap-1">
+                    <select
+                      value={row.review_status ?? 'PENDING'}
+                      onChange={(e) => handleReviewChange(idx, e.target.value as ReviewStatus)}
+                      title={row.review_timestamp ? `Reviewed ${new Date(row.review_timestamp).toLocaleString()}` : 'Not reviewed yet'}
+                      className={`w-20 text-[9px] font-black border rounded-lg px-1 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-400/30 ${getReviewBadge(row.review_status ?? 'PENDING')}`}
+                    >
+                      <option value="PENDING">PENDING</option>
+                      <option value="APPROVED">APPROVED</option>
+                      <option value="REJECTED">REJECTED</option>
+                    </select>
+                    <button onClick={(e) => { e.stopPropagation(); onDelete(idx); }} className="p-1.5 text-slate-300 hover:text-rose-500 rounded-lg transition-all">
+                      <i className="fa-solid fa-trash-can text-xs"></i>
+                    </button>
+                  </div>
                 </td>
               </tr>
             ))}
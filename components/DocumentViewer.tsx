@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { POLineRow } from '../types.ts';
+import { BoundingBox } from '../services/abhSchema.ts';
+import { WorkQueueStore } from '../services/workQueueStore.ts';
+import { RenderedPage } from '../services/pipeline.ts';
+import { renderPdfPagesToPngBase64 } from '../services/pdfRender.ts';
+
+type Props = {
+  store: WorkQueueStore;
+  row: POLineRow;
+  onClose: () => void;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  customer_item_no: 'Part',
+  description: 'Desc',
+  quantity: 'Qty',
+  unit_price: 'Price',
+  extended_price: 'Ext',
+};
+
+const boxStyle = (b: BoundingBox): React.CSSProperties => ({
+  left: `${b.x * 100}%`,
+  top: `${b.y * 100}%`,
+  width: `${b.w * 100}%`,
+  height: `${b.h * 100}%`,
+});
+
+const DocumentViewer: React.FC<Props> = ({ store, row, onClose }) => {
+  const [pages, setPages] = useState<RenderedPage[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const highlightRef = useRef<HTMLDivElement | null>(null);
+
+  // Page images are stored with the queue; older entries are re-rendered from the source PDF.
+  useEffect(() => {
+    let cancelled = false;
+    setPages(null);
+    setError(null);
+
+    (async () => {
+      const doc = await store.getDocument(row.doc_id);
+      if (!doc) throw new Error('Source document is not in the work queue.');
+      if (doc.page_images.length > 0) return doc.page_images;
+
+      const source = await store.getSource(doc.source_sha256);
+      if (!source || source.mime_type !== 'application/pdf') throw new Error('No page images stored for this document.');
+      const data = new Uint8Array(await source.blob.arrayBuffer());
+      return renderPdfPagesToPngBase64(data, doc.source_pages ?? row.source_pages ?? [0], 1.5);
+    })()
+      .then(p => { if (!cancelled) setPages(p); })
+      .catch((err: any) => { if (!cancelled) setError(err?.message || 'Viewer unavailable'); });
+
+    return () => { cancelled = true; };
+  }, [store, row.doc_id]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [pages, row]);
+
+  const evidence = row.evidence;
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl shadow-slate-200/40 border border-slate-200 overflow-hidden flex flex-col h-[75vh] sticky top-24">
+      <div className="px-5 py-3 border-b border-slate-200 flex items-center justify-between shrink-0">
+        <div className="min-w-0">
+          <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">Source • Line {row.line_no}</div>
+          <div className="text-sm font-black text-slate-900 truncate">{row.doc_id}</div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`px-2 py-0.5 rounded-lg border text-[9px] font-black ${evidence?.bbox ? 'bg-indigo-50 text-indigo-700 border-indigo-100' : 'bg-slate-50 text-slate-500 border-slate-200'}`}>
+            {!evidence?.bbox ? 'NOT LOCATED' : evidence.source === 'MODEL' ? 'MODEL BOX' : 'TEXT MATCH'}
+          </span>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-lg transition-all">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto bg-slate-100 p-4 space-y-4">
+        {error && <div className="text-xs font-bold text-rose-600">{error}</div>}
+        {pages === null && !error && <div className="text-xs text-slate-400 font-medium">Loading pages...</div>}
+        {pages?.map(page => {
+          const fieldBoxes = (evidence?.fields ?? []).filter(f => (f.page ?? evidence?.page) === page.pageIndex);
+          const lineOnPage = evidence?.bbox && evidence.page === page.pageIndex;
+          return (
+            <div key={page.pageIndex} className="relative bg-white shadow-sm">
+              <img src={`data:${page.mimeType};base64,${page.base64}`} alt={`Page ${page.pageIndex + 1}`} className="w-full block" />
+              {lineOnPage && (
+                <div
+                  ref={highlightRef}
+                  className="absolute border-2 border-indigo-500 bg-indigo-400/15 rounded-sm pointer-events-none"
+                  style={boxStyle(evidence!.bbox!)}
+                />
+              )}
+              {fieldBoxes.map((f, i) => (
+                <div
+                  key={i}
+                  ref={lineOnPage ? undefined : (i === 0 ? highlightRef : undefined)}
+                  className="absolute border border-amber-500 bg-amber-300/20 rounded-sm pointer-events-none"
+                  style={boxStyle(f.bbox)}
+                >
+                  <span className="absolute -top-4 left-0 px-1 rounded bg-amber-500 text-white text-[8px] font-black leading-4">
+                    {FIELD_LABELS[f.field] ?? f.field}
+                  </span>
+                </div>
+              ))}
+              <div className="absolute bottom-1 right-2 text-[9px] font-black text-slate-400">p.{page.pageIndex + 1}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentViewer;
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from "react";
+import {
+  ExtractionSettings,
+  ExtractionFixtureSet,
+  ExtractionProviderId,
+  PROVIDER_DEFAULTS,
+  EMPTY_FIXTURE_SET,
+} from "../extraction/extractionSettings.ts";
+import { saveExtractionSettings, saveFixtureSet, clearFixtureSet } from "../extraction/extractionLocalStore.ts";
+import { downloadJson } from "../services/jsonExport.ts";
+import { ResponseCacheMode, ResponseCacheStore, RESPONSE_CACHE_MODES } from "../services/responseCache.ts";
+
+type Props = {
+  settings: ExtractionSettings;
+  onSettingsChange: (s: ExtractionSettings) => void;
+  fixtureSet: ExtractionFixtureSet;
+  onFixtureSetChange: (f: ExtractionFixtureSet) => void;
+  cacheStore: ResponseCacheStore;
+};
+
+const CACHE_MODE_HINTS: Record<ResponseCacheMode, string> = {
+  OFF: "Every parse calls the model.",
+  READ_THROUGH: "Reuse recorded responses; call the model and record on a miss.",
+  RECORD_ONLY: "Always call the model and overwrite recorded responses.",
+  REPLAY_ONLY: "Only recorded responses; a miss fails the segment (no model spend).",
+};
+
+const PROVIDER_ICONS: Record<ExtractionProviderId, string> = {
+  GEMINI: "fa-wand-magic-sparkles",
+  OPENAI: "fa-robot",
+  LOCAL_SERVER: "fa-server",
+  FIXTURE_REPLAY: "fa-tape",
+};
+
+export function ExtractionSettingsPanel({ settings, onSettingsChange, fixtureSet, onFixtureSetChange, cacheStore }: Props) {
+  const [draft, setDraft] = useState<ExtractionSettings>(settings);
+  const [fixtureFile, setFixtureFile] = useState<File | null>(null);
+  const [cacheCount, setCacheCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    cacheStore.count().then(setCacheCount).catch(() => setCacheCount(null));
+  }, [cacheStore]);
+
+  const defaults = PROVIDER_DEFAULTS[draft.provider];
+  const needsEndpoint = draft.provider === "OPENAI" || draft.provider === "LOCAL_SERVER";
+  const fixtureCount = Object.keys(fixtureSet.fixtures || {}).length;
+
+  function handleSave() {
+    saveExtractionSettings(draft);
+    onSettingsChange(draft);
+    alert(`Extraction provider set to ${defaults.label}.`);
+  }
+
+  async function handleImportFixtures() {
+    if (!fixtureFile) return alert("Select a fixture JSON file first.");
+    try {
+      const parsed = JSON.parse(await fixtureFile.text());
+      if (!parsed.fixtures || typeof parsed.fixtures !== "object") {
+        throw new Error("Expected an object with a 'fixtures' map.");
+      }
+      const merged: ExtractionFixtureSet = {
+        ...fixtureSet,
+        fixtures: { ...fixtureSet.fixtures, ...parsed.fixtures },
+      };
+      saveFixtureSet(merged);
+      onFixtureSetChange(merged);
+      alert(`Imported ${Object.keys(parsed.fixtures).length} fixtures.`);
+    } catch (err: any) {
+      alert("Fixture import failed: " + err.message);
+    }
+  }
+
+  async function handleClearCache() {
+    if (!confirm("Delete all recorded model responses?")) return;
+    try {
+      await cacheStore.clear();
+      setCacheCount(0);
+    } catch (err: any) {
+      alert("Cache clear failed: " + err.message);
+    }
+  }
+
+  function handleClearFixtures() {
+    if (confirm("Remove all recorded fixtures?")) {
+      clearFixtureSet();
+      onFixtureSetChange(EMPTY_FIXTURE_SET);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-[2rem] shadow-2xl shadow-slate-200/50 border border-slate-200 overflow-hidden">
+      <div className="px-8 py-6 border-b border-slate-100 bg-slate-50/50 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-black text-slate-900 flex items-center gap-3">
+            <div className="bg-violet-600 text-white w-8 h-8 rounded-xl flex items-center justify-center shadow-lg shadow-violet-500/30">
+              <i className="fa-solid fa-microchip text-sm"></i>
+            </div>
+            Extraction Engine
+          </h2>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            Active Provider: <span className="font-bold text-violet-600">{PROVIDER_DEFAULTS[settings.provider].label}</span> •
+            Model: <span className="font-bold text-slate-400">{settings.model_id || PROVIDER_DEFAULTS[settings.provider].model_id}</span>
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          className="px-5 py-2.5 bg-slate-900 text-white rounded-xl text-xs font-bold hover:bg-violet-600 transition-all shadow-xl active:scale-95 flex items-center gap-2"
+        >
+          <i className="fa-solid fa-floppy-disk"></i> Save Engine Settings
+        </button>
+      </div>
+
+      <div className="p-8 space-y-10">
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {(Object.keys(PROVIDER_DEFAULTS) as ExtractionProviderId[]).map(id => (
+            <button
+              key={id}
+              onClick={() => setDraft({ ...draft, provider: id, model_id: undefined, base_url: undefined })}
+              className={`p-6 rounded-3xl border text-left transition-all ${draft.provider === id ? 'bg-violet-50 border-violet-300 ring-2 ring-violet-400/20' : 'bg-white border-slate-100 hover:border-slate-300'}`}
+            >
+              <i className={`fa-solid ${PROVIDER_ICONS[id]} text-xl ${draft.provider === id ? 'text-violet-600' : 'text-slate-300'}`}></i>
+              <p className="mt-3 text-sm font-black text-slate-900">{PROVIDER_DEFAULTS[id].label}</p>
+              <p className="text-[10px] font-bold text-slate-400 mt-1">{PROVIDER_DEFAULTS[id].model_id}</p>
+            </button>
+          ))}
+        </div>
+
+        {draft.provider !== "FIXTURE_REPLAY" && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Model Id</label>
+              <input
+                value={draft.model_id ?? ""}
+                placeholder={defaults.model_id}
+                onChange={(e) => setDraft({ ...draft, model_id: e.target.value })}
+                className="w-full text-xs font-mono bg-slate-50 border border-slate-200 rounded-xl px-3 py-2.5 focus:ring-2 focus:ring-violet-500/20 outline-none"
+              />
+            </div>
+            {needsEndpoint && (
+              <>
+                <div>
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Base URL</label>
+                  <input
+                    value={draft.base_url ?? ""}
+                    placeholder={defaults.base_url}
+                    onChange={(e) => setDraft({ ...draft, base_url: e.target.value })}
+                    className="w-full text-xs font-mono bg-slate-50 border border-slate-200 rounded-xl px-3 py-2.5 focus:ring-2 focus:ring-violet-500/20 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">API Key</label>
+                  <input
+                    type="password"
+                    value={draft.api_key ?? ""}
+                    placeholder={draft.provider === "LOCAL_SERVER" ? "(usually not required)" : "sk-..."}
+                    onChange={(e) => setDraft({ ...draft, api_key: e.target.value })}
+                    className="w-full text-xs font-mono bg-slate-50 border border-slate-200 rounded-xl px-3 py-2.5 focus:ring-2 focus:ring-violet-500/20 outline-none"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <div>
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Response Cache</label>
+              <h4 className="text-sm font-bold text-slate-700">Recorded Responses: {cacheCount ?? '---'}</h4>
+            </div>
+            <button onClick={handleClearCache} className="px-4 py-2 text-rose-500 hover:bg-rose-50 rounded-xl text-xs font-bold transition-all">
+              Clear
+            </button>
+          </div>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+            {RESPONSE_CACHE_MODES.map(m => (
+              <button
+                key={m}
+                onClick={() => setDraft({ ...draft, cache_mode: m })}
+                className={`p-3 rounded-2xl border text-left transition-all ${(draft.cache_mode ?? 'OFF') === m ? 'bg-white border-violet-300 ring-2 ring-violet-400/20' : 'bg-white/50 border-slate-200 hover:border-slate-300'}`}
+              >
+                <p className="text-[10px] font-black text-slate-900 uppercase tracking-widest">{m.replace('_', ' ')}</p>
+                <p className="text-[10px] text-slate-400 font-medium mt-1 leading-snug">{CACHE_MODE_HINTS[m]}</p>
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-400 font-medium mt-3 leading-relaxed">
+            Entries are keyed by sha256 of the page images, prompt, response schema and model id, and stored in this browser (IndexedDB).
+          </p>
+        </div>
+
+        <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <div>
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Offline Replay</label>
+              <h4 className="text-sm font-bold text-slate-700">Recorded Fixtures: {fixtureCount}</h4>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => downloadJson(`OrderFlow_Fixtures_${new Date().toISOString().slice(0, 10)}.json`, fixtureSet)}
+                disabled={fixtureCount === 0}
+                className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-100 disabled:opacity-50 transition-all"
+              >
+                <i className="fa-solid fa-download mr-2"></i>Export
+              </button>
+              <button onClick={handleClearFixtures} className="px-4 py-2 text-rose-500 hover:bg-rose-50 rounded-xl text-xs font-bold transition-all">
+                Clear
+              </button>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => setFixtureFile(e.target.files?.[0] || null)}
+              className="flex-grow text-xs bg-white border border-slate-200 rounded-xl px-3 py-2.5"
+            />
+            <button
+              onClick={handleImportFixtures}
+              disabled={!fixtureFile}
+              className="px-5 py-2.5 bg-violet-600 text-white rounded-xl text-xs font-bold hover:bg-violet-700 disabled:opacity-50 transition-all shadow-lg"
+            >
+              Import
+            </button>
+          </div>
+          <p className="text-[11px] text-slate-400 font-medium mt-3 leading-relaxed">
+            Fixtures are keyed by <span className="font-mono">filename#pageStart-pageEnd</span>, <span className="font-mono">filename</span>,
+            {" "}<span className="font-mono">sha256:&lt;page hash&gt;</span> or <span className="font-mono">*</span> and replayed verbatim by the Fixture Replay provider.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
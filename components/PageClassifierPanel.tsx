@@ -0,0 +1,107 @@
+import React, { useRef } from "react";
+import {
+  PageClassifierModel,
+  emptyPageClassifier,
+  isClassifierReady,
+  parsePageClassifier,
+  trainingPageCount,
+} from "../services/pageClassifier.ts";
+import { downloadJson } from "../services/jsonExport.ts";
+import { HeaderInfo } from "./SharedUI.tsx";
+
+type Props = {
+  model: PageClassifierModel;
+  onChange: (next: PageClassifierModel) => void;
+};
+
+export function PageClassifierPanel({ model, onChange }: Props) {
+  const importRef = useRef<HTMLInputElement>(null);
+  const ready = isClassifierReady(model);
+  const labels = Object.entries(model.labels).filter(([, s]) => (s?.pages ?? 0) > 0);
+
+  async function importWeights(file: File) {
+    try {
+      const next = parsePageClassifier(JSON.parse(await file.text()));
+      if (!confirm(`Replace local classifier (v${model.version}) with imported v${next.version} (${trainingPageCount(next)} pages)?`)) return;
+      onChange(next);
+    } catch (err: any) {
+      alert(err?.message || "Could not read classifier file");
+    }
+  }
+
+  function reset() {
+    if (!confirm("Discard all learned page statistics?")) return;
+    onChange(emptyPageClassifier());
+  }
+
+  return (
+    <div className="p-6 bg-slate-50/50 rounded-[2rem] border border-slate-100 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h4 className="text-sm font-bold text-slate-700 mr-auto">
+          Learned Page Classifier
+          <HeaderInfo
+            title="Page Classifier"
+            description="Naive Bayes model trained on this workstation from reviewed packet splits."
+            align="left"
+            details={[
+              "Every confirmed segmentation review adds its page labels as training data.",
+              "Once ready, its vote is added to the rule scores and shown as MODEL reasons.",
+              "Export the weights to share them with other workstations or the CLI (--classifier).",
+            ]}
+          />
+        </h4>
+        <span className={`px-2 py-0.5 rounded-lg border text-[9px] font-black ${ready ? "bg-emerald-50 text-emerald-700 border-emerald-100" : "bg-slate-50 text-slate-500 border-slate-200"}`}>
+          {ready ? "ACTIVE" : "COLLECTING"}
+        </span>
+        <span className="text-[10px] font-bold text-slate-400">
+          v{model.version} • {trainingPageCount(model)} pages{model.trained_at ? ` • ${new Date(model.trained_at).toLocaleString()}` : ""}
+        </span>
+        <button
+          onClick={() => downloadJson(`page_classifier_v${model.version}.json`, model)}
+          disabled={model.version === 0}
+          className="px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg text-[10px] font-black hover:bg-slate-200 disabled:opacity-40 transition-all"
+        >
+          <i className="fa-solid fa-download mr-1"></i> Export
+        </button>
+        <button
+          onClick={() => importRef.current?.click()}
+          className="px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg text-[10px] font-black hover:bg-slate-200 transition-all"
+        >
+          <i className="fa-solid fa-upload mr-1"></i> Import
+        </button>
+        <button
+          onClick={reset}
+          disabled={model.version === 0}
+          className="px-3 py-1.5 text-rose-600 rounded-lg text-[10px] font-black hover:bg-rose-50 disabled:opacity-40 transition-all"
+        >
+          Reset
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json"
+          className="hidden"
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            e.target.value = "";
+            if (f) importWeights(f);
+          }}
+        />
+      </div>
+
+      {labels.length === 0 ? (
+        <div className="text-[11px] text-slate-400 font-medium">
+          No training data yet. Turn on "Review Splits" and confirm a few packets.
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {labels.map(([label, stats]) => (
+            <span key={label} className="px-2.5 py-1 bg-white border border-slate-200 rounded-lg text-[10px] font-black text-slate-600">
+              {label} <span className="text-slate-400">{stats!.pages}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,10 +4,16 @@ import { bumpVersion, finalizePolicy } from "../policy/policyVersioning.ts";
 import { savePolicy } from "../policy/policyLocalStore.ts";
 import { importPolicyFromXlsx, exportPolicyToXlsxTemplate } from "../services/policyXlsx.ts";
 import { HeaderInfo } from "./SharedUI.tsx";
+import { TriageRulesAdmin } from "./TriageRulesAdmin.tsx";
+import { DEFAULT_TRIAGE_RULES, TriageRuleSet } from "../services/pdfPacketTriage.ts";
+import { PageClassifierPanel } from "./PageClassifierPanel.tsx";
+import { PageClassifierModel } from "../services/pageClassifier.ts";
 
 type Props = {
   policy: ControlSurfacePolicy;
   onPolicyChange: (p: ControlSurfacePolicy) => void;
+  pageClassifier?: PageClassifierModel;
+  onPageClassifierChange?: (m: PageClassifierModel) => void;
 };
 
 function newRule(): PolicyRule {
@@ -20,7 +26,7 @@ function newRule(): PolicyRule {
   };
 }
 
-export function PolicyAdmin({ policy, onPolicyChange }: Props) {
+export function PolicyAdmin({ policy, onPolicyChange, pageClassifier, onPageClassifierChange }: Props) {
   const [importFile, setImportFile] = useState<File | null>(null);
 
   const sortedRules = useMemo(
@@ -35,14 +41,26 @@ export function PolicyAdmin({ policy, onPolicyChange }: Props) {
     });
   }
 
-  async function save(kind: "patch" | "minor" | "major") {
-    const bumped = { ...policy, meta: { ...policy.meta, version: bumpVersion(policy.meta.version, kind) as any } };
+  const triageRules = policy.triage_rules ?? DEFAULT_TRIAGE_RULES;
+
+  async function save(kind: "patch" | "minor" | "major", base: ControlSurfacePolicy = policy) {
+    const bumped = { ...base, meta: { ...base.meta, version: bumpVersion(base.meta.version, kind) as any } };
     const finalized = await finalizePolicy(bumped);
     savePolicy(finalized);
     onPolicyChange(finalized);
     alert(`Policy v${finalized.meta.version} saved to local storage.`);
   }
 
+  // Triage rules carry their own version so segmentation changes are traceable on their own.
+  async function saveTriageRules() {
+    const rules: TriageRuleSet = {
+      ...triageRules,
+      version: bumpVersion(triageRules.version, "patch"),
+      updated_at: new Date().toISOString(),
+    };
+    await save("patch", { ...policy, triage_rules: rules });
+  }
+
   async function doExportPolicyXlsx() {
     try {
       const blob = exportPolicyToXlsxTemplate({ policy });
@@ -282,6 +300,17 @@ export function PolicyAdmin({ policy, onPolicyChange }: Props) {
           </div>
         </div>
 
+        <TriageRulesAdmin
+          ruleSet={triageRules}
+          onChange={(next) => onPolicyChange({ ...policy, triage_rules: next })}
+          onSave={saveTriageRules}
+          classifier={pageClassifier}
+        />
+
+        {pageClassifier && onPageClassifierChange && (
+          <PageClassifierPanel model={pageClassifier} onChange={onPageClassifierChange} />
+        )}
+
         {/* SECONDARY: Batch Tools (Moved below registry) */}
         <div className="pt-8 border-t border-slate-100">
            <div className="mb-4">
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { WorkQueueStore, QueueArchiveSummary } from '../services/workQueueStore.ts';
+import { downloadJson } from '../services/jsonExport.ts';
+
+type Props = {
+  store: WorkQueueStore;
+  onClose: () => void;
+};
+
+const QueueArchivePanel: React.FC<Props> = ({ store, onClose }) => {
+  const [archives, setArchives] = useState<QueueArchiveSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    store.listArchives()
+      .then(setArchives)
+      .catch((err: any) => setError(err?.message || 'Archive unavailable'));
+  };
+
+  useEffect(refresh, [store]);
+
+  const handleExport = async (id: string) => {
+    const archive = await store.getArchive(id);
+    if (archive) downloadJson(`OrderFlow_Queue_${archive.archive_id}.json`, archive);
+  };
+
+  const handlePurge = async (a: QueueArchiveSummary) => {
+    if (!confirm(`Permanently delete ${a.row_count} archived line items, their source files and page images? This cannot be undone.`)) return;
+    try {
+      await store.purgeArchive(a.archive_id);
+      refresh();
+    } catch (err: any) {
+      alert('Purge failed: ' + err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4 sm:p-6">
+      <div className="w-full max-w-3xl bg-white rounded-[2rem] shadow-2xl border border-slate-200 overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between shrink-0">
+          <div>
+            <div className="text-xs font-black uppercase tracking-widest text-slate-400">Work Queue</div>
+            <div className="text-lg font-black text-slate-900 tracking-tight">Archived Queues</div>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-xl bg-slate-100 text-slate-700 text-xs font-black hover:bg-slate-200 transition-all active:scale-95"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3">
+          {error && <div className="text-xs font-bold text-rose-600">{error}</div>}
+          {archives === null && !error && <div className="text-xs text-slate-400 font-medium">Loading...</div>}
+          {archives?.length === 0 && (
+            <div className="py-12 text-center text-sm text-slate-400 font-medium">Nothing archived yet.</div>
+          )}
+          {archives?.map(a => (
+            <div key={a.archive_id} className="flex items-center justify-between gap-4 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+              <div>
+                <div className="text-sm font-black text-slate-900">{new Date(a.archived_at).toLocaleString()}</div>
+                <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                  {a.row_count} lines • {a.doc_ids.length} docs • {a.reason}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleExport(a.archive_id)}
+                  className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-100 transition-all"
+                >
+                  <i className="fa-solid fa-download mr-2"></i>Export
+                </button>
+                <button
+                  onClick={() => handlePurge(a)}
+                  className="px-4 py-2 text-rose-500 hover:bg-rose-50 rounded-xl text-xs font-bold transition-all"
+                >
+                  Purge
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QueueArchivePanel;
@@ -12,7 +12,7 @@ type Props = {
 export function ReferencePackAdmin({ referencePack, onReferencePackChange }: Props) {
   const [importFile, setImportFile] = useState<File | null>(null);
   const [isImporting, setIsImporting] = useState(false);
-  const [activePreviewTab, setActivePreviewTab] = useState<'mfrs' | 'finishes' | 'cats'>('mfrs');
+  const [activePreviewTab, setActivePreviewTab] = useState<'mfrs' | 'finishes' | 'cats' | 'items'>('mfrs');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   async function handleSave(kind: "patch" | "minor" | "major") {
@@ -99,13 +99,14 @@ export function ReferencePackAdmin({ referencePack, onReferencePackChange }: Pro
       </div>
 
       <div className="p-8 space-y-10">
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-4">
           <StatCard label="Mfrs" count={referencePack.manufacturers?.length || 0} icon="fa-industry" color="bg-blue-50 text-blue-600" />
           <StatCard label="Finishes" count={referencePack.finishes?.length || 0} icon="fa-palette" color="bg-emerald-50 text-emerald-600" />
           <StatCard label="Categories" count={referencePack.categories?.length || 0} icon="fa-layer-group" color="bg-amber-50 text-amber-600" />
           <StatCard label="Devices" count={referencePack.electrified_devices?.length || 0} icon="fa-bolt" color="bg-rose-50 text-rose-600" />
           <StatCard label="Wiring" count={referencePack.wiring_configs?.length || 0} icon="fa-network-wired" color="bg-indigo-50 text-indigo-600" />
           <StatCard label="Templates" count={referencePack.hardware_sets?.length || 0} icon="fa-puzzle-piece" color="bg-slate-50 text-slate-600" />
+          <StatCard label="Items" count={referencePack.items?.length || 0} icon="fa-barcode" color="bg-violet-50 text-violet-600" />
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -170,6 +171,12 @@ export function ReferencePackAdmin({ referencePack, onReferencePackChange }: Pro
               >
                 Categories
               </button>
+              <button 
+                onClick={() => setActivePreviewTab('items')} 
+                className={`px-4 py-1.5 text-[10px] font-black rounded-lg transition-all ${activePreviewTab === 'items' ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-slate-50'}`}
+              >
+                Items
+              </button>
             </div>
           </div>
           <div className="max-h-[400px] overflow-y-auto p-2">
@@ -188,6 +195,12 @@ export function ReferencePackAdmin({ referencePack, onReferencePackChange }: Pro
                       <th className="px-4 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-200">BHMA</th>
                       <th className="px-4 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-200">Name</th>
                     </>
+                  ) : activePreviewTab === 'items' ? (
+                    <>
+                      {["SKU", "Mfr", "Description", "UOM / Pack", "List", "Status"].map(h => (
+                        <th key={h} className="px-4 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-200">{h}</th>
+                      ))}
+                    </>
                   ) : (
                     <>
                       <th className="px-4 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-200">Symbol</th>
@@ -218,6 +231,21 @@ export function ReferencePackAdmin({ referencePack, onReferencePackChange }: Pro
                       </tr>
                     ))
                   ) : <tr><td colSpan={3} className="px-4 py-10 text-center text-slate-400 text-xs italic">No data imported yet.</td></tr>
+                ) : activePreviewTab === 'items' ? (
+                  (referencePack.items?.length ?? 0) > 0 ? (
+                    referencePack.items!.map((i, idx) => (
+                      <tr key={idx} className="hover:bg-slate-50/50">
+                        <td className="px-4 py-3 text-xs font-mono font-bold text-violet-600">{i.sku}</td>
+                        <td className="px-4 py-3 text-xs font-mono text-slate-500">{i.mfr_abbr || '---'}</td>
+                        <td className="px-4 py-3 text-xs text-slate-700">{i.description}</td>
+                        <td className="px-4 py-3 text-xs text-slate-500">{i.base_uom}{i.pack_size ? ` / ${i.pack_size}` : ''}</td>
+                        <td className="px-4 py-3 text-xs text-slate-500">{i.list_price !== undefined ? i.list_price.toFixed(2) : '---'}</td>
+                        <td className={`px-4 py-3 text-[10px] font-bold ${i.status === 'ACTIVE' ? 'text-emerald-600' : 'text-rose-500'}`}>
+                          {i.status}{i.replacement_sku ? ` → ${i.replacement_sku}` : ''}
+                        </td>
+                      </tr>
+                    ))
+                  ) : <tr><td colSpan={6} className="px-4 py-10 text-center text-slate-400 text-xs italic">No items imported yet.</td></tr>
                 ) : (
                   referencePack.categories.length > 0 ? (
                     referencePack.categories.map((c, idx) => (
@@ -2,6 +2,7 @@
 // components/RegressionHarness.tsx
 import React, { useMemo, useState, useCallback } from "react";
 import { POExportV1 } from "../services/abhSchema.ts";
+import { ResponseCacheMode, RESPONSE_CACHE_MODES } from "../services/responseCache.ts";
 import {
   sha256Base64,
   buildSignature,
@@ -15,10 +16,11 @@ import {
 
 type Props = {
   files: FileList | null;
-  runParseForFile: (file: File) => Promise<POExportV1[]>; 
+  runParseForFile: (file: File, opts?: { cacheMode?: ResponseCacheMode }) => Promise<POExportV1[]>; 
+  defaultCacheMode?: ResponseCacheMode;
 };
 
-export const RegressionHarness: React.FC<Props> = ({ files, runParseForFile }) => {
+export const RegressionHarness: React.FC<Props> = ({ files, runParseForFile, defaultCacheMode = "OFF" }) => {
   const [results, setResults] = useState<Array<{
     filename: string;
     fileHash: string;
@@ -32,6 +34,7 @@ export const RegressionHarness: React.FC<Props> = ({ files, runParseForFile }) =
   const [busy, setBusy] = useState(false);
   const [status, setStatus] = useState("");
   const [refreshNonce, setRefreshNonce] = useState(0);
+  const [cacheMode, setCacheMode] = useState<ResponseCacheMode>(defaultCacheMode);
 
   const baselinesList = useMemo(() => listBaselines(), [refreshNonce]);
 
@@ -59,7 +62,7 @@ export const RegressionHarness: React.FC<Props> = ({ files, runParseForFile }) =
         
         const b64 = await fileToBase64(file);
         const fileHash = await sha256Base64(b64);
-        const docs = await runParseForFile(file);
+        const docs = await runParseForFile(file, { cacheMode });
 
         if (!docs || docs.length === 0) {
           console.warn(`No documents extracted for baseline: ${file.name}`);
@@ -96,7 +99,7 @@ export const RegressionHarness: React.FC<Props> = ({ files, runParseForFile }) =
         const fileHash = await sha256Base64(b64);
 
         const baseline = getBaseline(fileHash);
-        const docs = await runParseForFile(file);
+        const docs = await runParseForFile(file, { cacheMode });
         const current = buildSignature({ filename: file.name, fileHash, docs });
 
         if (!baseline) {
@@ -157,6 +160,17 @@ export const RegressionHarness: React.FC<Props> = ({ files, runParseForFile }) =
         </div>
 
         <div className="flex items-center gap-3">
+          <select
+            value={cacheMode}
+            onChange={(e) => setCacheMode(e.target.value as ResponseCacheMode)}
+            disabled={busy}
+            title="Response cache mode for this run. RECORD_ONLY when creating baselines, REPLAY_ONLY for deterministic, free regressions."
+            className="text-xs font-bold border border-slate-200 rounded-xl px-3 py-2.5 bg-white focus:ring-2 focus:ring-indigo-500/20 outline-none"
+          >
+            {RESPONSE_CACHE_MODES.map(m => (
+              <option key={m} value={m}>Cache: {m}</option>
+            ))}
+          </select>
           <button
             onClick={createBaseline}
             disabled={busy || !files || files.length === 0}
@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  DocSegment,
+  PageLabel,
+  PagePlan,
+  PageTriage,
+  planFromSegments,
+  segmentsFromPlan,
+} from '../services/pdfPacketTriage.ts';
+import { PageRenderer, RenderedPage } from '../services/pipeline.ts';
+
+type Props = {
+  filename: string;
+  renderPages: PageRenderer;
+  triage: PageTriage[];
+  segments: DocSegment[];
+  onConfirm: (segments: DocSegment[]) => void;
+  onSkip: () => void;
+};
+
+const LABELS: PageLabel[] = ['PURCHASE_ORDER', 'SALES_ORDER', 'INVOICE', 'CREDIT_MEMO', 'PICKING_SHEET', 'EMAIL_COVER', 'UNKNOWN'];
+
+const THUMBNAIL_SCALE = 0.35;
+
+const SegmentEditor: React.FC<Props> = ({ filename, renderPages, triage, segments, onConfirm, onSkip }) => {
+  const initialPlan = useMemo(() => planFromSegments(triage, segments), [triage, segments]);
+  const [plan, setPlan] = useState<PagePlan[]>(initialPlan);
+  const [thumbs, setThumbs] = useState<Record<number, RenderedPage>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    renderPages(triage.map(p => p.pageIndex), THUMBNAIL_SCALE)
+      .then(pages => {
+        if (!cancelled) setThumbs(Object.fromEntries(pages.map(p => [p.pageIndex, p])));
+      })
+      .catch(err => console.warn('Thumbnail render failed', err));
+    return () => { cancelled = true; };
+  }, [renderPages, triage]);
+
+  const triageByPage = useMemo(() => new Map(triage.map(p => [p.pageIndex, p])), [triage]);
+  const finalSegments = useMemo(() => segmentsFromPlan(triage, plan), [triage, plan]);
+
+  const groups = useMemo(() => {
+    const out: PagePlan[][] = [];
+    for (const p of plan) {
+      if (p.startsSegment || out.length === 0) out.push([]);
+      out[out.length - 1].push(p);
+    }
+    return out;
+  }, [plan]);
+
+  const patchPage = (pageIndex: number, patch: Partial<PagePlan>) => {
+    setPlan(prev => prev.map(p => (p.pageIndex === pageIndex ? { ...p, ...patch } : p)));
+  };
+
+  const relabelGroup = (group: PagePlan[], label: PageLabel) => {
+    const ids = new Set(group.map(p => p.pageIndex));
+    setPlan(prev => prev.map(p => (ids.has(p.pageIndex) ? { ...p, label } : p)));
+  };
+
+  const groupLabel = (group: PagePlan[]) =>
+    group.filter(p => !p.excluded).find(p => p.label !== 'UNKNOWN')?.label ?? 'UNKNOWN';
+
+  const groupSeparator = (group: PagePlan[]) => {
+    const first = group.find(p => !p.excluded);
+    return first ? finalSegments.find(s => s.pageStart === first.pageIndex)?.separator : undefined;
+  };
+
+  const parseCount = finalSegments.filter(s => s.label !== 'EMAIL_COVER').length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4 sm:p-6">
+      <div className="w-full max-w-6xl bg-white rounded-[2rem] shadow-2xl border border-slate-200 overflow-hidden flex flex-col max-h-[92vh]">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between gap-4 shrink-0">
+          <div className="min-w-0">
+            <div className="text-xs font-black uppercase tracking-widest text-slate-400">Review Segmentation</div>
+            <div className="text-lg font-black text-slate-900 tracking-tight truncate">{filename}</div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={() => setPlan(initialPlan)}
+              className="px-4 py-2 rounded-xl bg-slate-100 text-slate-700 text-xs font-black hover:bg-slate-200 transition-all active:scale-95"
+            >
+              Reset
+            </button>
+            <button
+              onClick={onSkip}
+              className="px-4 py-2 rounded-xl bg-slate-100 text-slate-700 text-xs font-black hover:bg-slate-200 transition-all active:scale-95"
+            >
+              Skip File
+            </button>
+            <button
+              onClick={() => onConfirm(finalSegments)}
+              className="px-4 py-2 rounded-xl bg-indigo-600 text-white text-xs font-black hover:bg-indigo-700 transition-all active:scale-95"
+            >
+              Parse {parseCount} Segment{parseCount === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {groups.map((group, gIdx) => (
+            <div key={group[0].pageIndex} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-3">
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Segment {gIdx + 1}</span>
+                  <select
+                    value={groupLabel(group)}
+                    onChange={(e) => relabelGroup(group, e.target.value as PageLabel)}
+                    className="text-[10px] font-black border border-slate-200 rounded-lg px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-400/30"
+                  >
+                    {LABELS.map(l => <option key={l} value={l}>{l}</option>)}
+                  </select>
+                  {groupLabel(group) === 'EMAIL_COVER' && (
+                    <span className="text-[9px] font-bold text-slate-400">not parsed</span>
+                  )}
+                  {groupSeparator(group) && (
+                    <span className="px-1.5 py-0.5 rounded bg-amber-50 border border-amber-100 text-[9px] font-black text-amber-700">
+                      <i className="fa-solid fa-barcode mr-1"></i>{groupSeparator(group)!.payload}
+                    </span>
+                  )}
+                </div>
+                {gIdx > 0 && (
+                  <button
+                    onClick={() => patchPage(group[0].pageIndex, { startsSegment: false })}
+                    className="text-[10px] font-bold text-slate-500 hover:text-indigo-600 transition-all"
+                  >
+                    <i className="fa-solid fa-object-group mr-1"></i>Merge with previous
+                  </button>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-3">
+                {group.map((p, pIdx) => {
+                  const t = triageByPage.get(p.pageIndex);
+                  const thumb = thumbs[p.pageIndex];
+                  return (
+                    <div
+                      key={p.pageIndex}
+                      className={`w-40 bg-white rounded-xl border p-2 space-y-2 transition-all ${p.excluded ? 'opacity-40 border-dashed border-slate-300' : 'border-slate-200'}`}
+                    >
+                      <div className="relative h-48 bg-slate-100 rounded-lg overflow-hidden flex items-center justify-center">
+                        {thumb ? (
+                          <img src={`data:${thumb.mimeType};base64,${thumb.base64}`} alt={`Page ${p.pageIndex + 1}`} className="max-h-full max-w-full" />
+                        ) : (
+                          <i className="fa-solid fa-file text-2xl text-slate-300"></i>
+                        )}
+                        <span className="absolute top-1 left-1 px-1.5 rounded bg-slate-900/70 text-white text-[9px] font-black">p.{p.pageIndex + 1}</span>
+                        {(t?.blank || t?.separator) && (
+                          <span className="absolute top-1 right-1 px-1.5 rounded bg-amber-500 text-white text-[9px] font-black">
+                            {t.blank ? 'BLANK' : 'SEPARATOR'}
+                          </span>
+                        )}
+                      </div>
+
+                      <select
+                        value={p.label}
+                        onChange={(e) => patchPage(p.pageIndex, { label: e.target.value as PageLabel })}
+                        className="w-full text-[9px] font-black border border-slate-200 rounded-lg px-1 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-400/30"
+                      >
+                        {LABELS.map(l => <option key={l} value={l}>{l}</option>)}
+                      </select>
+
+                      {t && (
+                        <div className="text-[8px] font-bold text-slate-400 leading-tight" title={t.reasons.join('\n')}>
+                          {t.label} {t.score.toFixed(2)} • <span className="line-clamp-2 inline">{t.reasons.join(', ')}</span>
+                        </div>
+                      )}
+
+                      <div className="flex items-center justify-between">
+                        <button
+                          onClick={() => patchPage(p.pageIndex, { excluded: !p.excluded })}
+                          className={`text-[9px] font-black ${p.excluded ? 'text-indigo-600' : 'text-slate-400 hover:text-rose-500'}`}
+                        >
+                          {p.excluded ? 'Include' : 'Exclude'}
+                        </button>
+                        {pIdx > 0 && (
+                          <button
+                            onClick={() => patchPage(p.pageIndex, { startsSegment: true })}
+                            title="Start a new segment at this page"
+                            className="text-[9px] font-black text-slate-400 hover:text-indigo-600"
+                          >
+                            <i className="fa-solid fa-scissors mr-1"></i>Split
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentEditor;
@@ -0,0 +1,271 @@
+import React, { useMemo, useState } from "react";
+import {
+  PageLabel,
+  PageTriage,
+  TriageRule,
+  TriageRuleSet,
+  compileTriageRules,
+  isFallbackRule,
+  triagePages,
+  buildSegments,
+} from "../services/pdfPacketTriage.ts";
+import { extractPdfPageText } from "../services/pdfRender.ts";
+import { PageClassifierModel, classifyPage } from "../services/pageClassifier.ts";
+import { HeaderInfo } from "./SharedUI.tsx";
+
+type Props = {
+  ruleSet: TriageRuleSet;
+  onChange: (next: TriageRuleSet) => void;
+  onSave: () => void;
+  classifier?: PageClassifierModel;
+};
+
+const LABELS: PageLabel[] = ["PURCHASE_ORDER", "SALES_ORDER", "INVOICE", "CREDIT_MEMO", "PICKING_SHEET", "EMAIL_COVER", "UNKNOWN"];
+
+function newTriageRule(): TriageRule {
+  return {
+    rule_id: `T-${Math.floor(Math.random() * 9000) + 1000}`,
+    enabled: true,
+    label: "PURCHASE_ORDER",
+    pattern: "",
+    weight: 0.5,
+  };
+}
+
+const splitList = (v: string) => v.split(/[\n,]/).map(x => x.trim()).filter(Boolean);
+
+export function TriageRulesAdmin({ ruleSet, onChange, onSave, classifier }: Props) {
+  const [testFile, setTestFile] = useState<File | null>(null);
+  const [testCustomer, setTestCustomer] = useState("");
+  const [testPages, setTestPages] = useState<string[] | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+
+  const compileErrors = useMemo(() => compileTriageRules(ruleSet).errors, [ruleSet]);
+
+  // Re-scored live as rules are edited.
+  const testTriage: PageTriage[] | null = useMemo(
+    () => (testPages
+      ? triagePages(testPages, ruleSet, {
+          customer_name: testCustomer || undefined,
+          classifier: classifier ? (text) => classifyPage(classifier, text) : undefined,
+        })
+      : null),
+    [testPages, ruleSet, testCustomer, classifier]
+  );
+  const testSegments = useMemo(() => (testTriage ? buildSegments(testTriage) : []), [testTriage]);
+
+  function updateRule(idx: number, patch: Partial<TriageRule>) {
+    onChange({ ...ruleSet, rules: ruleSet.rules.map((r, i) => (i === idx ? { ...r, ...patch } : r)) });
+  }
+
+  async function runTest() {
+    if (!testFile) return alert("Select a PDF packet first.");
+    setTestError(null);
+    try {
+      const pages = await extractPdfPageText(new Uint8Array(await testFile.arrayBuffer()));
+      setTestPages(pages.map(p => p.text));
+    } catch (err: any) {
+      setTestError(err?.message || "Could not read PDF");
+      setTestPages(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between px-2">
+        <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest">
+          Page Triage Rules
+          <HeaderInfo
+            title="Packet Triage"
+            description="Classifies each PDF page before segmentation."
+            align="left"
+            details={[
+              "Each label sums the weights of its matching rules, capped at 1; the highest score wins.",
+              "Fallback rules only count on pages where no other rule matched.",
+              "Negative patterns disable a rule on pages where they match.",
+              "Customer scope limits a rule to pages naming (or packets from) those customers.",
+            ]}
+          />
+        </h3>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-bold text-slate-400">Rules v{ruleSet.version}</span>
+          <button
+            onClick={() => onChange({ ...ruleSet, rules: [...ruleSet.rules, newTriageRule()] })}
+            className="px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg text-[10px] font-black hover:bg-slate-200 transition-all"
+          >
+            <i className="fa-solid fa-plus mr-1"></i> Rule
+          </button>
+          <button
+            onClick={onSave}
+            className="px-3 py-1.5 bg-slate-900 text-white rounded-lg text-[10px] font-black hover:bg-blue-600 transition-all"
+          >
+            Save Rules
+          </button>
+        </div>
+      </div>
+
+      {compileErrors.length > 0 && (
+        <div className="px-4 py-3 bg-rose-50 border border-rose-100 rounded-2xl text-[11px] font-bold text-rose-700 space-y-1">
+          {compileErrors.map(e => (
+            <div key={e.rule_id}><span className="font-mono">{e.rule_id}</span>: {e.error} (rule skipped)</div>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto border border-slate-100 rounded-2xl bg-white shadow-sm">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-50/80">
+              <th className="px-3 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">On</th>
+              <th className="px-3 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">Rule ID</th>
+              <th className="px-3 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">Label</th>
+              <th className="px-3 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">Weight</th>
+              <th className="px-3 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">Pattern / Negatives</th>
+              <th className="px-3 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">Customer Scope</th>
+              <th className="px-3 py-3 border-b border-slate-100"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {ruleSet.rules.map((r, idx) => (
+              <tr key={idx} className="hover:bg-slate-50/50 transition-colors align-top">
+                <td className="px-3 py-3">
+                  <input
+                    type="checkbox"
+                    checked={r.enabled}
+                    onChange={(e) => updateRule(idx, { enabled: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500 cursor-pointer"
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    value={r.rule_id}
+                    onChange={(e) => updateRule(idx, { rule_id: e.target.value.toUpperCase().replace(/\s+/g, "_") })}
+                    className="w-44 text-[11px] font-mono font-bold border border-slate-100 rounded-lg px-2 py-1.5 bg-slate-50/50"
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <select
+                    value={r.label}
+                    onChange={(e) => updateRule(idx, { label: e.target.value as PageLabel })}
+                    className="text-[10px] font-black border border-slate-100 rounded-lg px-2 py-1.5 bg-slate-50/50"
+                  >
+                    {LABELS.map(l => <option key={l} value={l}>{l}</option>)}
+                  </select>
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    step="0.05"
+                    value={r.weight}
+                    onChange={(e) => updateRule(idx, { weight: Number(e.target.value) })}
+                    className="w-20 text-xs font-bold border border-slate-200 rounded-lg px-2 py-1.5 text-center"
+                  />
+                  <label className="mt-1.5 flex items-center gap-1 text-[9px] font-bold text-slate-400 uppercase">
+                    <input
+                      type="checkbox"
+                      checked={isFallbackRule(r)}
+                      onChange={(e) => updateRule(idx, { fallback: e.target.checked })}
+                      className="w-3 h-3 text-blue-600 border-slate-300 rounded focus:ring-blue-500 cursor-pointer"
+                    />
+                    Fallback
+                  </label>
+                </td>
+                <td className="px-3 py-3 min-w-[260px] space-y-1.5">
+                  <input
+                    value={r.pattern}
+                    onChange={(e) => updateRule(idx, { pattern: e.target.value })}
+                    placeholder="Regex, e.g. \bPURCHASE\s+ORDER\b"
+                    className="w-full text-[11px] font-mono border border-slate-100 rounded-lg px-2 py-1.5 bg-slate-50/50"
+                  />
+                  <input
+                    value={(r.negative_patterns ?? []).join(", ")}
+                    onChange={(e) => updateRule(idx, { negative_patterns: splitList(e.target.value) })}
+                    placeholder="Negative regexes (comma separated)"
+                    className="w-full text-[11px] font-mono border border-slate-100 rounded-lg px-2 py-1.5 bg-slate-50/50 text-rose-700"
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    value={(r.customer_scope ?? []).join(", ")}
+                    onChange={(e) => updateRule(idx, { customer_scope: splitList(e.target.value) })}
+                    placeholder="All customers"
+                    className="w-40 text-[11px] border border-slate-100 rounded-lg px-2 py-1.5 bg-slate-50/50"
+                  />
+                </td>
+                <td className="px-3 py-3 text-center">
+                  <button
+                    onClick={() => onChange({ ...ruleSet, rules: ruleSet.rules.filter((_, i) => i !== idx) })}
+                    className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-xl transition-all"
+                    title="Delete Rule"
+                  >
+                    <i className="fa-solid fa-trash-can"></i>
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Test panel */}
+      <div className="p-6 bg-slate-50/50 rounded-[2rem] border border-slate-100 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <h4 className="text-sm font-bold text-slate-700 mr-auto">Test Rules on a Packet</h4>
+          <input
+            type="file"
+            accept="application/pdf"
+            onChange={(e) => setTestFile(e.target.files?.[0] ?? null)}
+            className="text-[11px] bg-white border border-slate-200 rounded-xl px-3 py-2"
+          />
+          <input
+            value={testCustomer}
+            onChange={(e) => setTestCustomer(e.target.value)}
+            placeholder="Customer (optional)"
+            className="text-[11px] bg-white border border-slate-200 rounded-xl px-3 py-2 w-44"
+          />
+          <button onClick={runTest} className="px-5 py-2 bg-slate-200 text-slate-700 rounded-xl text-xs font-bold hover:bg-slate-300 transition-all">
+            Score Pages
+          </button>
+        </div>
+
+        {testError && <div className="text-xs font-bold text-rose-600">{testError}</div>}
+
+        {testTriage && (
+          <>
+            <div className="text-[10px] font-bold text-slate-500">
+              {testSegments.length} segment(s): {testSegments.map(s => `${s.label} [p.${s.pages.map(p => p + 1).join(",")}]`).join(" • ")}
+            </div>
+            <div className="overflow-x-auto border border-slate-100 rounded-2xl bg-white">
+              <table className="w-full text-left border-collapse">
+                <thead>
+                  <tr className="bg-slate-50/80">
+                    <th className="px-3 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">Page</th>
+                    <th className="px-3 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">Label</th>
+                    <th className="px-3 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">Score</th>
+                    <th className="px-3 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">All Labels</th>
+                    <th className="px-3 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">Reasons</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {testTriage.map(p => (
+                    <tr key={p.pageIndex} className="align-top">
+                      <td className="px-3 py-2 text-xs font-black text-slate-700">{p.pageIndex + 1}</td>
+                      <td className="px-3 py-2 text-[10px] font-black text-blue-700">{p.label}</td>
+                      <td className="px-3 py-2 text-xs font-bold text-slate-700">{p.score.toFixed(2)}</td>
+                      <td className="px-3 py-2 text-[10px] font-mono text-slate-500">
+                        {Object.entries(p.scores ?? {}).map(([l, v]) => `${l}=${(v as number).toFixed(2)}`).join("  ") || "—"}
+                      </td>
+                      <td className="px-3 py-2 text-[10px] font-mono text-slate-500" title={p.text.slice(0, 500)}>
+                        {p.reasons.join(", ")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
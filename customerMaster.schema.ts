@@ -0,0 +1,21 @@
+import { Address } from "./services/abhSchema.ts"
+
+export interface CustomerShipTo {
+  ship_to_id: string
+  address: Address          // normalized; name is the location / consignee
+}
+
+export interface CustomerAccount {
+  account_id: string
+  name: string
+  aliases: string[]         // other spellings, DBAs, former names
+  email_domains: string[]   // sender domains that identify the account, e.g. "acmedoor.com"
+  ship_tos: CustomerShipTo[]
+  default_terms?: string    // e.g. "NET 30"
+}
+
+export interface CustomerMaster {
+  version: string
+  updated_at?: string
+  accounts: CustomerAccount[]
+}
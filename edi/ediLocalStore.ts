@@ -0,0 +1,27 @@
+// edi/ediLocalStore.ts
+import { INITIAL_CONTROL_NUMBERS, X12ControlNumbers } from "../services/x12.ts";
+
+const KEY = "orderflow.ediControlNumbers";
+
+export function loadEdiControlNumbers(): X12ControlNumbers {
+  try {
+    const raw = localStorage.getItem(KEY);
+    if (!raw) return INITIAL_CONTROL_NUMBERS;
+    const parsed = JSON.parse(raw);
+    if (![parsed.interchange, parsed.group, parsed.transaction].every(n => Number.isInteger(n) && n > 0)) {
+      return INITIAL_CONTROL_NUMBERS;
+    }
+    return parsed;
+  } catch (e) {
+    console.warn("LocalStorage loadEdiControlNumbers failed", e);
+    return INITIAL_CONTROL_NUMBERS;
+  }
+}
+
+export function saveEdiControlNumbers(control: X12ControlNumbers) {
+  try {
+    localStorage.setItem(KEY, JSON.stringify(control));
+  } catch (e) {
+    console.warn("LocalStorage saveEdiControlNumbers failed", e);
+  }
+}
@@ -0,0 +1,85 @@
+// extraction/extractionLocalStore.ts
+import {
+  ExtractionSettings,
+  ExtractionFixtureSet,
+  ColumnMappingSet,
+  DEFAULT_EXTRACTION_SETTINGS,
+  EMPTY_FIXTURE_SET,
+  EMPTY_COLUMN_MAPPINGS,
+} from "./extractionSettings.ts";
+
+const KEY = "orderflow.extractionSettings";
+const FIXTURES_KEY = "orderflow.extractionFixtures";
+
+export function loadExtractionSettings(): ExtractionSettings {
+  try {
+    const raw = localStorage.getItem(KEY);
+    if (!raw) return DEFAULT_EXTRACTION_SETTINGS;
+    const parsed = JSON.parse(raw);
+    if (!parsed.provider) return DEFAULT_EXTRACTION_SETTINGS;
+    return parsed;
+  } catch (e) {
+    console.warn("LocalStorage loadExtractionSettings failed", e);
+    return DEFAULT_EXTRACTION_SETTINGS;
+  }
+}
+
+export function saveExtractionSettings(settings: ExtractionSettings) {
+  try {
+    localStorage.setItem(KEY, JSON.stringify({ ...settings, updated_at: new Date().toISOString() }));
+  } catch (e) {
+    console.warn("LocalStorage saveExtractionSettings failed", e);
+  }
+}
+
+export function loadFixtureSet(): ExtractionFixtureSet {
+  try {
+    const raw = localStorage.getItem(FIXTURES_KEY);
+    if (!raw) return EMPTY_FIXTURE_SET;
+    const parsed = JSON.parse(raw);
+    if (!parsed.fixtures || typeof parsed.fixtures !== "object") return EMPTY_FIXTURE_SET;
+    return parsed;
+  } catch (e) {
+    console.warn("LocalStorage loadFixtureSet failed", e);
+    return EMPTY_FIXTURE_SET;
+  }
+}
+
+export function saveFixtureSet(set: ExtractionFixtureSet) {
+  try {
+    localStorage.setItem(FIXTURES_KEY, JSON.stringify({ ...set, updated_at: new Date().toISOString() }));
+  } catch (e) {
+    console.warn("LocalStorage saveFixtureSet failed", e);
+  }
+}
+
+export function clearFixtureSet() {
+  try {
+    localStorage.removeItem(FIXTURES_KEY);
+  } catch (e) {
+    console.warn("LocalStorage clearFixtureSet failed", e);
+  }
+}
+
+const COLUMN_MAPPINGS_KEY = "orderflow.columnMappings";
+
+export function loadColumnMappings(): ColumnMappingSet {
+  try {
+    const raw = localStorage.getItem(COLUMN_MAPPINGS_KEY);
+    if (!raw) return EMPTY_COLUMN_MAPPINGS;
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed.mappings)) return EMPTY_COLUMN_MAPPINGS;
+    return parsed;
+  } catch (e) {
+    console.warn("LocalStorage loadColumnMappings failed", e);
+    return EMPTY_COLUMN_MAPPINGS;
+  }
+}
+
+export function saveColumnMappings(set: ColumnMappingSet) {
+  try {
+    localStorage.setItem(COLUMN_MAPPINGS_KEY, JSON.stringify({ ...set, updated_at: new Date().toISOString() }));
+  } catch (e) {
+    console.warn("LocalStorage saveColumnMappings failed", e);
+  }
+}
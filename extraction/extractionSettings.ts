@@ -0,0 +1,88 @@
+// extraction/extractionSettings.ts
+import { GeminiParsingResult } from "../types.ts";
+import { ResponseCacheMode } from "../services/responseCache.ts";
+
+export type ExtractionProviderId = "GEMINI" | "OPENAI" | "LOCAL_SERVER" | "FIXTURE_REPLAY";
+
+export type ExtractionSettings = {
+  provider: ExtractionProviderId;
+  model_id?: string;              // falls back to the provider default
+  base_url?: string;              // OPENAI / LOCAL_SERVER only
+  api_key?: string;               // OPENAI / LOCAL_SERVER only (Gemini reads process.env.API_KEY)
+  cache_mode?: ResponseCacheMode; // record/replay of model responses (default OFF)
+  updated_at?: string;            // ISO
+};
+
+/**
+ * Recorded model outputs for the FIXTURE_REPLAY provider.
+ * Keys are either "<filename>#<pageStart>-<pageEnd>", "<filename>",
+ * "sha256:<part hash>+<part hash>..." or "*" (catch-all).
+ */
+export type ExtractionFixtureSet = {
+  version: string;
+  updated_at?: string;
+  fixtures: Record<string, GeminiParsingResult>;
+};
+
+export const PROVIDER_DEFAULTS: Record<ExtractionProviderId, { label: string; model_id: string; base_url?: string }> = {
+  GEMINI: { label: "Google Gemini", model_id: "gemini-3-flash-preview" },
+  OPENAI: { label: "OpenAI", model_id: "gpt-4.1-mini", base_url: "https://api.openai.com/v1" },
+  LOCAL_SERVER: { label: "Local Model Server", model_id: "qwen2.5vl", base_url: "http://localhost:11434/v1" },
+  FIXTURE_REPLAY: { label: "Fixture Replay (offline)", model_id: "fixture-replay" },
+};
+
+export const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = {
+  provider: "GEMINI",
+  cache_mode: "OFF",
+};
+
+export const EMPTY_FIXTURE_SET: ExtractionFixtureSet = {
+  version: "1.0.0",
+  fixtures: {},
+};
+
+export function resolveModelId(settings: ExtractionSettings): string {
+  return (settings.model_id || "").trim() || PROVIDER_DEFAULTS[settings.provider].model_id;
+}
+
+export function resolveBaseUrl(settings: ExtractionSettings): string {
+  return ((settings.base_url || "").trim() || PROVIDER_DEFAULTS[settings.provider].base_url || "").replace(/\/+$/, "");
+}
+
+/**
+ * Line fields read from spreadsheet / CSV purchase orders.
+ */
+export type TabularField =
+  | "line_no"
+  | "customer_item_no"
+  | "description"
+  | "qty"
+  | "uom"
+  | "unit_price"
+  | "extended_price"
+  | "manufacturer"
+  | "customer_order_no";
+
+/**
+ * Saved layout of one customer's spreadsheet POs; fields left unmapped fall back to header synonyms.
+ */
+export type ColumnMapping = {
+  mapping_id: string;
+  customer_name: string;
+  match: string[];                                 // case-insensitive substrings of the filename or sender address
+  sheet?: string;                                  // default: first sheet with a recognisable header row
+  header_row?: number;                             // 1-based; detected when omitted
+  columns: Partial<Record<TabularField, string>>;  // header text per field
+  updated_at?: string;
+};
+
+export type ColumnMappingSet = {
+  version: string;
+  updated_at?: string;
+  mappings: ColumnMapping[];
+};
+
+export const EMPTY_COLUMN_MAPPINGS: ColumnMappingSet = {
+  version: "1.0.0",
+  mappings: [],
+};
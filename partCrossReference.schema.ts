@@ -0,0 +1,16 @@
+export type CrossReferenceSource = "REVIEW" | "IMPORT"
+
+export interface CrossReferenceEntry {
+  account_id: string          // customer master account id, or the customer name when unresolved
+  customer_item_no: string    // as first recorded
+  abh_item_no: string
+  uses: number                // times confirmed (reviewer edits, imported counts)
+  last_confirmed_at: string   // ISO
+  source: CrossReferenceSource
+}
+
+export interface PartCrossReference {
+  version: string
+  updated_at?: string
+  entries: CrossReferenceEntry[]
+}
@@ -1,4 +1,6 @@
 // policy/controlSurfacePolicy.ts
+import { TriageRuleSet } from "../services/pdfPacketTriage.ts";
+import { SeparatorSheetConfig } from "../services/pageMarks.ts";
 
 export type Semver = `${number}.${number}.${number}`;
 
@@ -60,4 +62,6 @@ export type ControlSurfacePolicy = {
   };
   edge_case_codes: string[];     // known codes for validation/UI
   rules: PolicyRule[];
+  triage_rules?: TriageRuleSet;  // page classification; DEFAULT_TRIAGE_RULES when absent
+  separator_sheets?: SeparatorSheetConfig;  // barcode separator sheets; DEFAULT_SEPARATOR_SHEETS when absent
 };
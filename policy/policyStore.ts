@@ -1,5 +1,7 @@
 // src/policy/policyStore.ts
 import { ControlSurfacePolicy } from "./controlSurfacePolicy.ts";
+import { DEFAULT_TRIAGE_RULES } from "../services/pdfPacketTriage.ts";
+import { DEFAULT_SEPARATOR_SHEETS } from "../services/pageMarks.ts";
 
 export const DEFAULT_POLICY: ControlSurfacePolicy = {
   meta: {
@@ -37,6 +39,13 @@ export const DEFAULT_POLICY: ControlSurfacePolicy = {
     "CUSTOM_LENGTH",
     "ZERO_DOLLAR",
     "THIRD_PARTY_SHIP",
+    "EDI_CHANGE_ORDER",
+    "UNKNOWN_CUSTOMER",
+    "UNKNOWN_SHIP_TO",
+    "PAYMENT_TERMS_MISMATCH",
+    "UNKNOWN_SKU",
+    "DISCONTINUED_SKU",
+    "SKU_MFR_MISMATCH",
   ],
   rules: [
     {
@@ -73,5 +82,51 @@ export const DEFAULT_POLICY: ControlSurfacePolicy = {
         fields_requiring_review: ["customer_item_desc_raw"],
       },
     },
+    {
+      rule_id: "R-400",
+      enabled: true,
+      priority: 70,
+      when: { edge_case_includes_any: ["EDI_CHANGE_ORDER"] },
+      then: {
+        lane: "REVIEW",
+        reason: "EDI 850 is not an original order (change, cancellation or duplicate)",
+        fields_requiring_review: ["customer_order_no", "line_items"],
+      },
+    },
+    {
+      rule_id: "R-500",
+      enabled: true,
+      priority: 60,
+      when: { edge_case_includes_any: ["UNKNOWN_CUSTOMER", "UNKNOWN_SHIP_TO"] },
+      then: {
+        lane: "REVIEW",
+        reason: "Customer or ship-to not found in the customer master",
+        fields_requiring_review: ["customer_name", "ship_to_address_raw"],
+      },
+    },
+    {
+      rule_id: "R-510",
+      enabled: true,
+      priority: 55,
+      when: { edge_case_includes_any: ["PAYMENT_TERMS_MISMATCH"] },
+      then: {
+        lane: "REVIEW",
+        reason: "Payment terms on the PO differ from the customer account's terms",
+        fields_requiring_review: ["payment_terms"],
+      },
+    },
+    {
+      rule_id: "R-600",
+      enabled: true,
+      priority: 50,
+      when: { edge_case_includes_any: ["UNKNOWN_SKU", "DISCONTINUED_SKU", "SKU_MFR_MISMATCH"] },
+      then: {
+        lane: "REVIEW",
+        reason: "ABH item not orderable as read (unknown, discontinued or wrong manufacturer)",
+        fields_requiring_review: ["abh_item_no_final", "manufacturer"],
+      },
+    },
   ],
+  triage_rules: DEFAULT_TRIAGE_RULES,
+  separator_sheets: DEFAULT_SEPARATOR_SHEETS,
 };
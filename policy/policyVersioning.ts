@@ -8,16 +8,17 @@ async function sha256String(input: string): Promise<string> {
   return arr.map(b => b.toString(16).padStart(2, "0")).join("");
 }
 
+// hash without sha itself
+export async function policySha256(policy: ControlSurfacePolicy): Promise<string> {
+  const tmp = JSON.parse(JSON.stringify(policy));
+  delete tmp.meta.sha256;
+  return sha256String(JSON.stringify(tmp));
+}
+
 export async function finalizePolicy(policy: ControlSurfacePolicy): Promise<ControlSurfacePolicy> {
   const cloned: ControlSurfacePolicy = JSON.parse(JSON.stringify(policy));
   cloned.meta.updated_at = new Date().toISOString();
-
-  // hash without sha itself
-  const tmp = JSON.parse(JSON.stringify(cloned));
-  delete tmp.meta.sha256;
-  const hash = await sha256String(JSON.stringify(tmp));
-
-  cloned.meta.sha256 = hash;
+  cloned.meta.sha256 = await policySha256(cloned);
   return cloned;
 }
 
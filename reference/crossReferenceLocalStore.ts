@@ -0,0 +1,40 @@
+// reference/crossReferenceLocalStore.ts
+import { PartCrossReference } from "../partCrossReference.schema.ts";
+
+const KEY = "orderflow.partCrossReference";
+
+export const EMPTY_CROSS_REFERENCE: PartCrossReference = {
+  version: "1.0.0",
+  entries: [],
+};
+
+export function loadCrossReference(): PartCrossReference {
+  try {
+    const raw = localStorage.getItem(KEY);
+    if (!raw) return EMPTY_CROSS_REFERENCE;
+    const parsed = JSON.parse(raw);
+    if (!parsed.version || !Array.isArray(parsed.entries)) {
+      return EMPTY_CROSS_REFERENCE;
+    }
+    return parsed;
+  } catch (e) {
+    console.warn("LocalStorage loadCrossReference failed", e);
+    return EMPTY_CROSS_REFERENCE;
+  }
+}
+
+export function saveCrossReference(xref: PartCrossReference) {
+  try {
+    localStorage.setItem(KEY, JSON.stringify(xref));
+  } catch (e) {
+    console.warn("LocalStorage saveCrossReference failed", e);
+  }
+}
+
+export function clearCrossReference() {
+  try {
+    localStorage.removeItem(KEY);
+  } catch (e) {
+    console.warn("LocalStorage clearCrossReference failed", e);
+  }
+}
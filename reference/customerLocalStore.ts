@@ -0,0 +1,40 @@
+// reference/customerLocalStore.ts
+import { CustomerMaster } from "../customerMaster.schema.ts";
+
+const KEY = "orderflow.customerMaster";
+
+export const EMPTY_CUSTOMER_MASTER: CustomerMaster = {
+  version: "1.0.0",
+  accounts: [],
+};
+
+export function loadCustomerMaster(): CustomerMaster {
+  try {
+    const raw = localStorage.getItem(KEY);
+    if (!raw) return EMPTY_CUSTOMER_MASTER;
+    const parsed = JSON.parse(raw);
+    if (!parsed.version || !Array.isArray(parsed.accounts)) {
+      return EMPTY_CUSTOMER_MASTER;
+    }
+    return parsed;
+  } catch (e) {
+    console.warn("LocalStorage loadCustomerMaster failed", e);
+    return EMPTY_CUSTOMER_MASTER;
+  }
+}
+
+export function saveCustomerMaster(master: CustomerMaster) {
+  try {
+    localStorage.setItem(KEY, JSON.stringify(master));
+  } catch (e) {
+    console.warn("LocalStorage saveCustomerMaster failed", e);
+  }
+}
+
+export function clearCustomerMaster() {
+  try {
+    localStorage.removeItem(KEY);
+  } catch (e) {
+    console.warn("LocalStorage clearCustomerMaster failed", e);
+  }
+}
@@ -35,6 +35,19 @@ export interface HardwareSetTemplate {
   defaults: Record<string, string>
 }
 
+export type ItemStatus = "ACTIVE" | "DISCONTINUED" | "SUPERSEDED"
+
+export interface ItemMasterRef {
+  sku: string               // ABH item number
+  mfr_abbr: string          // manufacturer abbr from this pack
+  description: string
+  base_uom: string          // e.g. "EA", "BX"
+  pack_size?: number        // base units per pack
+  list_price?: number
+  status: ItemStatus
+  replacement_sku?: string  // for DISCONTINUED / SUPERSEDED items
+}
+
 export interface ReferencePack {
   version: string
   updated_at?: string
@@ -45,4 +58,5 @@ export interface ReferencePack {
   electrified_devices: ElectrifiedDeviceRef[]
   wiring_configs: WiringConfigRef[]
   hardware_sets: HardwareSetTemplate[]
+  items?: ItemMasterRef[]   // item master; absent in packs saved before it existed
 }
\ No newline at end of file
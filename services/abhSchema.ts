@@ -7,6 +7,107 @@
 export const ABH_PO_V1_SCHEMA_ID =
   "https://abh.example/schemas/po-automation/abh.po.v1.schema.json";
 
+const BOUNDING_BOX_SCHEMA = {
+  type: "object",
+  required: ["x", "y", "w", "h"],
+  properties: {
+    x: { type: "number", minimum: 0, maximum: 1 },
+    y: { type: "number", minimum: 0, maximum: 1 },
+    w: { type: "number", minimum: 0, maximum: 1 },
+    h: { type: "number", minimum: 0, maximum: 1 },
+  },
+};
+
+const ADDRESS_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    line1: { type: "string" },
+    line2: { type: "string" },
+    city: { type: "string" },
+    state: { type: "string" },
+    postal_code: { type: "string" },
+    country: { type: "string" },
+  },
+};
+
+export const DOCUMENT_TYPE_ENUM: DocumentType[] = ["PURCHASE_ORDER","SALES_ORDER","INVOICE","CREDIT_MEMO","PICKING_SHEET","EMAIL_COVER","UNKNOWN"];
+
+/**
+ * JSON Schema mirror of the LineItem interface below.
+ */
+export const ABH_PO_V1_LINE_ITEM_SCHEMA = {
+  type: "object",
+  required: ["line_id", "raw", "parsed", "confidence", "flags"],
+  properties: {
+    line_id: { type: "string" },
+    raw: {
+      type: "object",
+      required: ["raw_text"],
+      properties: {
+        raw_text: { type: "string" },
+        page: { type: "number" },
+        line_no: { type: "number" },
+        bbox: BOUNDING_BOX_SCHEMA,
+        field_boxes: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["field", "bbox"],
+            properties: {
+              field: { type: "string" },
+              page: { type: "number" },
+              bbox: BOUNDING_BOX_SCHEMA,
+            },
+          },
+        },
+      },
+    },
+    parsed: {
+      type: "object",
+      required: ["quantity", "uom"],
+      properties: {
+        customer_item_no: { type: "string" },
+        abh_item_no: { type: "string" },
+        manufacturer: { type: "string" },
+        description: { type: "string" },
+        quantity: { type: "number" },
+        uom: { type: "string" },
+        unit_price: { type: "number" },
+        extended_price: { type: "number" },
+        discount: { type: "number" },
+        currency: { type: "string" },
+        attributes: { type: "object" },
+        modifiers: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["type"],
+            properties: {
+              type: {
+                type: "string",
+                enum: ["CUT_TO_LENGTH","SPECIAL_LAYOUT","POWER_TRANSFER_CUTOUT","WIRING_SPEC","HANDING","FINISH","OTHER"]
+              },
+              value: { type: "string" },
+              structured: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    confidence: {
+      type: "object",
+      required: ["line_confidence", "field_confidence", "signals"],
+      properties: {
+        line_confidence: { type: "number", minimum: 0, maximum: 1 },
+        field_confidence: { type: "object" },
+        signals: { type: "array", items: { type: "object", required: ["type", "weight"] } },
+      },
+    },
+    flags: { type: "array", items: { type: "string" } },
+  },
+};
+
 export const ABH_PO_V1_SCHEMA = {
   $schema: "https://json-schema.org/draft/2020-12/schema",
   $id: ABH_PO_V1_SCHEMA_ID,
@@ -47,9 +148,16 @@ export const ABH_PO_V1_SCHEMA = {
         document_id: { type: "string" },
         document_type: {
           type: "string",
-          enum: ["PURCHASE_ORDER","SALES_ORDER","INVOICE","CREDIT_MEMO","PICKING_SHEET","EMAIL_COVER","UNKNOWN"]
+          enum: DOCUMENT_TYPE_ENUM
+        },
+        file: {
+          type: "object",
+          required: ["filename"],
+          properties: {
+            filename: { type: "string" },
+            archive_path: { type: "string", description: "Member path inside the uploaded archive(s), e.g. orders.zip/east/PO-1.pdf" },
+          },
         },
-        file: { type: "object", required: ["filename"], properties: { filename: { type: "string" } } },
         source_pages: {
           type: "array",
           items: { type: "number" },
@@ -63,7 +171,7 @@ export const ABH_PO_V1_SCHEMA = {
       type: "object",
       required: ["customer", "vendor"],
       properties: {
-        customer: { type: "object", properties: { name: { type: "string" } } },
+        customer: { type: "object", properties: { name: { type: "string" }, account_id: { type: "string" } } },
         vendor: { type: "object", properties: { name: { type: "string" } } },
       },
     },
@@ -73,21 +181,24 @@ export const ABH_PO_V1_SCHEMA = {
       properties: {
         order_type: {
           type: "string",
-          enum: ["PURCHASE_ORDER","SALES_ORDER","INVOICE","CREDIT_MEMO","PICKING_SHEET","EMAIL_COVER","UNKNOWN"]
+          enum: DOCUMENT_TYPE_ENUM
         },
         customer_order_no: { type: "string" },
         order_date: { type: "string" },
         currency: { type: "string" },
+        payment_terms: { type: "string" },
         addresses: {
           type: "object",
           properties: {
+            bill_to: ADDRESS_SCHEMA,
+            ship_to: ADDRESS_SCHEMA,
             ship_to_name: { type: "string" },
             mark_for: { type: "string" }
           }
         }
       },
     },
-    line_items: { type: "array", items: { type: "object" } },
+    line_items: { type: "array", items: ABH_PO_V1_LINE_ITEM_SCHEMA },
     confidence: { type: "object", required: ["overall_confidence", "auto_process_eligible"] },
     routing: { type: "object", required: ["decision", "reason_codes"] },
     audit: { type: "object", required: ["events"] },
@@ -149,7 +260,8 @@ export type SignalType =
   | "MODEL_CONSENSUS"
   | "LAYOUT_KEYWORD"
   | "PRICE_SANITY_CHECK"
-  | "UOM_SANITY_CHECK";
+  | "UOM_SANITY_CHECK"
+  | "CUSTOMER_ACCOUNT_MATCH";
 
 export interface Party {
   name: string;
@@ -182,12 +294,30 @@ export interface Signal {
   detail?: string;
 }
 
+/**
+ * Page region as fractions (0..1) of the rendered page, origin top-left.
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface FieldBox {
+  field: string;        // parsed.* key, e.g. "customer_item_no", "quantity"
+  page?: number;        // defaults to raw.page
+  bbox: BoundingBox;
+}
+
 export interface LineItem {
   line_id: string;
   raw: {
     raw_text: string;
-    page?: number;
+    page?: number;      // 0-based page index in the source file
     line_no?: number;
+    bbox?: BoundingBox;
+    field_boxes?: FieldBox[];
   };
   parsed: {
     customer_item_no?: string;
@@ -235,6 +365,7 @@ export interface POExportV1 {
       filename: string;
       mime_type?: string;
       page_count?: number;
+      archive_path?: string;
     };
     source_pages?: number[];
     page_start?: number;
@@ -249,6 +380,7 @@ export interface POExportV1 {
     customer_order_no?: string;
     order_date?: string;
     currency?: string;
+    payment_terms?: string;
     addresses?: {
       bill_to?: Address;
       ship_to?: Address;
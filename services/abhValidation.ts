@@ -0,0 +1,272 @@
+// services/abhValidation.ts
+// Runtime validation of model output against ABH_PO_V1_SCHEMA (+ the LineItem shape),
+// with safe coercions. Violations travel with the document as a SCHEMA_VALIDATION audit event.
+import { ABH_PO_V1_SCHEMA, POExportV1, AuditEvent } from "./abhSchema.ts";
+import { GeminiParsingResult } from "../types.ts";
+
+export type SchemaViolation = {
+  path: string;            // relative to the document, e.g. "line_items[2].parsed.quantity"
+  expected: string;
+  actual: string;
+  coerced: boolean;        // true when a safe coercion repaired the value
+};
+
+export type ValidatedParsingResult = {
+  result: GeminiParsingResult;
+  violations: SchemaViolation[];   // paths prefixed with "documents[i]."
+  fatal: boolean;                  // top-level shape unusable (no documents array)
+};
+
+export const SCHEMA_VALIDATION_EVENT = "SCHEMA_VALIDATION";
+
+// Export-envelope fields the model is never asked to produce.
+const MODEL_OMITTED_PATHS = new Set([
+  "export_id",
+  "exported_at",
+  "source",
+  "audit",
+  "confidence",
+  "routing",
+  "document.file",
+]);
+
+// Containers downstream mapping relies on; created empty (and reported) when missing.
+const STRUCTURAL_DEFAULTS: Record<string, () => unknown> = {
+  "document": () => ({}),
+  "order": () => ({}),
+  "line_items": () => [],
+  "line_items.raw": () => ({}),
+  "line_items.parsed": () => ({}),
+  "line_items.confidence": () => ({}),
+};
+
+// Missing values that can be defaulted without changing meaning (paths without indexes).
+const SAFE_DEFAULTS: Record<string, () => unknown> = {
+  "parties": () => ({}),
+  "parties.customer": () => ({}),
+  "parties.vendor": () => ({}),
+  "line_items.flags": () => [],
+};
+
+// Required by LineItem but never requested from the model; filled without reporting.
+const SILENT_DEFAULTS: Record<string, () => unknown> = {
+  "line_items.confidence.field_confidence": () => ({}),
+  "line_items.confidence.signals": () => [],
+};
+
+const NUMERIC_STRING = /^[+-]?\$?\s*\d{1,3}(?:,\d{3})*(?:\.\d+)?$|^[+-]?\$?\s*\d*\.?\d+$/;
+
+function describe(v: unknown): string {
+  if (v === undefined) return "missing";
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  if (typeof v === "string") return JSON.stringify(v.length > 40 ? `${v.slice(0, 40)}…` : v);
+  if (typeof v === "object") return "object";
+  return `${typeof v} ${String(v)}`;
+}
+
+function typeMatches(expected: string, v: unknown): boolean {
+  switch (expected) {
+    case "string": return typeof v === "string";
+    case "number": return typeof v === "number" && Number.isFinite(v);
+    case "integer": return typeof v === "number" && Number.isInteger(v);
+    case "boolean": return typeof v === "boolean";
+    case "array": return Array.isArray(v);
+    case "object": return !!v && typeof v === "object" && !Array.isArray(v);
+    default: return true;
+  }
+}
+
+function tryCoerce(expected: string, v: unknown): { ok: boolean; value?: unknown } {
+  if ((expected === "number" || expected === "integer") && typeof v === "string") {
+    const t = v.trim();
+    if (NUMERIC_STRING.test(t)) {
+      const n = Number(t.replace(/[$,\s]/g, ""));
+      if (Number.isFinite(n) && (expected === "number" || Number.isInteger(n))) return { ok: true, value: n };
+    }
+  }
+  if (expected === "string" && (typeof v === "number" || typeof v === "boolean")) {
+    return { ok: true, value: String(v) };
+  }
+  if (expected === "boolean" && typeof v === "string" && /^(true|false)$/i.test(v.trim())) {
+    return { ok: true, value: v.trim().toLowerCase() === "true" };
+  }
+  return { ok: false };
+}
+
+function normalizeEnum(options: string[], v: unknown): string | undefined {
+  if (typeof v !== "string") return undefined;
+  const k = v.trim().toUpperCase().replace(/[\s-]+/g, "_");
+  return options.find(o => o === k);
+}
+
+function schemaPathKey(path: string): string {
+  return path.replace(/\[\d+\]/g, "");
+}
+
+/**
+ * Walks a (subset of) JSON Schema: type, const, enum, required, properties, items, minimum/maximum.
+ * Returns the possibly-coerced value; violations are appended to `out`.
+ */
+function walk(schema: any, value: unknown, path: string, out: SchemaViolation[]): unknown {
+  if (!schema || typeof schema !== "object") return value;
+
+  let v = value;
+  const expected: string | undefined = schema.type;
+
+  if (schema.const !== undefined && v !== schema.const) {
+    if (typeof v === "string") {
+      out.push({ path, expected: JSON.stringify(schema.const), actual: describe(v), coerced: true });
+      return schema.const;
+    }
+  }
+
+  if (expected && !typeMatches(expected, v)) {
+    const c = tryCoerce(expected, v);
+    if (c.ok) {
+      out.push({ path, expected, actual: describe(v), coerced: true });
+      v = c.value;
+    } else {
+      out.push({ path, expected, actual: describe(v), coerced: false });
+      return v;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(v)) {
+    const n = normalizeEnum(schema.enum, v);
+    out.push({ path, expected: `one of ${schema.enum.join("|")}`, actual: describe(v), coerced: !!n });
+    if (n) v = n;
+  }
+
+  if (typeof v === "number") {
+    if (typeof schema.minimum === "number" && v < schema.minimum) {
+      out.push({ path, expected: `>= ${schema.minimum}`, actual: describe(v), coerced: false });
+    }
+    if (typeof schema.maximum === "number" && v > schema.maximum) {
+      out.push({ path, expected: `<= ${schema.maximum}`, actual: describe(v), coerced: false });
+    }
+  }
+
+  if (expected === "array" && Array.isArray(v) && schema.items) {
+    v = v.map((item, i) => walk(schema.items, item, `${path}[${i}]`, out));
+  }
+
+  if (expected === "object" && v && typeof v === "object" && !Array.isArray(v)) {
+    const obj: Record<string, unknown> = { ...(v as Record<string, unknown>) };
+    const props: Record<string, any> = schema.properties || {};
+    const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+
+    for (const key of required) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (MODEL_OMITTED_PATHS.has(childPath)) continue;
+      if (obj[key] !== undefined && obj[key] !== null) continue;
+
+      const silent = SILENT_DEFAULTS[schemaPathKey(childPath)];
+      if (silent) {
+        obj[key] = silent();
+        continue;
+      }
+
+      const safe = SAFE_DEFAULTS[schemaPathKey(childPath)];
+      const structural = STRUCTURAL_DEFAULTS[schemaPathKey(childPath)];
+      const expectedType = props[key]?.type ?? "value";
+      if (safe) {
+        out.push({ path: childPath, expected: expectedType, actual: describe(obj[key]), coerced: true });
+        obj[key] = safe();
+      } else {
+        out.push({ path: childPath, expected: expectedType, actual: describe(obj[key]), coerced: false });
+        if (structural) obj[key] = structural();
+      }
+    }
+
+    for (const [key, childSchema] of Object.entries(props)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (MODEL_OMITTED_PATHS.has(childPath)) continue;
+      if (obj[key] === undefined || obj[key] === null) continue;
+      obj[key] = walk(childSchema, obj[key], childPath, out);
+    }
+    v = obj;
+  }
+
+  return v;
+}
+
+export function validateModelDocument(doc: unknown): { document: POExportV1; violations: SchemaViolation[] } {
+  const violations: SchemaViolation[] = [];
+  const base = doc && typeof doc === "object" && !Array.isArray(doc) ? doc : {};
+  if (base !== doc) violations.push({ path: "", expected: "object", actual: describe(doc), coerced: false });
+  const document = walk(ABH_PO_V1_SCHEMA, base, "", violations) as POExportV1;
+  return { document, violations };
+}
+
+/**
+ * Validates every returned document and records its violations on the
+ * document's audit trail so they survive concatenation across segments.
+ */
+export function validateParsingResult(raw: unknown): ValidatedParsingResult {
+  const docs = (raw as any)?.documents;
+  if (!Array.isArray(docs)) {
+    return {
+      result: { documents: [] },
+      violations: [{ path: "documents", expected: "array", actual: describe(docs), coerced: false }],
+      fatal: true,
+    };
+  }
+
+  const all: SchemaViolation[] = [];
+  const documents = docs.map((d, i) => {
+    const { document, violations } = validateModelDocument(d);
+    all.push(...violations.map(v => ({ ...v, path: `documents[${i}]${v.path ? "." + v.path : ""}` })));
+    if (violations.length) {
+      const evt: AuditEvent = {
+        at: new Date().toISOString(),
+        event_type: SCHEMA_VALIDATION_EVENT,
+        actor: "SYSTEM",
+        details: { violations },
+      };
+      document.audit = { events: [...(document.audit?.events ?? []), evt] };
+    }
+    return document;
+  });
+
+  return { result: { documents }, violations: all, fatal: false };
+}
+
+export function schemaViolationsOf(doc: POExportV1): SchemaViolation[] {
+  return (doc.audit?.events ?? [])
+    .filter(e => e.event_type === SCHEMA_VALIDATION_EVENT)
+    .flatMap(e => (e.details?.violations as SchemaViolation[]) ?? []);
+}
+
+/**
+ * Violations that concern a given line: line-scoped paths for that index plus all document-level paths.
+ */
+export function violationsForLine(violations: SchemaViolation[], lineIndex: number): SchemaViolation[] {
+  const prefix = `line_items[${lineIndex}]`;
+  return violations.filter(v => !v.path.startsWith("line_items[") || v.path === prefix || v.path.startsWith(`${prefix}.`));
+}
+
+export function formatViolation(v: SchemaViolation): string {
+  return `SCHEMA:${v.path || "(root)"} expected ${v.expected}, got ${v.actual}`;
+}
+
+const ROW_FIELD_BY_PATH: Record<string, string> = {
+  "parsed.quantity": "qty",
+  "parsed.uom": "uom",
+  "parsed.unit_price": "unit_price",
+  "parsed.extended_price": "extended_price",
+  "parsed.customer_item_no": "customer_item_no",
+  "parsed.description": "customer_item_desc_raw",
+  "parsed.manufacturer": "manufacturer",
+  "document.document_type": "doc_type",
+  "order.customer_order_no": "customer_order_no",
+  "order.order_date": "document_date",
+  "parties.customer.name": "customer_name",
+};
+
+/**
+ * Maps a violation to the POLineRow field a reviewer should look at (if any).
+ */
+export function rowFieldForViolation(v: SchemaViolation): string | undefined {
+  return ROW_FIELD_BY_PATH[v.path.replace(/^line_items\[\d+\]\./, "")];
+}
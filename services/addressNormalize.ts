@@ -0,0 +1,187 @@
+// services/addressNormalize.ts
+// Offline address clean-up for US / Canadian addresses: state and province codes, ZIP and
+// postal code formats, suite / unit split into line2. No lookups against a postal database.
+import { Address } from "./abhSchema.ts";
+
+const US_STATES: Record<string, string> = {
+  AL: "Alabama", AK: "Alaska", AZ: "Arizona", AR: "Arkansas", CA: "California", CO: "Colorado",
+  CT: "Connecticut", DE: "Delaware", DC: "District of Columbia", FL: "Florida", GA: "Georgia",
+  HI: "Hawaii", ID: "Idaho", IL: "Illinois", IN: "Indiana", IA: "Iowa", KS: "Kansas", KY: "Kentucky",
+  LA: "Louisiana", ME: "Maine", MD: "Maryland", MA: "Massachusetts", MI: "Michigan", MN: "Minnesota",
+  MS: "Mississippi", MO: "Missouri", MT: "Montana", NE: "Nebraska", NV: "Nevada", NH: "New Hampshire",
+  NJ: "New Jersey", NM: "New Mexico", NY: "New York", NC: "North Carolina", ND: "North Dakota",
+  OH: "Ohio", OK: "Oklahoma", OR: "Oregon", PA: "Pennsylvania", RI: "Rhode Island",
+  SC: "South Carolina", SD: "South Dakota", TN: "Tennessee", TX: "Texas", UT: "Utah", VT: "Vermont",
+  VA: "Virginia", WA: "Washington", WV: "West Virginia", WI: "Wisconsin", WY: "Wyoming",
+  PR: "Puerto Rico", GU: "Guam", VI: "Virgin Islands", AS: "American Samoa", MP: "Northern Mariana Islands",
+  AA: "Armed Forces Americas", AE: "Armed Forces Europe", AP: "Armed Forces Pacific",
+};
+
+const CA_PROVINCES: Record<string, string> = {
+  AB: "Alberta", BC: "British Columbia", MB: "Manitoba", NB: "New Brunswick",
+  NL: "Newfoundland and Labrador", NS: "Nova Scotia", NT: "Northwest Territories", NU: "Nunavut",
+  ON: "Ontario", PE: "Prince Edward Island", QC: "Quebec", SK: "Saskatchewan", YT: "Yukon",
+};
+
+// Spellings seen on documents besides the full names above.
+const REGION_ALIASES: Record<string, string> = {
+  "WASHINGTON DC": "DC", "WASHINGTON D C": "DC", "D C": "DC",
+  "PQ": "QC", "QUE": "QC", "QUEBEC": "QC", "NEWFOUNDLAND": "NL", "NF": "NL", "LABRADOR": "NL",
+  "YUKON TERRITORY": "YT", "YK": "YT", "PEI": "PE", "P E I": "PE",
+  "CALIF": "CA", "MASS": "MA", "PENN": "PA", "PENNA": "PA", "TENN": "TN", "WASH": "WA", "WISC": "WI",
+};
+
+const COUNTRY_ALIASES: Record<string, "US" | "CA"> = {
+  "US": "US", "USA": "US", "U S": "US", "U S A": "US", "UNITED STATES": "US", "UNITED STATES OF AMERICA": "US", "AMERICA": "US",
+  "CA": "CA", "CAN": "CA", "CANADA": "CA",
+};
+
+const REGION_BY_NAME: Record<string, string> = Object.fromEntries([
+  ...Object.entries(US_STATES).map(([code, name]) => [key(name), code]),
+  ...Object.entries(CA_PROVINCES).map(([code, name]) => [key(name), code]),
+  ...Object.entries(REGION_ALIASES),
+]);
+
+const US_ZIP = /^(\d{5})(?:[-\s]?(\d{4}))?$/;
+const CA_POSTAL = /^([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])\s*-?\s*(\d[ABCEGHJ-NPRSTV-Z]\d)$/;
+
+// Trailing secondary unit: "Suite 200", "Ste. 4B", "Unit 7", "#12", "Bldg C", "Dock 3", "Fl 2".
+// The unit id needs a digit or is a single letter, so "Rue Ste-Catherine" / "1 Bay St" stay whole.
+const SECONDARY_UNIT = /[\s,]+((?:suite|ste\.?|unit|apt\.?|apartment|room|rm\.?|floor|fl\.?|bldg\.?|building|dock|door|bay|#)\s*#?\s*(?:[\w-]*\d[\w-]*|[A-Za-z](?![\w-])))\s*$/i;
+
+// ZIPs that lost their leading zero (4 digits) are accepted here and padded later.
+const TRAILING_POSTAL = /^(.*?)[,\s]+([A-Za-z]\d[A-Za-z]\s*-?\s*\d[A-Za-z]\d|\d{4,5}(?:[-\s]?\d{4})?)$/;
+
+function key(s: string): string {
+  return s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toUpperCase().replace(/[.,]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function tidy(s?: string): string | undefined {
+  const t = (s ?? "").replace(/\s+/g, " ").replace(/^[\s,;]+|[\s,;]+$/g, "");
+  return t || undefined;
+}
+
+export type NormalizedAddress = {
+  address: Address;
+  warnings: string[];   // e.g. unknown state code, postal code that fits neither format
+};
+
+function regionCode(raw: string): { code?: string; country?: "US" | "CA" } {
+  const k = key(raw);
+  const compact = k.replace(/ /g, "");
+  const code = compact.length === 2 ? compact : REGION_BY_NAME[k] ?? REGION_BY_NAME[compact];
+  if (code && US_STATES[code]) return { code, country: "US" };
+  if (code && CA_PROVINCES[code]) return { code, country: "CA" };
+  return {};
+}
+
+/**
+ * "Plano, TX 75074" / "New York NY 10001" / "Toronto ON M5V 2T6", read from the right: postal
+ * code, then the state after the last comma or in the last one to three words.
+ */
+function splitCityLine(text: string): { city: string; state: string; postal_code: string } | undefined {
+  const m = text.match(TRAILING_POSTAL);
+  if (!m) return undefined;
+  const rest = m[1].trim();
+  const comma = rest.lastIndexOf(",");
+  if (comma > 0 && regionCode(rest.slice(comma + 1)).code) {
+    return { city: rest.slice(0, comma), state: rest.slice(comma + 1).trim(), postal_code: m[2] };
+  }
+  const words = rest.split(/\s+/);
+  for (let n = 1; n <= 3 && n < words.length; n++) {
+    const state = words.slice(-n).join(" ");
+    if (regionCode(state).code) return { city: words.slice(0, -n).join(" "), state, postal_code: m[2] };
+  }
+  return undefined;
+}
+
+/**
+ * Country from the country element, else from the state / province, else from the postal format.
+ */
+function inferCountry(a: Address, region?: "US" | "CA"): string | undefined {
+  const given = tidy(a.country);
+  if (given) return COUNTRY_ALIASES[key(given)] ?? given.toUpperCase();
+  if (region) return region;
+  const postal = (a.postal_code ?? "").toUpperCase().trim();
+  if (CA_POSTAL.test(postal)) return "CA";
+  if (US_ZIP.test(postal)) return "US";
+  return undefined;
+}
+
+function normalizePostal(raw: string, country?: string): { value: string; ok: boolean } {
+  const t = raw.toUpperCase().trim();
+  if (country !== "CA") {
+    // Spreadsheets drop the leading zero of New England / New Jersey ZIPs.
+    const zip = (/^\d{4}(?:-\d{4})?$/.test(t) ? `0${t}` : t).match(US_ZIP);
+    if (zip) return { value: zip[2] ? `${zip[1]}-${zip[2]}` : zip[1], ok: true };
+  }
+  if (country !== "US") {
+    const postal = t.match(CA_POSTAL);
+    if (postal) return { value: `${postal[1]} ${postal[2]}`, ok: true };
+  }
+  return { value: t, ok: !(country === "US" || country === "CA") };
+}
+
+/**
+ * Cleans one address: splits a "City, ST 12345" last line the model left in `city`, moves a
+ * trailing suite / unit from line1 to line2, maps state and province names to their two-letter
+ * codes, formats ZIP+4 and Canadian postal codes, and fills the country when it can be inferred.
+ */
+export function normalizeAddress(input: Address): NormalizedAddress {
+  const warnings: string[] = [];
+  const a: Address = {
+    name: tidy(input.name),
+    line1: tidy(input.line1),
+    line2: tidy(input.line2),
+    city: tidy(input.city),
+    state: tidy(input.state),
+    postal_code: tidy(input.postal_code),
+    country: tidy(input.country),
+  };
+
+  if (a.city && !a.state && !a.postal_code) {
+    const split = splitCityLine(a.city);
+    if (split) [a.city, a.state, a.postal_code] = [tidy(split.city), split.state, split.postal_code];
+  }
+
+  if (a.line1 && !a.line2) {
+    const m = a.line1.match(SECONDARY_UNIT);
+    if (m && m.index! > 0) {
+      a.line2 = tidy(m[1]);
+      a.line1 = tidy(a.line1.slice(0, m.index));
+    }
+  }
+
+  const region = a.state ? regionCode(a.state) : {};
+  if (a.state) {
+    if (region.code) a.state = region.code;
+    else warnings.push(`Unknown state/province "${a.state}"`);
+  }
+
+  a.country = inferCountry(a, region.country);
+  if (region.country && a.country && a.country !== region.country) {
+    warnings.push(`State/province ${a.state} is in ${region.country}, not ${a.country}`);
+  }
+
+  if (a.postal_code) {
+    const postal = normalizePostal(a.postal_code, a.country);
+    a.postal_code = postal.value;
+    if (!postal.ok) warnings.push(`Postal code "${postal.value}" is not a valid ${a.country} format`);
+  }
+
+  const address = Object.fromEntries(Object.entries(a).filter(([, v]) => v !== undefined)) as Address;
+  return { address, warnings };
+}
+
+/**
+ * One-line form (without the name) used for the control surface's *_address_raw columns.
+ */
+export function formatAddress(a?: Address): string | undefined {
+  if (!a) return undefined;
+  const cityLine = [a.city, [a.state, a.postal_code].filter(Boolean).join(" ")].filter(Boolean).join(", ");
+  return [a.line1, a.line2, cityLine, a.country].filter(Boolean).join(", ") || undefined;
+}
+
+export function isEmptyAddress(a?: Address): boolean {
+  return !a || ![a.line1, a.line2, a.city, a.state, a.postal_code].some(v => (v ?? "").trim());
+}
@@ -101,15 +101,15 @@ export function toControlSurfaceRecord(r: POLineRow): Record<ControlHeader, any>
     fields_requiring_review: (r.fields_requiring_review || []).join(";"),
     routing_reason: r.routing_reason ?? "",
 
-    review_status: "",
-    reviewer: "",
-    review_timestamp: "",
+    review_status: r.review_status ?? "",
+    reviewer: r.reviewer ?? "",
+    review_timestamp: r.review_timestamp ?? "",
 
     final_abh_item_no: r.abh_item_no_final ?? "",
     final_qty: "",
     final_uom: "",
     final_unit_price: "",
-    final_ship_to: "",
+    final_ship_to: [r.ship_to_name, r.ship_to_address_raw].filter(Boolean).join(", "),
 
     notes: r.raw_edge_case_notes ?? "",
   };
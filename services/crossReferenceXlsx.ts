@@ -0,0 +1,89 @@
+// services/crossReferenceXlsx.ts
+// Bulk customer part -> ABH item cross-reference import / export (XLSX or CSV, one sheet).
+import * as XLSX from "xlsx";
+import { PartCrossReference } from "../partCrossReference.schema.ts";
+import { matchColumn } from "./referencePackXlsx.ts";
+import { recordCrossReference } from "./partCrossReference.ts";
+import { bumpReferenceVersion } from "../reference/referenceVersioning.ts";
+
+type XrefField = "account_id" | "customer_item_no" | "abh_item_no" | "uses" | "last_confirmed_at";
+
+// Claimed in this order; item columns before the account so "Customer Part" is not taken as the customer.
+const COLUMN_ALIASES: [XrefField, string[]][] = [
+  ["customer_item_no", ["customer_item_no", "customer part", "customer part no", "customer part number", "customer item", "customer item no", "cust part", "cust item", "their part"]],
+  ["abh_item_no", ["abh_item_no", "abh part", "abh part no", "abh item", "abh item no", "abh sku", "our part", "sku", "item no", "part no"]],
+  ["account_id", ["account_id", "account", "account no", "account number", "acct", "customer id", "customer no", "customer", "customer name"]],
+  ["uses", ["uses", "use count", "usage", "times used", "count"]],
+  ["last_confirmed_at", ["last_confirmed_at", "last confirmed", "last used", "confirmed", "date"]],
+];
+
+function columnsFor(headers: string[]): Partial<Record<XrefField, string>> {
+  const out: Partial<Record<XrefField, string>> = {};
+  const claimed: string[] = [];
+  for (const [field, aliases] of COLUMN_ALIASES) {
+    const col = matchColumn(headers, aliases, { exclude: claimed, exactOnly: true });
+    if (col !== undefined) {
+      out[field] = col;
+      claimed.push(col);
+    }
+  }
+  return out;
+}
+
+// Spreadsheet dates arrive as Date objects (cellDates) or text; anything unreadable means "now".
+function isoDate(v: unknown): string | undefined {
+  const d = v instanceof Date ? v : v ? new Date(String(v)) : undefined;
+  return d && !isNaN(d.getTime()) ? d.toISOString() : undefined;
+}
+
+/**
+ * Merges the first sheet into `existing`: each row confirms one mapping (its use count, default 1).
+ * Rows that disagree with a recorded mapping replace it. The version is a minor bump.
+ */
+export function importCrossReferenceFromXlsx(buffer: ArrayBuffer, existing: PartCrossReference): PartCrossReference {
+  let wb: XLSX.WorkBook;
+  try {
+    wb = XLSX.read(buffer, { type: "array", cellDates: true });
+  } catch (err) {
+    console.error("XLSX read failed:", err);
+    throw new Error("Failed to read the cross-reference file. Ensure it is a valid .xlsx or .csv file.");
+  }
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(wb.Sheets[wb.SheetNames[0]], { defval: "" });
+  const cols = columnsFor(rows.length ? Object.keys(rows[0]) : []);
+  if (!cols.account_id || !cols.customer_item_no || !cols.abh_item_no) {
+    throw new Error("Expected account, customer part number and ABH item number columns.");
+  }
+  const get = (r: Record<string, unknown>, f: XrefField) => (cols[f] === undefined ? "" : r[cols[f]!]);
+
+  let next = existing;
+  let imported = 0;
+  for (const r of rows) {
+    const before = next;
+    const uses = Number(get(r, "uses"));
+    next = recordCrossReference(next, {
+      account_id: String(get(r, "account_id")),
+      customer_item_no: String(get(r, "customer_item_no")),
+      abh_item_no: String(get(r, "abh_item_no")),
+      uses: Number.isFinite(uses) && uses > 0 ? Math.round(uses) : 1,
+      at: isoDate(get(r, "last_confirmed_at")),
+      source: "IMPORT",
+    });
+    if (next !== before) imported++;
+  }
+  if (imported === 0) throw new Error("No cross-reference rows found.");
+  if (imported < rows.length) console.warn(`Cross-reference import: ${rows.length - imported} incomplete row(s) skipped`);
+
+  return { ...next, version: bumpReferenceVersion(existing.version, "minor"), updated_at: new Date().toISOString() };
+}
+
+export function exportCrossReferenceToXlsx(xref: PartCrossReference): Blob {
+  const wb = XLSX.utils.book_new();
+  const aoa = [
+    ["account_id", "customer_item_no", "abh_item_no", "uses", "last_confirmed_at", "source"],
+    ...xref.entries.map(e => [e.account_id, e.customer_item_no, e.abh_item_no, e.uses, e.last_confirmed_at, e.source]),
+  ];
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(aoa), "CrossReference");
+  const out = XLSX.write(wb, { type: "array", bookType: "xlsx" });
+  return new Blob([out], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+}
@@ -0,0 +1,196 @@
+// services/customerMasterXlsx.ts
+// Customer master workbook (Customers + ShipTos sheets) or a single CSV, in and out.
+import * as XLSX from "xlsx";
+import { CustomerAccount, CustomerMaster } from "../customerMaster.schema.ts";
+import { Address } from "./abhSchema.ts";
+import { matchColumn } from "./referencePackXlsx.ts";
+import { isEmptyAddress, normalizeAddress } from "./addressNormalize.ts";
+import { bumpReferenceVersion } from "../reference/referenceVersioning.ts";
+
+const SHEETS = {
+  CUSTOMERS: "Customers",
+  SHIP_TOS: "ShipTos",
+};
+
+const SHEET_ALIASES: Record<string, string[]> = {
+  [SHEETS.CUSTOMERS]: ["customers", "customer", "accounts", "account", "customer master", "sold to", "sold-to"],
+  [SHEETS.SHIP_TOS]: ["shiptos", "ship tos", "ship to", "ship-to", "ship_to", "locations", "addresses", "sites"],
+};
+
+type CustomerField =
+  | "account_id" | "name" | "aliases" | "email_domains" | "default_terms"
+  | "ship_to_id" | "ship_to_name" | "line1" | "line2" | "city" | "state" | "postal_code" | "country";
+
+// Claimed in this order, so specific headers ("Ship To Name") are taken before generic ones ("Name").
+const COLUMN_ALIASES: [CustomerField, string[]][] = [
+  ["ship_to_id", ["ship_to_id", "ship to id", "ship to code", "ship to no", "ship to number", "location id", "location code", "site id"]],
+  ["ship_to_name", ["ship_to_name", "ship to name", "location name", "site name", "consignee"]],
+  ["account_id", ["account_id", "account", "account no", "account number", "acct", "acct no", "customer id", "customer no", "customer number", "cust no", "cust", "customer code"]],
+  ["email_domains", ["email_domains", "email domain", "email domains", "domains", "domain", "email"]],
+  ["default_terms", ["default_terms", "terms", "payment terms", "pay terms", "terms code"]],
+  ["aliases", ["aliases", "alias", "aka", "also known as", "other names", "dba"]],
+  ["line2", ["line2", "address2", "address 2", "address line 2", "suite", "unit"]],
+  ["postal_code", ["postal_code", "zip", "zip code", "postal", "postal code", "postcode"]],
+  ["line1", ["line1", "address1", "address 1", "address line 1", "address", "street", "street address"]],
+  ["city", ["city", "town"]],
+  ["state", ["state", "province", "state/province", "region"]],
+  ["country", ["country", "country code"]],
+  ["name", ["name", "customer name", "customer", "company", "company name", "account name"]],
+];
+
+function listOf(v: unknown): string[] {
+  if (v === undefined || v === null || v === "") return [];
+  return String(v).split(/[,;\n]/).map(x => x.trim()).filter(Boolean);
+}
+
+// "orders@acmedoor.com", "@acmedoor.com" and "acmedoor.com" all give "acmedoor.com".
+function domainOf(v: string): string {
+  return v.toLowerCase().replace(/^.*@/, "").replace(/^www\./, "").trim();
+}
+
+// Partial header matches only for free-text fields; "Account Name" must not become the account id.
+const PARTIAL_MATCH_FIELDS: CustomerField[] = ["name", "default_terms"];
+
+function columnsFor(headers: string[]): Partial<Record<CustomerField, string>> {
+  const out: Partial<Record<CustomerField, string>> = {};
+  const claimed: string[] = [];
+  for (const [field, aliases] of COLUMN_ALIASES) {
+    const exactOnly = !PARTIAL_MATCH_FIELDS.includes(field);
+    const col = matchColumn(headers, aliases, { exclude: claimed, exactOnly });
+    if (col !== undefined) {
+      out[field] = col;
+      claimed.push(col);
+    }
+  }
+  return out;
+}
+
+/**
+ * On a ShipTos sheet a plain "Name" column names the location, and rows need an account id.
+ */
+function mergeRows(accounts: Map<string, CustomerAccount>, rows: Record<string, unknown>[], shipToSheet: boolean): number {
+  if (rows.length === 0) return 0;
+  const cols = columnsFor(Object.keys(rows[0]));
+  if (shipToSheet && !cols.ship_to_name) [cols.ship_to_name, cols.name] = [cols.name, undefined];
+  const get = (r: Record<string, unknown>, f: CustomerField) => {
+    const col = cols[f];
+    return col === undefined ? "" : String(r[col] ?? "").trim();
+  };
+
+  let skipped = 0;
+  for (const r of rows) {
+    const name = get(r, "name");
+    const accountId = (get(r, "account_id") || (shipToSheet ? "" : name)).toUpperCase();
+    if (!accountId) {
+      skipped++;
+      continue;
+    }
+
+    const account = accounts.get(accountId) ?? {
+      account_id: accountId,
+      name: "",
+      aliases: [],
+      email_domains: [],
+      ship_tos: [],
+    };
+    accounts.set(accountId, account);
+
+    if (name && !account.name) account.name = name;
+    else if (name && name !== account.name && !account.aliases.includes(name)) account.aliases.push(name);
+    for (const alias of listOf(get(r, "aliases"))) {
+      if (alias !== account.name && !account.aliases.includes(alias)) account.aliases.push(alias);
+    }
+    for (const domain of listOf(get(r, "email_domains")).map(domainOf)) {
+      if (domain && !account.email_domains.includes(domain)) account.email_domains.push(domain);
+    }
+    account.default_terms = account.default_terms || get(r, "default_terms") || undefined;
+
+    const raw: Address = {
+      name: get(r, "ship_to_name") || undefined,
+      line1: get(r, "line1") || undefined,
+      line2: get(r, "line2") || undefined,
+      city: get(r, "city") || undefined,
+      state: get(r, "state") || undefined,
+      postal_code: get(r, "postal_code") || undefined,
+      country: get(r, "country") || undefined,
+    };
+    if (!isEmptyAddress(raw)) {
+      account.ship_tos.push({
+        ship_to_id: get(r, "ship_to_id") || `${accountId}-${account.ship_tos.length + 1}`,
+        address: normalizeAddress(raw).address,
+      });
+    }
+  }
+  return skipped;
+}
+
+/**
+ * Reads a customer master from an XLSX workbook (Customers and ShipTos sheets) or a CSV / single
+ * sheet. Rows are merged by account id (the name when there is none); any row with address columns
+ * adds a known ship-to. The version is a minor bump of `existing`.
+ */
+export function importCustomerMasterFromXlsx(buffer: ArrayBuffer, existing: CustomerMaster): CustomerMaster {
+  let wb: XLSX.WorkBook;
+  try {
+    wb = XLSX.read(buffer, { type: "array" });
+  } catch (err) {
+    console.error("XLSX read failed:", err);
+    throw new Error("Failed to read the customer file. Ensure it is a valid .xlsx or .csv file.");
+  }
+
+  const findSheet = (target: string) =>
+    wb.SheetNames.find(n => n.toLowerCase() === target.toLowerCase())
+    ?? wb.SheetNames.find(n => SHEET_ALIASES[target].includes(n.toLowerCase().trim()));
+
+  const customersSheet = findSheet(SHEETS.CUSTOMERS) ?? (findSheet(SHEETS.SHIP_TOS) ? undefined : wb.SheetNames[0]);
+  const shipTosSheet = findSheet(SHEETS.SHIP_TOS);
+
+  const accounts = new Map<string, CustomerAccount>();
+  let skipped = 0;
+  for (const sheet of [customersSheet, shipTosSheet]) {
+    if (!sheet) continue;
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(wb.Sheets[sheet], { defval: "" });
+    skipped += mergeRows(accounts, rows, sheet === shipTosSheet);
+  }
+
+  const list = Array.from(accounts.values()).map(a => ({ ...a, name: a.name || a.account_id }));
+  if (list.length === 0) {
+    throw new Error("No customer rows found (expected an account id or customer name column).");
+  }
+  if (skipped) console.warn(`Customer import: ${skipped} row(s) without an account id or name skipped`);
+
+  return {
+    version: bumpReferenceVersion(existing.version, "minor"),
+    updated_at: new Date().toISOString(),
+    accounts: list,
+  };
+}
+
+export function exportCustomerMasterToXlsx(master: CustomerMaster): Blob {
+  const wb = XLSX.utils.book_new();
+
+  const customers = [
+    ["account_id", "name", "aliases", "email_domains", "default_terms"],
+    ...master.accounts.map(a => [a.account_id, a.name, a.aliases.join(", "), a.email_domains.join(", "), a.default_terms ?? ""]),
+  ];
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(customers), SHEETS.CUSTOMERS);
+
+  const shipTos = [
+    ["account_id", "ship_to_id", "ship_to_name", "line1", "line2", "city", "state", "postal_code", "country"],
+    ...master.accounts.flatMap(a => a.ship_tos.map(s => [
+      a.account_id,
+      s.ship_to_id,
+      s.address.name ?? "",
+      s.address.line1 ?? "",
+      s.address.line2 ?? "",
+      s.address.city ?? "",
+      s.address.state ?? "",
+      s.address.postal_code ?? "",
+      s.address.country ?? "",
+    ])),
+  ];
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(shipTos), SHEETS.SHIP_TOS);
+
+  const out = XLSX.write(wb, { type: "array", bookType: "xlsx" });
+  return new Blob([out], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+}
@@ -0,0 +1,246 @@
+// services/customerResolution.ts
+// Resolves each document's customer to a customer master account (account id, name / alias,
+// sender domain) and checks the ship-to against the account's known ship-to addresses.
+import { POLineRow } from "../types.ts";
+import { CustomerAccount, CustomerMaster, CustomerShipTo } from "../customerMaster.schema.ts";
+import { Address, Signal } from "./abhSchema.ts";
+import { formatAddress, isEmptyAddress, normalizeAddress } from "./addressNormalize.ts";
+
+export const UNKNOWN_CUSTOMER_FLAG = "UNKNOWN_CUSTOMER";
+export const UNKNOWN_SHIP_TO_FLAG = "UNKNOWN_SHIP_TO";
+export const PAYMENT_TERMS_MISMATCH_FLAG = "PAYMENT_TERMS_MISMATCH";
+
+export const CUSTOMER_MATCH_MIN = 0.8;
+export const SHIP_TO_MATCH_MIN = 0.8;
+
+const ALIAS_SCORE = 0.97;
+const EMAIL_DOMAIN_SCORE = 0.9;
+const FUZZY_NAME_FLOOR = 0.5;      // weaker name similarity is ignored rather than combined
+const AMBIGUITY_MARGIN = 0.05;     // a runner-up this close to the best account makes the match ambiguous
+
+const CORPORATE_WORDS = new Set([
+  "THE", "INC", "INCORPORATED", "LLC", "LLP", "LP", "LTD", "LIMITED", "CO", "COMPANY", "CORP", "CORPORATION", "PLC", "ULC",
+]);
+
+const STREET_WORDS: Record<string, string> = {
+  STREET: "ST", AVENUE: "AVE", AV: "AVE", ROAD: "RD", DRIVE: "DR", BOULEVARD: "BLVD", PARKWAY: "PKWY",
+  HIGHWAY: "HWY", LANE: "LN", COURT: "CT", PLACE: "PL", CIRCLE: "CIR", TERRACE: "TER", SUITE: "STE",
+  NORTH: "N", SOUTH: "S", EAST: "E", WEST: "W",
+};
+
+function words(s: string): string[] {
+  return s
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    .replace(/['’.]/g, "")
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean);
+}
+
+// "The Acme Door Co., Inc." and "ACME DOOR" give the same key.
+function nameKey(s: string): string {
+  return words(s).filter(w => !CORPORATE_WORDS.has(w)).join(" ");
+}
+
+function streetKey(s: string): string {
+  return words(s).map(w => STREET_WORDS[w] ?? w).join(" ");
+}
+
+/**
+ * Dice coefficient over character bigrams (spaces ignored); tolerant of typos and OCR slips.
+ */
+function similarity(a: string, b: string): number {
+  const x = a.replace(/ /g, "");
+  const y = b.replace(/ /g, "");
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+  const grams = new Map<string, number>();
+  for (let i = 0; i < x.length - 1; i++) grams.set(x.slice(i, i + 2), (grams.get(x.slice(i, i + 2)) ?? 0) + 1);
+  let shared = 0;
+  for (let i = 0; i < y.length - 1; i++) {
+    const g = y.slice(i, i + 2);
+    const n = grams.get(g) ?? 0;
+    if (n > 0) {
+      shared++;
+      grams.set(g, n - 1);
+    }
+  }
+  return (2 * shared) / (x.length + y.length - 2);
+}
+
+export type CustomerMatchMethod = "ACCOUNT_ID" | "NAME" | "ALIAS" | "FUZZY_NAME" | "EMAIL_DOMAIN";
+
+export type CustomerResolution = {
+  account?: CustomerAccount;        // set when the best score reaches CUSTOMER_MATCH_MIN unambiguously
+  best?: CustomerAccount;           // highest-scoring account, resolved or not
+  score: number;                    // 0..1
+  methods: CustomerMatchMethod[];
+  matched?: string;                 // the name / alias / domain that matched
+  ambiguous_with?: string;          // runner-up account id within AMBIGUITY_MARGIN
+};
+
+type Candidate = { account: CustomerAccount; score: number; methods: CustomerMatchMethod[]; matched?: string };
+
+function scoreAccount(account: CustomerAccount, name: string, domain: string): Candidate {
+  let nameScore = 0;
+  let nameMethod: CustomerMatchMethod | undefined;
+  let matched: string | undefined;
+  if (name) {
+    for (const [candidate, exact, method] of [
+      [account.name, 1, "NAME"] as const,
+      ...account.aliases.map(a => [a, ALIAS_SCORE, "ALIAS"] as const),
+    ]) {
+      const key = nameKey(candidate);
+      const s = key === name ? exact : similarity(key, name);
+      if (s > nameScore) [nameScore, nameMethod, matched] = [s, s === exact ? method : "FUZZY_NAME", candidate];
+    }
+    if (nameScore < FUZZY_NAME_FLOOR) [nameScore, nameMethod, matched] = [0, undefined, undefined];
+  }
+
+  const domainHit = !!domain && account.email_domains.some(d => domain === d || domain.endsWith(`.${d}`));
+  const domainScore = domainHit ? EMAIL_DOMAIN_SCORE : 0;
+
+  // Independent evidence: either one alone, both together score higher than each.
+  const score = 1 - (1 - nameScore) * (1 - domainScore);
+  const methods = [nameMethod, domainHit ? "EMAIL_DOMAIN" as const : undefined].filter((m): m is CustomerMatchMethod => !!m);
+  return { account, score, methods, matched: matched ?? (domainHit ? domain : undefined) };
+}
+
+export function resolveCustomer(
+  master: CustomerMaster,
+  input: { name?: string; account_id?: string; from_address?: string }
+): CustomerResolution {
+  const accountId = (input.account_id ?? "").trim().toUpperCase();
+  const byId = accountId ? master.accounts.find(a => a.account_id.toUpperCase() === accountId) : undefined;
+  if (byId) return { account: byId, best: byId, score: 1, methods: ["ACCOUNT_ID"], matched: byId.account_id };
+
+  const name = nameKey(input.name ?? "");
+  const domain = (input.from_address ?? "").toLowerCase().split("@")[1]?.trim() ?? "";
+  const ranked = master.accounts
+    .map(a => scoreAccount(a, name, domain))
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const [top, runnerUp] = ranked;
+  if (!top) return { score: 0, methods: [] };
+
+  const ambiguous = runnerUp && top.score < 1 && top.score - runnerUp.score < AMBIGUITY_MARGIN;
+  return {
+    account: top.score >= CUSTOMER_MATCH_MIN && !ambiguous ? top.account : undefined,
+    best: top.account,
+    score: top.score,
+    methods: top.methods,
+    matched: top.matched,
+    ambiguous_with: ambiguous ? runnerUp.account.account_id : undefined,
+  };
+}
+
+function postalKey(a: Address): string {
+  const p = (a.postal_code ?? "").toUpperCase().replace(/\s+/g, "");
+  return /^\d{5}/.test(p) ? p.slice(0, 5) : p;
+}
+
+/**
+ * 0..1: postal code (a different one rules the address out), street line, city.
+ */
+function shipToScore(known: Address, seen: Address): number {
+  const [pk, ps] = [postalKey(known), postalKey(seen)];
+  if (pk && ps && pk !== ps) return 0;
+  const street = similarity(streetKey(known.line1 ?? ""), streetKey(seen.line1 ?? ""));
+  const city = !!known.city && !!seen.city && nameKey(known.city) === nameKey(seen.city) ? 1 : 0;
+  return pk && ps ? 0.4 + 0.5 * street + 0.1 * city : (0.5 * street + 0.1 * city) / 0.6;
+}
+
+export function matchShipTo(account: CustomerAccount, address: Address): { ship_to?: CustomerShipTo; score: number } {
+  const seen = normalizeAddress(address).address;
+  let best: { ship_to?: CustomerShipTo; score: number } = { score: 0 };
+  for (const s of account.ship_tos) {
+    const score = shipToScore(s.address, seen);
+    if (score > best.score) best = { ship_to: s, score };
+  }
+  return best.score >= SHIP_TO_MATCH_MIN ? best : { score: best.score };
+}
+
+export type CustomerLookup = {
+  master: CustomerMaster;
+  from_address?: string;       // sender of the cover email, when the document came by mail
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// "Net 45", "NET45" and "net-45" are the same terms.
+const termsKey = (s: string) => s.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+/**
+ * Stamps every document's rows with the resolved account (id, master name, ship-to id, and the
+ * default terms where the PO prints none) and a CUSTOMER_ACCOUNT_MATCH signal; flags
+ * UNKNOWN_CUSTOMER / UNKNOWN_SHIP_TO otherwise, and PAYMENT_TERMS_MISMATCH when the printed terms
+ * differ from the account's. Runs before policy routing so rules can route on the flags.
+ */
+export function resolveCustomerAccounts(rows: POLineRow[], lookup: CustomerLookup): POLineRow[] {
+  const patches = new Map<string, (r: POLineRow) => POLineRow>();
+
+  for (const first of rows) {
+    if (patches.has(first.doc_id)) continue;
+    if (first.doc_type === "EMAIL_COVER" || first.edge_case_flags.includes("PARSING_ERROR")) {
+      patches.set(first.doc_id, r => r);
+      continue;
+    }
+
+    const res = resolveCustomer(lookup.master, {
+      name: first.customer_name,
+      account_id: first.customer_account_id,
+      from_address: lookup.from_address,
+    });
+    const account = res.account;
+    const flags: string[] = [];
+    const notes: string[] = [];
+    let shipTo: { ship_to?: CustomerShipTo; score: number } | undefined;
+
+    if (account) {
+      const how = `${res.methods.join("+").toLowerCase()}${res.matched ? ` "${res.matched}"` : ""}`;
+      notes.push(`Customer account ${account.account_id} ${account.name} (${how}, ${round2(res.score)})`);
+      if (first.ship_to_address && !isEmptyAddress(first.ship_to_address)) {
+        shipTo = matchShipTo(account, first.ship_to_address);
+        if (shipTo.ship_to) {
+          notes.push(`Ship-to ${shipTo.ship_to.ship_to_id}`);
+        } else {
+          flags.push(UNKNOWN_SHIP_TO_FLAG);
+          notes.push(`Ship-to not on file for ${account.account_id}: ${formatAddress(first.ship_to_address)}`);
+        }
+      }
+      const printedTerms = first.payment_terms?.trim();
+      if (printedTerms && account.default_terms && termsKey(printedTerms) !== termsKey(account.default_terms)) {
+        flags.push(PAYMENT_TERMS_MISMATCH_FLAG);
+        notes.push(`Payment terms "${printedTerms}" differ from ${account.account_id} default "${account.default_terms}"`);
+      }
+    } else {
+      flags.push(UNKNOWN_CUSTOMER_FLAG);
+      const printed = [first.customer_name, first.customer_account_id].filter(Boolean).join(" / ") || "none";
+      const nearest = res.best ? `; nearest ${res.best.account_id} (${round2(res.score)})` : "";
+      const ambiguous = res.ambiguous_with ? `, ambiguous with ${res.ambiguous_with}` : "";
+      notes.push(`Customer not in customer master: ${printed}${nearest}${ambiguous}`);
+    }
+
+    const signal: Signal = {
+      type: "CUSTOMER_ACCOUNT_MATCH",
+      weight: round2(res.score),
+      detail: res.best ? `${res.best.account_id} by ${res.methods.join("+") || "none"}` : "no candidate account",
+    };
+
+    patches.set(first.doc_id, r => ({
+      ...r,
+      customer_name: account?.name ?? r.customer_name,
+      customer_account_id: account?.account_id,
+      payment_terms: r.payment_terms?.trim() || account?.default_terms,
+      ship_to_id: shipTo?.ship_to?.ship_to_id,
+      signals: [...(r.signals ?? []), signal],
+      edge_case_flags: Array.from(new Set([...r.edge_case_flags, ...flags])),
+      raw_edge_case_notes: [r.raw_edge_case_notes, ...notes].filter(Boolean).join(" | "),
+    }));
+  }
+
+  return rows.map(r => patches.get(r.doc_id)!(r));
+}
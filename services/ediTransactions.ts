@@ -0,0 +1,484 @@
+// services/ediTransactions.ts
+// X12 850 purchase orders in (mapped to abh.po.v1 at full confidence); 855 acknowledgments and
+// 810 invoices out, built from the reviewed rows of those orders.
+import { POLineRow } from "../types.ts";
+import { Address, AuditEvent, Party, POExportV1 } from "./abhSchema.ts";
+import {
+  X12_MIME_TYPE,
+  X12ControlNumbers,
+  X12Delimiters,
+  X12GroupHeader,
+  X12InterchangeHeader,
+  X12Segment,
+  X12Transaction,
+  isoToX12Date,
+  parseX12,
+  writeX12Interchange,
+  x12DateToIso,
+  x12Text,
+} from "./x12.ts";
+
+export const EDI_850_EVENT = "EDI_850_RECEIVED";
+
+// BEG01 other than "00" (original): cancellation, replace, confirmation, duplicate, ...
+export const EDI_CHANGE_ORDER_FLAG = "EDI_CHANGE_ORDER";
+
+export type Edi850Party = {
+  entity: string;           // N101: BT bill-to, ST ship-to, BY buyer, Z7 mark-for, ...
+  name: string;             // N102
+  id_qualifier?: string;    // N103
+  id?: string;              // N104
+  address: Address;         // N2 / N3 / N4
+};
+
+export type Edi850Line = {
+  line_id: string;                        // PO101, echoed in the 855 / 810
+  qty?: number;                           // PO102
+  uom?: string;                           // PO103
+  unit_price?: number;                    // PO104
+  price_basis?: string;                   // PO105
+  product_ids: Record<string, string>;    // PO106/07, PO108/09, ...: BP buyer part, VP vendor part, MG mfr part
+  description?: string;                   // PID05 (all PIDs of the line, joined)
+  refs: Record<string, string>;           // line-level REF01 -> REF02
+  ship_to?: Edi850Party;                  // line-level N1*ST
+  segment: string;                        // the PO1 as received
+};
+
+/**
+ * One 850 transaction set, self-contained (envelope included) so the 855 / 810 can be
+ * built later from the audit trail alone.
+ */
+export type Edi850Order = {
+  filename: string;
+  envelope: X12InterchangeHeader;
+  group: X12GroupHeader;
+  transaction_control_no: string;   // ST02
+  purpose: string;                  // BEG01
+  po_type: string;                  // BEG02
+  po_number: string;                // BEG03
+  release?: string;                 // BEG04
+  po_date?: string;                 // BEG05 as YYYY-MM-DD
+  currency?: string;                // CUR02
+  requested_date?: string;          // DTM*002 / 010 as YYYY-MM-DD
+  contact?: { name?: string; phone?: string; email?: string };
+  refs: Record<string, string>;     // header REF01 -> REF02
+  parties: Edi850Party[];
+  lines: Edi850Line[];
+  warnings: string[];
+};
+
+const REQUESTED_DATE_QUALIFIERS = ["002", "010", "037"];
+const CUSTOMER_PART_QUALIFIERS = ["BP", "CB", "IN", "SK", "UP", "EN"];
+const VENDOR_PART_QUALIFIERS = ["VP", "VN", "VA"];
+
+function num(v: string): number | undefined {
+  const n = Number(v);
+  return v !== "" && Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Every 850 in the file; other transaction sets (997s, 860s, ...) are ignored.
+ */
+export function readEdi850s(file: { name: string; data: Uint8Array }): Edi850Order[] {
+  const out: Edi850Order[] = [];
+  for (const { groups, ...envelope } of parseX12(new TextDecoder().decode(file.data))) {
+    for (const { transactions, ...group } of groups) {
+      for (const tx of transactions) {
+        if (tx.set_id === "850") out.push(read850(file.name, envelope, group, tx));
+      }
+    }
+  }
+  return out;
+}
+
+function read850(filename: string, envelope: X12InterchangeHeader, group: X12GroupHeader, tx: X12Transaction): Edi850Order {
+  const order: Edi850Order = {
+    filename,
+    envelope,
+    group,
+    transaction_control_no: tx.control_no,
+    purpose: "",
+    po_type: "",
+    po_number: "",
+    refs: {},
+    parties: [],
+    lines: [],
+    warnings: [],
+  };
+  let party: Edi850Party | null = null;
+  let line: Edi850Line | null = null;
+  let declaredLines: number | undefined;
+
+  for (const seg of tx.segments) {
+    const el = (i: number) => (seg[i] ?? "").trim();
+    switch (seg[0]) {
+      case "BEG":
+        order.purpose = el(1);
+        order.po_type = el(2);
+        order.po_number = el(3);
+        order.release = el(4) || undefined;
+        order.po_date = x12DateToIso(el(5));
+        break;
+      case "CUR":
+        order.currency = el(2) || undefined;
+        break;
+      case "REF":
+        (line ? line.refs : order.refs)[el(1)] = el(2) || el(3);
+        break;
+      case "PER":
+        if (!line) {
+          const contact = { ...order.contact, name: order.contact?.name ?? (el(2) || undefined) };
+          for (let i = 3; i + 1 < seg.length; i += 2) {
+            if (el(i) === "TE" && !contact.phone) contact.phone = el(i + 1);
+            if (el(i) === "EM" && !contact.email) contact.email = el(i + 1);
+          }
+          order.contact = contact;
+        }
+        break;
+      case "DTM":
+        if (!line && !order.requested_date && REQUESTED_DATE_QUALIFIERS.includes(el(1))) order.requested_date = x12DateToIso(el(2));
+        break;
+      case "N1":
+        party = { entity: el(1), name: el(2), id_qualifier: el(3) || undefined, id: el(4) || undefined, address: { name: el(2) || undefined } };
+        if (!line) order.parties.push(party);
+        else if (party.entity === "ST") line.ship_to = party;
+        break;
+      case "N2":
+        if (party) party.address.name = [party.address.name, el(1), el(2)].filter(Boolean).join(" ");
+        break;
+      case "N3":
+        if (party) {
+          const street = [el(1), el(2)].filter(Boolean);
+          if (party.address.line1) party.address.line2 = [party.address.line2, ...street].filter(Boolean).join(", ");
+          else [party.address.line1, party.address.line2] = [street[0], street[1]];
+        }
+        break;
+      case "N4":
+        if (party) {
+          party.address.city = el(1) || undefined;
+          party.address.state = el(2) || undefined;
+          party.address.postal_code = el(3) || undefined;
+          party.address.country = el(4) || undefined;
+        }
+        break;
+      case "PO1":
+        party = null;
+        line = {
+          line_id: el(1) || String(order.lines.length + 1),
+          qty: num(el(2)),
+          uom: el(3) || undefined,
+          unit_price: num(el(4)),
+          price_basis: el(5) || undefined,
+          product_ids: {},
+          refs: {},
+          segment: seg.join(envelope.delimiters.element),
+        };
+        for (let i = 6; i + 1 < seg.length; i += 2) {
+          if (el(i) && el(i + 1) && !line.product_ids[el(i)]) line.product_ids[el(i)] = el(i + 1);
+        }
+        order.lines.push(line);
+        break;
+      case "PID":
+        if (line && el(5)) line.description = [line.description, el(5)].filter(Boolean).join(" ");
+        break;
+      case "CTT":
+        declaredLines = num(el(1));
+        party = null;
+        line = null;
+        break;
+    }
+  }
+
+  if (!order.po_number) throw new Error(`${filename}: 850 ${tx.control_no} has no purchase order number (BEG03).`);
+  if (order.lines.length === 0) order.warnings.push("No PO1 line items.");
+  if (declaredLines !== undefined && declaredLines !== order.lines.length) {
+    order.warnings.push(`CTT01 declares ${declaredLines} line item(s), found ${order.lines.length}.`);
+  }
+  if (order.purpose !== "00") order.warnings.push(`BEG01 purpose ${order.purpose || "(empty)"} is not an original order.`);
+  return order;
+}
+
+function partyOf(order: Edi850Order, ...entities: string[]): Edi850Party | undefined {
+  for (const e of entities) {
+    const p = order.parties.find(x => x.entity === e);
+    if (p) return p;
+  }
+  return undefined;
+}
+
+const firstId = (ids: Record<string, string>, qualifiers: string[]) =>
+  qualifiers.map(q => ids[q]).find(Boolean);
+
+/**
+ * The 850 as an abh.po.v1 document. Values are read from fixed positions, so every line
+ * carries full confidence.
+ */
+export function edi850ToPOExport(order: Edi850Order): POExportV1 {
+  const buyer = partyOf(order, "BY", "BT", "ST");
+  const vendor = partyOf(order, "SE", "VN");
+  const shipTo = partyOf(order, "ST");
+  const customer: Party = {
+    name: buyer?.name || order.envelope.sender_id,
+    account_id: buyer?.id,
+    ...(order.contact?.phone || order.contact?.email ? { contact: { phone: order.contact.phone, email: order.contact.email } } : {}),
+  };
+  const flags = order.purpose === "00" ? [] : [EDI_CHANGE_ORDER_FLAG];
+
+  return {
+    schema_version: "abh.po.v1",
+    document: {
+      document_id: "",   // mapping assigns a deterministic id from the source file stem
+      document_type: "PURCHASE_ORDER",
+      file: { filename: order.filename, mime_type: X12_MIME_TYPE },
+    },
+    parties: { customer, vendor: { name: vendor?.name ?? "", account_id: vendor?.id } },
+    order: {
+      order_type: "PURCHASE_ORDER",
+      customer_order_no: order.po_number,
+      order_date: order.po_date,
+      currency: order.currency || "USD",
+      addresses: {
+        bill_to: partyOf(order, "BT")?.address,
+        ship_to: shipTo?.address,
+        ship_to_name: shipTo?.name,
+        mark_for: partyOf(order, "Z7")?.name,
+      },
+    },
+    line_items: order.lines.map((l, idx) => ({
+      line_id: `${order.po_number}-${l.line_id}`,
+      raw: { raw_text: l.segment, line_no: idx + 1 },
+      parsed: {
+        customer_item_no: firstId(l.product_ids, CUSTOMER_PART_QUALIFIERS) ?? Object.values(l.product_ids)[0],
+        abh_item_no: firstId(l.product_ids, VENDOR_PART_QUALIFIERS),
+        manufacturer: l.product_ids.MF,
+        description: l.description,
+        quantity: l.qty ?? 0,
+        uom: l.uom || "EA",
+        unit_price: l.unit_price,
+        extended_price: typeof l.qty === "number" && typeof l.unit_price === "number" ? l.qty * l.unit_price : undefined,
+        currency: order.currency,
+      },
+      confidence: { line_confidence: 1, field_confidence: {}, signals: [] },
+      flags,
+    })),
+    confidence: { overall_confidence: 1 },
+    routing: {
+      decision: "AUTO_STAGE",
+      reason_codes: ["ALL_LINES_HIGH_CONFIDENCE"],
+      routing_notes: `EDI 850 ${order.po_number} (ISA ${order.envelope.control_no}, ST ${order.transaction_control_no})`,
+    },
+    audit: { events: [] },
+  } as unknown as POExportV1;
+}
+
+/**
+ * The 850 a document was created from, as recorded in its EDI_850_RECEIVED audit event.
+ */
+export function edi850ForDocument(auditEvents: AuditEvent[], docId: string): Edi850Order | undefined {
+  const event = auditEvents.find(e => e.event_type === EDI_850_EVENT && e.details?.doc_id === docId);
+  if (!event) return undefined;
+  const { doc_id, ...order } = event.details as Record<string, unknown>;
+  return order as unknown as Edi850Order;
+}
+
+// --- outbound ------------------------------------------------------------------------------
+
+// ACK01 line item status codes
+export type EdiLineStatus = "IA" | "IC" | "IP" | "IQ" | "IS" | "IR";
+
+export type EdiLineOutcome = {
+  line: Edi850Line;
+  row?: POLineRow;
+  status: EdiLineStatus;
+  qty: number;
+  uom: string;
+  unit_price?: number;
+  abh_item_no?: string;
+};
+
+const samePrice = (a?: number, b?: number) =>
+  a === undefined || b === undefined ? a === b : Math.abs(a - b) < 0.00005;
+
+/**
+ * Each 850 line against its reviewed row (rows are numbered in 850 order): rejected when the
+ * operator rejected it or policy blocked it, changed when quantity, price or item differ.
+ */
+export function ediLineOutcomes(order: Edi850Order, rows: POLineRow[]): EdiLineOutcome[] {
+  const awaiting = rows.filter(r => r.automation_lane !== "AUTO" && r.automation_lane !== "BLOCK" && (r.review_status ?? "PENDING") === "PENDING");
+  if (awaiting.length) {
+    throw new Error(`PO ${order.po_number}: ${awaiting.length} line(s) still awaiting review (${awaiting.map(r => r.line_no).join(", ")}).`);
+  }
+
+  return order.lines.map((line, idx) => {
+    const row = rows.find(r => r.line_no === idx + 1);
+    const qty = typeof row?.qty === "number" ? row.qty : (line.qty ?? 0);
+    const uom = row?.uom || line.uom || "EA";
+    const unit_price = typeof row?.unit_price === "number" ? row.unit_price : line.unit_price;
+    // Unconfirmed candidates are not echoed as our part number.
+    const abh_item_no = row?.abh_item_no_final || firstId(line.product_ids, VENDOR_PART_QUALIFIERS);
+    const base = { line, row, qty, uom, unit_price, abh_item_no };
+
+    const rejected = !row || row.review_status === "REJECTED" || (row.automation_lane === "BLOCK" && row.review_status !== "APPROVED");
+    if (rejected) return { ...base, status: "IR", qty: 0 };
+
+    const qtyChanged = line.qty !== undefined && qty !== line.qty;
+    const priceChanged = line.unit_price !== undefined && !samePrice(unit_price, line.unit_price);
+    const orderedItem = firstId(line.product_ids, VENDOR_PART_QUALIFIERS);
+    const itemChanged = !!row.abh_item_no_final && !!orderedItem && row.abh_item_no_final !== orderedItem;
+
+    const status: EdiLineStatus =
+      qtyChanged && priceChanged ? "IC"
+      : qtyChanged ? "IQ"
+      : priceChanged ? "IP"
+      : itemChanged ? "IS"
+      : "IA";
+    return { ...base, status };
+  });
+}
+
+const x12Number = (n: number | undefined) => (n === undefined ? "" : String(Math.round(n * 10000) / 10000));
+
+// Product IDs (element 234) run up to 48 characters; the ABH item is typed in by reviewers.
+function productIdElements(o: EdiLineOutcome, d: X12Delimiters): string[] {
+  const ids = { ...o.line.product_ids };
+  if (o.abh_item_no) ids.VP = o.abh_item_no;
+  return Object.entries(ids)
+    .map(([q, v]) => [q, x12Text(v, d, 48)])
+    .filter(([, v]) => v)
+    .flat();
+}
+
+export type EdiOutbound = {
+  set_id: "855" | "810";
+  doc_id: string;
+  po_number: string;
+  interchange_control_no: string;
+  transaction_control_no: string;
+  x12: string;
+};
+
+/**
+ * 855 purchase order acknowledgment: BAK type AD (accepted as ordered), RD (all rejected)
+ * or AC (accepted with changes), one PO1 + ACK per ordered line.
+ */
+export function build855(args: {
+  docId: string;
+  order: Edi850Order;
+  rows: POLineRow[];
+  control: X12ControlNumbers;
+  now?: Date;
+}): { document: EdiOutbound; control: X12ControlNumbers } {
+  const { order, rows } = args;
+  const d = order.envelope.delimiters;
+  const outcomes = ediLineOutcomes(order, rows);
+  const ackType =
+    outcomes.every(o => o.status === "IA") ? "AD"
+    : outcomes.every(o => o.status === "IR") ? "RD"
+    : "AC";
+  const sellerOrderNo = rows.find(r => r.abh_order_no)?.abh_order_no ?? "";
+
+  const segments: X12Segment[] = [
+    ["BAK", "00", ackType, x12Text(order.po_number, d, 22), isoToX12Date(order.po_date), "", "", "", x12Text(sellerOrderNo, d, 30), isoToX12Date((args.now ?? new Date()).toISOString())],
+    ...(order.currency ? [["CUR", "SE", order.currency]] : []),
+  ];
+  for (const o of outcomes) {
+    segments.push(["PO1", o.line.line_id, x12Number(o.line.qty), o.line.uom ?? o.uom, x12Number(o.unit_price), o.line.price_basis ?? "", ...productIdElements(o, d)]);
+    segments.push(["ACK", o.status, x12Number(o.qty), o.uom]);
+  }
+  segments.push(["CTT", String(outcomes.length)]);
+
+  return writeOutbound({ ...args, setId: "855", functionalId: "PR", segments });
+}
+
+/**
+ * 810 invoice for the accepted lines at their final quantity and price. The invoice number is
+ * the ABH order number when the rows carry one, else the PO number.
+ */
+export function build810(args: {
+  docId: string;
+  order: Edi850Order;
+  rows: POLineRow[];
+  control: X12ControlNumbers;
+  now?: Date;
+}): { document: EdiOutbound; control: X12ControlNumbers } {
+  const { order, rows } = args;
+  const d = order.envelope.delimiters;
+  const accepted = ediLineOutcomes(order, rows).filter(o => o.status !== "IR");
+  if (accepted.length === 0) throw new Error(`PO ${order.po_number}: no accepted lines to invoice.`);
+
+  const missingPrice = accepted.filter(o => o.unit_price === undefined);
+  if (missingPrice.length) {
+    throw new Error(`PO ${order.po_number}: line(s) ${missingPrice.map(o => o.line.line_id).join(", ")} have no unit price.`);
+  }
+
+  const invoiceNo = rows.find(r => r.abh_order_no)?.abh_order_no || order.po_number;
+  const totalCents = Math.round(accepted.reduce((sum, o) => sum + o.qty * (o.unit_price ?? 0), 0) * 100);
+  const segments: X12Segment[] = [
+    ["BIG", isoToX12Date((args.now ?? new Date()).toISOString()), x12Text(invoiceNo, d, 22), isoToX12Date(order.po_date), x12Text(order.po_number, d, 22)],
+    ...(order.currency ? [["CUR", "SE", order.currency]] : []),
+  ];
+  for (const o of accepted) {
+    segments.push(["IT1", o.line.line_id, x12Number(o.qty), o.uom, x12Number(o.unit_price), o.line.price_basis ?? "", ...productIdElements(o, d)]);
+    const description = o.row?.customer_item_desc_raw || o.line.description;
+    if (description) segments.push(["PID", "F", "", "", "", x12Text(description, d)]);
+  }
+  segments.push(["TDS", String(totalCents)]);
+  segments.push(["CTT", String(accepted.length)]);
+
+  return writeOutbound({ ...args, setId: "810", functionalId: "IN", segments });
+}
+
+function writeOutbound(args: {
+  docId: string;
+  order: Edi850Order;
+  control: X12ControlNumbers;
+  now?: Date;
+  setId: "855" | "810";
+  functionalId: string;
+  segments: X12Segment[];
+}): { document: EdiOutbound; control: X12ControlNumbers } {
+  const written = writeX12Interchange({
+    reply: args.order.envelope,
+    replyGroup: args.order.group,
+    functionalId: args.functionalId,
+    setId: args.setId,
+    segments: args.segments,
+    control: args.control,
+    now: args.now,
+  });
+  return {
+    document: {
+      set_id: args.setId,
+      doc_id: args.docId,
+      po_number: args.order.po_number,
+      interchange_control_no: written.interchangeControlNo,
+      transaction_control_no: written.transactionControlNo,
+      x12: written.text,
+    },
+    control: written.control,
+  };
+}
+
+/**
+ * 855s or 810s for every document that came in as an 850, each in its own interchange;
+ * control numbers advance once per document.
+ */
+export function buildEdiResponses(
+  setId: "855" | "810",
+  rows: POLineRow[],
+  auditEvents: AuditEvent[],
+  control: X12ControlNumbers,
+  now?: Date
+): { documents: EdiOutbound[]; control: X12ControlNumbers } {
+  const build = setId === "855" ? build855 : build810;
+  const documents: EdiOutbound[] = [];
+  let next = control;
+  for (const docId of new Set(rows.map(r => r.doc_id))) {
+    const order = edi850ForDocument(auditEvents, docId);
+    if (!order) continue;
+    const built = build({ docId, order, rows: rows.filter(r => r.doc_id === docId), control: next, now });
+    documents.push(built.document);
+    next = built.control;
+  }
+  return { documents, control: next };
+}
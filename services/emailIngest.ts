@@ -0,0 +1,497 @@
+// services/emailIngest.ts
+// Reads .eml (MIME) and Outlook .msg (OLE compound file) messages into headers, body text
+// and attachments; no DOM or Node APIs, so the app and the CLI share it.
+
+export type EmailAttachment = {
+  filename: string;
+  mimeType: string;      // as declared by the message; may be application/octet-stream
+  data: Uint8Array;
+  inline?: boolean;      // image shown by the HTML body via cid: (signature logos and the like)
+};
+
+export type EmailMessage = {
+  format: "EML" | "MSG";
+  from: string;          // as displayed, e.g. `Jane Doe <jane@acme.com>`
+  from_name?: string;
+  from_address?: string;
+  to?: string;
+  subject: string;
+  date?: string;         // ISO when parseable, else as written
+  message_id?: string;
+  body_text: string;
+  attachments: EmailAttachment[];
+};
+
+const EMAIL_MIME_TYPES = ["message/rfc822", "application/vnd.ms-outlook"];
+
+export function isEmailFile(file: { name: string; mimeType: string }): boolean {
+  return EMAIL_MIME_TYPES.includes(file.mimeType) || /\.(eml|msg)$/i.test(file.name);
+}
+
+export function parseEmail(file: { name: string; data: Uint8Array }): EmailMessage {
+  return isCompoundFile(file.data) ? parseMsg(file.data) : parseEml(file.data);
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+
+function decodeText(bytes: Uint8Array, charset = "utf-8"): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+function binaryToBytes(s: string): Uint8Array {
+  const out = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) out[i] = s.charCodeAt(i) & 0xff;
+  return out;
+}
+
+/**
+ * Only pictures the HTML body shows through `cid:` are inline. Outlook gives every attachment a
+ * Content-ID and Apple Mail sends PDFs as `inline; filename=...`, so neither marks a part as part
+ * of the body on its own.
+ */
+function isInlineImage(att: EmailAttachment, contentId: string | undefined, html: string | undefined): boolean {
+  if (!contentId || !html) return false;
+  const image = /^image\/(?!tiff)/.test(att.mimeType) || /\.(png|jpe?g|gif|bmp)$/i.test(att.filename);
+  const cid = contentId.trim().replace(/^<|>$/g, "").toLowerCase();
+  return image && !!cid && html.toLowerCase().includes(`cid:${cid}`);
+}
+
+function base64ToBytes(s: string): Uint8Array {
+  return binaryToBytes(atob(s.replace(/[^A-Za-z0-9+/]/g, "")));
+}
+
+function quotedPrintableToBytes(s: string): Uint8Array {
+  const unwrapped = s.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < unwrapped.length; i++) {
+    const hex = unwrapped.slice(i + 1, i + 3);
+    if (unwrapped[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(unwrapped.charCodeAt(i) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<br\s*\/?>|<\/(p|div|tr|li|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, "\"")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n\n")
+    .trim();
+}
+
+function splitAddress(from: string): { name?: string; address?: string } {
+  const angle = from.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>/);
+  if (angle) return { name: angle[1].trim() || undefined, address: angle[2].trim().toLowerCase() };
+  const bare = from.match(/[\w.+'-]+@[\w-]+(?:\.[\w-]+)+/);
+  return { address: bare?.[0].toLowerCase() };
+}
+
+function isoDate(raw?: string): string | undefined {
+  if (!raw) return undefined;
+  const t = Date.parse(raw);
+  return Number.isNaN(t) ? raw.trim() : new Date(t).toISOString();
+}
+
+function headerValue(headers: string, name: string): string | undefined {
+  const unfolded = headers.replace(/\r?\n[ \t]+/g, " ");
+  const m = unfolded.match(new RegExp(`^${name}:[ \\t]*(.*)$`, "im"));
+  return m ? m[1].trim() : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// .eml (RFC 5322 / MIME)
+
+type MimeEntity = {
+  headers: string;
+  body: string;          // raw (binary string) body
+};
+
+type ContentType = {
+  type: string;
+  params: Record<string, string>;
+};
+
+/**
+ * RFC 2047 encoded words (`=?utf-8?B?...?=`), as used in Subject and From.
+ */
+export function decodeHeaderWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, enc: string, text: string) => {
+      const bytes = enc.toUpperCase() === "B"
+        ? base64ToBytes(text)
+        : quotedPrintableToBytes(text.replace(/_/g, " "));
+      return decodeText(bytes, charset.replace(/\*.*$/, ""));
+    });
+}
+
+function parseEntity(raw: string): MimeEntity {
+  const m = raw.match(/\r?\n\r?\n/);
+  if (!m || m.index === undefined) return { headers: raw, body: "" };
+  return { headers: raw.slice(0, m.index), body: raw.slice(m.index + m[0].length) };
+}
+
+function parseParams(value: string): ContentType {
+  const [type, ...rest] = value.split(";");
+  const params: Record<string, string> = {};
+  for (const p of rest) {
+    const eq = p.indexOf("=");
+    if (eq < 0) continue;
+    let key = p.slice(0, eq).trim().toLowerCase();
+    let val = p.slice(eq + 1).trim().replace(/^"(.*)"$/, "$1");
+    // RFC 2231 (filename*=utf-8''...)
+    if (key.endsWith("*")) {
+      key = key.slice(0, -1);
+      const parts = val.split("'");
+      try {
+        val = decodeURIComponent(parts[parts.length - 1]);
+      } catch {
+        // keep as written
+      }
+    }
+    params[key] = decodeHeaderWords(val);
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function entityBytes(entity: MimeEntity): Uint8Array {
+  const encoding = (headerValue(entity.headers, "Content-Transfer-Encoding") ?? "").toLowerCase();
+  if (encoding === "base64") return base64ToBytes(entity.body);
+  if (encoding === "quoted-printable") return quotedPrintableToBytes(entity.body);
+  return binaryToBytes(entity.body);
+}
+
+function multipartChildren(entity: MimeEntity, boundary: string): MimeEntity[] {
+  const delimiter = `--${boundary}`;
+  const chunks = entity.body.split(delimiter);
+  // chunks[0] is the preamble; a chunk starting with "--" is the epilogue after the close delimiter
+  return chunks
+    .slice(1)
+    .filter(c => !c.startsWith("--"))
+    .map(c => parseEntity(c.replace(/^[ \t]*\r?\n/, "").replace(/\r?\n$/, "")));
+}
+
+type EmlParts = {
+  text?: string;
+  html?: string;
+  attachments: { att: EmailAttachment; contentId?: string }[];
+};
+
+function walkEml(entity: MimeEntity, out: EmlParts) {
+  const ct = parseParams(headerValue(entity.headers, "Content-Type") ?? "text/plain");
+  const disposition = parseParams(headerValue(entity.headers, "Content-Disposition") ?? "");
+  const filename = disposition.params.filename ?? ct.params.name;
+
+  if (ct.type.startsWith("multipart/") && ct.params.boundary) {
+    for (const child of multipartChildren(entity, ct.params.boundary)) walkEml(child, out);
+    return;
+  }
+
+  const isAttachment = disposition.type === "attachment" || !!filename;
+  if (!isAttachment && ct.type === "text/plain" && out.text === undefined) {
+    out.text = decodeText(entityBytes(entity), ct.params.charset);
+    return;
+  }
+  if (!isAttachment && ct.type === "text/html" && out.html === undefined) {
+    out.html = decodeText(entityBytes(entity), ct.params.charset);
+    return;
+  }
+  if (isAttachment || ct.type === "message/rfc822") {
+    out.attachments.push({
+      att: {
+        filename: filename || `attachment-${out.attachments.length + 1}${ct.type === "message/rfc822" ? ".eml" : ""}`,
+        mimeType: ct.type,
+        data: entityBytes(entity),
+      },
+      contentId: headerValue(entity.headers, "Content-ID"),
+    });
+  }
+}
+
+export function parseEml(data: Uint8Array): EmailMessage {
+  let raw = "";
+  for (let i = 0; i < data.length; i += 0x8000) raw += String.fromCharCode(...data.subarray(i, i + 0x8000));
+
+  const root = parseEntity(raw);
+  const header = (name: string) => {
+    const v = headerValue(root.headers, name);
+    // Raw 8-bit header bytes are taken as UTF-8 (RFC 6532) before encoded words are expanded.
+    return v === undefined ? undefined : decodeHeaderWords(decodeText(binaryToBytes(v), "utf-8"));
+  };
+
+  const parts: EmlParts = { attachments: [] };
+  walkEml(root, parts);
+
+  const from = header("From") ?? "";
+  const { name, address } = splitAddress(from);
+  return {
+    format: "EML",
+    from,
+    from_name: name,
+    from_address: address,
+    to: header("To"),
+    subject: header("Subject") ?? "",
+    date: isoDate(header("Date")),
+    message_id: header("Message-ID")?.replace(/^<|>$/g, ""),
+    body_text: (parts.text ?? (parts.html ? htmlToText(parts.html) : "")).trim(),
+    attachments: parts.attachments.map(({ att, contentId }) => ({ ...att, inline: isInlineImage(att, contentId, parts.html) })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// .msg (MS-CFB container with MS-OXMSG property streams)
+
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECT = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+
+type CfbEntry = {
+  name: string;
+  type: number;          // 1 storage, 2 stream, 5 root
+  left: number;
+  right: number;
+  child: number;
+  start: number;
+  size: number;
+};
+
+type CfbNode = {
+  entry: CfbEntry;
+  children: Map<string, CfbNode>;
+};
+
+function isCompoundFile(data: Uint8Array): boolean {
+  return data.length >= 512 && CFB_SIGNATURE.every((b, i) => data[i] === b);
+}
+
+class CompoundFile {
+  private view: DataView;
+  private sectorSize: number;
+  private miniSectorSize: number;
+  private miniCutoff: number;
+  private fat: number[] = [];
+  private miniFat: number[] = [];
+  private miniStream: Uint8Array = new Uint8Array(0);
+  readonly root: CfbNode;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    this.sectorSize = 1 << this.view.getUint16(0x1e, true);
+    this.miniSectorSize = 1 << this.view.getUint16(0x20, true);
+    this.miniCutoff = this.view.getUint32(0x38, true);
+
+    // FAT sector ids: 109 in the header, the rest in the DIFAT chain.
+    const fatSectors: number[] = [];
+    for (let i = 0; i < 109; i++) fatSectors.push(this.view.getUint32(0x4c + i * 4, true));
+    let difat = this.view.getUint32(0x44, true);
+    const perDifat = this.sectorSize / 4 - 1;
+    for (let guard = 0; difat !== END_OF_CHAIN && difat !== FREE_SECT && guard < 1 << 16; guard++) {
+      const off = this.offset(difat);
+      for (let i = 0; i < perDifat; i++) fatSectors.push(this.view.getUint32(off + i * 4, true));
+      difat = this.view.getUint32(off + perDifat * 4, true);
+    }
+    for (const s of fatSectors) {
+      if (s === FREE_SECT || s === END_OF_CHAIN || this.offset(s) + this.sectorSize > data.length) continue;
+      const off = this.offset(s);
+      for (let i = 0; i < this.sectorSize / 4; i++) this.fat.push(this.view.getUint32(off + i * 4, true));
+    }
+
+    const miniFatBytes = this.readChain(this.view.getUint32(0x3c, true));
+    const miniView = new DataView(miniFatBytes.buffer, miniFatBytes.byteOffset, miniFatBytes.byteLength);
+    for (let i = 0; i + 4 <= miniFatBytes.length; i += 4) this.miniFat.push(miniView.getUint32(i, true));
+
+    const entries = this.readEntries(this.readChain(this.view.getUint32(0x30, true)));
+    if (!entries.length) throw new Error("Compound file has no directory.");
+    this.miniStream = this.readChain(entries[0].start).subarray(0, entries[0].size);
+    this.root = this.buildTree(entries, 0);
+  }
+
+  private offset(sector: number): number {
+    return (sector + 1) * this.sectorSize;
+  }
+
+  private readChain(start: number): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    const seen = new Set<number>();
+    for (let s = start; s !== END_OF_CHAIN && s !== FREE_SECT && s < this.fat.length && !seen.has(s); s = this.fat[s]) {
+      seen.add(s);
+      const off = this.offset(s);
+      if (off + this.sectorSize > this.data.length) break;
+      chunks.push(this.data.subarray(off, off + this.sectorSize));
+    }
+    return concat(chunks);
+  }
+
+  private readMiniChain(start: number, size: number): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    const seen = new Set<number>();
+    for (let s = start; s !== END_OF_CHAIN && s !== FREE_SECT && !seen.has(s); s = this.miniFat[s]) {
+      seen.add(s);
+      const off = s * this.miniSectorSize;
+      chunks.push(this.miniStream.subarray(off, off + this.miniSectorSize));
+      if (this.miniFat[s] === undefined) break;
+    }
+    return concat(chunks).subarray(0, size);
+  }
+
+  private readEntries(dir: Uint8Array): CfbEntry[] {
+    const view = new DataView(dir.buffer, dir.byteOffset, dir.byteLength);
+    const entries: CfbEntry[] = [];
+    for (let off = 0; off + 128 <= dir.length; off += 128) {
+      const nameLen = Math.max(0, view.getUint16(off + 0x40, true) - 2);
+      entries.push({
+        name: decodeText(dir.subarray(off, off + Math.min(nameLen, 64)), "utf-16le"),
+        type: view.getUint8(off + 0x42),
+        left: view.getUint32(off + 0x44, true),
+        right: view.getUint32(off + 0x48, true),
+        child: view.getUint32(off + 0x4c, true),
+        start: view.getUint32(off + 0x74, true),
+        size: view.getUint32(off + 0x78, true),
+      });
+    }
+    return entries;
+  }
+
+  private buildTree(entries: CfbEntry[], idx: number, depth = 0): CfbNode {
+    const node: CfbNode = { entry: entries[idx], children: new Map() };
+    if (depth > 32) return node;
+
+    // Children of a storage form a red-black tree rooted at `child`; order does not matter here.
+    const stack = [node.entry.child];
+    const seen = new Set<number>();
+    while (stack.length) {
+      const i = stack.pop()!;
+      if (i === NO_STREAM || i >= entries.length || seen.has(i)) continue;
+      seen.add(i);
+      const e = entries[i];
+      stack.push(e.left, e.right);
+      node.children.set(e.name, e.type === 1 ? this.buildTree(entries, i, depth + 1) : { entry: e, children: new Map() });
+    }
+    return node;
+  }
+
+  stream(node: CfbNode): Uint8Array {
+    const { start, size } = node.entry;
+    return size < this.miniCutoff ? this.readMiniChain(start, size) : this.readChain(start).subarray(0, size);
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let off = 0;
+  for (const c of chunks) {
+    out.set(c, off);
+    off += c.length;
+  }
+  return out;
+}
+
+// MAPI property ids (MS-OXPROPS)
+const PR_SUBJECT = "0037";
+const PR_CLIENT_SUBMIT_TIME = 0x0039;
+const PR_TRANSPORT_MESSAGE_HEADERS = "007D";
+const PR_SENDER_NAME = "0C1A";
+const PR_SENDER_EMAIL_ADDRESS = "0C1F";
+const PR_SENDER_SMTP_ADDRESS = "5D01";
+const PR_DISPLAY_TO = "0E04";
+const PR_BODY = "1000";
+const PR_BODY_HTML = "1013";
+const PR_INTERNET_MESSAGE_ID = "1035";
+const PR_ATTACH_DATA_BIN = "3701";
+const PR_ATTACH_FILENAME = "3704";
+const PR_ATTACH_LONG_FILENAME = "3707";
+const PR_ATTACH_MIME_TAG = "370E";
+const PR_ATTACH_CONTENT_ID = "3712";
+const PR_DISPLAY_NAME = "3001";
+
+function msgString(file: CompoundFile, storage: CfbNode, prop: string): string | undefined {
+  const unicode = storage.children.get(`__substg1.0_${prop}001F`);
+  if (unicode) return decodeText(file.stream(unicode), "utf-16le").replace(/\0+$/, "");
+  const ansi = storage.children.get(`__substg1.0_${prop}001E`);
+  if (ansi) return decodeText(file.stream(ansi), "windows-1252").replace(/\0+$/, "");
+  const binary = storage.children.get(`__substg1.0_${prop}0102`);
+  if (binary) return decodeText(file.stream(binary), "utf-8").replace(/\0+$/, "");
+  return undefined;
+}
+
+function msgSubmitTime(file: CompoundFile, root: CfbNode): string | undefined {
+  const props = root.children.get("__properties_version1.0");
+  if (!props) return undefined;
+  const bytes = file.stream(props);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // Top-level message: 32-byte header, then 16-byte fixed-size entries.
+  for (let off = 32; off + 16 <= bytes.length; off += 16) {
+    const type = view.getUint16(off, true);
+    const id = view.getUint16(off + 2, true);
+    if (id !== PR_CLIENT_SUBMIT_TIME || type !== 0x0040) continue;
+    const filetime = view.getUint32(off + 8, true) + view.getUint32(off + 12, true) * 2 ** 32;
+    if (!filetime) return undefined;
+    return new Date(filetime / 10000 - 11644473600000).toISOString();
+  }
+  return undefined;
+}
+
+export function parseMsg(data: Uint8Array): EmailMessage {
+  const file = new CompoundFile(data);
+  const root = file.root;
+  const str = (prop: string) => msgString(file, root, prop);
+
+  const headers = str(PR_TRANSPORT_MESSAGE_HEADERS) ?? "";
+  const senderName = str(PR_SENDER_NAME);
+  const senderAddress = str(PR_SENDER_SMTP_ADDRESS) ?? str(PR_SENDER_EMAIL_ADDRESS);
+  const headerFrom = headerValue(headers, "From");
+  const from = headerFrom
+    ? decodeHeaderWords(headerFrom)
+    : senderAddress && senderName ? `${senderName} <${senderAddress}>` : senderName ?? senderAddress ?? "";
+  const parsedFrom = splitAddress(from);
+
+  const html = str(PR_BODY_HTML);
+  const attachments: EmailAttachment[] = [];
+  for (const [name, node] of root.children) {
+    if (!name.startsWith("__attach_version1.0_")) continue;
+    const dataNode = node.children.get(`__substg1.0_${PR_ATTACH_DATA_BIN}0102`);
+    if (!dataNode) continue;   // embedded messages and OLE objects are not extracted
+    const filename =
+      msgString(file, node, PR_ATTACH_LONG_FILENAME) ??
+      msgString(file, node, PR_ATTACH_FILENAME) ??
+      msgString(file, node, PR_DISPLAY_NAME) ??
+      `attachment-${attachments.length + 1}`;
+    const att: EmailAttachment = {
+      filename,
+      mimeType: (msgString(file, node, PR_ATTACH_MIME_TAG) ?? "application/octet-stream").toLowerCase(),
+      data: file.stream(dataNode).slice(),
+    };
+    attachments.push({ ...att, inline: isInlineImage(att, msgString(file, node, PR_ATTACH_CONTENT_ID), html) });
+  }
+
+  return {
+    format: "MSG",
+    from,
+    from_name: senderName || parsedFrom.name,
+    from_address: (senderAddress?.includes("@") ? senderAddress.toLowerCase() : undefined) ?? parsedFrom.address,
+    to: str(PR_DISPLAY_TO),
+    subject: str(PR_SUBJECT) ?? "",
+    date: isoDate(headerValue(headers, "Date")) ?? msgSubmitTime(file, root),
+    message_id: (str(PR_INTERNET_MESSAGE_ID) ?? headerValue(headers, "Message-ID"))?.replace(/^<|>$/g, ""),
+    body_text: (str(PR_BODY) ?? (html ? htmlToText(html) : "")).trim(),
+    attachments,
+  };
+}
@@ -1,6 +1,38 @@
 import { POLineRow, AutomationLane } from "../types.ts";
-import { ReferenceService } from "./referenceService.ts";
+import { ReferenceMatch, ReferenceService } from "./referenceService.ts";
+import { hasHistoricalMatch } from "./partCrossReference.ts";
+import { Signal, SignalType } from "./abhSchema.ts";
 
+// Share of the confidence score each grounding contributes at a full (1.0) match.
+const BASE_CONFIDENCE = 0.2;
+const MFR_WEIGHT = 0.4;
+const FINISH_WEIGHT = 0.2;
+const CATEGORY_WEIGHT = 0.2;
+
+const SIGNAL_FOR: Record<ReferenceMatch<unknown>["method"], SignalType> = {
+  EXACT: "EXACT_CATALOG_MATCH",
+  FUZZY: "FUZZY_MATCH",
+  PATTERN: "REGEX_MATCH",
+};
+
+// Least to most restrictive.
+const LANE_ORDER: AutomationLane[] = ["AUTO", "ASSIST", "REVIEW", "BLOCK"];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function matchSignal(label: string, id: string, m: ReferenceMatch<unknown>): Signal {
+  return {
+    type: SIGNAL_FOR[m.method],
+    weight: round2(m.score),
+    detail: `${label} ${id} via "${m.term}" at "${m.span.text}" [${m.span.start}-${m.span.end}]`,
+  };
+}
+
+/**
+ * Grounds each row against the reference pack and scores it. Rows arrive already policy-routed;
+ * the stricter of the policy lane and the grounding lane wins, so a policy REVIEW (unknown
+ * customer, EDI change order, ...) is never promoted by a clean reference match.
+ */
 export function enrichAndValidate(
   rows: POLineRow[],
   refService: ReferenceService,
@@ -23,45 +55,71 @@ export function enrichAndValidate(
       };
     }
 
+    // Unparseable segment placeholders keep their REVIEW routing; there is nothing to ground.
+    if (row.edge_case_flags.includes("PARSING_ERROR")) {
+      return {
+        ...row,
+        raw_edge_case_notes: `${row.raw_edge_case_notes ?? ""}${row.raw_edge_case_notes ? " | " : ""}ref_pack_version=${referenceVersion}`,
+      };
+    }
+
     // Pricing expectation
     const priceExpected = row.doc_type !== "PICKING_SHEET";
 
     const violations: string[] = [];
-    let score = 0;
+    const signals: Signal[] = [];
+    let score = BASE_CONFIDENCE;
 
     const text = `${row.customer_item_no ?? ""} ${row.customer_item_desc_raw ?? ""}`;
 
-    // 1) Manufacturer grounding
-    const mfg = refService.normalizeManufacturer(text);
-    if (mfg) {
-      row.abh_item_no_candidate = `${mfg.abbr}-${row.customer_item_no}`;
-      score += 0.4;
+    // 1) Manufacturer grounding; a reviewer-confirmed cross-reference or an item master SKU
+    //    already names the ABH item
+    const [mfg] = refService.matchManufacturers(text);
+    if (mfg) signals.push(matchSignal("Manufacturer", mfg.ref.abbr, mfg));
+    if (hasHistoricalMatch(row) || refService.findItem(row.abh_item_no_candidate)) {
+      score += MFR_WEIGHT;
+    } else if (mfg) {
+      // Guess the ABH item from the manufacturer prefix only when there is no item master to hold
+      // it against
+      if (!refService.hasItemMaster()) row.abh_item_no_candidate = `${mfg.ref.abbr}-${row.customer_item_no}`;
+      score += MFR_WEIGHT * mfg.score;
     } else {
       violations.push("No Mfr Match");
     }
 
     // 2) Finish grounding
-    const finish = refService.normalizeFinish(text);
+    const [finish] = refService.matchFinishes(text);
     if (finish) {
-      score += 0.2;
+      signals.push(matchSignal("Finish", finish.ref.us_code, finish));
+      score += FINISH_WEIGHT * finish.score;
     } else {
       violations.push("No Finish Match");
     }
 
     // 3) Category
-    const cat = refService.detectCategory(text);
-    if (cat) score += 0.2;
+    const [cat] = refService.matchCategories(text);
+    if (cat) {
+      signals.push(matchSignal("Category", cat.ref.gordon_symbol, cat));
+      score += CATEGORY_WEIGHT * cat.score;
+    }
+
+    // 4) Model output that failed schema validation is never import-ready
+    if (row.sage_blockers?.length) violations.push("Schema Violations");
 
-    row.confidence_score = Math.min(score + 0.2, 1);
+    row.confidence_score = round2(Math.min(score, 1));
     row.match_score = row.confidence_score;
 
+    // Fuzzy / pattern matches alone can leave a line short of the bar with nothing missing.
+    if (violations.length === 0 && row.confidence_score < 0.8) violations.push("Weak Reference Match");
+
     // Readiness logic: do NOT punish missing price for picking sheets
     const isReady =
       violations.length === 0 &&
       row.confidence_score >= 0.8;
 
-    const lane: AutomationLane =
+    const groundedLane: AutomationLane =
       isReady ? "AUTO" : (violations.length > 2 ? "BLOCK" : "ASSIST");
+    const policyStricter = LANE_ORDER.indexOf(row.automation_lane) > LANE_ORDER.indexOf(groundedLane);
 
     // Add doc-type hints to routing reason for clarity
     const docHint =
@@ -69,15 +127,22 @@ export function enrichAndValidate(
         ? " (NO_PRICING_EXPECTED)"
         : "";
 
+    const groundedReason = isReady ? `Grounded Match${docHint}` : `Issues: ${violations.join(", ")}${docHint}`;
+
     return {
       ...row,
-      automation_lane: lane,
-      sage_import_ready: isReady,
-      routing_reason: isReady ? `Grounded Match${docHint}` : `Issues: ${violations.join(", ")}${docHint}`,
-      fields_requiring_review: isReady ? [] : violations,
+      signals: [...(row.signals ?? []), ...signals],
+      automation_lane: policyStricter ? row.automation_lane : groundedLane,
+      sage_import_ready: isReady && !policyStricter,
+      routing_reason: policyStricter
+        ? [row.routing_reason, violations.length ? groundedReason : ""].filter(Boolean).join(" | ")
+        : groundedReason,
+      fields_requiring_review: policyStricter
+        ? Array.from(new Set([...(row.fields_requiring_review ?? []), ...violations]))
+        : isReady ? [] : violations,
       raw_edge_case_notes: `${row.raw_edge_case_notes ?? ""}${row.raw_edge_case_notes ? " | " : ""}ref_pack_version=${referenceVersion}`,
       policy_rule_ids_applied: Array.from(
-        new Set([...(row.policy_rule_ids_applied ?? []), `REFPACK:${referenceVersion}`, "REF_GROUNDING_V4"])
+        new Set([...(row.policy_rule_ids_applied ?? []), `REFPACK:${referenceVersion}`, "REF_GROUNDING_V5"])
       ),
     };
   });
@@ -0,0 +1,200 @@
+// services/extractionProviders.ts
+import { ApiError, GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import {
+  ExtractionSettings,
+  ExtractionProviderId,
+  ExtractionFixtureSet,
+  PROVIDER_DEFAULTS,
+  resolveModelId,
+  resolveBaseUrl,
+} from "../extraction/extractionSettings.ts";
+import { sha256Base64 } from "./regressionHarness.ts";
+
+export type InlinePart = { base64: string; mimeType: string };
+
+export type ExtractionRequest = {
+  prompt: string;
+  parts: InlinePart[];
+  responseSchema: Record<string, any>;   // Gemini-style schema (Type.* enums)
+  fixtureKeys?: string[];                // lookup hints for FIXTURE_REPLAY, most specific first
+};
+
+export type ExtractionResponse = {
+  text: string;                          // JSON text shaped like GeminiParsingResult
+  provider: ExtractionProviderId;
+  model_id: string;
+};
+
+/**
+ * A backend that turns a prompt plus inline page images into
+ * GeminiParsingResult-shaped JSON text.
+ */
+export interface ExtractionProvider {
+  readonly id: ExtractionProviderId;
+  readonly modelId: string;
+  generate(req: ExtractionRequest): Promise<ExtractionResponse>;
+}
+
+/**
+ * A model endpoint answered with an HTTP error status.
+ */
+export class ProviderHttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "ProviderHttpError";
+  }
+}
+
+/**
+ * Worth retrying: network failures (fetch rejects with a TypeError), rate limits (429) and server
+ * errors (5xx). Other HTTP errors, fixture / cache replay misses and unusable output fail the same
+ * way every time.
+ */
+export function isTransientProviderError(err: unknown): boolean {
+  if (err instanceof ProviderHttpError || err instanceof ApiError) return err.status === 429 || err.status >= 500;
+  return err instanceof TypeError;
+}
+
+export class GeminiExtractionProvider implements ExtractionProvider {
+  readonly id = "GEMINI" as const;
+
+  constructor(readonly modelId: string, private apiKey?: string) {}
+
+  async generate(req: ExtractionRequest): Promise<ExtractionResponse> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey || process.env.API_KEY });
+
+    const contentParts: any[] = [{ text: req.prompt }];
+    for (const p of req.parts) {
+      contentParts.push({ inlineData: { data: p.base64, mimeType: p.mimeType } });
+    }
+
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: this.modelId,
+      contents: [{ parts: contentParts }],
+      config: {
+        thinkingConfig: { thinkingBudget: 0 },
+        responseMimeType: "application/json",
+        responseSchema: req.responseSchema,
+      },
+    });
+
+    if (!response.text) throw new Error("Gemini API returned an empty response.");
+    return { text: response.text, provider: this.id, model_id: this.modelId };
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat-completions protocol
+ * (OpenAI itself, or local servers such as Ollama, vLLM and LM Studio).
+ */
+export class OpenAICompatibleExtractionProvider implements ExtractionProvider {
+  constructor(
+    readonly id: "OPENAI" | "LOCAL_SERVER",
+    readonly modelId: string,
+    private baseUrl: string,
+    private apiKey?: string
+  ) {}
+
+  async generate(req: ExtractionRequest): Promise<ExtractionResponse> {
+    const label = PROVIDER_DEFAULTS[this.id].label;
+    if (!this.baseUrl) throw new Error(`${label}: base URL is not configured.`);
+
+    const content: any[] = [{ type: "text", text: req.prompt }];
+    for (const p of req.parts) {
+      const dataUrl = `data:${p.mimeType};base64,${p.base64}`;
+      if (p.mimeType.startsWith("image/")) {
+        content.push({ type: "image_url", image_url: { url: dataUrl } });
+      } else {
+        content.push({ type: "file", file: { filename: "document.pdf", file_data: dataUrl } });
+      }
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers["Authorization"] = `Bearer ${this.apiKey}`;
+
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.modelId,
+        temperature: 0,
+        messages: [{ role: "user", content }],
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "abh_parser_result", schema: toJsonSchema(req.responseSchema) },
+        },
+      }),
+    });
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => "");
+      throw new ProviderHttpError(`${label} returned HTTP ${res.status}: ${detail.slice(0, 300)}`, res.status);
+    }
+
+    const json = await res.json();
+    const text = json?.choices?.[0]?.message?.content;
+    if (!text || typeof text !== "string") throw new Error(`${label} returned an empty response.`);
+    return { text, provider: this.id, model_id: this.modelId };
+  }
+}
+
+/**
+ * Deterministic, offline provider: answers from recorded GeminiParsingResult fixtures.
+ * Lookup order: request fixtureKeys, content hash of the parts, then the "*" catch-all.
+ */
+export class FixtureReplayExtractionProvider implements ExtractionProvider {
+  readonly id = "FIXTURE_REPLAY" as const;
+  readonly modelId = PROVIDER_DEFAULTS.FIXTURE_REPLAY.model_id;
+
+  constructor(private fixtureSet: ExtractionFixtureSet) {}
+
+  async generate(req: ExtractionRequest): Promise<ExtractionResponse> {
+    const keys = [...(req.fixtureKeys ?? []), await contentFixtureKey(req.parts), "*"];
+    for (const k of keys) {
+      const hit = this.fixtureSet.fixtures[k];
+      if (hit) return { text: JSON.stringify(hit), provider: this.id, model_id: this.modelId };
+    }
+    throw new Error(`No recorded fixture for keys: ${keys.join(", ")}`);
+  }
+}
+
+export async function contentFixtureKey(parts: InlinePart[]): Promise<string> {
+  const hashes: string[] = [];
+  for (const p of parts) hashes.push(await sha256Base64(p.base64));
+  return `sha256:${hashes.join("+")}`;
+}
+
+export function createExtractionProvider(
+  settings: ExtractionSettings,
+  fixtureSet?: ExtractionFixtureSet
+): ExtractionProvider {
+  const modelId = resolveModelId(settings);
+  switch (settings.provider) {
+    case "OPENAI":
+    case "LOCAL_SERVER":
+      return new OpenAICompatibleExtractionProvider(settings.provider, modelId, resolveBaseUrl(settings), settings.api_key);
+    case "FIXTURE_REPLAY":
+      return new FixtureReplayExtractionProvider(fixtureSet ?? { version: "1.0.0", fixtures: {} });
+    case "GEMINI":
+    default:
+      return new GeminiExtractionProvider(modelId, settings.api_key);
+  }
+}
+
+/**
+ * Gemini schemas use upper-case Type enums ("OBJECT", "STRING"...);
+ * JSON Schema consumers expect lower-case type names.
+ */
+export function toJsonSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== "object") return schema;
+
+  const out: Record<string, any> = {};
+  for (const [k, v] of Object.entries(schema)) {
+    if (k === "type" && typeof v === "string") out[k] = v.toLowerCase();
+    else if (k === "properties" && v && typeof v === "object") {
+      out[k] = Object.fromEntries(Object.entries(v).map(([pk, pv]) => [pk, toJsonSchema(pv)]));
+    } else out[k] = toJsonSchema(v);
+  }
+  return out;
+}
@@ -1,9 +1,43 @@
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
+import { Type } from "@google/genai";
 import { GeminiParsingResult } from "../types.ts";
 import { ReferencePack } from "../referencePack.schema.ts";
+import {
+  ExtractionProvider,
+  ExtractionRequest,
+  InlinePart,
+  createExtractionProvider,
+  isTransientProviderError,
+} from "./extractionProviders.ts";
+import { loadExtractionSettings, loadFixtureSet } from "../extraction/extractionLocalStore.ts";
+import { validateParsingResult, SchemaViolation, formatViolation } from "./abhValidation.ts";
+import { DOCUMENT_TYPE_ENUM, POExportV1 } from "./abhSchema.ts";
+import { REFERENCE_GROUNDING_EVENT, ReferenceVocabulary, buildReferenceVocabulary } from "./referenceVocabulary.ts";
 
-type InlinePart = { base64: string; mimeType: string };
+// Transport retries (exponential backoff) and schema-repair re-prompts per model call.
+const MAX_TRANSPORT_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 1000;
+const MAX_REPAIR_PASSES = 1;
+const REPAIR_ECHO_CHARS = 4000;
+
+const EVIDENCE_INSTRUCTIONS =
+  "For every line item set raw.page and raw.bbox (the printed line's region) and add raw.field_boxes for the part number, quantity and prices you read.";
+
+const ADDRESS_INSTRUCTIONS =
+  "Read the bill-to (sold-to) and ship-to blocks into order.addresses field by field as printed: street in line1, suite / unit / dock in line2, city, state or province, ZIP or postal code, country when shown. Leave an address out when the document has none.";
+
+const ADDRESS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    line1: { type: Type.STRING },
+    line2: { type: Type.STRING, description: "Suite, unit, floor, building or dock" },
+    city: { type: Type.STRING },
+    state: { type: Type.STRING, description: "State or province as printed" },
+    postal_code: { type: Type.STRING },
+    country: { type: Type.STRING },
+  }
+};
 
 const MODIFIER_SCHEMA = {
   type: Type.OBJECT,
@@ -14,13 +48,41 @@ const MODIFIER_SCHEMA = {
   required: ["type"]
 };
 
+const BOUNDING_BOX_SCHEMA = {
+  type: Type.OBJECT,
+  description: "Fractions 0..1 of page width/height, origin top-left",
+  properties: {
+    x: { type: Type.NUMBER },
+    y: { type: Type.NUMBER },
+    w: { type: Type.NUMBER },
+    h: { type: Type.NUMBER },
+  },
+  required: ["x", "y", "w", "h"]
+};
+
 const LINE_ITEM_SCHEMA = {
   type: Type.OBJECT,
   properties: {
     line_id: { type: Type.STRING },
     raw: {
       type: Type.OBJECT,
-      properties: { raw_text: { type: Type.STRING } },
+      properties: {
+        raw_text: { type: Type.STRING },
+        page: { type: Type.NUMBER, description: "0-based page index (from source_pages) the line is printed on" },
+        bbox: BOUNDING_BOX_SCHEMA,
+        field_boxes: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              field: { type: Type.STRING, description: "customer_item_no, description, quantity, unit_price or extended_price" },
+              page: { type: Type.NUMBER },
+              bbox: BOUNDING_BOX_SCHEMA,
+            },
+            required: ["field", "bbox"]
+          }
+        }
+      },
       required: ["raw_text"]
     },
     parsed: {
@@ -28,12 +90,18 @@ const LINE_ITEM_SCHEMA = {
       properties: {
         customer_item_no: { type: Type.STRING },
         abh_item_no: { type: Type.STRING },
-        manufacturer: { type: Type.STRING },
+        manufacturer: { type: Type.STRING, description: "Manufacturer ABBR from the reference vocabulary when listed" },
         description: { type: Type.STRING },
         quantity: { type: Type.NUMBER },
         uom: { type: Type.STRING },
         unit_price: { type: Type.NUMBER },
         extended_price: { type: Type.NUMBER },
+        attributes: {
+          type: Type.OBJECT,
+          properties: {
+            finish: { type: Type.STRING, description: "US finish code from the reference vocabulary when listed" },
+          },
+        },
         modifiers: { type: Type.ARRAY, items: MODIFIER_SCHEMA }
       },
       required: ["description", "quantity", "uom"]
@@ -66,7 +134,14 @@ const ABH_DOCUMENT_SCHEMA = {
     parties: {
       type: Type.OBJECT,
       properties: {
-        customer: { type: Type.OBJECT, properties: { name: { type: Type.STRING } }, required: ["name"] },
+        customer: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            account_id: { type: Type.STRING, description: "Customer / account number printed on the document, if any" },
+          },
+          required: ["name"]
+        },
         vendor: { type: Type.OBJECT, properties: { name: { type: Type.STRING } }, required: ["name"] }
       },
       required: ["customer", "vendor"]
@@ -78,6 +153,15 @@ const ABH_DOCUMENT_SCHEMA = {
         customer_order_no: { type: Type.STRING },
         order_date: { type: Type.STRING, description: "YYYY-MM-DD" },
         currency: { type: Type.STRING, description: "USD, CAD, etc." },
+        addresses: {
+          type: Type.OBJECT,
+          properties: {
+            bill_to: ADDRESS_SCHEMA,
+            ship_to: ADDRESS_SCHEMA,
+            ship_to_name: { type: Type.STRING, description: "Consignee / job name on the ship-to block" },
+            mark_for: { type: Type.STRING, description: "Mark-for / attention instructions" },
+          }
+        },
       },
       required: ["order_type"]
     },
@@ -97,7 +181,7 @@ const ABH_DOCUMENT_SCHEMA = {
   required: ["schema_version", "document", "order", "line_items"]
 };
 
-const PARSER_SCHEMA = {
+export const PARSER_SCHEMA = {
   type: Type.OBJECT,
   properties: {
     documents: {
@@ -108,62 +192,228 @@ const PARSER_SCHEMA = {
   required: ["documents"]
 };
 
+/**
+ * Falls back to the provider selected in local settings when the caller does not inject one.
+ */
+function resolveProvider(provider?: ExtractionProvider): ExtractionProvider {
+  return provider ?? createExtractionProvider(loadExtractionSettings(), loadFixtureSet());
+}
+
+export class ModelOutputError extends Error {
+  constructor(message: string, readonly rawText: string, readonly violations: SchemaViolation[]) {
+    super(message);
+    this.name = "ModelOutputError";
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise(r => setTimeout(r, ms));
+}
+
+function parseResultText(text: string): { result: GeminiParsingResult; errors: SchemaViolation[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.trim());
+  } catch (e) {
+    console.error("Failed to parse model JSON:", text);
+    throw new ModelOutputError("The AI returned a malformed data structure.", text, [
+      { path: "(root)", expected: "complete JSON document", actual: `unparseable text (${text.length} chars)`, coerced: false },
+    ]);
+  }
+
+  const validated = validateParsingResult(raw);
+  if (validated.fatal) {
+    throw new ModelOutputError("The AI response does not contain a 'documents' array.", text, validated.violations);
+  }
+  if (validated.violations.length) {
+    console.warn(`Model output had ${validated.violations.length} schema violation(s)`, validated.violations);
+  }
+  return { result: validated.result, errors: validated.violations.filter(v => !v.coerced) };
+}
+
+async function generateWithBackoff(
+  engine: ExtractionProvider,
+  req: ExtractionRequest,
+  onStatusUpdate?: (status: string) => void
+) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await engine.generate(req);
+    } catch (err) {
+      // Only transport failures are retried; 4xx, replay misses and bad output would fail again.
+      if (!isTransientProviderError(err) || attempt >= MAX_TRANSPORT_ATTEMPTS) throw err;
+      const wait = BACKOFF_BASE_MS * 2 ** (attempt - 1);
+      console.warn(`Model call failed (attempt ${attempt}/${MAX_TRANSPORT_ATTEMPTS})`, err);
+      if (onStatusUpdate) onStatusUpdate(`Model call failed, retrying in ${Math.round(wait / 1000)}s (${attempt}/${MAX_TRANSPORT_ATTEMPTS})...`);
+      await sleep(wait);
+    }
+  }
+}
+
+function buildRepairPrompt(originalPrompt: string, previousText: string, violations: SchemaViolation[]): string {
+  const echoed = previousText.length > REPAIR_ECHO_CHARS
+    ? `${previousText.slice(0, REPAIR_ECHO_CHARS)}\n...[truncated, ${previousText.length} chars total]`
+    : previousText;
+
+  return `${originalPrompt}
+
+REPAIR REQUEST:
+Your previous response could not be accepted. Validation errors:
+${violations.slice(0, 40).map(v => `- ${formatViolation(v)}`).join("\n")}
+
+PREVIOUS RESPONSE:
+${echoed}
+
+Re-read the pages and return the COMPLETE corrected JSON object (schema enforced). Do not truncate; do not add commentary.`;
+}
+
+/**
+ * One extraction: transport retries with backoff, then up to MAX_REPAIR_PASSES schema-repair
+ * re-prompts when the output is unparseable or has hard schema errors.
+ * Throws ModelOutputError when no usable output was produced.
+ */
+async function runExtraction(
+  engine: ExtractionProvider,
+  req: ExtractionRequest,
+  onStatusUpdate?: (status: string) => void
+): Promise<GeminiParsingResult> {
+  let best: GeminiParsingResult | null = null;
+  let lastError: ModelOutputError | null = null;
+  let currentReq = req;
+
+  for (let pass = 0; pass <= MAX_REPAIR_PASSES; pass++) {
+    const response = await generateWithBackoff(engine, currentReq, onStatusUpdate);
+    let errors: SchemaViolation[];
+    try {
+      const parsed = parseResultText(response.text);
+      best = parsed.result;
+      errors = parsed.errors;
+      if (errors.length === 0) return best;
+    } catch (err) {
+      if (!(err instanceof ModelOutputError)) throw err;
+      lastError = err;
+      errors = err.violations;
+    }
+
+    if (pass < MAX_REPAIR_PASSES) {
+      if (onStatusUpdate) onStatusUpdate(`Repairing model output (${errors.length} validation error${errors.length === 1 ? "" : "s"})...`);
+      currentReq = { ...req, prompt: buildRepairPrompt(req.prompt, response.text, errors) };
+    }
+  }
+
+  // Prefer a parseable result with remaining violations (surfaced as row blockers) over nothing.
+  if (best) return best;
+  throw lastError ?? new ModelOutputError("The AI returned no usable output.", "", []);
+}
+
+/**
+ * Records on every returned document which reference pack the prompt was grounded with.
+ */
+function withGroundingEvent(result: GeminiParsingResult, vocabulary?: ReferenceVocabulary): GeminiParsingResult {
+  if (!vocabulary) return result;
+  const { text, ...details } = vocabulary;
+  const event = { at: new Date().toISOString(), event_type: REFERENCE_GROUNDING_EVENT, actor: "SYSTEM" as const, details };
+  for (const doc of result.documents) {
+    doc.audit = { ...doc.audit, events: [...(doc.audit?.events ?? []), event] };
+  }
+  return result;
+}
+
+/**
+ * Stand-in for a segment that could not be parsed: routed to REVIEW with PARSING_ERROR
+ * so the reviewer sees it and the rest of the batch keeps going.
+ */
+export function buildParsingErrorDocument(args: {
+  error: unknown;
+  labelHint?: string;
+  filename?: string;
+  sourcePages?: number[];
+  pageStart?: number;
+  pageEnd?: number;
+}): POExportV1 {
+  const message = args.error instanceof Error ? args.error.message : String(args.error);
+  const docType = DOCUMENT_TYPE_ENUM.find(t => t === args.labelHint) ?? "UNKNOWN";
+  const violations = args.error instanceof ModelOutputError ? args.error.violations : [];
+  const at = new Date().toISOString();
+
+  return {
+    schema_version: "abh.po.v1",
+    // Export envelope, replaced by buildPOExportsV1 as for model output.
+    export_id: "",
+    exported_at: at,
+    source: { system: "orderflow-parser", app_version: "", run_mode: "PRODUCTION" },
+    document: {
+      document_id: "",   // mapping assigns a deterministic id from the source file stem
+      document_type: docType,
+      file: { filename: args.filename ?? "" },
+      source_pages: args.sourcePages,
+      page_start: args.pageStart,
+      page_end: args.pageEnd,
+    },
+    parties: { customer: { name: "" }, vendor: { name: "" } },
+    order: { order_type: docType },
+    line_items: [],
+    confidence: {
+      overall_confidence: 0,
+      auto_process_eligible: false,
+      thresholds: { auto_stage_min: 0, review_min: 0 },
+    },
+    routing: {
+      decision: "REVIEW",
+      reason_codes: ["PARSING_ERROR"],
+      routing_notes: message,
+    },
+    audit: {
+      events: [{
+        at,
+        event_type: "PARSING_ERROR",
+        actor: "SYSTEM",
+        details: { error: message, violations },
+      }],
+    },
+  };
+}
+
 export async function parseDocument(
   fileBase64: string, 
   mimeType: string, 
   ocrText?: string,
   refPack?: ReferencePack,
   onStatusUpdate?: (status: string) => void,
-  segmentHint?: { label: string; pageRange: string }
+  segmentHint?: { label: string; pageRange: string },
+  provider?: ExtractionProvider,
+  filename?: string   // FIXTURE_REPLAY lookup key and the stand-in document's file name
 ): Promise<GeminiParsingResult> {
   
   if (onStatusUpdate) onStatusUpdate("Initializing Ultra-Fast AI Engine...");
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const engine = resolveProvider(provider);
 
   // Fix: Reference segmentHint.pageRange instead of hintText which is currently being defined
   const hintText = segmentHint 
     ? `\nSEGMENT CONTEXT: You are processing a specific document segment. Pages: ${segmentHint.pageRange}. Predicted Document Type: ${segmentHint.label}.`
     : "";
+  const vocabulary = buildReferenceVocabulary(refPack);
 
-  const response: GenerateContentResponse = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: [
-      {
-        parts: [
-          {
-            text: `EXTRACT ENTERPRISE ORDER DATA INTO ABH PO V1 FORMAT:
+  const req: ExtractionRequest = {
+    prompt: `EXTRACT ENTERPRISE ORDER DATA INTO ABH PO V1 FORMAT:
             - Target Document Types: PURCHASE_ORDER, SALES_ORDER, INVOICE, CREDIT_MEMO, PICKING_SHEET.
             - Accurately identify all line items including Part Numbers, Quantities, and Descriptions.
             - Extract header data: Order Number, Dates, and Parties.
+            - ${ADDRESS_INSTRUCTIONS}
             - Identify special conditions like Credit Memos or Special Layouts.
+            - ${EVIDENCE_INSTRUCTIONS}
             - Output strictly as JSON following the provided schema.${hintText}
-            ${ocrText ? `OCR HINT DATA: ${ocrText}` : ''}`
-          },
-          {
-            inlineData: {
-              data: fileBase64,
-              mimeType: mimeType,
-            },
-          },
-        ],
-      },
-    ],
-    config: {
-      thinkingConfig: { thinkingBudget: 0 },
-      responseMimeType: "application/json",
-      responseSchema: PARSER_SCHEMA,
-    },
-  });
-
-  if (!response.text) {
-    throw new Error("Gemini API returned an empty response.");
-  }
+            ${vocabulary ? `${vocabulary.text}\n` : ''}${ocrText ? `OCR HINT DATA: ${ocrText}` : ''}`,
+    parts: [{ base64: fileBase64, mimeType }],
+    responseSchema: PARSER_SCHEMA,
+    fixtureKeys: filename ? [filename] : [],
+  };
 
   try {
-    return JSON.parse(response.text.trim()) as GeminiParsingResult;
-  } catch (e) {
-    console.error("Failed to parse Gemini JSON:", response.text);
-    throw new Error("The AI returned a malformed data structure.");
+    return withGroundingEvent(await runExtraction(engine, req, onStatusUpdate), vocabulary);
+  } catch (err) {
+    console.error("Document parse failed after retries:", err);
+    return { documents: [buildParsingErrorDocument({ error: err, labelHint: segmentHint?.label, filename })] };
   }
 }
 
@@ -178,13 +428,15 @@ export async function parsePacketSegment(
     triageTextHint?: string; // optional
   },
   refPack?: ReferencePack,
-  onStatusUpdate?: (status: string) => void
+  onStatusUpdate?: (status: string) => void,
+  provider?: ExtractionProvider
 ): Promise<GeminiParsingResult> {
 
   if (onStatusUpdate) onStatusUpdate(`Parsing segment pages ${segmentContext.pageStart + 1}-${segmentContext.pageEnd + 1}...`);
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const engine = resolveProvider(provider);
 
   const triageHint = segmentContext.triageTextHint ? `\nTRIAGE_TEXT_HINT:\n${segmentContext.triageTextHint}\n` : "";
+  const vocabulary = buildReferenceVocabulary(refPack);
 
   const prompt = `
 You are parsing document pages from an ABH packet. 
@@ -196,6 +448,7 @@ EXTRACT ALL LOGICAL DOCUMENTS:
 - Classify each document_type correctly:
   PURCHASE_ORDER, SALES_ORDER, INVOICE, CREDIT_MEMO, PICKING_SHEET, EMAIL_COVER, UNKNOWN
 - If prices are missing (e.g. Picking Sheet), do NOT hallucinate them.
+- ${ADDRESS_INSTRUCTIONS}
 
 SEGMENT META (must mirror):
 - source_pages: ${JSON.stringify(segmentContext.sourcePages)}
@@ -203,34 +456,38 @@ SEGMENT META (must mirror):
 - page_end: ${segmentContext.pageEnd}
 - label_hint: ${segmentContext.segmentLabelHint || "NONE"}
 
+EVIDENCE:
+- ${EVIDENCE_INSTRUCTIONS}
+
 OUTPUT:
 - Strict JSON only (schema enforced).
-${triageHint}
+${vocabulary ? `\n${vocabulary.text}\n` : ""}${triageHint}
 `.trim();
 
-  const contentParts: any[] = [{ text: prompt }];
+  const fixtureKeys = segmentContext.packetFilename
+    ? [`${segmentContext.packetFilename}#${segmentContext.pageStart}-${segmentContext.pageEnd}`, segmentContext.packetFilename]
+    : [];
 
-  for (const p of parts) {
-    contentParts.push({
-      inlineData: { data: p.base64, mimeType: p.mimeType },
-    });
-  }
+  const req: ExtractionRequest = {
+    prompt,
+    parts,
+    responseSchema: PARSER_SCHEMA,
+    fixtureKeys,
+  };
 
-  const response: GenerateContentResponse = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: [{ parts: contentParts }],
-    config: {
-      thinkingConfig: { thinkingBudget: 0 },
-      responseMimeType: "application/json",
-      responseSchema: PARSER_SCHEMA,
-    },
-  });
-
-  if (!response.text) throw new Error("Gemini returned empty response.");
   try {
-    return JSON.parse(response.text.trim()) as GeminiParsingResult;
-  } catch (e) {
-    console.error("Failed to parse Gemini JSON:", response.text);
-    throw new Error("The AI returned a malformed data structure.");
+    return withGroundingEvent(await runExtraction(engine, req, onStatusUpdate), vocabulary);
+  } catch (err) {
+    console.error(`Segment pages ${segmentContext.pageStart + 1}-${segmentContext.pageEnd + 1} failed after retries:`, err);
+    return {
+      documents: [buildParsingErrorDocument({
+        error: err,
+        labelHint: segmentContext.segmentLabelHint,
+        filename: segmentContext.packetFilename,
+        sourcePages: segmentContext.sourcePages,
+        pageStart: segmentContext.pageStart,
+        pageEnd: segmentContext.pageEnd,
+      })],
+    };
   }
 }
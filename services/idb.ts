@@ -0,0 +1,73 @@
+// services/idb.ts
+// Minimal promise wrappers around IndexedDB (no external dependency).
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error("IndexedDB is not available in this environment."));
+      return;
+    }
+    const req = indexedDB.open(name, version);
+    req.onupgradeneeded = (e) => upgrade(req.result, e.oldVersion);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error(`IndexedDB '${name}' upgrade blocked by another tab.`));
+  });
+}
+
+export function idbRequest<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function withStore<T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const tx = db.transaction(storeName, mode);
+  const result = await idbRequest(fn(tx.objectStore(storeName)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+}
+
+/**
+ * Multi-store transaction; `fn` may await several requests as long as it only awaits IndexedDB work.
+ */
+export async function withTransaction<T>(
+  db: IDBDatabase,
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T>
+): Promise<T> {
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  let result: T;
+  try {
+    result = await fn(tx);
+  } catch (e) {
+    try { tx.abort(); } catch { /* already finished */ }
+    throw e;
+  }
+  await done;
+  return result;
+}
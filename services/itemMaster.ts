@@ -0,0 +1,77 @@
+// services/itemMaster.ts
+// SKU-level checks against the reference pack's item master: the ABH item must exist, be orderable
+// and belong to the manufacturer the line names.
+import { POLineRow } from "../types.ts";
+import { ItemMasterRef } from "../referencePack.schema.ts";
+import { ReferenceService } from "./referenceService.ts";
+import { Signal } from "./abhSchema.ts";
+
+export const UNKNOWN_SKU_FLAG = "UNKNOWN_SKU";
+export const DISCONTINUED_SKU_FLAG = "DISCONTINUED_SKU";
+export const SKU_MFR_MISMATCH_FLAG = "SKU_MFR_MISMATCH";
+
+const MAX_REPLACEMENT_HOPS = 5;
+
+/**
+ * Follows replacement SKUs to the first active item on file (A -> B superseded -> C active).
+ */
+function activeReplacement(refService: ReferenceService, item: ItemMasterRef): ItemMasterRef | undefined {
+  let next = refService.findItem(item.replacement_sku);
+  for (let hop = 1; next && next.status !== "ACTIVE" && hop < MAX_REPLACEMENT_HOPS; hop++) {
+    next = refService.findItem(next.replacement_sku);
+  }
+  return next?.status === "ACTIVE" ? next : undefined;
+}
+
+/**
+ * Checks each catalog line's ABH item (the reviewer's, else the candidate; a customer part number
+ * that is itself an ABH SKU is taken as the candidate) against the item master and flags
+ * UNKNOWN_SKU, DISCONTINUED_SKU (with the replacement to suggest) or SKU_MFR_MISMATCH. Runs before
+ * policy routing so rules can route on the flags; no-op when the pack has no items.
+ */
+export function checkItemMaster(rows: POLineRow[], refService: ReferenceService): POLineRow[] {
+  if (!refService.hasItemMaster()) return rows;
+  return rows.map(row => {
+    if (row.doc_type === "EMAIL_COVER" || row.edge_case_flags.includes("PARSING_ERROR")) return row;
+    if (row.item_class === "CUSTOM" || row.item_class === "CONFIGURED") return row;
+
+    const ordered = refService.findItem(row.customer_item_no);
+    const candidate = refService.findItem(row.abh_item_no_candidate) ? row.abh_item_no_candidate : ordered?.sku ?? row.abh_item_no_candidate;
+    const sku = row.abh_item_no_final || candidate;
+    if (!sku) return row;
+
+    const item = refService.findItem(sku);
+    const flags: string[] = [];
+    const notes: string[] = [];
+    let replacement: ItemMasterRef | undefined;
+
+    if (!item) {
+      flags.push(UNKNOWN_SKU_FLAG);
+      notes.push(`SKU ${sku} not in item master`);
+    } else {
+      if (item.status !== "ACTIVE") {
+        replacement = activeReplacement(refService, item);
+        flags.push(DISCONTINUED_SKU_FLAG);
+        notes.push(`SKU ${item.sku} is ${item.status.toLowerCase()}${replacement ? `; replacement ${replacement.sku}` : "; no active replacement on file"}`);
+      }
+      const named = row.manufacturer ? refService.normalizeManufacturer(row.manufacturer)?.abbr ?? row.manufacturer : undefined;
+      if (named && item.mfr_abbr && named.toUpperCase() !== item.mfr_abbr.toUpperCase()) {
+        flags.push(SKU_MFR_MISMATCH_FLAG);
+        notes.push(`SKU ${item.sku} is ${item.mfr_abbr}, line names ${row.manufacturer}`);
+      }
+    }
+
+    const signal: Signal | undefined = item && flags.length === 0
+      ? { type: "EXACT_CATALOG_MATCH", weight: 1, detail: `Item master ${item.sku} (${item.mfr_abbr}, ${item.base_uom})` }
+      : undefined;
+
+    return {
+      ...row,
+      abh_item_no_candidate: candidate,
+      abh_item_no_replacement: replacement?.sku,
+      signals: signal ? [...(row.signals ?? []), signal] : row.signals,
+      edge_case_flags: Array.from(new Set([...row.edge_case_flags, ...flags])),
+      raw_edge_case_notes: [row.raw_edge_case_notes, ...notes].filter(Boolean).join(" | "),
+    };
+  });
+}
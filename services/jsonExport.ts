@@ -43,8 +43,10 @@ function reasonCodesFromRows(docRows: POLineRow[], thresholds: { auto_stage_min:
 
   const anyBelowAuto = docRows.some(r => (r.confidence_score ?? 1) < thresholds.auto_stage_min);
   const anyBelowReview = docRows.some(r => (r.confidence_score ?? 1) < thresholds.review_min);
+  const anyParsingError = docRows.some(r => (r.edge_case_flags || []).includes('PARSING_ERROR'));
 
-  if (!anyBelowAuto && !anyBelowReview) codes.add('ALL_LINES_HIGH_CONFIDENCE');
+  if (anyParsingError) codes.add('PARSING_ERROR');
+  else if (!anyBelowAuto && !anyBelowReview) codes.add('ALL_LINES_HIGH_CONFIDENCE');
   if (anyBelowAuto) codes.add('LOW_CONFIDENCE_FIELDS_PRESENT');
 
   for (const r of docRows) {
@@ -65,12 +67,21 @@ function reasonCodesFromRows(docRows: POLineRow[], thresholds: { auto_stage_min:
   return Array.from(codes);
 }
 
+// A PARSING_ERROR row stands in for a document the model returned no usable lines for. It is not
+// an order line, so the export keeps it as a document-level audit entry instead.
+function isParsingErrorPlaceholder(r: POLineRow): boolean {
+  return (r.edge_case_flags || []).includes('PARSING_ERROR');
+}
+
 function buildLineItem(r: POLineRow): LineItem {
   return {
     line_id: `${r.doc_id}-L${r.line_no}`,
     raw: {
       raw_text: r.customer_item_desc_raw || '',
+      page: r.evidence?.page,
       line_no: r.line_no,
+      bbox: r.evidence?.bbox,
+      field_boxes: r.evidence?.fields,
     },
     parsed: {
       customer_item_no: r.customer_item_no,
@@ -99,7 +110,7 @@ function buildLineItem(r: POLineRow): LineItem {
     confidence: {
       line_confidence: Math.max(0, Math.min(1, r.confidence_score ?? 0)),
       field_confidence: {},
-      signals: [],
+      signals: r.signals ?? [],
     },
     flags: (r.edge_case_flags || [])
       .map(f => String(f).toUpperCase())
@@ -139,8 +150,18 @@ export function buildPOExportsV1(params: BuildJsonExportParams): POExportV1[] {
     const scopedOverrides =
       (params.auditEvents || []).filter(e => (e.details as any)?.doc_id ? (e.details as any).doc_id === docId : true);
 
+    const parseFailures: AuditEvent[] = scopedOverrides.some(e => e.event_type === 'PARSING_ERROR')
+      ? []
+      : docRows.filter(isParsingErrorPlaceholder).map(r => ({
+          at: nowIso(),
+          event_type: 'PARSING_ERROR',
+          actor: 'SYSTEM',
+          details: { doc_id: docId, error: r.raw_edge_case_notes, blockers: r.sage_blockers },
+        }));
+
     const auditEvents: AuditEvent[] = [
       ...scopedOverrides,
+      ...parseFailures,
       {
         at: nowIso(),
         event_type: 'EXPORTED',
@@ -162,10 +183,13 @@ export function buildPOExportsV1(params: BuildJsonExportParams): POExportV1[] {
       document: {
         document_id: docId,
         document_type: first.doc_type as DocumentType,
-        file: { filename: `${docId}.pdf` },
+        file: { filename: `${docId}.pdf`, ...(first.archive_path ? { archive_path: first.archive_path } : {}) },
       },
       parties: {
-        customer: { name: first.customer_name || 'UNKNOWN' },
+        customer: {
+          name: first.customer_name || 'UNKNOWN',
+          ...(first.customer_account_id ? { account_id: first.customer_account_id } : {}),
+        },
         vendor: { name: vendorName },
       },
       order: {
@@ -173,12 +197,18 @@ export function buildPOExportsV1(params: BuildJsonExportParams): POExportV1[] {
         customer_order_no: first.customer_order_no,
         order_date: first.document_date,
         currency: first.currency,
+        payment_terms: first.payment_terms,
         addresses: {
+          bill_to: first.bill_to_address,
+          ship_to: first.ship_to_address,
           ship_to_name: first.ship_to_name,
           mark_for: first.mark_instructions,
         },
       },
-      line_items: docRows.sort((a, b) => a.line_no - b.line_no).map(buildLineItem),
+      line_items: docRows
+        .filter(r => !isParsingErrorPlaceholder(r))
+        .sort((a, b) => a.line_no - b.line_no)
+        .map(buildLineItem),
       confidence: {
         overall_confidence: overall,
         auto_process_eligible: decision === 'AUTO_STAGE' && params.runMode === 'PRODUCTION',
@@ -0,0 +1,220 @@
+// services/lineEvidence.ts
+// Where each line was printed: model-reported boxes, with a fallback that matches rows
+// against pdf.js text-item coordinates when the model returned none.
+import { POLineRow, LineEvidence } from "../types.ts";
+import { BoundingBox, FieldBox } from "./abhSchema.ts";
+
+export type TextItem = {
+  str: string;
+  bbox: BoundingBox;
+};
+
+export type PdfPageText = {
+  pageIndex: number;   // 0-based
+  text: string;        // item strings joined with spaces (what triage sees)
+  items: TextItem[];
+};
+
+type TextLine = {
+  page: number;
+  items: TextItem[];
+  tokens: Set<string>;
+  compact: string;
+  bbox: BoundingBox;
+};
+
+const MIN_LINE_SCORE = 2;
+
+function clamp01(n: number): number {
+  return Math.max(0, Math.min(1, n));
+}
+
+/**
+ * Accepts a model box (0..1, or 0..1000 as some models answer) and clamps it to the page.
+ */
+export function normalizeBox(b: any): BoundingBox | undefined {
+  if (!b || ![b.x, b.y, b.w, b.h].every(n => typeof n === "number" && Number.isFinite(n))) return undefined;
+  const scale = Math.max(b.x + b.w, b.y + b.h) > 1.5 ? 1000 : 1;
+  const x = clamp01(b.x / scale);
+  const y = clamp01(b.y / scale);
+  const w = clamp01(b.w / scale);
+  const h = clamp01(b.h / scale);
+  if (w <= 0 || h <= 0) return undefined;
+  return { x, y, w: Math.min(w, 1 - x), h: Math.min(h, 1 - y) };
+}
+
+export function unionBox(boxes: BoundingBox[]): BoundingBox {
+  const x0 = Math.min(...boxes.map(b => b.x));
+  const y0 = Math.min(...boxes.map(b => b.y));
+  const x1 = Math.max(...boxes.map(b => b.x + b.w));
+  const y1 = Math.max(...boxes.map(b => b.y + b.h));
+  return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+}
+
+// Models sometimes count pages within the segment instead of the file.
+function resolvePage(page: unknown, sourcePages?: number[]): number {
+  const pages = sourcePages && sourcePages.length ? sourcePages : [0];
+  if (typeof page !== "number" || !Number.isInteger(page)) return pages[0];
+  if (pages.includes(page)) return page;
+  return page >= 0 && page < pages.length ? pages[page] : pages[0];
+}
+
+/**
+ * Reads raw.page / raw.bbox / raw.field_boxes from a model line item.
+ */
+export function modelEvidence(raw: any, sourcePages?: number[]): LineEvidence | undefined {
+  const bbox = normalizeBox(raw?.bbox);
+  const fields: FieldBox[] = (Array.isArray(raw?.field_boxes) ? raw.field_boxes : [])
+    .map((f: any) => ({
+      field: String(f?.field ?? ""),
+      page: typeof f?.page === "number" ? resolvePage(f.page, sourcePages) : undefined,
+      bbox: normalizeBox(f?.bbox),
+    }))
+    .filter((f: any): f is FieldBox => !!f.field && !!f.bbox);
+
+  if (!bbox && fields.length === 0) return undefined;
+  return {
+    page: resolvePage(raw?.page, sourcePages),
+    bbox,
+    fields: fields.length ? fields : undefined,
+    source: "MODEL",
+  };
+}
+
+/**
+ * Maps a pdf.js text item to a normalized box. `transform` is the item's text matrix,
+ * `viewport` a scale-1 page viewport (its transform flips to top-left origin).
+ */
+export function textItemBox(
+  transform: number[],
+  width: number,
+  viewport: { width: number; height: number; transform: number[] }
+): BoundingBox {
+  const m = viewport.transform;
+  const t = transform;
+  const c = m[0] * t[2] + m[2] * t[3];
+  const d = m[1] * t[2] + m[3] * t[3];
+  const e = m[0] * t[4] + m[2] * t[5] + m[4];
+  const f = m[1] * t[4] + m[3] * t[5] + m[5];
+  const fontHeight = Math.hypot(c, d);
+  const scale = Math.hypot(m[0], m[1]);
+
+  return {
+    x: clamp01(e / viewport.width),
+    y: clamp01((f - fontHeight) / viewport.height),
+    w: clamp01((width * scale) / viewport.width),
+    h: clamp01(fontHeight / viewport.height),
+  };
+}
+
+function compact(s: string): string {
+  return s.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function tokenize(s: string): string[] {
+  return s.toUpperCase().match(/[A-Z0-9]+(?:[.\-\/][A-Z0-9]+)*/g) ?? [];
+}
+
+function groupLines(page: PdfPageText): TextLine[] {
+  const items = page.items
+    .filter(i => i.str.trim())
+    .sort((a, b) => a.bbox.y - b.bbox.y || a.bbox.x - b.bbox.x);
+
+  const groups: TextItem[][] = [];
+  for (const it of items) {
+    const last = groups[groups.length - 1];
+    const cy = it.bbox.y + it.bbox.h / 2;
+    const ref = last?.[0];
+    if (ref && Math.abs(ref.bbox.y + ref.bbox.h / 2 - cy) <= Math.max(ref.bbox.h, it.bbox.h) / 2) {
+      last.push(it);
+    } else {
+      groups.push([it]);
+    }
+  }
+
+  return groups.map(g => {
+    const sorted = g.sort((a, b) => a.bbox.x - b.bbox.x);
+    const text = sorted.map(i => i.str).join(" ");
+    return {
+      page: page.pageIndex,
+      items: sorted,
+      tokens: new Set(tokenize(text)),
+      compact: compact(text),
+      bbox: unionBox(sorted.map(i => i.bbox)),
+    };
+  });
+}
+
+function scoreLine(row: POLineRow, line: TextLine): number {
+  let score = 0;
+
+  const part = compact(row.customer_item_no ?? "");
+  if (part.length >= 3 && line.compact.includes(part)) score += 3;
+
+  const descTokens = Array.from(new Set(tokenize(row.customer_item_desc_raw ?? "").filter(t => t.length >= 3))).slice(0, 12);
+  if (descTokens.length) {
+    score += 2 * (descTokens.filter(t => line.tokens.has(t)).length / descTokens.length);
+  }
+
+  if (typeof row.qty === "number" && line.tokens.has(String(row.qty))) score += 0.5;
+  return score;
+}
+
+function fieldBoxesFor(row: POLineRow, line: TextLine): FieldBox[] {
+  const fields: FieldBox[] = [];
+  const part = compact(row.customer_item_no ?? "");
+  if (part.length >= 3) {
+    const hits = line.items.filter(i => {
+      const c = compact(i.str);
+      return c.length >= 3 && (c.includes(part) || part.includes(c));
+    });
+    if (hits.length) fields.push({ field: "customer_item_no", page: line.page, bbox: unionBox(hits.map(i => i.bbox)) });
+  }
+  if (typeof row.qty === "number") {
+    const hit = line.items.find(i => i.str.trim() === String(row.qty));
+    if (hit) fields.push({ field: "quantity", page: line.page, bbox: hit.bbox });
+  }
+  return fields;
+}
+
+/**
+ * Fills `evidence` for rows without a model box by locating their part number / description
+ * in the text layer of their source pages. Scanned pages (no text items) are left as they are.
+ */
+export function attachTextLayerEvidence(rows: POLineRow[], pages: PdfPageText[]): POLineRow[] {
+  const linesByPage = new Map(pages.map(p => [p.pageIndex, groupLines(p)]));
+  const used = new Set<TextLine>();
+
+  return rows.map(row => {
+    if (row.evidence?.bbox) return row;
+    if (!row.customer_item_no && !row.customer_item_desc_raw) return row;
+
+    const pageIndexes = (row.source_pages ?? []).filter(p => linesByPage.has(p));
+    const candidates = (pageIndexes.length ? pageIndexes : Array.from(linesByPage.keys()))
+      .flatMap(p => linesByPage.get(p) ?? []);
+
+    let best: TextLine | undefined;
+    let bestScore = 0;
+    for (const line of candidates) {
+      // Two rows rarely come from the same printed line; prefer unclaimed ones on ties.
+      const score = scoreLine(row, line) - (used.has(line) ? 0.25 : 0);
+      if (score >= MIN_LINE_SCORE && score > bestScore) {
+        best = line;
+        bestScore = score;
+      }
+    }
+    if (!best) return row;
+
+    used.add(best);
+    const fields = fieldBoxesFor(row, best);
+    return {
+      ...row,
+      evidence: {
+        page: best.page,
+        bbox: best.bbox,
+        fields: fields.length ? fields : row.evidence?.fields,
+        source: "TEXT_LAYER",
+      },
+    };
+  });
+}
@@ -5,6 +5,15 @@ import { ReferenceService } from "./referenceService.ts";
 import { applyPolicyRouting } from "./policyRouting.ts";
 import { ControlSurfacePolicy } from "../policy/controlSurfacePolicy.ts";
 import { makeDocId } from "./id.ts";
+import { schemaViolationsOf, violationsForLine, formatViolation, rowFieldForViolation } from "./abhValidation.ts";
+import { modelEvidence } from "./lineEvidence.ts";
+import { TabularLine, TabularPo } from "./spreadsheetPo.ts";
+import { Address, POExportV1 } from "./abhSchema.ts";
+import { formatAddress, isEmptyAddress, normalizeAddress } from "./addressNormalize.ts";
+import { CustomerLookup, resolveCustomerAccounts } from "./customerResolution.ts";
+import { PartCrossReference } from "../partCrossReference.schema.ts";
+import { applyCrossReference } from "./partCrossReference.ts";
+import { checkItemMaster } from "./itemMaster.ts";
 import {
   inferDocType,
   extractSignalsFromLineText,
@@ -14,47 +23,97 @@ import {
   fieldsNeedingReview
 } from "./edgeCases.ts";
 
+/**
+ * The doc_id and doc_type rows of a parsed document get: the model's document_id when it gave
+ * one, else a deterministic id from the file stem, type, pages and order number.
+ */
+export function parsedDocumentId(doc: POExportV1, sourceFileStem: string): { doc_id: string; doc_type: DocType } {
+  const doc_type = inferDocType(
+    doc.document?.document_type,
+    JSON.stringify({ ...doc, audit: undefined }).slice(0, 5000)
+  ) as DocType;
+  const page_start = doc.document?.page_start;
+  const page_end = doc.document?.page_end;
+  const modelDocId = doc.document?.document_id;
+  const doc_id =
+    (typeof modelDocId === "string" && modelDocId.trim())
+      ? modelDocId.trim()
+      : makeDocId({
+          sourceFileStem,
+          docType: doc_type,
+          pageStart: typeof page_start === "number" ? page_start : undefined,
+          pageEnd: typeof page_end === "number" ? page_end : undefined,
+          customerOrderNo: doc?.order?.customer_order_no,
+        });
+  return { doc_id, doc_type };
+}
+
 export function geminiResultToPOLineRows(args: {
   parsed: GeminiParsingResult;
   sourceFileStem: string;
   policy: ControlSurfacePolicy;
   refPack?: ReferencePack | null;
+  customers?: CustomerLookup;       // resolve customers / ship-tos against the customer master
+  crossReference?: PartCrossReference;   // reviewer-confirmed customer part -> ABH item
 }): POLineRow[] {
   const { parsed, sourceFileStem, policy, refPack } = args;
   const rows: POLineRow[] = [];
   const refService = refPack ? new ReferenceService(refPack) : null;
 
   for (const doc of parsed.documents ?? []) {
-    const doc_type = inferDocType(
-      (doc as any)?.document?.document_type,
-      JSON.stringify(doc).slice(0, 5000)
-    ) as DocType;
+    // Documents arrive validated (abhValidation), so required containers exist.
+    const { doc_id, doc_type } = parsedDocumentId(doc, sourceFileStem);
 
     // evidence from segmentation (if present)
-    const page_start = (doc as any)?.document?.page_start;
-    const page_end = (doc as any)?.document?.page_end;
-    const source_pages = (doc as any)?.document?.source_pages;
-
-    // Prefer model-provided document_id, else deterministic id
-    const modelDocId = (doc as any)?.document?.document_id;
-    const doc_id =
-      (typeof modelDocId === "string" && modelDocId.trim())
-        ? modelDocId.trim()
-        : makeDocId({
-            sourceFileStem,
-            docType: doc_type,
-            pageStart: typeof page_start === "number" ? page_start : undefined,
-            pageEnd: typeof page_end === "number" ? page_end : undefined,
-            customerOrderNo: doc?.order?.customer_order_no,
-          });
-
-    const customerName = doc?.parties?.customer?.name || "";
-
-    const reasonCodes = (doc as any)?.routing?.reason_codes;
+    const page_start = doc.document?.page_start;
+    const page_end = doc.document?.page_end;
+    const source_pages = doc.document?.source_pages;
+
+    const customerName = doc.parties?.customer?.name || "";
+    const addresses = doc.order?.addresses;
+    const billTo = documentAddress("Bill-to", addresses?.bill_to);
+    const shipTo = documentAddress("Ship-to", addresses?.ship_to);
+
+    const reasonCodes = doc.routing?.reason_codes;
     const docReason = Array.isArray(reasonCodes) ? reasonCodes.join(" | ") : "";
 
-    for (const li of doc.line_items ?? []) {
+    const docViolations = schemaViolationsOf(doc);
+    const docErrors = docViolations.filter(v => !v.coerced);
+    const parseFailed = Array.isArray(reasonCodes) && reasonCodes.includes("PARSING_ERROR");
+
+    // Segment that could not be parsed, or a document without lines whose own fields failed
+    // validation: emit one placeholder row so it is routed to REVIEW instead of vanishing.
+    if ((doc.line_items ?? []).length === 0 && (parseFailed || docErrors.length)) {
+      const message = parseFailed
+        ? doc.routing?.routing_notes || "Model output could not be parsed"
+        : `No line items; ${docErrors.map(formatViolation).join(", ")}`;
+      const reviewFields = docErrors.map(rowFieldForViolation).filter((f): f is string => !!f);
+      rows.push({
+        doc_id,
+        doc_type,
+        source_pages: Array.isArray(source_pages) ? source_pages : undefined,
+        page_start: typeof page_start === "number" ? page_start : undefined,
+        page_end: typeof page_end === "number" ? page_end : undefined,
+        customer_name: customerName,
+        line_no: rows.length + 1,
+        customer_item_desc_raw: "",
+        item_class: "UNKNOWN",
+        edge_case_flags: ["PARSING_ERROR"],
+        raw_edge_case_notes: message,
+        automation_lane: "REVIEW",
+        routing_reason: `PARSING_ERROR: ${message}`,
+        fields_requiring_review: uniq(["doc_type", "line_items", ...reviewFields]),
+        sage_import_ready: false,
+        sage_blockers: parseFailed ? [`PARSING_ERROR: ${message}`] : docErrors.map(formatViolation),
+      });
+      continue;
+    }
+
+    for (const [lineIndex, li] of (doc.line_items ?? []).entries()) {
       const p = li.parsed;
+      const lineViolations = violationsForLine(docViolations, lineIndex);
+      const schemaErrors = lineViolations.filter(v => !v.coerced);
+      const schemaCoercions = lineViolations.filter(v => v.coerced && v.path.startsWith("line_items["));
 
       // Basic computed prices
       const qty = p.quantity;
@@ -71,9 +130,13 @@ export function geminiResultToPOLineRows(args: {
         refService?.normalizeManufacturer(combinedText) ||
         (p.manufacturer ? refService?.normalizeManufacturer(p.manufacturer) : undefined);
 
-      const abh_item = mRef
-        ? `${mRef.abbr}-${p.customer_item_no ?? ""}`
-        : (p.abh_item_no || p.customer_item_no || "");
+      // With an item master only an ABH item printed on the document is proposed (checkItemMaster
+      // adds a customer part that is itself a SKU); a manufacturer-prefixed guess would be flagged.
+      const abh_item = refService?.hasItemMaster()
+        ? p.abh_item_no || ""
+        : mRef
+          ? `${mRef.abbr}-${p.customer_item_no ?? ""}`
+          : (p.abh_item_no || p.customer_item_no || "");
 
       // Signals from model flags + modifiers + raw text parsing
       const modelFlags: string[] = Array.isArray(li.flags) ? li.flags : [];
@@ -112,10 +175,20 @@ export function geminiResultToPOLineRows(args: {
         source_pages: Array.isArray(source_pages) ? source_pages : undefined,
         page_start: typeof page_start === "number" ? page_start : undefined,
         page_end: typeof page_end === "number" ? page_end : undefined,
+        evidence: modelEvidence(li.raw, Array.isArray(source_pages) ? source_pages : undefined),
         customer_name: customerName,
+        customer_account_id: doc.parties?.customer?.account_id || undefined,
         customer_order_no: doc?.order?.customer_order_no || "",
         document_date: doc?.order?.order_date || "",
         currency: doc?.order?.currency || "USD",
+        payment_terms: doc?.order?.payment_terms || undefined,
+        ship_to_name: addresses?.ship_to_name || shipTo.address?.name,
+        ship_to_address: shipTo.address,
+        ship_to_address_raw: formatAddress(shipTo.address),
+        bill_to_name: billTo.address?.name,
+        bill_to_address: billTo.address,
+        bill_to_address_raw: formatAddress(billTo.address),
+        mark_instructions: addresses?.mark_for,
 
         line_no: rows.length + 1,
 
@@ -130,10 +203,17 @@ export function geminiResultToPOLineRows(args: {
 
         abh_item_no_candidate: abh_item,
         manufacturer: p.manufacturer,
+        finish: typeof p.attributes?.finish === "string" && p.attributes.finish ? p.attributes.finish : undefined,
 
         item_class,
         edge_case_flags: allFlags,
-        raw_edge_case_notes: [...signals.notes, modifierText ? `Modifiers: ${modifierText}` : ""]
+        raw_edge_case_notes: [
+          ...signals.notes,
+          modifierText ? `Modifiers: ${modifierText}` : "",
+          ...billTo.notes,
+          ...shipTo.notes,
+          schemaCoercions.length ? `Coerced: ${schemaCoercions.map(v => v.path).join(", ")}` : "",
+        ]
           .filter(Boolean)
           .join(" | "),
 
@@ -142,7 +222,10 @@ export function geminiResultToPOLineRows(args: {
 
         automation_lane: "ASSIST",
         routing_reason: docReason || "Parsed",
-        fields_requiring_review: []
+        fields_requiring_review: [],
+
+        sage_import_ready: schemaErrors.length === 0 ? undefined : false,
+        sage_blockers: schemaErrors.length ? schemaErrors.map(formatViolation) : undefined,
       };
 
       // Field-level confidence + review fields
@@ -157,6 +240,12 @@ export function geminiResultToPOLineRows(args: {
       if (allFlags.includes("RGA_REFERENCE")) reviewFields.push("raw_edge_case_notes");
       if (allFlags.includes("SPECIAL_LAYOUT")) reviewFields.push("customer_item_desc_raw");
       if (allFlags.includes("CUSTOM_DIMENSION")) reviewFields.push("customer_item_desc_raw");
+      if (billTo.notes.length) reviewFields.push("bill_to_address_raw");
+      if (shipTo.notes.length) reviewFields.push("ship_to_address_raw");
+      for (const v of schemaErrors) {
+        const field = rowFieldForViolation(v);
+        if (field) reviewFields.push(field);
+      }
 
       row.fields_requiring_review = uniq(reviewFields);
 
@@ -165,7 +254,119 @@ export function geminiResultToPOLineRows(args: {
   }
 
   // Apply policy routing after enrichment
-  return applyPolicyRouting(rows, policy, { phase: "PHASE_1" });
+  const resolved = args.customers ? resolveCustomerAccounts(rows, args.customers) : rows;
+  const matched = args.crossReference ? applyCrossReference(resolved, args.crossReference) : resolved;
+  const checked = refService ? checkItemMaster(matched, refService) : matched;
+  return applyPolicyRouting(checked, policy, { phase: "PHASE_1" });
+}
+
+// Cell values are read verbatim; a saved mapping also rules out a wrong column guess.
+const TABULAR_CONFIDENCE_MAPPED = 0.98;
+const TABULAR_CONFIDENCE_DETECTED = 0.9;
+
+/**
+ * Rows of a spreadsheet / CSV purchase order read without the model. A PO column splits the
+ * sheet into one document per order number.
+ */
+export function tabularToPOLineRows(args: {
+  table: TabularPo;
+  sourceFileStem: string;
+  policy: ControlSurfacePolicy;
+  refPack?: ReferencePack | null;   // item master checks only; spreadsheet cells are not grounded
+  customers?: CustomerLookup;
+  crossReference?: PartCrossReference;
+}): POLineRow[] {
+  const { table, sourceFileStem, policy } = args;
+  const customerName = table.customer_name || "";
+  const confidence = table.mapping_id ? TABULAR_CONFIDENCE_MAPPED : TABULAR_CONFIDENCE_DETECTED;
+  const doc_type: DocType = "PURCHASE_ORDER";
+
+  const byOrder = new Map<string, TabularLine[]>();
+  for (const line of table.lines) {
+    const orderNo = line.customer_order_no || table.customer_order_no || "";
+    byOrder.set(orderNo, [...(byOrder.get(orderNo) ?? []), line]);
+  }
+
+  const rows: POLineRow[] = [];
+  for (const [orderNo, lines] of byOrder) {
+    const doc_id = makeDocId({ sourceFileStem, docType: doc_type, customerOrderNo: orderNo || undefined });
+    // The customer's own line numbers are kept when they identify the lines.
+    const customerLineNos = lines.map(l => l.line_no);
+    const keepLineNos = customerLineNos.every(n => n !== undefined) && new Set(customerLineNos).size === lines.length;
+
+    for (const [idx, line] of lines.entries()) {
+      const extended_price =
+        typeof line.extended_price === "number"
+          ? line.extended_price
+          : (typeof line.qty === "number" && typeof line.unit_price === "number" ? line.qty * line.unit_price : undefined);
+
+      const signals = extractSignalsFromLineText(line.description);
+      if (classifyZeroDollar(line.qty, line.unit_price, extended_price)) {
+        signals.flags.push("ZERO_DOLLAR");
+        signals.notes.push("Detected zero-dollar line item");
+        signals.is_zero_dollar = true;
+      }
+      const flags = uniq(signals.flags);
+
+      const row: POLineRow = {
+        doc_id,
+        doc_type,
+        customer_name: customerName,
+        customer_order_no: orderNo,
+        document_date: table.document_date || "",
+        currency: "USD",
+
+        line_no: keepLineNos ? line.line_no! : idx + 1,
+
+        customer_item_no: line.customer_item_no,
+        customer_item_desc_raw: line.description,
+
+        qty: line.qty,
+        uom: line.uom,
+
+        unit_price: line.unit_price,
+        extended_price,
+
+        // Against an item master the customer's part is only taken when it is itself a SKU (checkItemMaster)
+        abh_item_no_candidate: args.refPack?.items?.length ? undefined : line.customer_item_no,
+        manufacturer: line.manufacturer,
+
+        item_class: deriveItemClass("CATALOG", flags, !!signals.is_zero_dollar),
+        edge_case_flags: flags,
+        raw_edge_case_notes: [...signals.notes, `Sheet ${table.sheet} row ${line.row}`].join(" | "),
+
+        confidence_score: confidence,
+        match_score: confidence,
+
+        automation_lane: "ASSIST",
+        routing_reason: table.mapping_id ? `Spreadsheet (mapping ${table.mapping_id})` : "Spreadsheet",
+        fields_requiring_review: [],
+      };
+
+      const reviewFields = fieldsNeedingReview(computeFieldConfidence(row), 0.85);
+      if (flags.includes("RGA_REFERENCE")) reviewFields.push("raw_edge_case_notes");
+      if (flags.includes("SPECIAL_LAYOUT")) reviewFields.push("customer_item_desc_raw");
+      if (flags.includes("CUSTOM_DIMENSION")) reviewFields.push("customer_item_desc_raw");
+      row.fields_requiring_review = uniq(reviewFields);
+
+      rows.push(row);
+    }
+  }
+
+  const resolved = args.customers ? resolveCustomerAccounts(rows, args.customers) : rows;
+  const matched = args.crossReference ? applyCrossReference(resolved, args.crossReference) : resolved;
+  const checked = args.refPack ? checkItemMaster(matched, new ReferenceService(args.refPack)) : matched;
+  return applyPolicyRouting(checked, policy, { phase: "PHASE_1" });
+}
+
+/**
+ * Normalized bill-to / ship-to block; a block with only a name is kept as the name.
+ */
+function documentAddress(label: string, a?: Address): { address?: Address; notes: string[] } {
+  if (!a) return { notes: [] };
+  if (isEmptyAddress(a)) return { address: a.name?.trim() ? { name: a.name.trim() } : undefined, notes: [] };
+  const { address, warnings } = normalizeAddress(a);
+  return { address, notes: warnings.map(w => `${label}: ${w}`) };
 }
 
 function uniq(arr: string[]): string[] {
@@ -0,0 +1,132 @@
+// services/pageClassifier.ts
+// On-device naive Bayes page classifier (binarized multinomial over page words), trained
+// incrementally from page labels operators confirmed or corrected during segmentation review.
+import { PageLabel, PageClassification, MIN_TRIAGE_TEXT_CHARS, normalize } from "./pdfPacketTriage.ts";
+
+export type LabelStats = {
+  pages: number;
+  token_total: number;
+  tokens: Record<string, number>;   // pages containing the token
+};
+
+export type PageClassifierModel = {
+  kind: "multinomial_nb";
+  version: number;                  // incremented on every training batch
+  trained_at: string;               // ISO
+  labels: Partial<Record<PageLabel, LabelStats>>;
+};
+
+export type TrainingPage = {
+  text: string;
+  label: PageLabel;
+};
+
+const MIN_TRAINING_PAGES = 4;
+const MIN_TRAINED_LABELS = 2;
+const MAX_TOKENS_PER_LABEL = 3000;
+const TOP_FEATURES = 5;
+
+export function emptyPageClassifier(): PageClassifierModel {
+  return { kind: "multinomial_nb", version: 0, trained_at: "", labels: {} };
+}
+
+/**
+ * Distinct words (letters only, 2..24 chars); numbers are too document-specific to generalize.
+ */
+export function pageTokens(text: string): string[] {
+  const words = normalize(text).toUpperCase().match(/[A-Z][A-Z']{1,23}/g) ?? [];
+  return Array.from(new Set(words.map(w => w.replace(/'/g, ""))));
+}
+
+function prune(stats: LabelStats): LabelStats {
+  const entries = Object.entries(stats.tokens);
+  if (entries.length <= MAX_TOKENS_PER_LABEL) return stats;
+  const kept = entries.sort((a, b) => b[1] - a[1]).slice(0, MAX_TOKENS_PER_LABEL);
+  return { ...stats, tokens: Object.fromEntries(kept), token_total: kept.reduce((s, [, n]) => s + n, 0) };
+}
+
+export function trainPageClassifier(model: PageClassifierModel, pages: TrainingPage[]): PageClassifierModel {
+  const labels: Partial<Record<PageLabel, LabelStats>> = JSON.parse(JSON.stringify(model.labels));
+  let trained = 0;
+
+  for (const page of pages) {
+    if (normalize(page.text).length < MIN_TRIAGE_TEXT_CHARS) continue;
+    const stats = labels[page.label] ?? { pages: 0, token_total: 0, tokens: {} };
+    for (const t of pageTokens(page.text)) {
+      stats.tokens[t] = (stats.tokens[t] ?? 0) + 1;
+      stats.token_total++;
+    }
+    stats.pages++;
+    labels[page.label] = stats;
+    trained++;
+  }
+  if (trained === 0) return model;
+
+  for (const l of Object.keys(labels) as PageLabel[]) labels[l] = prune(labels[l]!);
+  return { kind: "multinomial_nb", version: model.version + 1, trained_at: new Date().toISOString(), labels };
+}
+
+export function trainingPageCount(model: PageClassifierModel): number {
+  return Object.values(model.labels).reduce((s, l) => s + (l?.pages ?? 0), 0);
+}
+
+export function isClassifierReady(model: PageClassifierModel): boolean {
+  const trained = Object.values(model.labels).filter(l => (l?.pages ?? 0) > 0).length;
+  return trained >= MIN_TRAINED_LABELS && trainingPageCount(model) >= MIN_TRAINING_PAGES;
+}
+
+/**
+ * Most likely label with its posterior and the words that pushed hardest toward it;
+ * null until enough pages of at least two labels have been seen.
+ */
+export function classifyPage(model: PageClassifierModel, text: string): PageClassification | null {
+  if (!isClassifierReady(model)) return null;
+  const tokens = pageTokens(text);
+  if (tokens.length === 0) return null;
+
+  const entries = (Object.entries(model.labels) as [PageLabel, LabelStats][]).filter(([, s]) => s.pages > 0);
+  const totalPages = entries.reduce((s, [, l]) => s + l.pages, 0);
+  const vocabulary = new Set(entries.flatMap(([, l]) => Object.keys(l.tokens))).size;
+
+  const logLikelihood = (stats: LabelStats, t: string) =>
+    Math.log(((stats.tokens[t] ?? 0) + 1) / (stats.token_total + vocabulary));
+
+  const logScores = entries.map(([label, stats]) => {
+    let score = Math.log((stats.pages + 1) / (totalPages + entries.length));
+    for (const t of tokens) score += logLikelihood(stats, t);
+    return { label, stats, score };
+  });
+
+  const max = Math.max(...logScores.map(s => s.score));
+  const norm = logScores.reduce((s, x) => s + Math.exp(x.score - max), 0);
+  const best = logScores.reduce((a, b) => (b.score > a.score ? b : a));
+  const others = logScores.filter(s => s !== best);
+
+  const features = tokens
+    .map(t => ({
+      t,
+      lift: logLikelihood(best.stats, t) - Math.max(...others.map(o => logLikelihood(o.stats, t))),
+    }))
+    .filter(f => f.lift > 0)
+    .sort((a, b) => b.lift - a.lift)
+    .slice(0, TOP_FEATURES)
+    .map(f => f.t);
+
+  return { label: best.label, probability: Math.exp(best.score - max) / norm, features };
+}
+
+/**
+ * Validates an imported weights file (as exported from another workstation).
+ */
+export function parsePageClassifier(json: unknown): PageClassifierModel {
+  const m = json as PageClassifierModel;
+  if (!m || m.kind !== "multinomial_nb" || typeof m.labels !== "object" || m.labels === null) {
+    throw new Error("Not a page classifier export (expected kind \"multinomial_nb\").");
+  }
+  for (const [label, stats] of Object.entries(m.labels)) {
+    if (!stats || typeof stats.pages !== "number" || typeof stats.tokens !== "object") {
+      throw new Error(`Invalid statistics for label ${label}.`);
+    }
+  }
+  return { kind: "multinomial_nb", version: Number(m.version) || 0, trained_at: String(m.trained_at ?? ""), labels: m.labels };
+}
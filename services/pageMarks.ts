@@ -0,0 +1,122 @@
+// services/pageMarks.ts
+// Pages that carry no document content: near-blank scans (duplex backs) and barcode separator sheets.
+import { PageMark, SeparatorSheet, MIN_TRIAGE_TEXT_CHARS, normalize } from "./pdfPacketTriage.ts";
+
+export type BarcodeHit = {
+  format: string;    // symbology as reported by the decoder, e.g. "qr_code", "code_128"
+  payload: string;   // decoded text
+};
+
+// Separator sheets may print their code in words as well; pages with more text are documents.
+export const SEPARATOR_MAX_TEXT_CHARS = 200;
+
+/**
+ * Which barcodes are separator sheets. Scans and faxes carry other codes too (QR codes on
+ * letterheads, carrier labels), so a barcode only counts in one of these symbologies and, when
+ * set, with a payload matching `payload_pattern` (case-insensitive).
+ */
+export type SeparatorSheetConfig = {
+  formats: string[];           // BarcodeDetector format names, e.g. "code_39", "code_128"
+  payload_pattern?: string;    // regex source
+};
+
+export const DEFAULT_SEPARATOR_SHEETS: SeparatorSheetConfig = {
+  formats: ["code_39", "code_128"],
+  payload_pattern: "^\\s*(SEP|SEPARATOR|DOCSEP)\\b|\\bBATCH\\s*[=:]",
+};
+
+// Fraction of (sampled) pixels that are ink; scanner speckle on an empty page stays well below this.
+const BLANK_MAX_INK = 0.001;
+const INK_LUMA = 160;
+const MARGIN = 0.04;        // scanner edges and punch holes
+const SAMPLE_STEP = 3;
+
+/**
+ * Share of dark pixels in an RGBA buffer, ignoring a thin margin. Transparent pixels count as paper.
+ */
+export function inkCoverage(rgba: ArrayLike<number>, width: number, height: number): number {
+  const x0 = Math.floor(width * MARGIN);
+  const x1 = Math.ceil(width * (1 - MARGIN));
+  const y0 = Math.floor(height * MARGIN);
+  const y1 = Math.ceil(height * (1 - MARGIN));
+  let sampled = 0;
+  let ink = 0;
+
+  for (let y = y0; y < y1; y += SAMPLE_STEP) {
+    for (let x = x0; x < x1; x += SAMPLE_STEP) {
+      const i = (y * width + x) * 4;
+      sampled++;
+      if (rgba[i + 3] < 128) continue;
+      const luma = 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+      if (luma < INK_LUMA) ink++;
+    }
+  }
+  return sampled ? ink / sampled : 0;
+}
+
+export function isBlankPage(text: string, ink: number | undefined): boolean {
+  return ink !== undefined && ink < BLANK_MAX_INK && normalize(text).length < MIN_TRIAGE_TEXT_CHARS;
+}
+
+/**
+ * Separator payloads are free-form; KEY=VALUE / KEY:VALUE pairs (`;`, `|`, `&` or newline separated),
+ * URL query strings and flat JSON objects are split into upper-cased fields such as CUSTOMER or BATCH.
+ */
+export function parseSeparatorPayload(hit: BarcodeHit): SeparatorSheet {
+  const fields: Record<string, string> = {};
+  const raw = hit.payload.trim();
+
+  try {
+    const json = JSON.parse(raw);
+    if (json && typeof json === "object" && !Array.isArray(json)) {
+      for (const [k, v] of Object.entries(json)) {
+        if (v !== null && typeof v !== "object") fields[k.toUpperCase()] = String(v);
+      }
+      return { format: hit.format, payload: raw, fields };
+    }
+  } catch {
+    // not JSON
+  }
+
+  const query = raw.includes("?") ? raw.slice(raw.indexOf("?") + 1) : raw;
+  for (const part of query.split(/[;|&\n]/)) {
+    const m = part.match(/^\s*([A-Za-z][\w.-]*)\s*[=:]\s*(.+?)\s*$/);
+    if (m) fields[m[1].toUpperCase()] = decodeURIComponentSafe(m[2]);
+  }
+  return { format: hit.format, payload: raw, fields };
+}
+
+function decodeURIComponentSafe(s: string): string {
+  try {
+    return decodeURIComponent(s.replace(/\+/g, " "));
+  } catch {
+    return s;
+  }
+}
+
+export function isSeparatorBarcode(hit: BarcodeHit, config: SeparatorSheetConfig = DEFAULT_SEPARATOR_SHEETS): boolean {
+  if (!hit.payload.trim()) return false;
+  if (!config.formats.some(f => f.toLowerCase() === hit.format.toLowerCase())) return false;
+  if (!config.payload_pattern) return true;
+  try {
+    return new RegExp(config.payload_pattern, "i").test(hit.payload);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * What triage should know about a rendered page; undefined for ordinary pages. `text` must be
+ * the OCR text for scans: a page with a matching barcode and real content is a document.
+ */
+export function pageMark(
+  text: string,
+  ink: number | undefined,
+  barcodes: BarcodeHit[],
+  config: SeparatorSheetConfig = DEFAULT_SEPARATOR_SHEETS
+): PageMark | undefined {
+  if (isBlankPage(text, ink)) return { blank: { ink: ink! } };
+  const code = barcodes.find(b => isSeparatorBarcode(b, config));
+  if (code && normalize(text).length <= SEPARATOR_MAX_TEXT_CHARS) return { separator: parseSeparatorPayload(code) };
+  return undefined;
+}
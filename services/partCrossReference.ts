@@ -0,0 +1,119 @@
+// services/partCrossReference.ts
+// Customer part number -> ABH item number per customer account, learned from reviewer edits of
+// abh_item_no_final, approved or exported matches and bulk imports; lookups back the
+// HISTORICAL_MATCH signal.
+import { POLineRow } from "../types.ts";
+import { Signal } from "./abhSchema.ts";
+import { CrossReferenceEntry, CrossReferenceSource, PartCrossReference } from "../partCrossReference.schema.ts";
+
+const BASE_WEIGHT = 0.8;
+const WEIGHT_PER_USE = 0.05;
+const MAX_WEIGHT = 0.99;
+
+// "ab-123 x" and "AB123X" are the same customer part.
+const itemKey = (s: string) => s.toUpperCase().replace(/[^A-Z0-9]/g, "");
+const accountKey = (s: string) => s.trim().toUpperCase();
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * The account a row's cross-references are kept under: the resolved account id, else the
+ * customer name as printed.
+ */
+export function crossReferenceAccount(row: POLineRow): string {
+  return accountKey(row.customer_account_id || row.customer_name || "");
+}
+
+export function lookupCrossReference(
+  xref: PartCrossReference,
+  account: string,
+  customerItemNo: string
+): CrossReferenceEntry | undefined {
+  const [a, item] = [accountKey(account), itemKey(customerItemNo)];
+  if (!a || !item) return undefined;
+  return xref.entries.find(e => accountKey(e.account_id) === a && itemKey(e.customer_item_no) === item);
+}
+
+/**
+ * Confirming the recorded ABH item adds a use; a different one replaces the entry (the latest
+ * correction wins) and starts counting again.
+ */
+export function recordCrossReference(
+  xref: PartCrossReference,
+  entry: { account_id: string; customer_item_no: string; abh_item_no: string; at?: string; uses?: number; source: CrossReferenceSource }
+): PartCrossReference {
+  const account = accountKey(entry.account_id);
+  const abh = entry.abh_item_no.trim();
+  if (!account || !itemKey(entry.customer_item_no) || !abh) return xref;
+
+  const at = entry.at ?? new Date().toISOString();
+  const existing = lookupCrossReference(xref, account, entry.customer_item_no);
+  const same = existing && existing.abh_item_no.toUpperCase() === abh.toUpperCase();
+  const next: CrossReferenceEntry = {
+    account_id: account,
+    customer_item_no: existing?.customer_item_no ?? entry.customer_item_no.trim(),
+    abh_item_no: same ? existing.abh_item_no : abh,
+    uses: (same ? existing.uses : 0) + (entry.uses ?? 1),
+    last_confirmed_at: same && existing.last_confirmed_at > at ? existing.last_confirmed_at : at,
+    source: entry.source,
+  };
+
+  return {
+    ...xref,
+    updated_at: new Date().toISOString(),
+    entries: existing ? xref.entries.map(e => (e === existing ? next : e)) : [...xref.entries, next],
+  };
+}
+
+/**
+ * Approving or exporting a row that carries a HISTORICAL_MATCH confirms the ABH item it went out
+ * with. Each row counts once (see cross_reference_confirmed_at); rejected rows never count.
+ */
+export function confirmCrossReferences(
+  xref: PartCrossReference,
+  rows: POLineRow[],
+  at = new Date().toISOString()
+): { xref: PartCrossReference; confirmed: POLineRow[] } {
+  const confirmed: POLineRow[] = [];
+  let next = xref;
+  for (const row of rows) {
+    if (row.cross_reference_confirmed_at || row.review_status === "REJECTED" || !hasHistoricalMatch(row)) continue;
+    const abh = row.abh_item_no_final || row.abh_item_no_candidate;
+    if (!row.customer_item_no || !abh) continue;
+    next = recordCrossReference(next, { account_id: crossReferenceAccount(row), customer_item_no: row.customer_item_no, abh_item_no: abh, at, source: "REVIEW" });
+    confirmed.push(row);
+  }
+  return { xref: next, confirmed };
+}
+
+/**
+ * Fills abh_item_no_candidate from the cross-reference and adds a HISTORICAL_MATCH signal
+ * (weight grows with the number of confirmations). Run after customer resolution, so rows are
+ * keyed by account where one was found.
+ */
+export function applyCrossReference(rows: POLineRow[], xref: PartCrossReference): POLineRow[] {
+  if (xref.entries.length === 0) return rows;
+  return rows.map(row => {
+    const hit = row.customer_item_no ? lookupCrossReference(xref, crossReferenceAccount(row), row.customer_item_no) : undefined;
+    if (!hit) return row;
+
+    const confirmed = hit.last_confirmed_at.slice(0, 10);
+    const signal: Signal = {
+      type: "HISTORICAL_MATCH",
+      weight: round2(Math.min(MAX_WEIGHT, BASE_WEIGHT + WEIGHT_PER_USE * hit.uses)),
+      detail: `${hit.customer_item_no} -> ${hit.abh_item_no}; ${hit.uses} use(s), last confirmed ${confirmed}`,
+    };
+    return {
+      ...row,
+      abh_item_no_candidate: hit.abh_item_no,
+      signals: [...(row.signals ?? []), signal],
+      raw_edge_case_notes: [
+        row.raw_edge_case_notes,
+        `Cross-reference ${hit.abh_item_no} (${hit.uses} use(s), last confirmed ${confirmed})`,
+      ].filter(Boolean).join(" | "),
+    };
+  });
+}
+
+export function hasHistoricalMatch(row: POLineRow): boolean {
+  return (row.signals ?? []).some(s => s.type === "HISTORICAL_MATCH");
+}
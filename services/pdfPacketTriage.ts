@@ -1,21 +1,6 @@
 
 // services/pdfPacketTriage.ts
-import * as pdfjsLib from "pdfjs-dist";
-
-// Using stable 4.x versioning for better ESM compatibility
-const PDFJS_VERSION = "4.10.38";
-const pdfjsWorker = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${PDFJS_VERSION}/build/pdf.worker.mjs`;
-
-function initWorker() {
-  if (typeof window !== "undefined") {
-    const options = (pdfjsLib as any).GlobalWorkerOptions || (pdfjsLib as any).default?.GlobalWorkerOptions;
-    if (options) {
-      options.workerSrc = pdfjsWorker;
-    }
-  }
-}
-
-initWorker();
+// Pure page classification + segmentation; text extraction lives with the PDF backends.
 
 export type PageLabel =
   | "PURCHASE_ORDER"
@@ -32,6 +17,24 @@ export type PageTriage = {
   label: PageLabel;
   score: number;             // 0..1
   reasons: string[];
+  scores?: Partial<Record<PageLabel, number>>;   // per label: summed rule weights, capped at 1 (+ negatives, model vote)
+  continuesFrom?: number;    // previous page index when detected as a continuation page
+  blank?: boolean;           // near-blank page; never part of a segment
+  separator?: SeparatorSheet;  // barcode separator sheet; a hard boundary, never part of a segment
+};
+
+export type SeparatorSheet = {
+  format: string;                  // barcode symbology
+  payload: string;                 // decoded text
+  fields: Record<string, string>;  // KEY=VALUE pairs found in the payload (CUSTOMER, BATCH, ...)
+};
+
+/**
+ * Facts about a page that only a render can tell (see pageMarks.ts).
+ */
+export type PageMark = {
+  blank?: { ink: number };         // fraction of dark pixels
+  separator?: SeparatorSheet;
 };
 
 export type DocSegment = {
@@ -41,96 +44,299 @@ export type DocSegment = {
   pageEnd: number;           // 0-based inclusive
   pages: number[];           // 0-based
   triage: PageTriage[];
+  separator?: SeparatorSheet;  // nearest separator sheet before the segment
 };
 
-function normalize(s: string): string {
+// Below this many characters a page counts as having no usable text (scanned / faxed).
+export const MIN_TRIAGE_TEXT_CHARS = 20;
+
+export function normalize(s: string): string {
   return (s || "").replace(/\s+/g, " ").trim();
 }
 
-function scorePage(textRaw: string): { label: PageLabel; score: number; reasons: string[] } {
-  const text = normalize(textRaw).toUpperCase();
-  const reasons: string[] = [];
+export type TriageRule = {
+  rule_id: string;                 // also the reason recorded on matching pages
+  enabled: boolean;
+  label: PageLabel;
+  pattern: string;                 // regex, case-insensitive, tested against normalized page text
+  weight: number;                  // matches add up per label (capped at 1); negative weights argue against it
+  fallback?: boolean;              // only counts when no non-fallback rule matched the page
+  negative_patterns?: string[];    // any match disables the rule for that page
+  customer_scope?: string[];       // only for these customers (context customer or name on the page)
+  description?: string;
+};
 
-  if (!text || text.length < 20) {
-    return { label: "UNKNOWN", score: 0.1, reasons: ["NO_TEXT_OR_TOO_SHORT"] };
-  }
+export type TriageRuleSet = {
+  version: string;                 // semver, bumped on save
+  updated_at: string;              // ISO
+  rules: TriageRule[];
+};
 
-  const has = (re: RegExp) => re.test(text);
+export type PageClassification = {
+  label: PageLabel;
+  probability: number;             // 0..1
+  features: string[];              // words that pushed hardest toward the label
+};
 
-  const PO = has(/\bPURCHASE\s+ORDER\b/) || has(/\bHUNTINGTON\s+HARDWARE\b/);
-  const INVOICE = has(/\bINVOICE\b/) && !has(/\bINVOICE\s+TO\b/);
-  const SO = has(/\bSALES\s+ORDER\b/);
-  const PICK = has(/\bPICKING\s+SHEET\b/);
-  const CM = has(/\bCREDIT\s+MEMO\b/);
-  const EMAIL = has(/\bFROM:\b/) && has(/\bSUBJECT:\b/);
+export type TriageContext = {
+  customer_name?: string;
+  classifier?: (text: string) => PageClassification | null;   // locally trained model, see pageClassifier.ts
+  marks?: Record<number, PageMark>;                             // by page index, from rendered pages
+  joinPagesWithoutText?: boolean;   // no OCR available: runs of text-less (scanned) pages stay one document
+};
 
-  const hasTotals = has(/\bSUBTOTAL\b/) || has(/\bTOTAL\b/) || has(/\bAMOUNT\b/);
-  const hasShipTo = has(/\bSHIP\s+TO\b/);
-  const hasBillTo = has(/\bBILL\s+TO\b/) || has(/\bSOLD\s+TO\b/);
+// The trained model adds at most this much to a label, so it breaks ties and rescues
+// header-less pages without overriding a strong rule match.
+const CLASSIFIER_WEIGHT = 0.5;
+const CLASSIFIER_MIN_PROBABILITY = 0.6;
 
-  if (EMAIL) {
-    reasons.push("EMAIL_HEADERS");
-    return { label: "EMAIL_COVER", score: 0.9, reasons };
-  }
-  if (CM) {
-    reasons.push("CREDIT_MEMO_HEADER");
-    return { label: "CREDIT_MEMO", score: 0.95, reasons };
+// Mirrors the original hard-coded header checks: the header weights give the original order (email,
+// credit memo, PO, ... picking sheet) when a page carries one header, and the totals + address block
+// is a fallback that only counts on pages with no header at all.
+export const DEFAULT_TRIAGE_RULES: TriageRuleSet = {
+  version: "1.0.0",
+  updated_at: "1970-01-01T00:00:00.000Z",
+  rules: [
+    { rule_id: "EMAIL_HEADERS", enabled: true, label: "EMAIL_COVER", pattern: "^(?=.*\\bFROM:)(?=.*\\bSUBJECT:)", weight: 0.99 },
+    { rule_id: "CREDIT_MEMO_HEADER", enabled: true, label: "CREDIT_MEMO", pattern: "\\bCREDIT\\s+MEMO\\b", weight: 0.97 },
+    { rule_id: "PURCHASE_ORDER_HEADER", enabled: true, label: "PURCHASE_ORDER", pattern: "\\bPURCHASE\\s+ORDER\\b", weight: 0.95 },
+    {
+      rule_id: "HUNTINGTON_HARDWARE_PO",
+      enabled: true,
+      label: "PURCHASE_ORDER",
+      pattern: "\\bHUNTINGTON\\s+HARDWARE\\b",
+      weight: 0.95,
+      description: "Huntington Hardware PO form (no PURCHASE ORDER banner)",
+    },
+    { rule_id: "SALES_ORDER_HEADER", enabled: true, label: "SALES_ORDER", pattern: "\\bSALES\\s+ORDER\\b", weight: 0.9 },
+    {
+      rule_id: "INVOICE_HEADER",
+      enabled: true,
+      label: "INVOICE",
+      pattern: "\\bINVOICE\\b",
+      weight: 0.89,
+      negative_patterns: ["\\bINVOICE\\s+TO\\b"],
+    },
+    { rule_id: "PICKING_SHEET_HEADER", enabled: true, label: "PICKING_SHEET", pattern: "\\bPICKING\\s+SHEET\\b", weight: 0.88 },
+    {
+      rule_id: "TOTALS_PLUS_ADDRESS_BLOCK",
+      enabled: true,
+      label: "INVOICE",
+      pattern: "^(?=.*\\b(?:SUBTOTAL|TOTAL|AMOUNT)\\b)(?=.*\\b(?:SHIP\\s+TO|BILL\\s+TO|SOLD\\s+TO)\\b)",
+      weight: 0.6,
+      fallback: true,
+    },
+  ],
+};
+
+const DEFAULT_FALLBACK_RULE_IDS = new Set(DEFAULT_TRIAGE_RULES.rules.filter(r => r.fallback).map(r => r.rule_id));
+
+// Rule sets saved before `fallback` existed keep the stock fallback rule in that role.
+export function isFallbackRule(r: TriageRule): boolean {
+  return r.fallback ?? DEFAULT_FALLBACK_RULE_IDS.has(r.rule_id);
+}
+
+type CompiledRule = TriageRule & { re: RegExp; negatives: RegExp[] };
+
+export type RuleCompileError = { rule_id: string; error: string };
+
+/**
+ * Compiles enabled rules; rules with invalid regexes are skipped and reported.
+ */
+export function compileTriageRules(ruleSet: TriageRuleSet): { rules: CompiledRule[]; errors: RuleCompileError[] } {
+  const rules: CompiledRule[] = [];
+  const errors: RuleCompileError[] = [];
+  for (const r of ruleSet.rules) {
+    if (!r.enabled) continue;
+    try {
+      rules.push({
+        ...r,
+        fallback: isFallbackRule(r),
+        re: new RegExp(r.pattern, "i"),
+        negatives: (r.negative_patterns ?? []).map(n => new RegExp(n, "i")),
+      });
+    } catch (e: any) {
+      errors.push({ rule_id: r.rule_id, error: e?.message || String(e) });
+    }
   }
-  if (PO) {
-    reasons.push("PURCHASE_ORDER_HEADER");
-    return { label: "PURCHASE_ORDER", score: 0.95, reasons };
+  return { rules, errors };
+}
+
+function inScope(rule: TriageRule, text: string, ctx: TriageContext): boolean {
+  const scope = (rule.customer_scope ?? []).map(c => normalize(c).toUpperCase()).filter(Boolean);
+  if (scope.length === 0) return true;
+  const customer = normalize(ctx.customer_name ?? "").toUpperCase();
+  return scope.some(c => (customer && customer.includes(c)) || text.includes(c));
+}
+
+function scorePage(
+  textRaw: string,
+  rules: CompiledRule[],
+  ctx: TriageContext
+): { label: PageLabel; score: number; reasons: string[]; scores: Partial<Record<PageLabel, number>> } {
+  const text = normalize(textRaw).toUpperCase();
+
+  if (!text || text.length < MIN_TRIAGE_TEXT_CHARS) {
+    return { label: "UNKNOWN", score: 0.1, reasons: ["NO_TEXT_OR_TOO_SHORT"], scores: {} };
   }
-  if (SO) {
-    reasons.push("SALES_ORDER_HEADER");
-    return { label: "SALES_ORDER", score: 0.9, reasons };
+
+  // A label sums its matching rules' weights. The positive sum is capped at 1, so piling up rules
+  // cannot push a label past certainty, and negative weights are subtracted after the cap.
+  // Fallback rules only count when no other rule matched.
+  const matched = rules.filter(r => r.re.test(text) && !r.negatives.some(n => n.test(text)) && inScope(r, text, ctx));
+  const hits = matched.some(r => !r.fallback && r.weight > 0) ? matched.filter(r => !r.fallback) : matched;
+  const support: Partial<Record<PageLabel, number>> = {};
+  const against: Partial<Record<PageLabel, number>> = {};
+  for (const r of hits) {
+    if (r.weight >= 0) support[r.label] = (support[r.label] ?? 0) + r.weight;
+    else against[r.label] = (against[r.label] ?? 0) + r.weight;
   }
-  if (INVOICE) {
-    reasons.push("INVOICE_HEADER");
-    return { label: "INVOICE", score: 0.9, reasons };
+  const scores: Partial<Record<PageLabel, number>> = {};
+  for (const label of new Set([...Object.keys(support), ...Object.keys(against)]) as Set<PageLabel>) {
+    scores[label] = Math.min(1, support[label] ?? 0) + (against[label] ?? 0);
   }
-  if (PICK) {
-    reasons.push("PICKING_SHEET_HEADER");
-    return { label: "PICKING_SHEET", score: 0.9, reasons };
+
+  const modelReasons: string[] = [];
+  const prediction = ctx.classifier?.(textRaw);
+  if (prediction) {
+    modelReasons.push(`MODEL:${prediction.label}=${prediction.probability.toFixed(2)}`);
+    if (prediction.features.length) modelReasons.push(`MODEL_FEATURES:${prediction.features.join("|")}`);
+    if (prediction.probability >= CLASSIFIER_MIN_PROBABILITY) {
+      scores[prediction.label] = (scores[prediction.label] ?? 0) + CLASSIFIER_WEIGHT * prediction.probability;
+    }
   }
 
-  if (hasTotals && (hasShipTo || hasBillTo)) {
-    reasons.push("TOTALS_PLUS_ADDRESS_BLOCK");
-    return { label: "INVOICE", score: 0.6, reasons };
+  let best: PageLabel | null = null;
+  for (const [label, total] of Object.entries(scores) as [PageLabel, number][]) {
+    if (total > 0 && (best === null || total > scores[best]!)) best = label;
   }
+  if (!best) {
+    return { label: "UNKNOWN", score: 0.2, reasons: ["NO_STRONG_HEADER_MATCH", ...modelReasons], scores };
+  }
+
+  const reasons = hits.filter(r => r.label === best).map(r => r.rule_id);
+  const runnerUp = (Object.entries(scores) as [PageLabel, number][])
+    .filter(([l]) => l !== best)
+    .sort((a, b) => b[1] - a[1])[0];
+  if (runnerUp && runnerUp[1] > 0) reasons.push(`ALSO_${runnerUp[0]}:${runnerUp[1].toFixed(2)}`);
+  reasons.push(...modelReasons);
+
+  return { label: best, score: Math.min(0.99, scores[best]!), reasons, scores };
+}
+
+// Pages whose own classification is this weak may be re-labelled as a continuation.
+const CONTINUATION_MAX_OWN_SCORE = 0.7;
 
-  return { label: "UNKNOWN", score: 0.2, reasons: ["NO_STRONG_HEADER_MATCH"] };
+const PAGE_X_OF_Y = /\bPAGE\s+(\d{1,3})\s*(?:OF|\/)\s*(\d{1,3})\b/;
+const DOC_NUMBER = /\b(?:P\.?\s?O\.?|PURCHASE\s+ORDER|SALES\s+ORDER|ORDER|INVOICE|CREDIT\s+MEMO)\s*(?:NO\.?|NUMBER|#)?\s*[:#.]?\s*([A-Z]*\d[A-Z0-9-]{3,})\b/g;
+const LINE_NUMBER = /\bLINE\s*#?\s*(\d{1,4})\b/g;
+const CARRIED_FORWARD = /\b(?:CARRIED|BROUGHT)\s+FORWARD\b|\bCONTINUED\s+FROM\b|\bCONT(?:INUED|'D)\b/;
+const CONTINUED_ON_NEXT = /\bCONTINUED\s+(?:ON\s+)?(?:NEXT|FOLLOWING)\s+PAGE\b/;
+
+function docNumbers(text: string): string[] {
+  return Array.from(text.matchAll(DOC_NUMBER), m => m[1]);
+}
+
+function lineNumbers(text: string): number[] {
+  return Array.from(text.matchAll(LINE_NUMBER), m => Number(m[1]));
 }
 
-export async function extractPdfPageText(fileData: Uint8Array): Promise<string[]> {
-  initWorker();
-  const getDoc = pdfjsLib.getDocument || (pdfjsLib as any).default?.getDocument;
-  const loadingTask = getDoc({ data: fileData.slice(), verbosity: 0 });
-  const pdf = await loadingTask.promise;
-  const texts: string[] = [];
-
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const content = await page.getTextContent();
-    const strings = (content.items || [])
-      .map((it: any) => (it.str ? String(it.str) : ""))
-      .filter(Boolean);
-    texts.push(strings.join(" "));
+/**
+ * Reasons for treating `text` as the next page of the document made of `chain` (its pages so far);
+ * empty when it looks like a new document.
+ */
+function continuationReasons(chain: PageTriage[], text: string): string[] {
+  const prev = normalize(chain[chain.length - 1].text).toUpperCase();
+  const cur = normalize(text).toUpperCase();
+  const reasons: string[] = [];
+
+  const pageOf = cur.match(PAGE_X_OF_Y);
+  if (pageOf && Number(pageOf[1]) === 1) return [];   // explicit first page of a new document
+  if (pageOf && Number(pageOf[1]) > 1 && Number(pageOf[1]) <= Number(pageOf[2])) {
+    reasons.push(`CONTINUATION_PAGE_${pageOf[1]}_OF_${pageOf[2]}`);
   }
 
-  return texts;
+  const repeated = chain.flatMap(p => docNumbers(normalize(p.text).toUpperCase())).find(n => new RegExp(`\\b${n.replace(/[-]/g, "\\-")}\\b`).test(cur));
+  if (repeated) reasons.push(`CONTINUATION_REPEATED_DOC_NO:${repeated}`);
+
+  const prevLines = lineNumbers(prev);
+  const curLines = lineNumbers(cur);
+  if (prevLines.length && curLines.length && Math.min(...curLines) === Math.max(...prevLines) + 1) {
+    reasons.push(`CONTINUATION_LINE_SEQUENCE:${Math.min(...curLines)}`);
+  }
+
+  if (CARRIED_FORWARD.test(cur)) reasons.push("CONTINUATION_CARRIED_FORWARD");
+  if (CONTINUED_ON_NEXT.test(prev)) reasons.push("CONTINUATION_ANNOUNCED_ON_PREVIOUS_PAGE");
+
+  return reasons;
 }
 
-export function triagePages(pageTexts: string[]): PageTriage[] {
-  return pageTexts.map((t, idx) => {
-    const scored = scorePage(t);
-    return {
+export function triagePages(
+  pageTexts: string[],
+  ruleSet: TriageRuleSet = DEFAULT_TRIAGE_RULES,
+  ctx: TriageContext = {}
+): PageTriage[] {
+  const { rules } = compileTriageRules(ruleSet);
+  const pages: PageTriage[] = [];
+
+  for (const [idx, t] of pageTexts.entries()) {
+    const mark = ctx.marks?.[idx];
+    if (mark?.blank) {
+      pages.push({
+        pageIndex: idx,
+        text: t,
+        label: "UNKNOWN",
+        score: 1,
+        reasons: [`BLANK_PAGE:ink=${(mark.blank.ink * 100).toFixed(2)}%`],
+        blank: true,
+      });
+      continue;
+    }
+    if (mark?.separator) {
+      pages.push({
+        pageIndex: idx,
+        text: t,
+        label: "UNKNOWN",
+        score: 1,
+        reasons: [`SEPARATOR_SHEET:${mark.separator.format.toUpperCase()}`, `SEPARATOR_PAYLOAD:${mark.separator.payload}`],
+        separator: mark.separator,
+      });
+      continue;
+    }
+
+    const scored = scorePage(t, rules, ctx);
+    const page: PageTriage = {
       pageIndex: idx,
       text: t,
       label: scored.label,
       score: scored.score,
       reasons: scored.reasons,
+      scores: scored.scores,
     };
-  });
+
+    // A weakly classified page that continues the previous document joins it.
+    // Blank duplex backs in between are looked through; a separator (UNKNOWN) never continues.
+    let prevIdx = idx - 1;
+    while (prevIdx >= 0 && pages[prevIdx].blank) prevIdx--;
+    const prev = pages[prevIdx];
+    const textless = (s: string) => normalize(s).length < MIN_TRIAGE_TEXT_CHARS;
+    if (ctx.joinPagesWithoutText && prev && !prev.separator && textless(prev.text) && textless(t)) {
+      page.reasons = [`NO_TEXT_JOINED_TO_PAGE_${prev.pageIndex + 1}`, ...page.reasons];
+      page.continuesFrom = prev.pageIndex;
+    } else if (prev && prev.label !== "UNKNOWN" && prev.label !== "EMAIL_COVER" && page.score < CONTINUATION_MAX_OWN_SCORE) {
+      const chain = [prev];
+      while (chain[0].continuesFrom !== undefined) chain.unshift(pages[chain[0].continuesFrom]);
+      const joins = continuationReasons(chain, t);
+      if (joins.length) {
+        page.reasons = [...joins, `JOINED_TO_PAGE_${prev.pageIndex + 1}:${prev.label}`, ...page.reasons];
+        page.label = prev.label;
+        page.score = Math.min(0.9, 0.6 + 0.1 * joins.length);
+        page.continuesFrom = prev.pageIndex;
+      }
+    }
+    pages.push(page);
+  }
+  return pages;
 }
 
 export function buildSegments(triage: PageTriage[]): DocSegment[] {
@@ -142,12 +348,24 @@ export function buildSegments(triage: PageTriage[]): DocSegment[] {
     current = null;
   };
 
+  let separator: SeparatorSheet | undefined;
+
   for (const p of triage) {
+    if (p.blank) continue;
+    if (p.separator) {
+      push();
+      separator = p.separator;
+      continue;
+    }
+
+    const continues = !!current && p.continuesFrom === current.pageEnd;
     const shouldSplit =
       !current ||
-      p.label !== current.label ||
-      p.label === "UNKNOWN" ||
-      current.label === "UNKNOWN";
+      (!continues && (
+        p.label !== current.label ||
+        p.label === "UNKNOWN" ||
+        current.label === "UNKNOWN"
+      ));
 
     if (shouldSplit) {
       push();
@@ -158,6 +376,7 @@ export function buildSegments(triage: PageTriage[]): DocSegment[] {
         pageEnd: p.pageIndex,
         pages: [p.pageIndex],
         triage: [p],
+        ...(separator ? { separator } : {}),
       };
     } else {
       current.pageEnd = p.pageIndex;
@@ -169,3 +388,96 @@ export function buildSegments(triage: PageTriage[]): DocSegment[] {
   push();
   return segs;
 }
+
+/**
+ * Operator-editable view of a packet: one entry per page. Segments are the runs between
+ * `startsSegment` pages, minus excluded pages.
+ */
+export type PagePlan = {
+  pageIndex: number;
+  label: PageLabel;
+  excluded: boolean;
+  startsSegment: boolean;
+};
+
+export type SegmentationAudit = {
+  auto_segments: { label: PageLabel; pages: number[] }[];
+  final_segments: { label: PageLabel; pages: number[] }[];
+  excluded_pages: number[];
+  relabeled_pages: { page: number; from: PageLabel; to: PageLabel }[];
+  changed: boolean;
+};
+
+export function planFromSegments(triage: PageTriage[], segments: DocSegment[]): PagePlan[] {
+  const labelByPage = new Map<number, PageLabel>();
+  for (const s of segments) for (const p of s.triage) labelByPage.set(p.pageIndex, p.label);
+  const starts = new Set(segments.map(s => s.pages[0]));
+
+  return triage.map((p, i) => ({
+    pageIndex: p.pageIndex,
+    label: labelByPage.get(p.pageIndex) ?? p.label,
+    excluded: !labelByPage.has(p.pageIndex),
+    startsSegment: i === 0 || starts.has(p.pageIndex),
+  }));
+}
+
+function separatorBefore(triage: PageTriage[], pageIndex: number): SeparatorSheet | undefined {
+  return triage.filter(p => p.separator && p.pageIndex < pageIndex).pop()?.separator;
+}
+
+export function segmentsFromPlan(triage: PageTriage[], plan: PagePlan[]): DocSegment[] {
+  const byPage = new Map(triage.map(p => [p.pageIndex, p]));
+  const groups: PagePlan[][] = [];
+  for (const p of plan) {
+    if (p.startsSegment || groups.length === 0) groups.push([]);
+    groups[groups.length - 1].push(p);
+  }
+
+  const segs: DocSegment[] = [];
+  for (const group of groups) {
+    const kept = group.filter(p => !p.excluded);
+    if (kept.length === 0) continue;
+
+    const pageTriage = kept.map(p => {
+      const t = byPage.get(p.pageIndex)!;
+      return p.label === t.label
+        ? t
+        : { ...t, label: p.label, score: 1, reasons: [...t.reasons, `RELABELED_BY_OPERATOR:${t.label}`] };
+    });
+    const label = kept.find(p => p.label !== "UNKNOWN")?.label ?? "UNKNOWN";
+    const separator = separatorBefore(triage, kept[0].pageIndex);
+    segs.push({
+      segmentId: `seg-${kept[0].pageIndex}-${label}`,
+      label,
+      pageStart: kept[0].pageIndex,
+      pageEnd: kept[kept.length - 1].pageIndex,
+      pages: kept.map(p => p.pageIndex),
+      triage: pageTriage,
+      ...(separator ? { separator } : {}),
+    });
+  }
+  return segs;
+}
+
+/**
+ * Summary of what the operator changed, recorded on each resulting document's audit trail.
+ */
+export function segmentationAudit(triage: PageTriage[], auto: DocSegment[], final: DocSegment[]): SegmentationAudit {
+  const shape = (segs: DocSegment[]) => segs.map(s => ({ label: s.label, pages: [...s.pages] }));
+  const included = new Set(final.flatMap(s => s.pages));
+  const finalLabel = new Map(final.flatMap(s => s.triage.map(p => [p.pageIndex, p.label] as const)));
+
+  const relabeled = triage
+    .filter(p => finalLabel.has(p.pageIndex) && finalLabel.get(p.pageIndex) !== p.label)
+    .map(p => ({ page: p.pageIndex, from: p.label, to: finalLabel.get(p.pageIndex)! }));
+
+  const autoShape = shape(auto);
+  const finalShape = shape(final);
+  return {
+    auto_segments: autoShape,
+    final_segments: finalShape,
+    excluded_pages: triage.map(p => p.pageIndex).filter(i => !included.has(i)),
+    relabeled_pages: relabeled,
+    changed: relabeled.length > 0 || JSON.stringify(autoShape) !== JSON.stringify(finalShape),
+  };
+}
@@ -1,6 +1,9 @@
 
 // services/pdfRender.ts
 import * as pdfjsLib from "pdfjs-dist";
+import { PdfBackend, RenderedPage } from "./pipeline.ts";
+import { PdfPageText, textItemBox } from "./lineEvidence.ts";
+import { inkCoverage } from "./pageMarks.ts";
 
 const PDFJS_VERSION = "4.10.38";
 const pdfjsWorker = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${PDFJS_VERSION}/build/pdf.worker.mjs`;
@@ -16,12 +19,6 @@ function initWorker() {
 
 initWorker();
 
-export type RenderedPage = {
-  pageIndex: number;
-  base64: string;
-  mimeType: string;
-};
-
 /**
  * Renders specific pages of a PDF to base64 PNG strings.
  */
@@ -60,11 +57,13 @@ export async function renderPdfPagesToPngBase64(
       await page.render(renderContext).promise;
       
       const base64 = canvas.toDataURL("image/png").split(",")[1];
+      const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
       
       results.push({
         pageIndex: idx,
         base64,
         mimeType: "image/png",
+        ink: inkCoverage(pixels.data, pixels.width, pixels.height),
       });
     } catch (err) {
       console.error(`Error rendering page ${idx + 1}:`, err);
@@ -73,3 +72,31 @@ export async function renderPdfPagesToPngBase64(
 
   return results;
 }
+
+/**
+ * Extracts the text layer of every page: joined text plus each item's normalized box.
+ */
+export async function extractPdfPageText(fileData: Uint8Array): Promise<PdfPageText[]> {
+  initWorker();
+  const getDoc = pdfjsLib.getDocument || (pdfjsLib as any).default?.getDocument;
+  const loadingTask = getDoc({ data: fileData.slice(), verbosity: 0 });
+  const pdf = await loadingTask.promise;
+  const pages: PdfPageText[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+    const items = (content.items || [])
+      .filter((it: any) => it.str)
+      .map((it: any) => ({ str: String(it.str), bbox: textItemBox(it.transform, it.width, viewport) }));
+    pages.push({ pageIndex: i - 1, text: items.map(it => it.str).join(" "), items });
+  }
+
+  return pages;
+}
+
+export const browserPdfBackend: PdfBackend = {
+  extractPageText: extractPdfPageText,
+  renderPages: renderPdfPagesToPngBase64,
+};
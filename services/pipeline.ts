@@ -0,0 +1,632 @@
+// services/pipeline.ts
+// UI-free processing core shared by the React app and the CLI:
+// triage -> segmentation -> render -> parse -> map -> enrich -> policy routing -> export.
+import { GeminiParsingResult, POLineRow } from "../types.ts";
+import { ReferencePack } from "../referencePack.schema.ts";
+import { CustomerMaster } from "../customerMaster.schema.ts";
+import { PartCrossReference } from "../partCrossReference.schema.ts";
+import { ControlSurfacePolicy } from "../policy/controlSurfacePolicy.ts";
+import { ExtractionProvider } from "./extractionProviders.ts";
+import { parseDocument, parsePacketSegment } from "./geminiService.ts";
+import { geminiResultToPOLineRows, parsedDocumentId, tabularToPOLineRows } from "./mappingService.ts";
+import { ReferenceService } from "./referenceService.ts";
+import { enrichAndValidate } from "./enrichAndValidate.ts";
+import { buildPOExportsV1 } from "./jsonExport.ts";
+import { POExportV1, AuditEvent } from "./abhSchema.ts";
+import {
+  triagePages,
+  buildSegments,
+  segmentationAudit,
+  normalize,
+  MIN_TRIAGE_TEXT_CHARS,
+  DocSegment,
+  PageMark,
+  PageTriage,
+  SegmentationAudit,
+} from "./pdfPacketTriage.ts";
+import { BarcodeHit, DEFAULT_SEPARATOR_SHEETS, SEPARATOR_MAX_TEXT_CHARS, isBlankPage, pageMark } from "./pageMarks.ts";
+import { PdfPageText, attachTextLayerEvidence } from "./lineEvidence.ts";
+import { PageClassifierModel, classifyPage } from "./pageClassifier.ts";
+import { EmailAttachment, isEmailFile, parseEmail } from "./emailIngest.ts";
+import { isZipFile, readZipEntries } from "./zipArchive.ts";
+import { isTiffFile, renderTiffPages, tiffPageCount } from "./tiffPages.ts";
+import {
+  SPREADSHEET_MIME_BY_EXTENSION,
+  TabularPo,
+  isSpreadsheetFile,
+  readSpreadsheetPo,
+  selectColumnMapping,
+  spreadsheetToCsv,
+} from "./spreadsheetPo.ts";
+import { ColumnMappingSet } from "../extraction/extractionSettings.ts";
+import { X12_MIME_TYPE, isX12File } from "./x12.ts";
+import { EDI_850_EVENT, Edi850Order, edi850ToPOExport, readEdi850s } from "./ediTransactions.ts";
+import { REFERENCE_GROUNDING_EVENT } from "./referenceVocabulary.ts";
+import { SCHEMA_VALIDATION_EVENT } from "./abhValidation.ts";
+
+export const APP_VERSION = "2.5.0";
+export const VENDOR_NAME = "ABH Manufacturing";
+
+export type RenderedPage = {
+  pageIndex: number;
+  base64: string;
+  mimeType: string;
+  ink?: number;        // fraction of dark pixels, when the backend can read the canvas back
+};
+
+/**
+ * PDF access differs per runtime (browser canvas vs. Node); the pipeline only needs these two calls.
+ */
+export interface PdfBackend {
+  extractPageText(data: Uint8Array): Promise<PdfPageText[]>;
+  renderPages(data: Uint8Array, pageIndexes: number[], scale: number): Promise<RenderedPage[]>;
+}
+
+export type PipelineFile = {
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+};
+
+export type PageRenderer = (pageIndexes: number[], scale: number) => Promise<RenderedPage[]>;
+
+export type PipelineOptions = {
+  policy: ControlSurfacePolicy;
+  referencePack?: ReferencePack;
+  customerMaster?: CustomerMaster;                      // account / ship-to resolution; none skips it
+  crossReference?: PartCrossReference;                  // customer part -> ABH item history (HISTORICAL_MATCH)
+  provider: ExtractionProvider;
+  pdf: PdfBackend;
+  ocrImage?: (file: PipelineFile) => Promise<string>;   // optional OCR hint for image uploads
+  ocrPage?: (page: RenderedPage) => Promise<string>;    // optional OCR for PDF/TIFF pages without a text layer; without it, runs of such pages are one document
+  decodeBarcodes?: (page: RenderedPage) => Promise<BarcodeHit[]>;   // optional; finds separator sheets
+  pageClassifier?: PageClassifierModel;                 // locally trained triage model (shared via export)
+  columnMappings?: ColumnMappingSet;                    // saved per-customer spreadsheet layouts
+  // Optional operator step between triage and parsing; resolves to the segments to parse.
+  reviewSegments?: (review: {
+    file: PipelineFile;
+    triage: PageTriage[];
+    segments: DocSegment[];
+    renderPages: PageRenderer;   // page images of this file (PDF or TIFF), e.g. for thumbnails
+  }) => Promise<DocSegment[]>;
+  onStatus?: (status: string) => void;
+  onProgress?: (fraction: number) => void;              // 0..1 within the current file
+};
+
+// The cover email a document arrived in; its body is the packet's EMAIL_COVER and is not parsed.
+export type EmailSource = {
+  filename: string;          // the .eml / .msg file
+  attachment: string;        // attachment the document came from
+  from: string;
+  from_address?: string;
+  subject: string;
+  date?: string;
+  message_id?: string;
+  body_excerpt: string;
+};
+
+export type ParsedSegment = {
+  sourceFileStem: string;
+  segment?: DocSegment;              // undefined for single-image uploads
+  pageImages: RenderedPage[];        // what the model saw (rendered PDF pages or the uploaded image)
+  textLayer?: PdfPageText[];         // the segment's PDF text items, for locating lines the model did not box
+  segmentation?: SegmentationAudit;  // set when the operator reviewed the packet's segmentation
+  blankPages?: number[];             // near-blank pages of the packet that were dropped
+  email?: EmailSource;               // set when the file was an email attachment
+  archivePath?: string;              // e.g. "orders.zip/east/PO-1.pdf" when the file came out of an archive
+  tabular?: TabularPo;               // spreadsheet read without the model; its rows come from here
+  edi?: Edi850Order;                 // X12 850 transaction set the document was mapped from
+  result: GeminiParsingResult;       // empty for tabular segments
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  eml: "message/rfc822",
+  msg: "application/vnd.ms-outlook",
+  zip: "application/zip",
+  edi: X12_MIME_TYPE,
+  x12: X12_MIME_TYPE,
+  ...SPREADSHEET_MIME_BY_EXTENSION,
+};
+
+export function fileStem(name: string): string {
+  return name.replace(/\.[^/.]+$/, "");
+}
+
+export function mimeTypeForFilename(name: string): string | undefined {
+  const ext = name.split(".").pop()?.toLowerCase() ?? "";
+  return MIME_BY_EXTENSION[ext];
+}
+
+export function uint8ToBase64(data: Uint8Array): string {
+  let binary = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < data.length; i += chunk) {
+    binary += String.fromCharCode(...data.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+function attachmentMimeType(att: EmailAttachment): string | undefined {
+  const declared = att.mimeType.toLowerCase();
+  if (declared === "application/pdf" || declared.startsWith("image/") || declared === "message/rfc822" || declared === X12_MIME_TYPE) {
+    return declared;
+  }
+  // Mail clients label CSV files application/vnd.ms-excel; the extension is more reliable.
+  return mimeTypeForFilename(att.filename)
+    ?? (Object.values(SPREADSHEET_MIME_BY_EXTENSION).includes(declared) ? declared : undefined);
+}
+
+const EMAIL_BODY_HINT_CHARS = 1000;
+// Archives and emails inside archives and emails; deeper nesting is treated as a zip bomb.
+const MAX_CONTAINER_DEPTH = 4;
+
+function emailHintFor(email: EmailSource): string {
+  return [
+    "EMAIL_COVER (this document was attached to the email below; use the sender to identify the customer when the document does not):",
+    `FROM: ${email.from}`,
+    `SUBJECT: ${email.subject}`,
+    email.date ? `DATE: ${email.date}` : "",
+    `BODY: ${normalize(email.body_excerpt).slice(0, EMAIL_BODY_HINT_CHARS)}`,
+  ].filter(Boolean).join("\n");
+}
+
+// Customer-scoped triage rules match on this: the sender's display name plus the mail domain.
+function emailCustomerHint(email: EmailSource): string {
+  const domain = email.from_address?.split("@")[1]?.replace(/\.[a-z]+$/i, "") ?? "";
+  return `${email.from} ${domain.replace(/[-_.]/g, " ")}`.trim();
+}
+
+const RENDER_SCALE = 2.0;
+const OCR_HINT_CHARS_PER_PAGE = 1500;
+const OCR_REASON = "TEXT_FROM_OCR";
+
+function triageHintFor(seg: DocSegment): string {
+  const lines = seg.triage.map(p => {
+    const line = `PAGE ${p.pageIndex + 1}: ${p.label} (${p.score.toFixed(2)}) ${p.reasons.join(", ")}`;
+    // The model sees the raster anyway; OCR text helps it with faint fax scans.
+    return p.reasons.includes(OCR_REASON)
+      ? `${line}\nPAGE ${p.pageIndex + 1} OCR TEXT: ${normalize(p.text).slice(0, OCR_HINT_CHARS_PER_PAGE)}`
+      : line;
+  });
+  // Separator payloads often name the customer or batch.
+  if (seg.separator) lines.unshift(`SEPARATOR SHEET BEFORE THIS DOCUMENT: ${seg.separator.payload}`);
+  return lines.join("\n");
+}
+
+/**
+ * Runs extraction for one file. PDFs are triaged into segments and each segment is parsed
+ * separately (EMAIL_COVER segments are skipped); emails are opened and each attachment is
+ * processed on its own; spreadsheets with a recognisable line table and X12 850s are read without
+ * the model; anything else is sent as a single document.
+ */
+export async function parseFile(file: PipelineFile, opts: PipelineOptions): Promise<ParsedSegment[]> {
+  return parseAnyFile(file, opts);
+}
+
+async function parseAnyFile(file: PipelineFile, opts: PipelineOptions, email?: EmailSource, depth = 0): Promise<ParsedSegment[]> {
+  if ((isEmailFile(file) || isZipFile(file)) && depth >= MAX_CONTAINER_DEPTH) {
+    throw new Error(`${file.name} is nested more than ${MAX_CONTAINER_DEPTH} archives or emails deep.`);
+  }
+  if (isEmailFile(file)) return parseEmailFile(file, opts, depth);
+  if (isZipFile(file)) return parseArchiveFile(file, opts, email, depth);
+  if (isX12File(file)) return parseEdiFile(file, opts);
+  return parseSourceFile(file, opts, email);
+}
+
+/**
+ * One segment per X12 850 transaction set, mapped without the model.
+ */
+function parseEdiFile(file: PipelineFile, opts: PipelineOptions): ParsedSegment[] {
+  (opts.onStatus ?? (() => {}))(`Reading EDI: ${file.name}...`);
+  const stem = fileStem(file.name);
+  const orders = readEdi850s(file);
+  if (orders.length === 0) throw new Error(`No X12 850 purchase orders in ${file.name}.`);
+
+  return orders.map(order => ({
+    sourceFileStem: orders.length > 1 ? `${stem}_${order.transaction_control_no}` : stem,
+    pageImages: [],
+    edi: order,
+    result: { documents: [edi850ToPOExport(order)] },
+  }));
+}
+
+/**
+ * Every supported member (archives and emails included) is processed as its own file.
+ */
+async function parseArchiveFile(file: PipelineFile, opts: PipelineOptions, email: EmailSource | undefined, depth: number): Promise<ParsedSegment[]> {
+  (opts.onStatus ?? (() => {}))(`Expanding archive: ${file.name}...`);
+  const stem = fileStem(file.name);
+  const members = (await readZipEntries(file.data))
+    .map(e => ({ entry: e, mimeType: mimeTypeForFilename(e.path) }))
+    .filter((m): m is { entry: { path: string; data: Uint8Array }; mimeType: string } => !!m.mimeType);
+  if (members.length === 0) throw new Error(`No PDF, image, spreadsheet, EDI, email or archive files in ${file.name}.`);
+
+  const out: ParsedSegment[] = [];
+  for (const { entry, mimeType } of members) {
+    const segments = await parseAnyFile({ name: entry.path, mimeType, data: entry.data }, opts, email, depth + 1);
+    out.push(...segments.map(s => ({
+      ...s,
+      sourceFileStem: `${stem}_${s.sourceFileStem.replace(/[\\/]+/g, "_")}`,
+      archivePath: `${file.name}/${s.archivePath ?? entry.path}`,
+    })));
+  }
+  return out;
+}
+
+async function parseEmailFile(file: PipelineFile, opts: PipelineOptions, depth: number): Promise<ParsedSegment[]> {
+  (opts.onStatus ?? (() => {}))(`Reading email: ${file.name}...`);
+  const email = parseEmail(file);
+  const stem = fileStem(file.name);
+
+  const attachments = email.attachments
+    .filter(a => !a.inline)
+    .map(a => ({ att: a, mimeType: attachmentMimeType(a) }))
+    .filter((a): a is { att: EmailAttachment; mimeType: string } => !!a.mimeType);
+  if (attachments.length === 0) {
+    throw new Error(`No PDF, image, spreadsheet or EDI attachments in ${file.name} (${email.attachments.length} attachment(s) skipped).`);
+  }
+
+  const out: ParsedSegment[] = [];
+  for (const { att, mimeType } of attachments) {
+    const source: EmailSource = {
+      filename: file.name,
+      attachment: att.filename,
+      from: email.from,
+      from_address: email.from_address,
+      subject: email.subject,
+      date: email.date,
+      message_id: email.message_id,
+      body_excerpt: email.body_text.slice(0, EMAIL_BODY_HINT_CHARS),
+    };
+    const attachmentFile = { name: att.filename, mimeType, data: att.data };
+    const segments = await parseAnyFile(attachmentFile, opts, source, depth + 1);
+    out.push(...segments.map(s => ({ ...s, sourceFileStem: `${stem}_${s.sourceFileStem}`, email: s.email ?? source })));
+  }
+  return out;
+}
+
+async function parseSourceFile(file: PipelineFile, opts: PipelineOptions, email?: EmailSource): Promise<ParsedSegment[]> {
+  const stem = fileStem(file.name);
+  const status = opts.onStatus ?? (() => {});
+  const progress = opts.onProgress ?? (() => {});
+  const out: ParsedSegment[] = [];
+
+  const tiff = isTiffFile(file);
+  if (file.mimeType === "application/pdf" || tiff) {
+    status(`Analyzing Document Packet: ${file.name}...`);
+    progress(0.1);
+
+    // TIFF pages have no text layer; like scanned PDF pages they are OCR'd for triage.
+    const renderPages: PageRenderer = tiff
+      ? (pageIndexes) => renderTiffPages(file.data, pageIndexes)
+      : (pageIndexes, scale) => opts.pdf.renderPages(file.data.slice(), pageIndexes, scale);
+    const pageTexts: PdfPageText[] = tiff
+      ? Array.from({ length: tiffPageCount(file.data) }, (_, i) => ({ pageIndex: i, text: "", items: [] }))
+      : await opts.pdf.extractPageText(file.data.slice());
+    const rasters = new Map<number, RenderedPage>();
+    const ocrPages = new Set<number>();
+
+    const marks: Record<number, PageMark> = {};
+
+    // Sparse pages are rendered up front (the raster is reused for parsing): blank backs and
+    // separator sheets are recognised from the pixels, scans get OCR text for triage.
+    const sparseLimit = opts.decodeBarcodes ? SEPARATOR_MAX_TEXT_CHARS : MIN_TRIAGE_TEXT_CHARS;
+    const sparse = pageTexts.filter(p => normalize(p.text).length < sparseLimit).map(p => p.pageIndex);
+    if (sparse.length) {
+      status(`Inspecting ${sparse.length} sparse page(s): ${file.name}...`);
+      for (const r of await renderPages(sparse, RENDER_SCALE)) {
+        rasters.set(r.pageIndex, r);
+        if (isBlankPage(pageTexts[r.pageIndex].text, r.ink)) {
+          marks[r.pageIndex] = { blank: { ink: r.ink! } };
+          continue;
+        }
+
+        // OCR first: a scanned page's text layer is empty, and a barcode on a page with content
+        // (a letterhead QR code, a carrier label) does not make it a separator sheet.
+        if (opts.ocrPage && normalize(pageTexts[r.pageIndex].text).length < MIN_TRIAGE_TEXT_CHARS) {
+          try {
+            const ocrText = await opts.ocrPage(r);
+            if (normalize(ocrText)) {
+              pageTexts[r.pageIndex] = { ...pageTexts[r.pageIndex], text: ocrText };
+              ocrPages.add(r.pageIndex);
+            }
+          } catch (ocrErr) {
+            console.warn(`OCR failed for page ${r.pageIndex + 1}`, ocrErr);
+          }
+        }
+
+        let barcodes: BarcodeHit[] = [];
+        if (opts.decodeBarcodes) {
+          try {
+            barcodes = await opts.decodeBarcodes(r);
+          } catch (barcodeErr) {
+            console.warn(`Barcode decoding failed for page ${r.pageIndex + 1}`, barcodeErr);
+          }
+        }
+        const mark = pageMark(pageTexts[r.pageIndex].text, r.ink, barcodes, opts.policy.separator_sheets ?? DEFAULT_SEPARATOR_SHEETS);
+        if (mark?.separator) status(`Separator sheet on page ${r.pageIndex + 1} of ${file.name}: ${mark.separator.payload}`);
+        if (mark) marks[r.pageIndex] = mark;
+      }
+    }
+
+    const classifier = opts.pageClassifier;
+    const triage = triagePages(pageTexts.map(p => p.text), opts.policy.triage_rules, {
+      customer_name: email ? emailCustomerHint(email) : undefined,
+      classifier: classifier ? (text) => classifyPage(classifier, text) : undefined,
+      marks,
+      joinPagesWithoutText: !opts.ocrPage,
+    });
+    const blankPages = triage.filter(p => p.blank).map(p => p.pageIndex);
+    for (const p of triage) {
+      if (ocrPages.has(p.pageIndex)) p.reasons = [OCR_REASON, ...p.reasons];
+    }
+    let segments = buildSegments(triage).filter(s => s.label !== "UNKNOWN" || (s.pageEnd - s.pageStart) >= 0);
+    let segmentation: SegmentationAudit | undefined;
+
+    if (opts.reviewSegments) {
+      status(`Waiting for segmentation review: ${file.name}...`);
+      const reviewed = await opts.reviewSegments({ file, triage, segments, renderPages });
+      segmentation = segmentationAudit(triage, segments, reviewed);
+      segments = reviewed;
+    }
+
+    status(`Found ${segments.length} documents in ${file.name}...`);
+
+    for (let sIdx = 0; sIdx < segments.length; sIdx++) {
+      const seg = segments[sIdx];
+      if (seg.label === "EMAIL_COVER") continue;
+
+      status(`Processing ${seg.label} (Part ${sIdx + 1}/${segments.length})...`);
+      progress(0.2 + 0.8 * ((sIdx + 1) / segments.length));
+
+      const missing = seg.pages.filter(p => !rasters.has(p));
+      if (missing.length) {
+        for (const r of await renderPages(missing, RENDER_SCALE)) rasters.set(r.pageIndex, r);
+      }
+      const rendered = seg.pages.map(p => rasters.get(p)).filter((r): r is RenderedPage => !!r);
+      const parts = rendered.map(r => ({ base64: r.base64, mimeType: r.mimeType }));
+
+      const result = await parsePacketSegment(
+        parts,
+        {
+          segmentLabelHint: seg.label,
+          sourcePages: seg.pages,
+          pageStart: seg.pageStart,
+          pageEnd: seg.pageEnd,
+          packetFilename: file.name,
+          triageTextHint: email ? `${triageHintFor(seg)}\n${emailHintFor(email)}` : triageHintFor(seg),
+        },
+        opts.referencePack,
+        status,
+        opts.provider
+      );
+      out.push({
+        sourceFileStem: `${stem}_doc${sIdx + 1}`,
+        segment: seg,
+        pageImages: rendered,
+        textLayer: pageTexts.filter(p => seg.pages.includes(p.pageIndex)),
+        segmentation,
+        blankPages: blankPages.length ? blankPages : undefined,
+        result,
+      });
+    }
+    return out;
+  }
+
+  if (isSpreadsheetFile(file)) {
+    status(`Reading spreadsheet: ${file.name}...`);
+    progress(0.3);
+    const mapping = selectColumnMapping(opts.columnMappings, [file.name, email?.from_address ?? "", email?.filename ?? ""]);
+    const table = readSpreadsheetPo(file, mapping);
+    if (table) {
+      const tabular = { ...table, customer_name: table.customer_name || email?.from };
+      out.push({ sourceFileStem: stem, pageImages: [], tabular, result: { documents: [] } });
+      return out;
+    }
+
+    // No recognisable line table (free-form layout): the model reads it as CSV text.
+    status(`AI Extracting spreadsheet: ${file.name}...`);
+    progress(0.5);
+    const csv = spreadsheetToCsv(file);
+    const result = await parseDocument(
+      uint8ToBase64(new TextEncoder().encode(csv)),
+      "text/csv",
+      email ? emailHintFor(email) : "",
+      opts.referencePack,
+      (s) => status(`${file.name}: ${s}`),
+      undefined,
+      opts.provider,
+      file.name
+    );
+    out.push({ sourceFileStem: stem, pageImages: [], result });
+    return out;
+  }
+
+  let ocrTextHint = "";
+  if (file.mimeType.startsWith("image/") && opts.ocrImage) {
+    status(`Running OCR: ${file.name}...`);
+    progress(0.2);
+    try {
+      ocrTextHint = await opts.ocrImage(file);
+    } catch (ocrErr) {
+      console.warn("OCR Hint failed", ocrErr);
+    }
+  }
+
+  status(`AI Extracting: ${file.name}...`);
+  progress(0.5);
+
+  const base64 = uint8ToBase64(file.data);
+  const result = await parseDocument(
+    base64,
+    file.mimeType,
+    email ? `${ocrTextHint}\n${emailHintFor(email)}` : ocrTextHint,
+    opts.referencePack,
+    (s) => status(`${file.name}: ${s}`),
+    undefined,
+    opts.provider,
+    file.name
+  );
+  out.push({ sourceFileStem: stem, pageImages: [{ pageIndex: 0, base64, mimeType: file.mimeType }], result });
+  return out;
+}
+
+/**
+ * Maps parsed segments to control-surface rows. Customer resolution, the part cross-reference and
+ * policy routing run inside the mapping (resolution only when the customer master has accounts);
+ * reference grounding only when the pack has manufacturers to ground against, and never into a
+ * laxer lane than the policy chose.
+ */
+export function segmentsToRows(
+  segments: ParsedSegment[],
+  policy: ControlSurfacePolicy,
+  referencePack?: ReferencePack,
+  customerMaster?: CustomerMaster,
+  crossReference?: PartCrossReference
+): POLineRow[] {
+  const refService = referencePack && referencePack.manufacturers.length > 0 ? new ReferenceService(referencePack) : null;
+  let rows: POLineRow[] = [];
+
+  for (const seg of segments) {
+    const customers = customerMaster?.accounts.length
+      ? { master: customerMaster, from_address: seg.email?.from_address }
+      : undefined;
+    let mapped = seg.tabular
+      ? tabularToPOLineRows({
+          table: seg.tabular,
+          sourceFileStem: seg.sourceFileStem,
+          policy,
+          refPack: referencePack,
+          customers,
+          crossReference,
+        })
+      : geminiResultToPOLineRows({
+          parsed: seg.result,
+          sourceFileStem: seg.sourceFileStem,
+          policy,
+          refPack: referencePack,
+          customers,
+          crossReference,
+        });
+    if (seg.textLayer?.length) {
+      mapped = attachTextLayerEvidence(mapped, seg.textLayer);
+    }
+    if (seg.archivePath) {
+      mapped = mapped.map(r => ({ ...r, archive_path: seg.archivePath }));
+    }
+    if (refService && referencePack) {
+      mapped = enrichAndValidate(mapped, refService, referencePack.version);
+    }
+    rows = [...rows, ...mapped];
+  }
+  return rows;
+}
+
+/**
+ * Audit trail entries a parsed segment contributes to one of its documents.
+ */
+export function documentAuditEvents(seg: ParsedSegment, docId: string, filename: string, at: string): AuditEvent[] {
+  const events: AuditEvent[] = [];
+  if (seg.email) {
+    events.push({ at, event_type: "EMAIL_RECEIVED", actor: "SYSTEM", details: { doc_id: docId, ...seg.email } });
+  }
+  if (seg.segmentation) {
+    events.push({
+      at,
+      event_type: "SEGMENTATION_REVIEWED",
+      actor: "HUMAN",
+      details: { doc_id: docId, filename, source_pages: seg.segment?.pages, ...seg.segmentation },
+    });
+  }
+  if (seg.blankPages) {
+    events.push({ at, event_type: "BLANK_PAGES_DROPPED", actor: "SYSTEM", details: { doc_id: docId, filename, blank_pages: seg.blankPages } });
+  }
+  if (seg.segment?.separator) {
+    events.push({ at, event_type: "SEPARATOR_SHEET", actor: "SYSTEM", details: { doc_id: docId, filename, ...seg.segment.separator } });
+  }
+  if (seg.tabular) {
+    const { lines, headers, ...table } = seg.tabular;
+    events.push({ at, event_type: "TABULAR_IMPORT", actor: "SYSTEM", details: { doc_id: docId, filename, ...table, line_count: lines.length } });
+  }
+  // Same vocabulary for every document of a model call; the first document's event stands for all.
+  const grounding = seg.result.documents.flatMap(d => d.audit?.events ?? []).find(e => e.event_type === REFERENCE_GROUNDING_EVENT);
+  if (grounding) {
+    events.push({ at, event_type: REFERENCE_GROUNDING_EVENT, actor: "SYSTEM", details: { doc_id: docId, filename, ...grounding.details } });
+  }
+  // Validation findings and parse failures of the model documents that became this document.
+  for (const doc of seg.result.documents) {
+    if (parsedDocumentId(doc, seg.sourceFileStem).doc_id !== docId) continue;
+    for (const e of doc.audit?.events ?? []) {
+      if (e.event_type !== SCHEMA_VALIDATION_EVENT && e.event_type !== "PARSING_ERROR") continue;
+      events.push({ ...e, details: { doc_id: docId, filename, ...e.details } });
+    }
+  }
+  if (seg.edi) {
+    // The whole 850, envelope included: the 855 / 810 are built from this event.
+    events.push({ at, event_type: EDI_850_EVENT, actor: "SYSTEM", details: { doc_id: docId, ...seg.edi } });
+  }
+  return events;
+}
+
+// Where each document of a file came from, e.g. for keeping its page images with the work queue.
+export type ProcessedDocument = {
+  doc_id: string;
+  source_pages?: number[];
+  page_images: RenderedPage[];
+};
+
+export type ProcessedFile = {
+  rows: POLineRow[];
+  auditEvents: AuditEvent[];
+  documents: ProcessedDocument[];
+  processedAt: string;   // ISO; the `at` of the file's audit events
+};
+
+export async function processFile(file: PipelineFile, opts: PipelineOptions): Promise<ProcessedFile> {
+  const segments = await parseFile(file, opts);
+  const at = new Date().toISOString();
+  const rows: POLineRow[] = [];
+  const auditEvents: AuditEvent[] = [];
+  const documents: ProcessedDocument[] = [];
+
+  for (const seg of segments) {
+    const mapped = segmentsToRows([seg], opts.policy, opts.referencePack, opts.customerMaster, opts.crossReference);
+    for (const docId of new Set(mapped.map(r => r.doc_id))) {
+      auditEvents.push(...documentAuditEvents(seg, docId, file.name, at));
+      documents.push({ doc_id: docId, source_pages: seg.segment?.pages, page_images: seg.pageImages });
+    }
+    rows.push(...mapped);
+  }
+  return { rows, auditEvents, documents, processedAt: at };
+}
+
+export function exportThresholds(policy: ControlSurfacePolicy) {
+  return {
+    auto_stage_min: policy.defaults.phase_min_confidence_auto.PHASE_1,
+    review_min: policy.defaults.phase_min_confidence_auto.PHASE_1 - 0.15,
+  };
+}
+
+export function buildExportsForRows(
+  rows: POLineRow[],
+  policy: ControlSurfacePolicy,
+  auditEvents: AuditEvent[] = []
+): POExportV1[] {
+  return buildPOExportsV1({
+    rows,
+    appVersion: APP_VERSION,
+    runMode: "PRODUCTION",
+    environment: "PROD",
+    vendorName: VENDOR_NAME,
+    thresholds: exportThresholds(policy),
+    auditEvents,
+  });
+}
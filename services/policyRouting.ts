@@ -67,6 +67,17 @@ export function applyPolicyRouting(rows: POLineRow[], policy: ControlSurfacePoli
       };
     }
 
+    // Placeholder for an unparseable segment: always a human REVIEW, never auto-routed
+    if (row.edge_case_flags.includes("PARSING_ERROR")) {
+      return {
+        ...row,
+        automation_lane: "REVIEW",
+        policy_version_applied: policy.meta.version,
+        policy_rule_ids_applied: ["DEFAULT:PARSING_ERROR"],
+        sage_import_ready: false,
+      };
+    }
+
     let lane = row.automation_lane; // start from whatever extraction did
     let reason = row.routing_reason ?? "";
     const applied: string[] = [];
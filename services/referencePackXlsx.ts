@@ -1,6 +1,6 @@
 // services/referencePackXlsx.ts
 import * as XLSX from "xlsx";
-import { ReferencePack } from "../referencePack.schema.ts";
+import { ItemMasterRef, ItemStatus, ManufacturerRef, ReferencePack } from "../referencePack.schema.ts";
 
 const SHEETS = {
   MANUFACTURERS: "Manufacturers",
@@ -8,7 +8,8 @@ const SHEETS = {
   CATEGORIES: "Categories",
   ELECTRIFIED: "ElectrifiedDevices",
   WIRING: "WiringConfigs",
-  SETS: "HardwareSets"
+  SETS: "HardwareSets",
+  ITEMS: "Items"
 };
 
 /**
@@ -20,7 +21,8 @@ const SHEET_ALIASES: Record<string, string[]> = {
   [SHEETS.CATEGORIES]: ["category", "categories", "cat", "cats", "mapping", "hardware types"],
   [SHEETS.ELECTRIFIED]: ["electrified", "electrifieddevice", "electrifieddevices", "devices", "device", "power", "elec"],
   [SHEETS.WIRING]: ["wiring", "wiringconfig", "wiringconfigs", "wiring_configs", "cables", "wiring logic"],
-  [SHEETS.SETS]: ["set", "sets", "hardwaresets", "templates", "template", "hardware_sets", "hw sets"]
+  [SHEETS.SETS]: ["set", "sets", "hardwaresets", "templates", "template", "hardware_sets", "hw sets"],
+  [SHEETS.ITEMS]: ["item", "items", "item master", "itemmaster", "item_master", "sku", "skus", "catalog", "products", "price list", "pricelist"]
 };
 
 /**
@@ -55,29 +57,116 @@ function csvToList(s?: any): string[] {
   return String(s).split(/[,;]/).map(x => x.trim()).filter(Boolean);
 }
 
+const normalizeHeader = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Picks the header matching one of the target names. Exact matches win over partial ones
+ * (e.g. "Manufacturer Name" matching target "manufacturer"); `exclude` skips headers already
+ * claimed by another field.
+ */
+export function matchColumn(
+  headers: string[],
+  targetKeys: string[],
+  opts: { exclude?: string[]; exactOnly?: boolean } = {}
+): string | undefined {
+  const normalizedTargets = targetKeys.map(normalizeHeader);
+  const candidates = headers.filter(h => normalizeHeader(h) && !(opts.exclude ?? []).includes(h));
+
+  // 1. Exact match (e.g., "mfr" === "mfr")
+  const exact = candidates.find(h => normalizedTargets.includes(normalizeHeader(h)));
+  if (exact !== undefined || opts.exactOnly) return exact;
+
+  // 2. Partial match (e.g., "manufacturername" contains "manufacturer")
+  return candidates.find(h => {
+    const normalizedK = normalizeHeader(h);
+    return normalizedTargets.some(t => normalizedK.includes(t) || t.includes(normalizedK));
+  });
+}
+
 /**
  * Robustly matches an object property based on a list of potential names.
- * Improved to handle partial matches like "Manufacturer Name" matching target "manufacturer".
  */
-function getVal(obj: any, targetKeys: string[]): any {
+export function getVal(obj: any, targetKeys: string[]): any {
   if (!obj) return undefined;
-  const objKeys = Object.keys(obj);
-  const normalizedTargets = targetKeys.map(n => n.toLowerCase().replace(/[^a-z0-9]/g, ''));
-  
-  for (const k of objKeys) {
-    const normalizedK = k.toLowerCase().replace(/[^a-z0-9]/g, '');
-    
-    // 1. Exact match (e.g., "mfr" === "mfr")
-    if (normalizedTargets.includes(normalizedK)) {
-      return obj[k];
-    }
-    
-    // 2. Partial match (e.g., "manufacturername" contains "manufacturer")
-    if (normalizedTargets.some(t => normalizedK.includes(t) || t.includes(normalizedK))) {
-      return obj[k];
+  const k = matchColumn(Object.keys(obj), targetKeys);
+  return k === undefined ? undefined : obj[k];
+}
+
+type ItemField = keyof ItemMasterRef;
+
+// Claimed in this order, so "Replacement SKU" / "List Price" are taken before "SKU" / "Price".
+const ITEM_COLUMN_ALIASES: [ItemField, string[]][] = [
+  ["replacement_sku", ["replacement_sku", "replacement", "replacement sku", "replaced by", "superseded by", "successor", "substitute", "new sku"]],
+  ["list_price", ["list_price", "list price", "list", "price", "msrp", "unit price"]],
+  ["pack_size", ["pack_size", "pack size", "pack", "pack qty", "pkg qty", "case qty", "units per pack", "qty per pack"]],
+  ["base_uom", ["base_uom", "base uom", "uom", "unit", "unit of measure", "base unit", "um"]],
+  ["status", ["status", "item status", "lifecycle", "active"]],
+  ["mfr_abbr", ["mfr_abbr", "mfr", "mfr code", "manufacturer", "mfg", "brand", "vendor"]],
+  ["sku", ["sku", "abh sku", "item", "item no", "item number", "item_no", "abh item", "part", "part no", "part number", "product code"]],
+  ["description", ["description", "desc", "item description", "name", "product name"]],
+];
+
+// Partial header matches only for free-text columns; "um" must not claim "Item Number".
+const ITEM_PARTIAL_MATCH_FIELDS: ItemField[] = ["description", "list_price", "replacement_sku"];
+
+const STATUS_ALIASES: Record<string, ItemStatus> = {
+  a: "ACTIVE", active: "ACTIVE", y: "ACTIVE", yes: "ACTIVE", true: "ACTIVE", current: "ACTIVE", stocked: "ACTIVE",
+  d: "DISCONTINUED", disc: "DISCONTINUED", discontinued: "DISCONTINUED", obsolete: "DISCONTINUED", inactive: "DISCONTINUED",
+  n: "DISCONTINUED", no: "DISCONTINUED", false: "DISCONTINUED", nla: "DISCONTINUED", dead: "DISCONTINUED",
+  s: "SUPERSEDED", superseded: "SUPERSEDED", replaced: "SUPERSEDED", supersede: "SUPERSEDED",
+};
+
+function parseNumber(v: any): number | undefined {
+  if (v === undefined || v === null || v === "") return undefined;
+  const text = typeof v === "number" ? String(v) : String(v).replace(/[^0-9.\-]/g, "");
+  const n = Number(text);
+  return text && Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Item master rows, tolerant of header names, "$1,234.50" prices, Y/N or word statuses and
+ * manufacturer names instead of abbreviations. A replacement SKU without a status means superseded;
+ * a repeated SKU replaces the earlier row.
+ */
+function importItems(rows: any[], manufacturers: ManufacturerRef[]): ItemMasterRef[] {
+  if (rows.length === 0) return [];
+  const cols: Partial<Record<ItemField, string>> = {};
+  const claimed: string[] = [];
+  for (const [field, aliases] of ITEM_COLUMN_ALIASES) {
+    const col = matchColumn(Object.keys(rows[0]), aliases, { exclude: claimed, exactOnly: !ITEM_PARTIAL_MATCH_FIELDS.includes(field) });
+    if (col !== undefined) {
+      cols[field] = col;
+      claimed.push(col);
     }
   }
-  return undefined;
+  const get = (r: any, f: ItemField) => (cols[f] === undefined ? "" : r[cols[f]!]);
+
+  const mfrAbbr = (raw: string): string => {
+    const k = raw.toLowerCase();
+    const m = manufacturers.find(m => [m.abbr, m.name, ...m.aliases].some(a => a.toLowerCase() === k));
+    return m ? m.abbr : raw.toUpperCase();
+  };
+
+  const bySku = new Map<string, ItemMasterRef>();
+  for (const r of rows) {
+    const sku = String(get(r, "sku") ?? "").trim();
+    if (!sku) continue;
+    const replacement = String(get(r, "replacement_sku") ?? "").trim() || undefined;
+    const rawStatus = String(get(r, "status") ?? "").trim().toLowerCase();
+    const status = STATUS_ALIASES[rawStatus] ?? (replacement ? "SUPERSEDED" : "ACTIVE");
+    if (rawStatus && !STATUS_ALIASES[rawStatus]) console.warn(`Item ${sku}: unknown status "${rawStatus}", treated as ${status}`);
+    bySku.set(sku.toUpperCase(), {
+      sku,
+      mfr_abbr: mfrAbbr(String(get(r, "mfr_abbr") ?? "").trim()),
+      description: String(get(r, "description") ?? "").trim(),
+      base_uom: String(get(r, "base_uom") ?? "").trim().toUpperCase() || "EA",
+      pack_size: parseNumber(get(r, "pack_size")),
+      list_price: parseNumber(get(r, "list_price")),
+      status,
+      replacement_sku: replacement,
+    });
+  }
+  return Array.from(bySku.values());
 }
 
 export function exportReferencePackToXlsx(pack: ReferencePack): Blob {
@@ -129,6 +218,9 @@ export function exportReferencePackToXlsx(pack: ReferencePack): Blob {
     defaults_json: JSON.stringify(s.defaults)
   })), SHEETS.SETS, ["template_id", "keywords", "defaults_json"]);
 
+  createSheet(pack.items || [], SHEETS.ITEMS,
+    ["sku", "mfr_abbr", "description", "base_uom", "pack_size", "list_price", "status", "replacement_sku"]);
+
   const out = XLSX.write(wb, { type: "array", bookType: "xlsx" });
   return new Blob([out], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
 }
@@ -226,6 +318,9 @@ export function importReferencePackFromXlsx(buffer: ArrayBuffer, existingPack: R
     };
   }).filter(s => s.template_id);
 
+  // A workbook without an Items sheet (e.g. vocabulary only) keeps the current item master.
+  const items = findSheetName(SHEETS.ITEMS) ? importItems(getSheetData<any>(SHEETS.ITEMS), manufacturers) : existingPack.items;
+
   const finalPack = {
     ...existingPack,
     manufacturers,
@@ -234,6 +329,7 @@ export function importReferencePackFromXlsx(buffer: ArrayBuffer, existingPack: R
     electrified_devices,
     wiring_configs,
     hardware_sets,
+    items,
     updated_at: new Date().toISOString()
   };
 
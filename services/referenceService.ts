@@ -1,31 +1,243 @@
-import { ReferencePack } from "../referencePack.schema.ts"
+import { CategoryRef, FinishRef, ItemMasterRef, ManufacturerRef, ReferencePack } from "../referencePack.schema.ts"
+
+export type ReferenceMatchMethod = "EXACT" | "FUZZY" | "PATTERN"
+
+export interface ReferenceMatch<T> {
+  ref: T
+  score: number                    // 0..1
+  method: ReferenceMatchMethod     // PATTERN: part-number prefix or finish code without its "US"
+  term: string                     // the abbr / name / alias / code that matched
+  span: { start: number; end: number; text: string }   // offsets into the searched text
+}
+
+/**
+ * One way a reference entry can appear in text. Names are compared word by word (typos tolerated);
+ * short codes only as a whole part-number chunk ("LCN", not the "LC" in "BLOCK") or one of its
+ * dash / slash separated parts.
+ */
+type Term = {
+  text: string
+  on: "words" | "chunks" | "parts"
+  score: number                    // score of an exact hit
+  method?: ReferenceMatchMethod
+  prefix?: boolean                 // also matches as the start of a part number ("LCN4040XP", "SCH-ND50")
+}
+
+type Token = { key: string; start: number; end: number }
+
+const WORD = /[A-Za-z0-9]+/g
+const CHUNK = /[A-Za-z0-9]+(?:[-/.][A-Za-z0-9]+)*/g
+const PART = /[A-Za-z0-9]+/g
+
+const CODE_MAX_LENGTH = 4          // single words up to this long are treated as codes
+const FUZZY_MIN_LENGTH = 5         // shorter names must match exactly
+const FUZZY_MIN_SIMILARITY = 0.8
+const FUZZY_DISCOUNT = 0.9         // a fuzzy hit never outscores an exact one
+const PREFIX_SCORE = 0.85         // share of the exact score a part-number prefix earns
+const SHORT_CODE_DISCOUNT = 0.1    // two-letter codes are weaker evidence
+
+const key = (s: string) => s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toUpperCase()
+
+// "SCH-ND50PD RHO" and "sch nd50pd-rho" are the same SKU.
+const skuKey = (s: string) => key(s).replace(/[^A-Z0-9]/g, "")
+
+function tokens(text: string, re: RegExp): Token[] {
+  return Array.from(text.matchAll(re), m => ({ key: key(m[0]), start: m.index!, end: m.index! + m[0].length }))
+}
+
+function partsOf(chunks: Token[]): Token[] {
+  return chunks.flatMap(c => {
+    const parts = tokens(c.key, PART).map(p => ({ key: p.key, start: c.start + p.start, end: c.start + p.end }))
+    return parts.length > 1 ? [c, ...parts] : [c]
+  })
+}
+
+/**
+ * Edit distance counting an adjacent transposition ("Schlgae") as one edit.
+ */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)))
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+    }
+  }
+  return d[a.length][b.length]
+}
+
+function bigramDice(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return a === b ? 1 : 0
+  const grams = new Map<string, number>()
+  for (let i = 0; i < a.length - 1; i++) grams.set(a.slice(i, i + 2), (grams.get(a.slice(i, i + 2)) ?? 0) + 1)
+  let shared = 0
+  for (let i = 0; i < b.length - 1; i++) {
+    const n = grams.get(b.slice(i, i + 2)) ?? 0
+    if (n > 0) {
+      shared++
+      grams.set(b.slice(i, i + 2), n - 1)
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2)
+}
+
+/**
+ * The better of edit-distance similarity (typos, transpositions) and bigram overlap (dropped or
+ * inserted letters in longer names); spaces ignored.
+ */
+function similarity(a: string, b: string): number {
+  const [x, y] = [a.replace(/ /g, ""), b.replace(/ /g, "")]
+  if (!x || !y) return 0
+  return Math.max(1 - editDistance(x, y) / Math.max(x.length, y.length), bigramDice(x, y))
+}
+
+/**
+ * Names become word terms; a single short word (abbreviation, alias like "SCH") becomes a code
+ * that must stand alone or prefix a part number.
+ */
+function nameTerm(text: string, score: number): Term {
+  const words = key(text).match(WORD) ?? []
+  return words.length === 1 && words[0].length <= CODE_MAX_LENGTH
+    ? { text, on: "chunks", score: words[0].length < 3 ? score - SHORT_CODE_DISCOUNT : score, prefix: true }
+    : { text, on: "words", score }
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+class TextIndex {
+  readonly words: Token[]
+  readonly chunks: Token[]
+  readonly parts: Token[]
+
+  constructor(readonly text: string) {
+    this.words = tokens(text, WORD)
+    this.chunks = tokens(text, CHUNK)
+    this.parts = partsOf(this.chunks)
+  }
+
+  private hit(t: Term, start: number, end: number, score: number, method: ReferenceMatchMethod) {
+    return { score, method, term: t.text, span: { start, end, text: this.text.slice(start, end) } }
+  }
+
+  /**
+   * Best hit of one term: exact, then (names) fuzzy over windows of the same word count, then
+   * (codes) part-number prefix.
+   */
+  match(t: Term): Omit<ReferenceMatch<unknown>, "ref"> | undefined {
+    const termKey = key(t.text).match(WORD)?.join(" ") ?? ""
+    if (!termKey) return undefined
+
+    if (t.on !== "words") {
+      const pool = t.on === "chunks" ? this.chunks : this.parts
+      const compact = key(t.text).replace(/\s+/g, "")
+      const exact = pool.find(p => p.key === compact)
+      if (exact) return this.hit(t, exact.start, exact.end, t.score, t.method ?? "EXACT")
+      if (!t.prefix) return undefined
+      const re = new RegExp(`^${escapeRegExp(compact)}(?:[-/.]|(?=\\d))`)
+      const pre = this.chunks.find(c => re.test(c.key))
+      return pre ? this.hit(t, pre.start, pre.start + compact.length, t.score * PREFIX_SCORE, "PATTERN") : undefined
+    }
+
+    const n = termKey.split(" ").length
+    let best: Omit<ReferenceMatch<unknown>, "ref"> | undefined
+    for (let i = 0; i + n <= this.words.length; i++) {
+      const win = this.words.slice(i, i + n)
+      const winKey = win.map(w => w.key).join(" ")
+      const [start, end] = [win[0].start, win[n - 1].end]
+      if (winKey === termKey) return this.hit(t, start, end, t.score, "EXACT")
+      if (termKey.replace(/ /g, "").length < FUZZY_MIN_LENGTH) continue
+      const sim = similarity(winKey, termKey)
+      if (sim >= FUZZY_MIN_SIMILARITY && (!best || sim * t.score * FUZZY_DISCOUNT > best.score)) {
+        best = this.hit(t, start, end, sim * t.score * FUZZY_DISCOUNT, "FUZZY")
+      }
+    }
+    return best
+  }
+}
+
+/**
+ * Each entry's best-scoring term (the longer span on a tie), strongest entries first; ties go to
+ * the longer, then earlier span.
+ */
+function rank<T>(text: string, entries: { ref: T; terms: Term[] }[]): ReferenceMatch<T>[] {
+  if (!text) return []
+  const len = (m: { span: { start: number; end: number } }) => m.span.end - m.span.start
+  const index = new TextIndex(text)
+  const out: ReferenceMatch<T>[] = []
+  for (const { ref, terms } of entries) {
+    let best: ReferenceMatch<T> | undefined
+    for (const t of terms) {
+      const m = index.match(t)
+      if (m && (!best || m.score > best.score || (m.score === best.score && len(m) > len(best)))) best = { ...m, ref }
+    }
+    if (best) out.push(best)
+  }
+  return out.sort((a, b) => b.score - a.score || len(b) - len(a) || a.span.start - b.span.start)
+}
 
 export class ReferenceService {
-  constructor(private ref: ReferencePack) {}
+  private manufacturerTerms: { ref: ManufacturerRef; terms: Term[] }[]
+  private finishTerms: { ref: FinishRef; terms: Term[] }[]
+  private categoryTerms: { ref: CategoryRef; terms: Term[] }[]
+  private itemsBySku: Map<string, ItemMasterRef>
+
+  constructor(private ref: ReferencePack) {
+    this.manufacturerTerms = ref.manufacturers.map(m => ({
+      ref: m,
+      terms: [m.abbr, m.name, ...m.aliases].map(a => nameTerm(a, 1)),
+    }))
+    this.finishTerms = ref.finishes.map(f => {
+      const bare = f.us_code.toUpperCase().replace(/^US\s*/, "")
+      const terms: Term[] = [{ text: f.us_code, on: "parts", score: 1 }]
+      // "26D" for US26D; a bare "3" (US3) would match any number
+      if (/[A-Z]/.test(bare) && bare !== f.us_code.toUpperCase()) terms.push({ text: bare, on: "parts", score: 0.8, method: "PATTERN" })
+      if (f.bhma_code) terms.push({ text: f.bhma_code, on: "parts", score: 1 })
+      if (f.name) terms.push({ text: f.name, on: "words", score: 1 })
+      return { ref: f, terms }
+    })
+    this.categoryTerms = ref.categories.map(c => ({
+      ref: c,
+      terms: [{ text: c.gordon_symbol, on: "parts", score: 1 }],
+    }))
+    this.itemsBySku = new Map((ref.items ?? []).map(i => [skuKey(i.sku), i]))
+  }
+
+  /**
+   * Ranked manufacturer candidates: abbreviation as a whole token or part-number prefix, name and
+   * aliases exactly or within typo distance.
+   */
+  matchManufacturers(text: string): ReferenceMatch<ManufacturerRef>[] {
+    return rank(text, this.manufacturerTerms)
+  }
+
+  matchFinishes(text: string): ReferenceMatch<FinishRef>[] {
+    return rank(text, this.finishTerms)
+  }
+
+  matchCategories(text: string): ReferenceMatch<CategoryRef>[] {
+    return rank(text, this.categoryTerms)
+  }
+
+  hasItemMaster() {
+    return this.itemsBySku.size > 0
+  }
+
+  findItem(sku?: string) {
+    return sku ? this.itemsBySku.get(skuKey(sku)) : undefined
+  }
 
   normalizeManufacturer(text: string) {
-    if (!text) return undefined;
-    const t = text.toLowerCase()
-    return this.ref.manufacturers.find(m =>
-      [m.abbr, m.name, ...m.aliases]
-        .some(a => t.includes(a.toLowerCase()))
-    )
+    return this.matchManufacturers(text)[0]?.ref
   }
 
   normalizeFinish(text: string) {
-    if (!text) return undefined;
-    const t = text.toUpperCase()
-    return this.ref.finishes.find(f =>
-      t.includes(f.us_code) || (f.bhma_code && t.includes(f.bhma_code))
-    )
+    return this.matchFinishes(text)[0]?.ref
   }
 
   detectCategory(text: string) {
-    if (!text) return undefined;
-    const t = text.toLowerCase()
-    return this.ref.categories.find(c =>
-      t.includes(c.gordon_symbol.toLowerCase())
-    )
+    return this.matchCategories(text)[0]?.ref
   }
 
   detectElectrifiedDevice(text: string) {
@@ -50,4 +262,4 @@ export class ReferenceService {
       s.keywords.some(k => t.includes(k.toLowerCase()))
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+// services/referenceVocabulary.ts
+// Compact vocabulary from the active reference pack for the extraction prompt, kept within a character budget.
+import { ReferencePack } from "../referencePack.schema.ts";
+
+export const REFERENCE_GROUNDING_EVENT = "REFERENCE_PACK_GROUNDING";
+export const DEFAULT_VOCABULARY_BUDGET_CHARS = 6000;
+
+const MAX_ALIASES_PER_MANUFACTURER = 6;
+
+const VOCABULARY_RULES = `VOCABULARY RULES:
+- parsed.manufacturer: the ABBR of the listed manufacturer when the line names it, its abbreviation or an alias; otherwise the name as printed.
+- parsed.attributes.finish: the listed US code when the line carries a US or BHMA finish code (e.g. 626 -> US26D); otherwise the finish as printed.
+- Do not invent manufacturers or finishes that are not on the document.`;
+
+export type ReferenceVocabulary = {
+  reference_version: string;
+  text: string;              // the prompt block
+  chars: number;
+  manufacturers: number;     // entries included per section
+  finishes: number;
+  categories: number;
+  omitted: number;           // entries left out to stay within the budget
+};
+
+type Section = { title: string; lines: string[]; included: number };
+
+function takeWithin(section: Section, budget: number): number {
+  let used = section.title.length + 1;
+  for (const line of section.lines) {
+    if (used + line.length + 1 > budget) break;
+    used += line.length + 1;
+    section.included++;
+  }
+  return section.included ? used : 0;
+}
+
+/**
+ * Manufacturers, finishes and category symbols in pack order. Sections are sized smallest first,
+ * each taking at most an even share of what is left, so short lists are complete and the
+ * longest list gets the rest.
+ * Undefined when the pack has none of them (or none fit).
+ */
+export function buildReferenceVocabulary(
+  pack: ReferencePack | undefined,
+  budgetChars = DEFAULT_VOCABULARY_BUDGET_CHARS
+): ReferenceVocabulary | undefined {
+  if (!pack) return undefined;
+
+  const sections: Section[] = [
+    {
+      title: "MANUFACTURERS (ABBR = name; aliases):",
+      lines: pack.manufacturers.map(m => {
+        const aliases = m.aliases.filter(a => a && a !== m.name && a !== m.abbr).slice(0, MAX_ALIASES_PER_MANUFACTURER);
+        return `${m.abbr} = ${m.name}${aliases.length ? `; ${aliases.join(", ")}` : ""}`;
+      }),
+      included: 0,
+    },
+    {
+      title: "FINISHES (US code / BHMA code = name):",
+      lines: pack.finishes.map(f => `${f.us_code}${f.bhma_code ? ` / ${f.bhma_code}` : ""} = ${f.name}`),
+      included: 0,
+    },
+    {
+      title: "CATEGORY SYMBOLS (symbol = category / subcategory):",
+      lines: pack.categories.map(c => `${c.gordon_symbol} = ${c.category}${c.subcategory ? ` / ${c.subcategory}` : ""}`),
+      included: 0,
+    },
+  ];
+
+  const header = `REFERENCE VOCABULARY (reference pack v${pack.version}):`;
+  let remaining = budgetChars - header.length - VOCABULARY_RULES.length - 2;
+  const bySize = sections
+    .filter(s => s.lines.length > 0)
+    .sort((a, b) => a.lines.join("\n").length - b.lines.join("\n").length);
+  bySize.forEach((s, i) => {
+    remaining -= takeWithin(s, Math.floor(remaining / (bySize.length - i)));
+  });
+
+  const included = sections.filter(s => s.included > 0);
+  if (included.length === 0) return undefined;
+
+  const text = [
+    header,
+    ...included.map(s => [s.title, ...s.lines.slice(0, s.included)].join("\n")),
+    VOCABULARY_RULES,
+  ].join("\n");
+
+  return {
+    reference_version: pack.version,
+    text,
+    chars: text.length,
+    manufacturers: sections[0].included,
+    finishes: sections[1].included,
+    categories: sections[2].included,
+    omitted: sections.reduce((n, s) => n + s.lines.length - s.included, 0),
+  };
+}
@@ -29,8 +29,17 @@ export type RegressionDiff = {
 const LS_KEY = "orderflow_regression_baselines_v1";
 
 export async function sha256Base64(base64: string): Promise<string> {
-  const raw = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
-  const digest = await crypto.subtle.digest("SHA-256", raw);
+  return sha256Bytes(Uint8Array.from(atob(base64), c => c.charCodeAt(0)));
+}
+
+export async function sha256Bytes(raw: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", raw as BufferSource);
+  const bytes = new Uint8Array(digest);
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function sha256Text(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
   const bytes = new Uint8Array(digest);
   return Array.from(bytes).map(b => b.toString(16).padStart(2, "0")).join("");
 }
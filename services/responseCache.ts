@@ -0,0 +1,134 @@
+// services/responseCache.ts
+import { ExtractionProvider, ExtractionRequest, ExtractionResponse } from "./extractionProviders.ts";
+import { sha256Base64, sha256Text } from "./regressionHarness.ts";
+import { openDatabase, withStore } from "./idb.ts";
+
+/**
+ * OFF          - always call the provider, never touch the cache
+ * READ_THROUGH - serve hits, call + record on miss
+ * RECORD_ONLY  - always call the provider and overwrite the cached entry
+ * REPLAY_ONLY  - serve hits, fail on miss (deterministic, no model spend)
+ */
+export type ResponseCacheMode = "OFF" | "READ_THROUGH" | "RECORD_ONLY" | "REPLAY_ONLY";
+
+export const RESPONSE_CACHE_MODES: ResponseCacheMode[] = ["OFF", "READ_THROUGH", "RECORD_ONLY", "REPLAY_ONLY"];
+
+export type CachedResponse = {
+  key: string;                 // sha256 hex
+  provider: string;
+  model_id: string;
+  text: string;
+  image_hashes: string[];
+  created_at: string;          // ISO
+};
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | null>;
+  put(entry: CachedResponse): Promise<void>;
+  count(): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export class CacheMissError extends Error {
+  constructor(readonly key: string) {
+    super(`Response cache miss (replay-only): ${key.slice(0, 12)}...`);
+    this.name = "CacheMissError";
+  }
+}
+
+const DB_NAME = "orderflow_response_cache";
+const DB_VERSION = 1;
+const STORE = "responses";
+
+export class IndexedDbResponseCacheStore implements ResponseCacheStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: "key" });
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const db = await this.db();
+    const hit = await withStore(db, STORE, "readonly", s => s.get(key));
+    return (hit as CachedResponse) ?? null;
+  }
+
+  async put(entry: CachedResponse): Promise<void> {
+    const db = await this.db();
+    await withStore(db, STORE, "readwrite", s => s.put(entry));
+  }
+
+  async count(): Promise<number> {
+    const db = await this.db();
+    return withStore(db, STORE, "readonly", s => s.count());
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.db();
+    await withStore(db, STORE, "readwrite", s => s.clear());
+  }
+}
+
+export async function hashRequestImages(req: ExtractionRequest): Promise<string[]> {
+  const hashes: string[] = [];
+  for (const p of req.parts) hashes.push(await sha256Base64(p.base64));
+  return hashes;
+}
+
+/**
+ * Content-addressed key: segment images + prompt + response schema + model id.
+ */
+export async function responseCacheKey(req: ExtractionRequest, provider: ExtractionProvider): Promise<string> {
+  const imageHashes = await hashRequestImages(req);
+  return sha256Text(JSON.stringify({
+    images: imageHashes,
+    prompt: req.prompt,
+    schema: req.responseSchema,
+    model: `${provider.id}:${provider.modelId}`,
+  }));
+}
+
+export function withResponseCache(
+  provider: ExtractionProvider,
+  store: ResponseCacheStore,
+  mode: ResponseCacheMode
+): ExtractionProvider {
+  if (mode === "OFF") return provider;
+
+  return {
+    id: provider.id,
+    modelId: provider.modelId,
+    async generate(req: ExtractionRequest): Promise<ExtractionResponse> {
+      const key = await responseCacheKey(req, provider);
+
+      if (mode === "READ_THROUGH" || mode === "REPLAY_ONLY") {
+        const hit = await store.get(key).catch((e) => {
+          console.warn("Response cache read failed", e);
+          return null;
+        });
+        if (hit) return { text: hit.text, provider: provider.id, model_id: hit.model_id };
+        if (mode === "REPLAY_ONLY") throw new CacheMissError(key);
+      }
+
+      const response = await provider.generate(req);
+      try {
+        await store.put({
+          key,
+          provider: response.provider,
+          model_id: response.model_id,
+          text: response.text,
+          image_hashes: await hashRequestImages(req),
+          created_at: new Date().toISOString(),
+        });
+      } catch (e) {
+        console.warn("Response cache write failed", e);
+      }
+      return response;
+    },
+  };
+}
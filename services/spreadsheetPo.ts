@@ -0,0 +1,308 @@
+// services/spreadsheetPo.ts
+// Spreadsheet / CSV purchase orders read as tables: header synonyms (or a saved per-customer
+// column mapping) locate the line columns, so no model call is needed.
+import * as XLSX from "xlsx";
+import { ColumnMapping, ColumnMappingSet, TabularField } from "../extraction/extractionSettings.ts";
+import { matchColumn } from "./referencePackXlsx.ts";
+
+export const SPREADSHEET_MIME_BY_EXTENSION: Record<string, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xls: "application/vnd.ms-excel",
+  csv: "text/csv",
+};
+
+export const TABULAR_FIELDS: TabularField[] = [
+  "line_no",
+  "customer_item_no",
+  "description",
+  "qty",
+  "uom",
+  "unit_price",
+  "extended_price",
+  "manufacturer",
+  "customer_order_no",
+];
+
+/**
+ * Header synonyms per line field; the longer, more specific names come first.
+ */
+const PO_COLUMN_ALIASES: Record<TabularField, string[]> = {
+  line_no: ["line no", "line #", "line number", "line", "ln", "no", "seq"],
+  customer_item_no: [
+    "customer part", "your part", "part number", "part no", "part #", "part", "item number", "item no", "item #",
+    "item", "sku", "catalog no", "cat no", "product code", "product no", "material",
+  ],
+  description: ["item description", "product description", "description", "desc", "details", "specification"],
+  qty: ["qty ordered", "order qty", "quantity", "qty", "ordered", "quan"],
+  uom: ["unit of measure", "uom", "um", "u/m", "unit", "units"],
+  unit_price: ["unit price", "price each", "unit cost", "net price", "price", "cost", "each", "rate"],
+  extended_price: ["extended price", "ext price", "line total", "extended", "extension", "amount", "total", "ext"],
+  manufacturer: ["manufacturer", "mfr", "mfg", "brand", "make"],
+  customer_order_no: ["po number", "po no", "po #", "purchase order", "order number", "order no", "po"],
+};
+
+// "Label: value" cells above the line table.
+const HEADER_LABEL_ALIASES = {
+  customer_order_no: ["po", "po no", "po number", "purchase order", "purchase order no", "customer po", "order no", "order number"],
+  document_date: ["date", "po date", "order date"],
+  customer_name: ["customer", "customer name", "sold to", "company"],
+};
+
+// Partial header matches only on names this long; "po" or "no" would match half the sheet.
+const MIN_PARTIAL_CHARS = 3;
+const HEADER_SCAN_ROWS = 30;
+const RX_TOTAL_ROW = /^\s*(sub\s*-?\s*total|grand\s+total|total)\b/i;
+
+type Cell = string | number | boolean | Date | null | undefined;
+
+export type TabularLine = {
+  row: number;                  // 1-based sheet row
+  line_no?: number;
+  customer_item_no: string;
+  description: string;
+  qty?: number;
+  uom?: string;
+  unit_price?: number;
+  extended_price?: number;
+  manufacturer?: string;
+  customer_order_no?: string;
+};
+
+export type TabularPo = {
+  sheet: string;
+  header_row: number;                                 // 1-based
+  headers: string[];                                  // header cells, for mapping editors
+  columns: Partial<Record<TabularField, string>>;     // header each field was read from
+  mapping_id?: string;
+  customer_name?: string;
+  customer_order_no?: string;
+  document_date?: string;
+  lines: TabularLine[];
+  skipped_rows: number;                               // note / total rows without an item or quantity
+  warnings: string[];
+};
+
+export function isSpreadsheetFile(file: { name: string; mimeType: string }): boolean {
+  const ext = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return Object.values(SPREADSHEET_MIME_BY_EXTENSION).includes(file.mimeType) || ext in SPREADSHEET_MIME_BY_EXTENSION;
+}
+
+function isCsv(file: { name: string; mimeType: string }): boolean {
+  return file.mimeType === "text/csv" || /\.csv$/i.test(file.name);
+}
+
+function readWorkbook(file: { name: string; mimeType: string; data: Uint8Array }): XLSX.WorkBook {
+  // SheetJS reads byte arrays as Latin-1 text; customer CSVs are UTF-8.
+  return isCsv(file)
+    ? XLSX.read(new TextDecoder("utf-8").decode(file.data), { type: "string", cellDates: true })
+    : XLSX.read(file.data, { type: "array", cellDates: true });
+}
+
+/**
+ * Every sheet as CSV text, for the model fallback when no line table is recognised.
+ */
+export function spreadsheetToCsv(file: { name: string; mimeType: string; data: Uint8Array }): string {
+  if (isCsv(file)) return new TextDecoder("utf-8").decode(file.data);
+  const wb = readWorkbook(file);
+  return wb.SheetNames
+    .map(name => `# SHEET: ${name}\n${XLSX.utils.sheet_to_csv(wb.Sheets[name], { blankrows: false })}`)
+    .join("\n\n");
+}
+
+/**
+ * First saved mapping whose match strings occur in one of the hints (filename, sender address).
+ */
+export function selectColumnMapping(set: ColumnMappingSet | undefined, hints: string[]): ColumnMapping | undefined {
+  const haystack = hints.filter(Boolean).map(h => h.toLowerCase());
+  return set?.mappings.find(m =>
+    m.match.some(k => k.trim() && haystack.some(h => h.includes(k.trim().toLowerCase())))
+  );
+}
+
+const normalizeHeader = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function cellText(v: Cell): string {
+  if (v === null || v === undefined) return "";
+  // SheetJS builds dates in local time.
+  if (v instanceof Date) {
+    return `${v.getFullYear()}-${String(v.getMonth() + 1).padStart(2, "0")}-${String(v.getDate()).padStart(2, "0")}`;
+  }
+  return String(v).replace(/\s+/g, " ").trim();
+}
+
+function cellNumber(v: Cell): number | undefined {
+  if (typeof v === "number") return Number.isFinite(v) ? v : undefined;
+  const s = cellText(v);
+  if (!s) return undefined;
+  const negative = /^\(.*\)$/.test(s) || /^-/.test(s);
+  const n = parseFloat(s.replace(/[()$€£\s,-]/g, ""));
+  if (!Number.isFinite(n) || !/^[\s(]*-?[$€£]?\s*-?[\d,]*\.?\d+\s*[)]?$/.test(s)) return undefined;
+  return negative ? -n : n;
+}
+
+/**
+ * Field -> header for one candidate header row: saved mapping first, then exact synonyms, then partial ones.
+ */
+function detectColumns(headers: string[], preset: Partial<Record<TabularField, string>> = {}) {
+  const columns: Partial<Record<TabularField, string>> = {};
+  const missing: string[] = [];
+
+  for (const field of TABULAR_FIELDS) {
+    const wanted = preset[field]?.trim();
+    if (!wanted) continue;
+    const hit = headers.find(h => normalizeHeader(h) === normalizeHeader(wanted));
+    if (hit) columns[field] = hit;
+    else missing.push(`${field}="${wanted}"`);
+  }
+
+  const taken = () => Object.values(columns) as string[];
+  for (const field of TABULAR_FIELDS) {
+    if (columns[field]) continue;
+    const hit = matchColumn(headers, PO_COLUMN_ALIASES[field], { exclude: taken(), exactOnly: true });
+    if (hit) columns[field] = hit;
+  }
+  const partialHeaders = headers.filter(h => normalizeHeader(h).length >= MIN_PARTIAL_CHARS);
+  for (const field of TABULAR_FIELDS) {
+    if (columns[field]) continue;
+    const aliases = PO_COLUMN_ALIASES[field].filter(a => normalizeHeader(a).length >= MIN_PARTIAL_CHARS);
+    const hit = matchColumn(partialHeaders, aliases, { exclude: taken() });
+    if (hit) columns[field] = hit;
+  }
+  return { columns, missing };
+}
+
+function isLineTable(columns: Partial<Record<TabularField, string>>): boolean {
+  return !!columns.qty && !!(columns.customer_item_no || columns.description);
+}
+
+function findHeaderRow(rows: Cell[][], preset: Partial<Record<TabularField, string>>): number {
+  let best = -1;
+  let bestScore = 0;
+  for (let r = 0; r < Math.min(rows.length, HEADER_SCAN_ROWS); r++) {
+    const headers = rows[r].map(cellText);
+    if (headers.filter(Boolean).length < 2) continue;
+    const { columns } = detectColumns(headers, preset);
+    const score = Object.keys(columns).length;
+    if (isLineTable(columns) && score > bestScore) {
+      best = r;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function headerFields(rows: Cell[][]): Pick<TabularPo, "customer_order_no" | "document_date" | "customer_name"> {
+  const out: Pick<TabularPo, "customer_order_no" | "document_date" | "customer_name"> = {};
+  for (const row of rows) {
+    for (let c = 0; c < row.length; c++) {
+      const text = cellText(row[c]);
+      if (!text) continue;
+      const colon = text.indexOf(":");
+      const label = colon > 0 ? text.slice(0, colon) : text;
+      const inline = colon > 0 ? text.slice(colon + 1).trim() : "";
+      for (const [key, aliases] of Object.entries(HEADER_LABEL_ALIASES) as [keyof typeof out, string[]][]) {
+        if (out[key] || !matchColumn([label], aliases, { exactOnly: true })) continue;
+        const value = inline || cellText(row.slice(c + 1).find(v => cellText(v) !== ""));
+        if (value) out[key] = value;
+      }
+    }
+  }
+  return out;
+}
+
+function readLines(rows: Cell[][], headerRow: number, headers: string[], columns: Partial<Record<TabularField, string>>) {
+  const index = (f: TabularField) => (columns[f] ? headers.indexOf(columns[f]!) : -1);
+  const at = (row: Cell[], f: TabularField): Cell => (index(f) >= 0 ? row[index(f)] : undefined);
+
+  const lines: TabularLine[] = [];
+  let skipped = 0;
+  for (let r = headerRow + 1; r < rows.length; r++) {
+    const row = rows[r];
+    if (!row.some(v => cellText(v) !== "")) continue;
+
+    const item = cellText(at(row, "customer_item_no"));
+    const description = cellText(at(row, "description"));
+    const qty = cellNumber(at(row, "qty"));
+    if ((!item && qty === undefined) || (!item && RX_TOTAL_ROW.test(description || cellText(row.find(v => cellText(v)))))) {
+      skipped++;
+      continue;
+    }
+    const lineNo = cellNumber(at(row, "line_no"));
+    lines.push({
+      row: r + 1,
+      line_no: lineNo !== undefined && Number.isInteger(lineNo) && lineNo > 0 ? lineNo : undefined,
+      customer_item_no: item,
+      description,
+      qty,
+      uom: cellText(at(row, "uom")).toUpperCase() || undefined,
+      unit_price: cellNumber(at(row, "unit_price")),
+      extended_price: cellNumber(at(row, "extended_price")),
+      manufacturer: cellText(at(row, "manufacturer")) || undefined,
+      customer_order_no: cellText(at(row, "customer_order_no")) || undefined,
+    });
+  }
+  return { lines, skipped };
+}
+
+/**
+ * Line table of the first sheet (or the mapping's sheet) with a recognisable header row;
+ * null when none is found and the file has to go to the model instead.
+ */
+export function readSpreadsheetPo(
+  file: { name: string; mimeType: string; data: Uint8Array },
+  mapping?: ColumnMapping
+): TabularPo | null {
+  const wb = readWorkbook(file);
+  const warnings: string[] = [];
+  let sheetNames = wb.SheetNames;
+  if (mapping?.sheet) {
+    const wanted = wb.SheetNames.find(n => n.trim().toLowerCase() === mapping.sheet!.trim().toLowerCase());
+    if (wanted) sheetNames = [wanted];
+    else warnings.push(`Sheet "${mapping.sheet}" of mapping ${mapping.mapping_id} not found; searched all sheets.`);
+  }
+
+  for (const sheet of sheetNames) {
+    const rows = XLSX.utils.sheet_to_json<Cell[]>(wb.Sheets[sheet], { header: 1, raw: true, defval: "", blankrows: true });
+    const preset = mapping?.columns ?? {};
+    const headerRow = mapping?.header_row && mapping.header_row > 0 && mapping.header_row <= rows.length
+      ? mapping.header_row - 1
+      : findHeaderRow(rows, preset);
+    if (headerRow < 0) continue;
+
+    const headers = rows[headerRow].map(cellText);
+    const { columns, missing } = detectColumns(headers, preset);
+    if (!isLineTable(columns)) continue;
+    if (missing.length) warnings.push(`Mapped column(s) not found in "${sheet}": ${missing.join(", ")}`);
+
+    const { lines, skipped } = readLines(rows, headerRow, headers, columns);
+    return {
+      sheet,
+      header_row: headerRow + 1,
+      headers: headers.filter(Boolean),
+      columns,
+      mapping_id: mapping?.mapping_id,
+      ...headerFields(rows.slice(0, headerRow)),
+      ...(mapping?.customer_name ? { customer_name: mapping.customer_name } : {}),
+      lines,
+      skipped_rows: skipped,
+      warnings,
+    };
+  }
+  return null;
+}
+
+/**
+ * Validates an imported mapping set (as exported from the Extraction Engine screen).
+ */
+export function parseColumnMappings(json: unknown): ColumnMappingSet {
+  const set = json as ColumnMappingSet;
+  if (!set || !Array.isArray(set.mappings)) {
+    throw new Error("Not a column mapping export (expected a 'mappings' list).");
+  }
+  for (const m of set.mappings) {
+    if (!m?.mapping_id || !Array.isArray(m.match) || typeof m.columns !== "object" || m.columns === null) {
+      throw new Error(`Invalid column mapping ${m?.mapping_id ?? "(no mapping_id)"}: expected mapping_id, match and columns.`);
+    }
+  }
+  return { version: String(set.version ?? "1.0.0"), updated_at: set.updated_at, mappings: set.mappings };
+}
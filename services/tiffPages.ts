@@ -0,0 +1,156 @@
+// services/tiffPages.ts
+// Multi-page TIFF (fax) decoding into PNG page images for the same triage/segmentation path as PDFs.
+import * as UTIF from "utif";
+import { RenderedPage } from "./pipeline.ts";
+import { inkCoverage } from "./pageMarks.ts";
+
+export const TIFF_MIME_TYPE = "image/tiff";
+
+export function isTiffFile(file: { name: string; mimeType: string }): boolean {
+  return file.mimeType === TIFF_MIME_TYPE || /\.tiff?$/i.test(file.name);
+}
+
+function buffer(data: Uint8Array): ArrayBuffer {
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+// Thumbnails and EXIF sub-images are listed as IFDs too; pages are the full-size images.
+function pageIfds(data: Uint8Array): UTIF.IFD[] {
+  return UTIF.decode(buffer(data)).filter(ifd => {
+    const subfileType = (ifd.t254 as number[] | undefined)?.[0] ?? 0;
+    return (subfileType & 1) === 0 && ifd.t256 !== undefined;
+  });
+}
+
+export function tiffPageCount(data: Uint8Array): number {
+  return pageIfds(data).length;
+}
+
+function tagNumber(ifd: UTIF.IFD, tag: string): number | undefined {
+  const v = ifd[tag] as number[] | undefined;
+  return Array.isArray(v) && typeof v[0] === "number" ? v[0] : undefined;
+}
+
+/**
+ * Standard-mode faxes are 204x98 dpi; rows are repeated so the page keeps its proportions.
+ */
+function squarePixels(rgba: Uint8Array, width: number, height: number, ifd: UTIF.IFD) {
+  const xres = tagNumber(ifd, "t282") ?? 0;
+  const yres = tagNumber(ifd, "t283") ?? 0;
+  const factor = xres && yres ? Math.round(xres / yres) : 1;
+  if (factor < 2) return { rgba, width, height };
+
+  const row = width * 4;
+  const out = new Uint8Array(rgba.length * factor);
+  for (let y = 0; y < height; y++) {
+    const src = rgba.subarray(y * row, (y + 1) * row);
+    for (let k = 0; k < factor; k++) out.set(src, (y * factor + k) * row);
+  }
+  return { rgba: out, width, height: height * factor };
+}
+
+// --- PNG encoding (CompressionStream is available in browsers and Node 18+)
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, body: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + body.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, body.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(body, 8);
+  view.setUint32(8 + body.length, crc32(out.subarray(4, 8 + body.length)));
+  return out;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * RGBA to PNG; written as 8-bit grayscale when the page has no color (faxes, most scans).
+ */
+export async function encodePng(rgba: Uint8Array, width: number, height: number): Promise<Uint8Array> {
+  let gray = true;
+  for (let i = 0; i < rgba.length && gray; i += 4) gray = rgba[i] === rgba[i + 1] && rgba[i] === rgba[i + 2];
+  const channels = gray ? 1 : 3;
+
+  const raw = new Uint8Array(height * (1 + width * channels));
+  for (let y = 0, o = 0; y < height; y++) {
+    raw[o++] = 0;   // filter: none
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const a = rgba[i + 3] / 255;   // flatten onto white paper
+      for (let c = 0; c < channels; c++) raw[o++] = Math.round(rgba[i + c] * a + 255 * (1 - a));
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const hv = new DataView(header.buffer);
+  hv.setUint32(0, width);
+  hv.setUint32(4, height);
+  header[8] = 8;
+  header[9] = gray ? 0 : 2;
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", await deflate(raw)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ];
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) {
+    out.set(p, off);
+    off += p.length;
+  }
+  return out;
+}
+
+function bytesToBase64(data: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < data.length; i += 0x8000) binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+/**
+ * Decodes the requested pages at their scanned resolution (there is no vector source to re-render).
+ */
+export async function renderTiffPages(data: Uint8Array, pageIndexes: number[]): Promise<RenderedPage[]> {
+  const ifds = pageIfds(data);
+  const results: RenderedPage[] = [];
+
+  for (const idx of pageIndexes) {
+    const ifd = ifds[idx];
+    if (!ifd) continue;
+    try {
+      UTIF.decodeImage(buffer(data), ifd);
+      const page = squarePixels(UTIF.toRGBA8(ifd), ifd.width as number, ifd.height as number, ifd);
+      const png = await encodePng(page.rgba, page.width, page.height);
+      results.push({
+        pageIndex: idx,
+        base64: bytesToBase64(png),
+        mimeType: "image/png",
+        ink: inkCoverage(page.rgba, page.width, page.height),
+      });
+    } catch (err) {
+      console.error(`Error decoding TIFF page ${idx + 1}:`, err);
+    }
+  }
+  return results;
+}
@@ -0,0 +1,188 @@
+// services/workQueueStore.ts
+// Persistent operator work queue: rows, exports and audit events of the active shift, plus the
+// source files and page images behind each document. "Clear" archives instead of deleting.
+import { POLineRow } from "../types.ts";
+import { POExportV1, AuditEvent } from "./abhSchema.ts";
+import { RenderedPage } from "./pipeline.ts";
+import { openDatabase, idbRequest, withStore, withTransaction } from "./idb.ts";
+
+export type QueueSnapshot = {
+  rows: POLineRow[];
+  po_exports: POExportV1[];
+  audit_events: AuditEvent[];
+  updated_at: string;           // ISO
+};
+
+export type QueueSourceFile = {
+  sha256: string;
+  filename: string;
+  mime_type: string;
+  size: number;
+  blob: Blob;
+  added_at: string;
+};
+
+export type QueueDocument = {
+  doc_id: string;
+  source_sha256: string;
+  filename: string;
+  source_pages?: number[];      // 0-based
+  page_images: RenderedPage[];
+  added_at: string;
+  archive_id?: string;          // set once the document's queue has been archived
+};
+
+export type QueueArchive = QueueSnapshot & {
+  archive_id: string;
+  archived_at: string;
+  reason: string;
+  row_count: number;
+  doc_ids: string[];
+};
+
+export type QueueArchiveSummary = Omit<QueueArchive, "rows" | "po_exports" | "audit_events">;
+
+export interface WorkQueueStore {
+  loadActive(): Promise<QueueSnapshot | null>;
+  saveActive(snapshot: QueueSnapshot): Promise<void>;
+  addSource(file: QueueSourceFile, documents: QueueDocument[]): Promise<void>;
+  getDocument(docId: string): Promise<QueueDocument | null>;
+  getSource(sha256: string): Promise<QueueSourceFile | null>;
+  archiveActive(reason: string): Promise<QueueArchiveSummary | null>;
+  listArchives(): Promise<QueueArchiveSummary[]>;
+  getArchive(archiveId: string): Promise<QueueArchive | null>;
+  purgeArchive(archiveId: string): Promise<void>;
+}
+
+const DB_NAME = "orderflow_work_queue";
+const DB_VERSION = 1;
+const STATE = "state";           // single record under ACTIVE_KEY
+const SOURCES = "sources";       // keyPath sha256
+const DOCUMENTS = "documents";   // keyPath doc_id
+const ARCHIVES = "archives";     // keyPath archive_id
+const ACTIVE_KEY = "active";
+
+function summarize(a: QueueArchive): QueueArchiveSummary {
+  const { rows, po_exports, audit_events, ...summary } = a;
+  return summary;
+}
+
+/**
+ * The archive record of the active snapshot; null when the queue is empty.
+ */
+export function archiveOf(active: QueueSnapshot | undefined, reason: string, archivedAt: string): QueueArchive | null {
+  if (!active || active.rows.length === 0) return null;
+  return {
+    ...active,
+    archive_id: `arch_${archivedAt.replace(/\D/g, "")}`,
+    archived_at: archivedAt,
+    reason,
+    row_count: active.rows.length,
+    doc_ids: Array.from(new Set(active.rows.map(r => r.doc_id))),
+  };
+}
+
+/**
+ * What purging an archive deletes: its documents, and the source files no other document references.
+ */
+export function purgeTargets(docs: QueueDocument[], archiveId: string): { docIds: string[]; sourceSha256s: string[] } {
+  const purged = docs.filter(d => d.archive_id === archiveId);
+  const stillReferenced = new Set(docs.filter(d => d.archive_id !== archiveId).map(d => d.source_sha256));
+  return {
+    docIds: purged.map(d => d.doc_id),
+    sourceSha256s: Array.from(new Set(purged.map(d => d.source_sha256))).filter(sha => !stillReferenced.has(sha)),
+  };
+}
+
+export class IndexedDbWorkQueueStore implements WorkQueueStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(STATE)) db.createObjectStore(STATE);
+        if (!db.objectStoreNames.contains(SOURCES)) db.createObjectStore(SOURCES, { keyPath: "sha256" });
+        if (!db.objectStoreNames.contains(DOCUMENTS)) db.createObjectStore(DOCUMENTS, { keyPath: "doc_id" });
+        if (!db.objectStoreNames.contains(ARCHIVES)) db.createObjectStore(ARCHIVES, { keyPath: "archive_id" });
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async loadActive(): Promise<QueueSnapshot | null> {
+    const db = await this.db();
+    const snap = await withStore(db, STATE, "readonly", s => s.get(ACTIVE_KEY));
+    return (snap as QueueSnapshot) ?? null;
+  }
+
+  async saveActive(snapshot: QueueSnapshot): Promise<void> {
+    const db = await this.db();
+    await withStore(db, STATE, "readwrite", s => s.put(snapshot, ACTIVE_KEY));
+  }
+
+  async addSource(file: QueueSourceFile, documents: QueueDocument[]): Promise<void> {
+    const db = await this.db();
+    await withTransaction(db, [SOURCES, DOCUMENTS], "readwrite", async (tx) => {
+      await idbRequest(tx.objectStore(SOURCES).put(file));
+      for (const d of documents) await idbRequest(tx.objectStore(DOCUMENTS).put(d));
+    });
+  }
+
+  async getDocument(docId: string): Promise<QueueDocument | null> {
+    const db = await this.db();
+    const doc = await withStore(db, DOCUMENTS, "readonly", s => s.get(docId));
+    return (doc as QueueDocument) ?? null;
+  }
+
+  async getSource(sha256: string): Promise<QueueSourceFile | null> {
+    const db = await this.db();
+    const src = await withStore(db, SOURCES, "readonly", s => s.get(sha256));
+    return (src as QueueSourceFile) ?? null;
+  }
+
+  /**
+   * Moves the active snapshot into the archive and tags its documents; returns null when the queue is empty.
+   */
+  async archiveActive(reason: string): Promise<QueueArchiveSummary | null> {
+    const db = await this.db();
+    return withTransaction(db, [STATE, DOCUMENTS, ARCHIVES], "readwrite", async (tx) => {
+      const active = (await idbRequest(tx.objectStore(STATE).get(ACTIVE_KEY))) as QueueSnapshot | undefined;
+      const archive = archiveOf(active, reason, new Date().toISOString());
+      if (!archive) return null;
+
+      await idbRequest(tx.objectStore(ARCHIVES).put(archive));
+      for (const docId of archive.doc_ids) {
+        const doc = (await idbRequest(tx.objectStore(DOCUMENTS).get(docId))) as QueueDocument | undefined;
+        if (doc && !doc.archive_id) await idbRequest(tx.objectStore(DOCUMENTS).put({ ...doc, archive_id: archive.archive_id }));
+      }
+      await idbRequest(tx.objectStore(STATE).delete(ACTIVE_KEY));
+      return summarize(archive);
+    });
+  }
+
+  async listArchives(): Promise<QueueArchiveSummary[]> {
+    const db = await this.db();
+    const all = (await withStore(db, ARCHIVES, "readonly", s => s.getAll())) as QueueArchive[];
+    return all.map(summarize).sort((a, b) => b.archived_at.localeCompare(a.archived_at));
+  }
+
+  async getArchive(archiveId: string): Promise<QueueArchive | null> {
+    const db = await this.db();
+    const a = await withStore(db, ARCHIVES, "readonly", s => s.get(archiveId));
+    return (a as QueueArchive) ?? null;
+  }
+
+  /**
+   * Permanently deletes an archive, its documents and any source file no other document references.
+   */
+  async purgeArchive(archiveId: string): Promise<void> {
+    const db = await this.db();
+    await withTransaction(db, [SOURCES, DOCUMENTS, ARCHIVES], "readwrite", async (tx) => {
+      const docs = (await idbRequest(tx.objectStore(DOCUMENTS).getAll())) as QueueDocument[];
+      const { docIds, sourceSha256s } = purgeTargets(docs, archiveId);
+      for (const docId of docIds) await idbRequest(tx.objectStore(DOCUMENTS).delete(docId));
+      for (const sha of sourceSha256s) await idbRequest(tx.objectStore(SOURCES).delete(sha));
+      await idbRequest(tx.objectStore(ARCHIVES).delete(archiveId));
+    });
+  }
+}
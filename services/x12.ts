@@ -0,0 +1,222 @@
+// services/x12.ts
+// ANSI X12 syntax: delimiter detection, ISA/GS/ST envelopes in and out, control numbers.
+
+export const X12_MIME_TYPE = "application/edi-x12";
+
+export type X12Delimiters = {
+  element: string;
+  component: string;
+  repetition: string;   // ISA11 (a repetition separator from 00402 on, "U" before)
+  segment: string;      // terminator, including a trailing line break when the sender uses one
+};
+
+export type X12Segment = string[];   // [segment id, element 1, element 2, ...]
+
+export type X12Transaction = {
+  set_id: string;           // ST01, e.g. "850"
+  control_no: string;       // ST02
+  segments: X12Segment[];   // between ST and SE
+};
+
+export type X12Group = {
+  functional_id: string;    // GS01, e.g. "PO"
+  sender_code: string;      // GS02
+  receiver_code: string;    // GS03
+  control_no: string;       // GS06
+  version: string;          // GS08, e.g. "004010"
+  transactions: X12Transaction[];
+};
+
+export type X12Interchange = {
+  delimiters: X12Delimiters;
+  sender_qualifier: string;     // ISA05
+  sender_id: string;            // ISA06 (trimmed)
+  receiver_qualifier: string;   // ISA07
+  receiver_id: string;          // ISA08 (trimmed)
+  control_version: string;      // ISA12, e.g. "00401"
+  control_no: string;           // ISA13
+  usage: string;                // ISA15: P(roduction) / T(est)
+  groups: X12Group[];
+};
+
+// Envelope headers without their contents, as kept with a received document for replying.
+export type X12InterchangeHeader = Omit<X12Interchange, "groups">;
+export type X12GroupHeader = Omit<X12Group, "transactions">;
+
+/**
+ * Next interchange (ISA13), group (GS06) and transaction set (ST02) numbers; kept per
+ * workstation / server and advanced on every generated document.
+ */
+export type X12ControlNumbers = {
+  interchange: number;
+  group: number;
+  transaction: number;
+  updated_at?: string;
+};
+
+export const INITIAL_CONTROL_NUMBERS: X12ControlNumbers = { interchange: 1, group: 1, transaction: 1 };
+
+const ISA_LENGTH = 106;
+const MAX_CONTROL_NO = 999999999;
+
+export function isX12File(file: { name: string; mimeType: string }): boolean {
+  return file.mimeType === X12_MIME_TYPE || /\.(edi|x12)$/i.test(file.name);
+}
+
+function detectDelimiters(text: string): X12Delimiters {
+  if (!text.startsWith("ISA") || text.length < ISA_LENGTH) throw new Error("Not an X12 interchange (no ISA segment).");
+  const element = text[3];
+  const isa = text.slice(0, ISA_LENGTH).split(element);
+  if (isa.length !== 17) throw new Error("Malformed ISA segment (expected 16 elements).");
+  const lineBreak = text.slice(ISA_LENGTH).match(/^\r?\n/)?.[0] ?? "";
+  return { element, component: text[104], repetition: isa[11], segment: text[105] + lineBreak };
+}
+
+/**
+ * Every interchange in the text; segments of an ISA are read with that ISA's own delimiters.
+ */
+export function parseX12(input: string): X12Interchange[] {
+  let text = input.replace(/^﻿/, "").trimStart();
+  const out: X12Interchange[] = [];
+
+  while (text.startsWith("ISA")) {
+    const delimiters = detectDelimiters(text);
+    const terminator = delimiters.segment[0];
+    const end = text.search(new RegExp(`IEA\\${delimiters.element}[^\\${terminator}]*\\${terminator}`));
+    const body = end >= 0 ? text.slice(0, end + text.slice(end).indexOf(terminator) + 1) : text;
+    text = end >= 0 ? text.slice(body.length).trimStart() : "";
+
+    const segments = body
+      .split(terminator)
+      .map(s => s.replace(/^[\r\n]+|[\r\n]+$/g, ""))
+      .filter(Boolean)
+      .map(s => s.split(delimiters.element));
+
+    const isa = segments[0];
+    const interchange: X12Interchange = {
+      delimiters,
+      sender_qualifier: isa[5],
+      sender_id: isa[6].trim(),
+      receiver_qualifier: isa[7],
+      receiver_id: isa[8].trim(),
+      control_version: isa[12],
+      control_no: isa[13],
+      usage: isa[15],
+      groups: [],
+    };
+
+    let group: X12Group | null = null;
+    let tx: X12Transaction | null = null;
+    for (const seg of segments.slice(1)) {
+      switch (seg[0]) {
+        case "GS":
+          group = { functional_id: seg[1], sender_code: seg[2], receiver_code: seg[3], control_no: seg[6], version: seg[8], transactions: [] };
+          interchange.groups.push(group);
+          break;
+        case "ST":
+          if (!group) throw new Error(`ST ${seg[2]} outside a functional group.`);
+          tx = { set_id: seg[1], control_no: seg[2], segments: [] };
+          group.transactions.push(tx);
+          break;
+        case "SE":
+          if (tx && Number(seg[1]) !== tx.segments.length + 2) {
+            throw new Error(`Transaction ${tx.control_no}: SE counts ${seg[1]} segments, found ${tx.segments.length + 2}.`);
+          }
+          tx = null;
+          break;
+        case "GE":
+          group = null;
+          break;
+        case "IEA":
+          break;
+        default:
+          if (tx) tx.segments.push(seg);
+      }
+    }
+    out.push(interchange);
+  }
+  if (out.length === 0) throw new Error("Not an X12 interchange (no ISA segment).");
+  return out;
+}
+
+function controlNo(n: number, width: number): string {
+  return String(((n - 1) % MAX_CONTROL_NO) + 1).padStart(width, "0");
+}
+
+// ISA06 / ISA08 are fixed at 15 characters; a longer ID would shift every later ISA element.
+function isaId(id: string): string {
+  return id.slice(0, 15).padEnd(15);
+}
+
+function x12Date(d: Date): { ccyymmdd: string; yymmdd: string; hhmm: string } {
+  const p = (n: number) => String(n).padStart(2, "0");
+  const ccyymmdd = `${d.getFullYear()}${p(d.getMonth() + 1)}${p(d.getDate())}`;
+  return { ccyymmdd, yymmdd: ccyymmdd.slice(2), hhmm: `${p(d.getHours())}${p(d.getMinutes())}` };
+}
+
+/**
+ * One transaction set wrapped in its own ISA/GS envelope, addressed back to the partner of
+ * `reply`; returns the text and the advanced control numbers.
+ */
+export function writeX12Interchange(args: {
+  reply: X12InterchangeHeader;
+  replyGroup: X12GroupHeader;
+  functionalId: string;       // GS01 of the outbound document, e.g. "PR" for an 855
+  setId: string;              // ST01, e.g. "855"
+  segments: X12Segment[];     // between ST and SE
+  control: X12ControlNumbers;
+  now?: Date;
+}): { text: string; control: X12ControlNumbers; interchangeControlNo: string; transactionControlNo: string } {
+  const { reply, replyGroup, control } = args;
+  const { element, component, repetition, segment } = reply.delimiters;
+  const at = x12Date(args.now ?? new Date());
+  const isa13 = controlNo(control.interchange, 9);
+  const gs06 = String(((control.group - 1) % MAX_CONTROL_NO) + 1);
+  const st02 = controlNo(control.transaction, 4);
+
+  const body: X12Segment[] = [["ST", args.setId, st02], ...args.segments];
+  body.push(["SE", String(body.length + 1), st02]);
+
+  const all: X12Segment[] = [
+    [
+      "ISA", "00", "".padEnd(10), "00", "".padEnd(10),
+      reply.receiver_qualifier, isaId(reply.receiver_id),
+      reply.sender_qualifier, isaId(reply.sender_id),
+      at.yymmdd, at.hhmm, repetition, reply.control_version, isa13, "0", reply.usage, component,
+    ],
+    ["GS", args.functionalId, replyGroup.receiver_code, replyGroup.sender_code, at.ccyymmdd, at.hhmm, gs06, "X", replyGroup.version],
+    ...body,
+    ["GE", "1", gs06],
+    ["IEA", "1", isa13],
+  ];
+
+  return {
+    text: all.map(s => s.join(element)).join(segment) + segment,
+    control: {
+      interchange: control.interchange + 1,
+      group: control.group + 1,
+      transaction: control.transaction + 1,
+      updated_at: new Date().toISOString(),
+    },
+    interchangeControlNo: isa13,
+    transactionControlNo: st02,
+  };
+}
+
+/**
+ * Strips characters that would be read as delimiters from free text written into an element.
+ */
+export function x12Text(value: string | undefined, d: X12Delimiters, max = 80): string {
+  const banned = new Set([d.element, d.component, d.segment[0], d.repetition.length === 1 && d.repetition !== "U" ? d.repetition : ""]);
+  return Array.from((value ?? "").replace(/[\r\n]+/g, " ")).filter(c => !banned.has(c)).join("").trim().slice(0, max);
+}
+
+export function x12DateToIso(ccyymmdd?: string): string | undefined {
+  const m = (ccyymmdd ?? "").match(/^(\d{4})(\d{2})(\d{2})$/);
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : undefined;
+}
+
+export function isoToX12Date(iso?: string): string {
+  const m = (iso ?? "").match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return m ? `${m[1]}${m[2]}${m[3]}` : x12Date(new Date()).ccyymmdd;
+}
@@ -0,0 +1,109 @@
+// services/zipArchive.ts
+// Minimal ZIP reader (stored and deflated members) on the web-standard DecompressionStream,
+// so the browser and the CLI expand customer archives the same way.
+
+export type ZipEntry = {
+  path: string;          // member path inside the archive, "/"-separated
+  data: Uint8Array;
+};
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const MAX_COMMENT = 0xffff;
+
+// Guards against archive bombs; customer PO bundles are a few MB.
+const MAX_TOTAL_BYTES = 512 * 1024 * 1024;
+
+const ZIP_MIME_TYPES = ["application/zip", "application/x-zip-compressed"];
+
+// By type or name only: XLSX files are ZIP containers too.
+export function isZipFile(file: { name: string; mimeType: string }): boolean {
+  return ZIP_MIME_TYPES.includes(file.mimeType) || /\.zip$/i.test(file.name);
+}
+
+class ZipSizeLimitError extends Error {
+  constructor() {
+    super("ZIP archive expands beyond the size limit.");
+    this.name = "ZipSizeLimitError";
+  }
+}
+
+/**
+ * Inflates one member, cancelling the stream once more than `budget` bytes come out; the sizes
+ * in the central directory are the archive's own claim and are not trusted.
+ */
+async function inflateRaw(data: Uint8Array, budget: number): Promise<Uint8Array> {
+  const reader = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream("deflate-raw")).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > budget) {
+      await reader.cancel();
+      throw new ZipSizeLimitError();
+    }
+    chunks.push(value);
+  }
+  const out = new Uint8Array(length);
+  let pos = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, pos);
+    pos += chunk.byteLength;
+  }
+  return out;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const min = Math.max(0, view.byteLength - 22 - MAX_COMMENT);
+  for (let off = view.byteLength - 22; off >= min; off--) {
+    if (view.getUint32(off, true) === END_OF_CENTRAL_DIR) return off;
+  }
+  throw new Error("Not a ZIP archive (no central directory).");
+}
+
+/**
+ * Files of the archive in central-directory order; directories, macOS resource forks and
+ * encrypted members are skipped. Throws once the inflated members pass `maxBytes` in total.
+ */
+export async function readZipEntries(data: Uint8Array, maxBytes = MAX_TOTAL_BYTES): Promise<ZipEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  const count = view.getUint16(eocd + 10, true);
+  let off = view.getUint32(eocd + 16, true);
+  if (off === 0xffffffff) throw new Error("ZIP64 archives are not supported.");
+
+  const entries: ZipEntry[] = [];
+  let total = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(off, true) !== CENTRAL_HEADER) throw new Error("Corrupt ZIP central directory.");
+    const flags = view.getUint16(off + 8, true);
+    const method = view.getUint16(off + 10, true);
+    const compressedSize = view.getUint32(off + 20, true);
+    const nameLen = view.getUint16(off + 28, true);
+    const extraLen = view.getUint16(off + 30, true);
+    const commentLen = view.getUint16(off + 32, true);
+    const localOffset = view.getUint32(off + 42, true);
+    const nameBytes = data.subarray(off + 46, off + 46 + nameLen);
+    // Bit 11 marks UTF-8 names; older tools write CP437, which is ASCII for typical file names.
+    const path = new TextDecoder(flags & 0x800 ? "utf-8" : "latin1").decode(nameBytes).replace(/\\/g, "/");
+    off += 46 + nameLen + extraLen + commentLen;
+
+    if (path.endsWith("/") || path.startsWith("__MACOSX/") || path.split("/").pop()!.startsWith("._")) continue;
+    if (flags & 0x1) continue;
+    if (method !== 0 && method !== 8) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER) throw new Error(`Corrupt ZIP entry: ${path}`);
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = data.subarray(start, start + compressedSize);
+    const budget = maxBytes - total;
+    if (method === 0 && raw.byteLength > budget) throw new ZipSizeLimitError();
+    const member = method === 0 ? raw.slice() : await inflateRaw(raw, budget);
+    total += member.byteLength;
+    entries.push({ path, data: member });
+  }
+  return entries;
+}
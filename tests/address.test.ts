@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatAddress, normalizeAddress } from "../services/addressNormalize.ts";
+import { geminiResultToPOLineRows } from "../services/mappingService.ts";
+import { GeminiParsingResult } from "../types.ts";
+import { DEFAULT_POLICY } from "../policy/policyStore.ts";
+import { loadFixtureSet } from "./fixtures.ts";
+
+test("US addresses get state codes, ZIP+4 and the suite on line2", () => {
+  const { address, warnings } = normalizeAddress({ line1: "12 Main St., Suite 4", city: "Plano", state: "texas", postal_code: "75074 1234" });
+  assert.deepEqual(address, { line1: "12 Main St.", line2: "Suite 4", city: "Plano", state: "TX", postal_code: "75074-1234", country: "US" });
+  assert.deepEqual(warnings, []);
+  assert.equal(formatAddress(address), "12 Main St., Suite 4, Plano, TX 75074-1234, US");
+
+  // A ZIP that lost its leading zero in a spreadsheet.
+  assert.equal(normalizeAddress({ city: "Newark", state: "N.J.", postal_code: "7102" }).address.postal_code, "07102");
+  assert.equal(normalizeAddress({ city: "Boston", state: "Mass", postal_code: "02110" }).address.state, "MA");
+});
+
+test("Canadian addresses get province codes and the A1A 1A1 postal format", () => {
+  const { address, warnings } = normalizeAddress({ line1: "200 King St W Unit 7", city: "Toronto", state: "Ontario", postal_code: "m5h3t4", country: "Canada" });
+  assert.deepEqual(address, { line1: "200 King St W", line2: "Unit 7", city: "Toronto", state: "ON", postal_code: "M5H 3T4", country: "CA" });
+  assert.deepEqual(warnings, []);
+  assert.equal(normalizeAddress({ city: "Montréal", state: "PQ", postal_code: "H2X-1Y4" }).address.country, "CA");
+});
+
+test("a whole last line left in the city is split, and street names are not mistaken for units", () => {
+  assert.deepEqual(normalizeAddress({ line1: "1 Bay St", city: "New York NY 10001" }).address, { line1: "1 Bay St", city: "New York", state: "NY", postal_code: "10001", country: "US" });
+  assert.deepEqual(normalizeAddress({ line1: "455 Rue Ste-Catherine", city: "Laval, QC H7N 5N1" }).address, { line1: "455 Rue Ste-Catherine", city: "Laval", state: "QC", postal_code: "H7N 5N1", country: "CA" });
+});
+
+test("what does not normalize is reported, and the lines are marked for review", () => {
+  assert.deepEqual(normalizeAddress({ city: "Springfield", state: "XX", postal_code: "12" }).warnings, ['Unknown state/province "XX"']);
+  assert.deepEqual(normalizeAddress({ city: "Plano", state: "TX", postal_code: "7507", country: "CA" }).warnings, [
+    "State/province TX is in US, not CA",
+    'Postal code "7507" is not a valid CA format',
+  ]);
+
+  const [doc] = loadFixtureSet("replay.json").fixtures["po.png"].documents;
+  const parsed = {
+    documents: [{ ...doc, order: { ...doc.order, addresses: { ship_to: { line1: "12 Main St", city: "Plano", state: "TX", postal_code: "750" } } } }],
+  } as GeminiParsingResult;
+  const [row] = geminiResultToPOLineRows({ parsed, sourceFileStem: "po", policy: DEFAULT_POLICY });
+  assert.equal(row.ship_to_address_raw, "12 Main St, Plano, TX 750, US");
+  assert.ok(row.fields_requiring_review?.includes("ship_to_address_raw"));
+  assert.match(row.raw_edge_case_notes ?? "", /Ship-to: Postal code "750" is not a valid US format/);
+});
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import { readFileSync } from "node:fs";
+import { AddressInfo } from "node:net";
+import { ApiServerOptions, createApiServer } from "../cli/httpServer.ts";
+import { FixtureReplayExtractionProvider } from "../services/extractionProviders.ts";
+import { PipelineOptions } from "../services/pipeline.ts";
+import { DEFAULT_POLICY } from "../policy/policyStore.ts";
+import { loadFixtureSet } from "./fixtures.ts";
+
+const X12 = readFileSync(new URL("./fixtures/zenith-850.edi", import.meta.url));
+const TOKEN = "s3cret";
+const AUTH = { authorization: `Bearer ${TOKEN}` };
+
+async function withServer(opts: Partial<ApiServerOptions>, run: (base: string) => Promise<void>) {
+  const server = createApiServer({
+    token: TOKEN,
+    maxBodyBytes: 4096,
+    log: () => {},
+    loadPipeline: async (): Promise<PipelineOptions> => ({
+      policy: DEFAULT_POLICY,
+      provider: new FixtureReplayExtractionProvider(loadFixtureSet("empty.json")),
+      pdf: {} as PipelineOptions["pdf"],
+    }),
+    ...opts,
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+test("requests need the bearer token", async () => {
+  await withServer({}, async (base) => {
+    assert.equal((await fetch(`${base}/v1/policy`)).status, 401);
+    assert.equal((await fetch(`${base}/v1/policy`, { headers: { authorization: "Bearer s3cre" } })).status, 401);
+    assert.equal((await fetch(`${base}/v1/policy`, { headers: { authorization: `Bearer ${TOKEN}x` } })).status, 401);
+    const res = await fetch(`${base}/v1/policy`, { headers: AUTH });
+    assert.equal(res.status, 200);
+    assert.equal((await res.json()).policy.meta.version, DEFAULT_POLICY.meta.version);
+  });
+});
+
+test("an oversize body gets its 413 response, with or without Content-Length", async () => {
+  await withServer({}, async (base) => {
+    const declared = await fetch(`${base}/v1/parse?filename=big.csv`, { method: "POST", headers: { ...AUTH, "content-type": "text/csv" }, body: "x".repeat(10_000) });
+    assert.equal(declared.status, 413);
+    assert.match((await declared.json()).error, /exceeds 4096 bytes/);
+
+    // Chunked: the limit is only noticed while reading.
+    const chunked = await new Promise<{ status?: number; body: string }>((resolve, reject) => {
+      const req = http.request(`${base}/v1/parse?filename=big.csv`, { method: "POST", headers: { ...AUTH, "content-type": "text/csv" } }, (res) => {
+        let body = "";
+        res.on("data", (c) => (body += c));
+        res.on("end", () => resolve({ status: res.statusCode, body }));
+      });
+      req.on("error", reject);
+      for (let i = 0; i < 4; i++) req.write("x".repeat(2048));
+      req.end();
+    });
+    assert.equal(chunked.status, 413);
+    assert.match(JSON.parse(chunked.body).error, /exceeds 4096 bytes/);
+  });
+});
+
+test("an EDI upload parses synchronously or as a job", async () => {
+  await withServer({ maxBodyBytes: undefined }, async (base) => {
+    const sync = await fetch(`${base}/v1/parse?filename=zenith-850.edi`, { method: "POST", headers: { ...AUTH, "content-type": "application/edi-x12" }, body: X12 });
+    assert.equal(sync.status, 200);
+    assert.deepEqual((await sync.json()).map((d: any) => d.order.customer_order_no), ["ZB-1001"]);
+
+    const queued = await fetch(`${base}/v1/parse?filename=zenith-850.edi&async=true`, { method: "POST", headers: AUTH, body: X12 });
+    assert.equal(queued.status, 202);
+    const { status_url } = await queued.json();
+    let job: any;
+    for (let i = 0; i < 50 && job?.status !== "SUCCEEDED"; i++) {
+      job = await (await fetch(`${base}${status_url}`, { headers: AUTH })).json();
+      if (job.status !== "SUCCEEDED") await new Promise(r => setTimeout(r, 20));
+    }
+    assert.equal(job.status, "SUCCEEDED");
+    assert.equal(job.result[0].order.customer_order_no, "ZB-1001");
+  });
+});
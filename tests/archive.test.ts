@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { deflateRawSync } from "node:zlib";
+import { readZipEntries } from "../services/zipArchive.ts";
+import { loadFixtureSet, processWithReplay } from "./fixtures.ts";
+
+const X12 = readFileSync(new URL("./fixtures/zenith-850.edi", import.meta.url));
+
+/**
+ * A one-member ZIP. `declaredSize` is what the central directory claims; the reader does not
+ * check CRCs, so none are written.
+ */
+function zipOf(path: string, data: Uint8Array, declaredSize = data.byteLength): Uint8Array {
+  const name = new TextEncoder().encode(path);
+  const body = deflateRawSync(data);
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(body.byteLength, 18);
+  local.writeUInt32LE(declaredSize, 22);
+  local.writeUInt16LE(name.byteLength, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(body.byteLength, 20);
+  central.writeUInt32LE(declaredSize, 24);
+  central.writeUInt16LE(name.byteLength, 28);
+  const centralOffset = local.byteLength + name.byteLength + body.byteLength;
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 8);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.byteLength + name.byteLength, 12);
+  eocd.writeUInt32LE(centralOffset, 16);
+  return Buffer.concat([local, name, body, central, name, eocd]);
+}
+
+function nested(levels: number): Uint8Array {
+  let data: Uint8Array = zipOf("zenith-850.edi", X12);
+  for (let i = 1; i < levels; i++) data = zipOf(`level-${i}.zip`, data);
+  return data;
+}
+
+test("the size limit counts inflated bytes, not the declared size", async () => {
+  const bomb = zipOf("po.csv", new Uint8Array(64 * 1024), 10);
+  await assert.rejects(readZipEntries(bomb, 32 * 1024), /size limit/);
+  const [entry] = await readZipEntries(bomb, 128 * 1024);
+  assert.equal(entry.data.byteLength, 64 * 1024);
+});
+
+test("nested archives are expanded up to the depth limit", async () => {
+  const { rows } = await processWithReplay({ name: "batch.zip", data: nested(4) }, loadFixtureSet("empty.json"));
+  assert.deepEqual(rows.map(r => r.customer_order_no), ["ZB-1001"]);
+  assert.match(rows[0].archive_path ?? "", /^batch\.zip\/level-3\.zip\/.*zenith-850\.edi$/);
+
+  await assert.rejects(
+    processWithReplay({ name: "batch.zip", data: nested(5) }, loadFixtureSet("empty.json")),
+    /nested more than 4 archives or emails deep/
+  );
+});
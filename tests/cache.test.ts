@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CacheMissError, CachedResponse, ResponseCacheMode, ResponseCacheStore, withResponseCache } from "../services/responseCache.ts";
+import { ExtractionProvider, ExtractionRequest, FixtureReplayExtractionProvider } from "../services/extractionProviders.ts";
+import { loadFixtureSet, processWithReplay } from "./fixtures.ts";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+class MemoryCacheStore implements ResponseCacheStore {
+  readonly entries = new Map<string, CachedResponse>();
+  async get(key: string) { return this.entries.get(key) ?? null; }
+  async put(entry: CachedResponse) { this.entries.set(entry.key, entry); }
+  async count() { return this.entries.size; }
+  async clear() { this.entries.clear(); }
+}
+
+// Answers every request with the next of `texts`, counting calls.
+function scriptedProvider(...texts: string[]): ExtractionProvider & { calls: number } {
+  return {
+    id: "GEMINI",
+    modelId: "test-model",
+    calls: 0,
+    async generate() {
+      return { text: texts[this.calls++ % texts.length], provider: "GEMINI", model_id: "test-model" };
+    },
+  };
+}
+
+const request = (base64 = "AAAA", prompt = "Extract the PO"): ExtractionRequest => ({
+  prompt,
+  parts: [{ mimeType: "image/png", base64 }],
+  responseSchema: { type: "OBJECT" },
+});
+
+test("read-through serves a hit without calling the model; images and prompt are part of the key", async () => {
+  const store = new MemoryCacheStore();
+  const model = scriptedProvider('{"documents":[1]}', '{"documents":[2]}', '{"documents":[3]}');
+  const cached = withResponseCache(model, store, "READ_THROUGH");
+
+  assert.equal((await cached.generate(request())).text, '{"documents":[1]}');
+  assert.equal((await cached.generate(request())).text, '{"documents":[1]}');
+  assert.equal(model.calls, 1);
+
+  assert.equal((await cached.generate(request("BBBB"))).text, '{"documents":[2]}');
+  assert.equal((await cached.generate(request("AAAA", "Extract the invoice"))).text, '{"documents":[3]}');
+  assert.equal(await store.count(), 3);
+});
+
+test("replay-only fails on a miss; record-only always calls and overwrites", async () => {
+  const store = new MemoryCacheStore();
+  const model = scriptedProvider("first", "second");
+  const modes = (mode: ResponseCacheMode) => withResponseCache(model, store, mode);
+
+  await assert.rejects(modes("REPLAY_ONLY").generate(request()), CacheMissError);
+  assert.equal(model.calls, 0);
+
+  assert.equal((await modes("RECORD_ONLY").generate(request())).text, "first");
+  assert.equal((await modes("RECORD_ONLY").generate(request())).text, "second");
+  assert.equal((await modes("REPLAY_ONLY").generate(request())).text, "second");
+  assert.equal(model.calls, 2);
+  assert.equal(withResponseCache(model, store, "OFF"), model);
+});
+
+test("a file parsed twice through the cache gives the same rows from one model call", async () => {
+  const replay = new FixtureReplayExtractionProvider(loadFixtureSet("replay.json"));
+  let calls = 0;
+  const counting: ExtractionProvider = { id: replay.id, modelId: replay.modelId, generate: (req) => (calls++, replay.generate(req)) };
+  const provider = withResponseCache(counting, new MemoryCacheStore(), "READ_THROUGH");
+
+  const first = await processWithReplay({ name: "po.png", data: PNG }, loadFixtureSet("replay.json"), { provider });
+  const second = await processWithReplay({ name: "po.png", data: PNG }, loadFixtureSet("replay.json"), { provider });
+  assert.equal(calls, 1);
+  assert.deepEqual(second.rows, first.rows);
+  assert.equal(first.rows[0].customer_order_no, "ZB-1001");
+});
@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  classifyPage,
+  emptyPageClassifier,
+  isClassifierReady,
+  pageTokens,
+  parsePageClassifier,
+  trainPageClassifier,
+} from "../services/pageClassifier.ts";
+import { triagePages } from "../services/pdfPacketTriage.ts";
+
+const PICKS = [
+  "Pick list bin A-12 picker initials staged dock 3 qty picked 4 ND50PD",
+  "Bin B-07 pick qty 2 picker JM staged for route 14 4040XP closer",
+  "Warehouse pick ticket bin C-01 picked by RL staged at dock 2 qty 6",
+];
+const QUOTES = [
+  "Quotation valid for 30 days prices subject to change lead time 3 weeks",
+  "Quote Q-5521 valid until 11/30 pricing subject to change freight not included",
+  "Estimate for door hardware valid 45 days lead time subject to approval",
+];
+
+const trained = () => trainPageClassifier(emptyPageClassifier(), [
+  ...PICKS.map(text => ({ text, label: "PICKING_SHEET" as const })),
+  ...QUOTES.map(text => ({ text, label: "SALES_ORDER" as const })),
+]);
+
+test("training counts distinct words per page and skips pages with too little text", () => {
+  assert.deepEqual(pageTokens("Pick 12 pick PICKER's bin"), ["PICK", "PICKERS", "BIN"]);
+
+  const once = trainPageClassifier(emptyPageClassifier(), [{ text: PICKS[0], label: "PICKING_SHEET" }, { text: "blank", label: "INVOICE" }]);
+  assert.equal(once.version, 1);
+  assert.deepEqual(Object.keys(once.labels), ["PICKING_SHEET"]);
+  assert.equal(once.labels.PICKING_SHEET?.tokens.PICK, 1);
+  assert.equal(trainPageClassifier(once, [{ text: "x", label: "INVOICE" }]), once);
+
+  // Not used until it has seen four pages of at least two labels.
+  assert.equal(isClassifierReady(once), false);
+  assert.equal(classifyPage(once, PICKS[1]), null);
+  assert.equal(isClassifierReady(trained()), true);
+});
+
+test("a trained model names the label and the words that decided it", () => {
+  const prediction = classifyPage(trained(), "Bin D-4 picked by TK staged dock 1 qty 3");
+  assert.equal(prediction?.label, "PICKING_SHEET");
+  assert.ok(prediction!.probability > 0.9);
+  assert.ok(prediction!.features.includes("STAGED"));
+  assert.equal(classifyPage(trained(), "Prices valid 30 days, subject to change")?.label, "SALES_ORDER");
+});
+
+test("in triage the model classifies header-less pages but does not outvote a header", () => {
+  const model = trained();
+  const classifier = (text: string) => classifyPage(model, text);
+  const headerless = "Bin D-4 picked by TK staged dock 1 qty 3";
+
+  assert.equal(triagePages([headerless])[0].label, "UNKNOWN");
+  const [rescued] = triagePages([headerless], undefined, { classifier });
+  assert.equal(rescued.label, "PICKING_SHEET");
+  assert.match(rescued.reasons.join(" "), /MODEL:PICKING_SHEET=\d\.\d\d MODEL_FEATURES:.*STAGED/);
+
+  const [headed] = triagePages([`PURCHASE ORDER 7781 ${headerless}`], undefined, { classifier });
+  assert.equal(headed.label, "PURCHASE_ORDER");
+});
+
+test("exported weights import on another workstation; other JSON is refused", () => {
+  const model = trained();
+  assert.deepEqual(parsePageClassifier(JSON.parse(JSON.stringify(model))), model);
+  assert.throws(() => parsePageClassifier({ kind: "svm", labels: {} }), /multinomial_nb/);
+  assert.throws(() => parsePageClassifier({ kind: "multinomial_nb", labels: { INVOICE: { pages: "3" } } }), /label INVOICE/);
+});
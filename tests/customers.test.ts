@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  PAYMENT_TERMS_MISMATCH_FLAG,
+  UNKNOWN_CUSTOMER_FLAG,
+  UNKNOWN_SHIP_TO_FLAG,
+  matchShipTo,
+  resolveCustomer,
+  resolveCustomerAccounts,
+} from "../services/customerResolution.ts";
+import { CustomerMaster } from "../customerMaster.schema.ts";
+import { lineRow } from "./fixtures.ts";
+
+const MASTER: CustomerMaster = {
+  version: "test-1",
+  accounts: [
+    {
+      account_id: "C100",
+      name: "Zenith Builders, Inc.",
+      aliases: ["ZB Construction"],
+      email_domains: ["zenithbuilders.com"],
+      ship_tos: [{ ship_to_id: "ST-1", address: { line1: "12 Main St", line2: "Suite 4", city: "Plano", state: "TX", postal_code: "75074", country: "US" } }],
+      default_terms: "NET 30",
+    },
+    { account_id: "C200", name: "Acme Door Co", aliases: [], email_domains: ["acmedoor.com"], ship_tos: [] },
+  ],
+};
+
+test("customers resolve by account id, name, alias and sender domain", () => {
+  assert.deepEqual(resolveCustomer(MASTER, { account_id: "c100" }).methods, ["ACCOUNT_ID"]);
+  assert.equal(resolveCustomer(MASTER, { name: "The Zenith Builders" }).account?.account_id, "C100");
+  assert.deepEqual(resolveCustomer(MASTER, { name: "ZB Construction" }).methods, ["ALIAS"]);
+  assert.equal(resolveCustomer(MASTER, { from_address: "buyer@ap.acmedoor.com" }).account?.account_id, "C200");
+
+  const unknown = resolveCustomer(MASTER, { name: "Summit Hardware" });
+  assert.equal(unknown.account, undefined);
+  assert.ok(unknown.score < 0.8);
+});
+
+test("ship-tos match on postal code and street, however the street is written", () => {
+  const [account] = MASTER.accounts;
+  assert.equal(matchShipTo(account, { line1: "12 Main Street Ste 4", city: "Plano", state: "Texas", postal_code: "75074-1234" }).ship_to?.ship_to_id, "ST-1");
+  assert.equal(matchShipTo(account, { line1: "12 Main St", city: "Plano", state: "TX", postal_code: "75075" }).ship_to, undefined);
+});
+
+test("rows get the account, its ship-to and a match signal; unknown customers and ship-tos are flagged", () => {
+  const [known] = resolveCustomerAccounts([
+    lineRow({ customer_name: "Zenith Builders", ship_to_address: { line1: "12 Main St", city: "Plano", state: "TX", postal_code: "75074" } }),
+  ], { master: MASTER });
+  assert.deepEqual([known.customer_account_id, known.customer_name, known.ship_to_id, known.payment_terms], ["C100", "Zenith Builders, Inc.", "ST-1", "NET 30"]);
+  assert.equal(known.signals?.[0].type, "CUSTOMER_ACCOUNT_MATCH");
+  assert.deepEqual(known.edge_case_flags, []);
+
+  const [elsewhere] = resolveCustomerAccounts([
+    lineRow({ ship_to_address: { line1: "900 Elm Ave", city: "Austin", state: "TX", postal_code: "78701" } }),
+  ], { master: MASTER });
+  assert.deepEqual(elsewhere.edge_case_flags, [UNKNOWN_SHIP_TO_FLAG]);
+
+  const [stranger] = resolveCustomerAccounts([lineRow({ customer_name: "Summit Hardware" })], { master: MASTER });
+  assert.deepEqual(stranger.edge_case_flags, [UNKNOWN_CUSTOMER_FLAG]);
+});
+
+test("printed payment terms are kept, and flagged when they differ from the account's", () => {
+  const [same] = resolveCustomerAccounts([lineRow({ payment_terms: "Net-30" })], { master: MASTER });
+  assert.deepEqual([same.payment_terms, same.edge_case_flags], ["Net-30", []]);
+
+  const [other] = resolveCustomerAccounts([lineRow({ payment_terms: "Net 45" })], { master: MASTER });
+  assert.equal(other.payment_terms, "Net 45");
+  assert.deepEqual(other.edge_case_flags, [PAYMENT_TERMS_MISMATCH_FLAG]);
+  assert.match(other.raw_edge_case_notes ?? "", /"Net 45" differ from C100 default "NET 30"/);
+});
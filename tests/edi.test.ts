@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { EDI_850_EVENT, build855, edi850ForDocument, edi850ToPOExport, readEdi850s } from "../services/ediTransactions.ts";
+import { INITIAL_CONTROL_NUMBERS, parseX12 } from "../services/x12.ts";
+import { loadFixtureSet, processWithReplay } from "./fixtures.ts";
+
+const X12 = readFileSync(new URL("./fixtures/zenith-850.edi", import.meta.url));
+
+test("an X12 850 is read into its order, parties and lines", () => {
+  const [order] = readEdi850s({ name: "zenith-850.edi", data: X12 });
+  assert.equal(order.purpose, "00");
+  assert.equal(order.po_number, "ZB-1001");
+  assert.equal(order.po_date, "2026-10-19");
+  assert.deepEqual(order.lines.map(l => [l.line_id, l.qty, l.uom, l.unit_price, l.product_ids.BP, l.description]), [
+    ["1", 4, "EA", 212, "ND50PD", "Schlage ND50PD lever US26D"],
+  ]);
+});
+
+test("an 850 maps to abh.po.v1 at full confidence", () => {
+  const [order] = readEdi850s({ name: "zenith-850.edi", data: X12 });
+  const doc = edi850ToPOExport(order);
+  assert.equal(doc.document.document_type, "PURCHASE_ORDER");
+  assert.equal(doc.parties.customer.name, "Zenith Builders");
+  assert.equal(doc.order.customer_order_no, "ZB-1001");
+  assert.deepEqual(doc.line_items.map(li => [li.line_id, li.parsed.customer_item_no, li.parsed.quantity, li.parsed.extended_price]), [
+    ["ZB-1001-1", "ND50PD", 4, 848],
+  ]);
+  assert.equal(doc.line_items[0].confidence.line_confidence, 1);
+});
+
+test("an 850 runs through the pipeline without the model and acknowledges from its audit trail", async () => {
+  // The empty fixture set fails any model call: EDI must not need one.
+  const { rows, auditEvents } = await processWithReplay({ name: "zenith-850.edi", data: X12 }, loadFixtureSet("empty.json"));
+  assert.equal(rows.length, 1);
+  assert.equal(rows[0].customer_order_no, "ZB-1001");
+  assert.equal(rows[0].automation_lane, "AUTO");
+
+  const order = edi850ForDocument(auditEvents, rows[0].doc_id);
+  assert.ok(auditEvents.some(e => e.event_type === EDI_850_EVENT));
+  assert.ok(order);
+  const { document } = build855({ docId: rows[0].doc_id, order, rows, control: INITIAL_CONTROL_NUMBERS, now: new Date("2026-10-20T00:00:00Z") });
+  assert.match(document.x12, /BAK\*00\*AD\*ZB-1001\*20261019/);
+  assert.match(document.x12, /ACK\*IA\*4\*EA/);
+});
+
+test("outbound IDs are cut to their element size and cleared of delimiters", async () => {
+  const { rows, auditEvents } = await processWithReplay({ name: "zenith-850.edi", data: X12 }, loadFixtureSet("empty.json"));
+  const order = edi850ForDocument(auditEvents, rows[0].doc_id)!;
+  order.envelope = { ...order.envelope, receiver_id: "ABH-HARDWARE-SUPPLY-CO" };
+  order.lines[0].product_ids.BP = "ND50*PD~";
+  const reviewed = [{ ...rows[0], abh_item_no_final: "SCH>ND50PD\n626" }];
+  const { document } = build855({ docId: rows[0].doc_id, order, rows: reviewed, control: INITIAL_CONTROL_NUMBERS });
+
+  const [isa] = document.x12.split("~");
+  assert.equal(isa.length, 105);
+  assert.equal(isa.split("*")[6], "ABH-HARDWARE-SU");
+  const [interchange] = parseX12(document.x12);
+  const po1 = interchange.groups[0].transactions[0].segments.find(s => s[0] === "PO1");
+  assert.deepEqual(po1?.slice(6), ["BP", "ND50PD", "VP", "SCHND50PD 626"]);
+});
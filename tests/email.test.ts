@@ -0,0 +1,150 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseEmail } from "../services/emailIngest.ts";
+import { ExtractionFixtureSet } from "../extraction/extractionSettings.ts";
+import { fakePdf, loadFixtureSet, processWithReplay } from "./fixtures.ts";
+
+const PO_PAGE = "PURCHASE ORDER ZB-1001 Zenith Builders Ship To: 12 Main St Line 1 ND50PD Schlage lever 4 EA 212.00";
+
+// The recorded PO, answered for the PDF attachment.
+const replay = loadFixtureSet("replay.json");
+const FIXTURES: ExtractionFixtureSet = { ...replay, fixtures: { "PO.pdf": replay.fixtures["po.png"] } };
+
+function eml(pdfHeaders: string[]): Uint8Array {
+  return new TextEncoder().encode([
+    "From: Buyer <buyer@zenithbuilders.com>",
+    "To: orders@abh.com",
+    "Subject: PO ZB-1001",
+    "Date: Mon, 19 Oct 2026 09:00:00 -0400",
+    "Message-ID: <po-1@zenithbuilders.com>",
+    "MIME-Version: 1.0",
+    'Content-Type: multipart/related; boundary="b1"',
+    "",
+    "--b1",
+    "Content-Type: text/html; charset=utf-8",
+    "",
+    '<p>PO attached.</p><img src="cid:logo@zb">',
+    "--b1",
+    'Content-Type: image/png; name="logo.png"',
+    'Content-Disposition: inline; filename="logo.png"',
+    "Content-ID: <logo@zb>",
+    "Content-Transfer-Encoding: base64",
+    "",
+    "iVBORw0KGgo=",
+    "--b1",
+    ...pdfHeaders,
+    "Content-Transfer-Encoding: base64",
+    "",
+    "JVBERi0xLjQ=",
+    "--b1--",
+    "",
+  ].join("\r\n"));
+}
+
+// Exchange / Outlook: every attachment carries a Content-ID.
+const OUTLOOK_EML = eml(['Content-Type: application/pdf; name="PO.pdf"', 'Content-Disposition: attachment; filename="PO.pdf"', "Content-ID: <po-pdf@zb>"]);
+// Apple Mail: PDFs are sent inline with a filename.
+const APPLE_EML = eml(["Content-Type: application/pdf", "Content-Disposition: inline; filename=PO.pdf"]);
+
+type CfbItem = { name: string; data?: Uint8Array; children?: CfbItem[] };
+
+/**
+ * A minimal compound file (512-byte sectors, one FAT sector, no mini stream) holding `items`
+ * under the root storage.
+ */
+function compoundFile(items: CfbItem[]): Uint8Array {
+  const END_OF_CHAIN = 0xfffffffe;
+  const NO_STREAM = 0xffffffff;
+  type Entry = { name: string; type: number; data?: Uint8Array; child: number; right: number; start: number };
+  const entries: Entry[] = [{ name: "Root Entry", type: 5, child: NO_STREAM, right: NO_STREAM, start: END_OF_CHAIN }];
+  const addAll = (list: CfbItem[]): number => {
+    const ids = list.map(item => {
+      entries.push({ name: item.name, type: item.children ? 1 : 2, data: item.data, child: NO_STREAM, right: NO_STREAM, start: END_OF_CHAIN });
+      const id = entries.length - 1;
+      if (item.children) entries[id].child = addAll(item.children);
+      return id;
+    });
+    ids.forEach((id, i) => { entries[id].right = ids[i + 1] ?? NO_STREAM; });
+    return ids[0] ?? NO_STREAM;
+  };
+  entries[0].child = addAll(items);
+
+  // Sector 0 is the FAT, then the directory, then each stream.
+  const fat: number[] = [0xfffffffd];
+  const chain = (sectors: number) => {
+    const start = fat.length;
+    for (let i = 1; i <= sectors; i++) fat.push(i === sectors ? END_OF_CHAIN : start + i);
+    return start;
+  };
+  const dirStart = chain(Math.ceil(entries.length / 4));
+  for (const e of entries) if (e.data?.length) e.start = chain(Math.ceil(e.data.length / 512));
+
+  const out = Buffer.alloc(512 * (fat.length + 1));
+  Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]).copy(out);
+  out.writeUInt16LE(9, 0x1e);
+  out.writeUInt16LE(6, 0x20);
+  out.writeUInt32LE(1, 0x2c);
+  out.writeUInt32LE(dirStart, 0x30);
+  out.writeUInt32LE(0, 0x38);                 // mini stream cutoff 0: every stream in regular sectors
+  out.writeUInt32LE(END_OF_CHAIN, 0x3c);
+  out.writeUInt32LE(END_OF_CHAIN, 0x44);
+  for (let i = 0; i < 109; i++) out.writeUInt32LE(i === 0 ? 0 : 0xffffffff, 0x4c + i * 4);
+  for (let i = 0; i < 128; i++) out.writeUInt32LE(fat[i] ?? 0xffffffff, 512 + i * 4);
+  entries.forEach((e, i) => {
+    const off = 512 * (dirStart + 1) + i * 128;
+    out.write(e.name, off, "utf16le");
+    out.writeUInt16LE((e.name.length + 1) * 2, off + 0x40);
+    out.writeUInt8(e.type, off + 0x42);
+    out.writeUInt32LE(NO_STREAM, off + 0x44);
+    out.writeUInt32LE(e.right, off + 0x48);
+    out.writeUInt32LE(e.child, off + 0x4c);
+    out.writeUInt32LE(e.start, off + 0x74);
+    out.writeUInt32LE(e.data?.length ?? 0, off + 0x78);
+    if (e.data?.length) Buffer.from(e.data).copy(out, 512 * (e.start + 1));
+  });
+  return out;
+}
+
+const unicode = (prop: string, value: string): CfbItem => ({ name: `__substg1.0_${prop}001F`, data: Buffer.from(value, "utf16le") });
+
+function msg(pdfContentId?: string): Uint8Array {
+  const attachment = (n: number, filename: string, mime: string, data: Uint8Array, contentId?: string): CfbItem => ({
+    name: `__attach_version1.0_#0000000${n}`,
+    children: [
+      { name: "__substg1.0_37010102", data },
+      unicode("3707", filename),
+      unicode("370E", mime),
+      ...(contentId ? [unicode("3712", contentId)] : []),
+    ],
+  });
+  return compoundFile([
+    unicode("0037", "PO ZB-1001"),
+    unicode("0C1A", "Buyer"),
+    unicode("5D01", "buyer@zenithbuilders.com"),
+    unicode("1013", '<p>PO attached.</p><img src="cid:logo@zb">'),
+    attachment(0, "logo.png", "image/png", Buffer.from("iVBORw0KGgo=", "base64"), "logo@zb"),
+    attachment(1, "PO.pdf", "application/pdf", Buffer.from("%PDF-1.4"), pdfContentId),
+  ]);
+}
+
+const CASES = [
+  { name: "outlook.eml", data: OUTLOOK_EML },
+  { name: "apple.eml", data: APPLE_EML },
+  { name: "outlook.msg", data: msg("po-pdf@zb") },
+  { name: "plain.msg", data: msg() },
+];
+
+for (const { name, data } of CASES) {
+  test(`${name}: only the logo shown by the HTML body is inline`, () => {
+    const email = parseEmail({ name, data });
+    assert.equal(email.subject, "PO ZB-1001");
+    assert.equal(email.from_address, "buyer@zenithbuilders.com");
+    assert.deepEqual(email.attachments.map(a => [a.filename, !!a.inline]), [["logo.png", true], ["PO.pdf", false]]);
+  });
+
+  test(`${name}: the PDF attachment is parsed with the email on its audit trail`, async () => {
+    const { rows, auditEvents } = await processWithReplay({ name, data }, FIXTURES, { pdf: fakePdf([PO_PAGE]) });
+    assert.deepEqual(rows.map(r => r.customer_order_no), ["ZB-1001"]);
+    assert.ok(auditEvents.some(e => e.event_type === "EMAIL_RECEIVED"));
+  });
+}
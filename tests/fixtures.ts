@@ -0,0 +1,79 @@
+// tests/fixtures.ts
+// Shared inputs for the pipeline tests: recorded model output (fixture replay) and a small
+// reference pack / customer master.
+import { readFileSync } from "node:fs";
+import { ExtractionFixtureSet } from "../extraction/extractionSettings.ts";
+import { FixtureReplayExtractionProvider } from "../services/extractionProviders.ts";
+import { PdfBackend, PipelineOptions, mimeTypeForFilename, processFile } from "../services/pipeline.ts";
+import { DEFAULT_POLICY } from "../policy/policyStore.ts";
+import { ReferencePack } from "../referencePack.schema.ts";
+import { CustomerMaster } from "../customerMaster.schema.ts";
+import { EMPTY_REFERENCE_PACK } from "../reference/referenceLocalStore.ts";
+import { POLineRow } from "../types.ts";
+
+export function loadFixtureSet(name: string): ExtractionFixtureSet {
+  return JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8"));
+}
+
+export const REFERENCE_PACK: ReferencePack = {
+  ...EMPTY_REFERENCE_PACK,
+  version: "test-1",
+  manufacturers: [{ abbr: "SCH", name: "Schlage", aliases: [] }],
+  finishes: [{ us_code: "US26D", bhma_code: "626", name: "Satin Chrome" }],
+};
+
+export function customerMaster(...names: string[]): CustomerMaster {
+  return {
+    version: "test-1",
+    accounts: names.map((name, i) => ({ account_id: `C${100 + i}`, name, aliases: [], email_domains: [], ship_tos: [] })),
+  };
+}
+
+/**
+ * A catalog line of a purchase order, for tests that start after mapping.
+ */
+export function lineRow(patch: Partial<POLineRow> = {}): POLineRow {
+  return {
+    doc_id: "ZB-1001",
+    doc_type: "PURCHASE_ORDER",
+    line_no: 1,
+    customer_name: "Zenith Builders",
+    item_class: "CATALOG",
+    edge_case_flags: [],
+    automation_lane: "REVIEW",
+    ...patch,
+  };
+}
+
+/**
+ * A PDF "backend" serving fixed page texts; every page renders to the same placeholder image.
+ */
+export function fakePdf(pageTexts: string[]): PdfBackend {
+  return {
+    extractPageText: async () => pageTexts.map((text, pageIndex) => ({ pageIndex, text, items: [] })),
+    renderPages: async (_data, pageIndexes) => pageIndexes.map(pageIndex => ({ pageIndex, base64: "iVBORw0KGgo=", mimeType: "image/png" })),
+  };
+}
+
+/**
+ * Runs one file through the pipeline with the model answering from recorded fixtures.
+ */
+export function processWithReplay(
+  file: { name: string; data: Uint8Array | string },
+  fixtures: ExtractionFixtureSet,
+  opts: Partial<PipelineOptions> = {}
+) {
+  return processFile(
+    {
+      name: file.name,
+      mimeType: mimeTypeForFilename(file.name) ?? "",
+      data: typeof file.data === "string" ? new TextEncoder().encode(file.data) : file.data,
+    },
+    {
+      policy: DEFAULT_POLICY,
+      provider: new FixtureReplayExtractionProvider(fixtures),
+      pdf: {} as PipelineOptions["pdf"],
+      ...opts,
+    }
+  );
+}
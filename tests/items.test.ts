@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DISCONTINUED_SKU_FLAG, SKU_MFR_MISMATCH_FLAG, UNKNOWN_SKU_FLAG, checkItemMaster } from "../services/itemMaster.ts";
+import { ReferenceService } from "../services/referenceService.ts";
+import { ItemMasterRef } from "../referencePack.schema.ts";
+import { REFERENCE_PACK, lineRow } from "./fixtures.ts";
+
+const item = (sku: string, patch: Partial<ItemMasterRef> = {}): ItemMasterRef => ({
+  sku,
+  mfr_abbr: "SCH",
+  description: "lever",
+  base_uom: "EA",
+  status: "ACTIVE",
+  ...patch,
+});
+
+const ref = new ReferenceService({
+  ...REFERENCE_PACK,
+  manufacturers: [...REFERENCE_PACK.manufacturers, { abbr: "LCN", name: "LCN Closers", aliases: [] }],
+  items: [
+    item("SCH-ND50PD"),
+    item("SCH-D53PD", { status: "DISCONTINUED", replacement_sku: "SCH-D53PD-V2" }),
+    item("SCH-D53PD-V2", { status: "SUPERSEDED", replacement_sku: "SCH-ND53PD" }),
+    item("SCH-ND53PD"),
+    item("SCH-AL50PD", { status: "DISCONTINUED" }),
+  ],
+});
+const check = (patch: Parameters<typeof lineRow>[0]) => checkItemMaster([lineRow(patch)], ref)[0];
+
+test("an item on file and of the named manufacturer adds a catalog signal; an unknown one is flagged", () => {
+  const known = check({ abh_item_no_candidate: "SCH-ND50PD", manufacturer: "Schlage" });
+  assert.deepEqual(known.edge_case_flags, []);
+  assert.deepEqual(known.signals?.map(s => [s.type, s.detail]), [["EXACT_CATALOG_MATCH", "Item master SCH-ND50PD (SCH, EA)"]]);
+
+  // The reviewer's item is the one checked.
+  const unknown = check({ abh_item_no_candidate: "SCH-ND50PD", abh_item_no_final: "SCH-ND99" });
+  assert.deepEqual(unknown.edge_case_flags, [UNKNOWN_SKU_FLAG]);
+  assert.equal(unknown.raw_edge_case_notes, "SKU SCH-ND99 not in item master");
+});
+
+test("a discontinued item suggests the first active item down its replacement chain", () => {
+  const replaced = check({ abh_item_no_candidate: "SCH-D53PD" });
+  assert.deepEqual(replaced.edge_case_flags, [DISCONTINUED_SKU_FLAG]);
+  assert.equal(replaced.abh_item_no_replacement, "SCH-ND53PD");
+  assert.equal(replaced.signals, undefined);
+
+  const orphan = check({ abh_item_no_candidate: "SCH-AL50PD" });
+  assert.equal(orphan.abh_item_no_replacement, undefined);
+  assert.match(orphan.raw_edge_case_notes ?? "", /discontinued; no active replacement on file/);
+});
+
+test("an item of another manufacturer than the line names is flagged", () => {
+  const mismatch = check({ abh_item_no_candidate: "SCH-ND50PD", manufacturer: "LCN Closers" });
+  assert.deepEqual(mismatch.edge_case_flags, [SKU_MFR_MISMATCH_FLAG]);
+  assert.equal(mismatch.raw_edge_case_notes, "SKU SCH-ND50PD is SCH, line names LCN Closers");
+});
+
+test("a customer part that is an ABH SKU becomes the candidate; custom lines and packs without items are left alone", () => {
+  const ordered = check({ customer_item_no: "sch nd50pd" });
+  assert.equal(ordered.abh_item_no_candidate, "SCH-ND50PD");
+  assert.deepEqual(ordered.edge_case_flags, []);
+
+  const custom = lineRow({ item_class: "CUSTOM", abh_item_no_candidate: "SCH-ND99" });
+  assert.equal(checkItemMaster([custom], ref)[0], custom);
+  const plain = lineRow({ abh_item_no_candidate: "SCH-ND99" });
+  assert.deepEqual(checkItemMaster([plain], new ReferenceService(REFERENCE_PACK)), [plain]);
+});
@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BarcodeHit, isBlankPage, pageMark, parseSeparatorPayload } from "../services/pageMarks.ts";
+import { ExtractionFixtureSet } from "../extraction/extractionSettings.ts";
+import { fakePdf, loadFixtureSet, processWithReplay } from "./fixtures.ts";
+
+const PO_PAGE = "PURCHASE ORDER ZB-1001 Zenith Builders Ship To: 12 Main St Line 1 ND50PD Schlage lever 4 EA 212.00";
+const SEPARATOR: BarcodeHit = { format: "code_128", payload: "SEP;CUSTOMER=Zenith Builders;BATCH=42" };
+const LETTERHEAD_QR: BarcodeHit = { format: "qr_code", payload: "https://zenithbuilders.com/po/ZB-1001" };
+
+test("near-blank pages need both low ink and no text", () => {
+  assert.equal(isBlankPage("", 0.0002), true);
+  assert.equal(isBlankPage("", 0.05), false);
+  assert.equal(isBlankPage("", undefined), false);
+  assert.equal(isBlankPage(PO_PAGE, 0.0002), false);
+  assert.deepEqual(pageMark("", 0.0002, []), { blank: { ink: 0.0002 } });
+});
+
+test("separator payloads split into upper-cased fields", () => {
+  assert.deepEqual(parseSeparatorPayload(SEPARATOR).fields, { CUSTOMER: "Zenith Builders", BATCH: "42" });
+  assert.deepEqual(parseSeparatorPayload({ format: "qr_code", payload: '{"customer":"Zenith","batch":7}' }).fields, { CUSTOMER: "Zenith", BATCH: "7" });
+});
+
+test("only configured symbologies and payloads mark a separator sheet", () => {
+  assert.equal(pageMark("", 0.05, [SEPARATOR])?.separator?.fields.BATCH, "42");
+  assert.equal(pageMark("", 0.05, [LETTERHEAD_QR]), undefined);
+  assert.equal(pageMark("", 0.05, [{ format: "code_128", payload: "1Z999AA10123456784" }]), undefined);
+  assert.equal(pageMark(PO_PAGE.repeat(3), 0.05, [SEPARATOR]), undefined);
+  assert.ok(pageMark("", 0.05, [LETTERHEAD_QR], { formats: ["qr_code"] })?.separator);
+});
+
+test("a scanned page with a QR code is OCR'd and parsed, not taken for a separator", async () => {
+  const replay = loadFixtureSet("replay.json");
+  const fixtures: ExtractionFixtureSet = { ...replay, fixtures: { "scan.pdf#1-1": replay.fixtures["po.png"] } };
+  // No text layer: a separator sheet, then a faxed PO with a QR code in its letterhead.
+  const ocr = ["SEPARATOR SHEET", PO_PAGE];
+  const codes = [[SEPARATOR], [LETTERHEAD_QR]];
+
+  const { rows, auditEvents } = await processWithReplay({ name: "scan.pdf", data: new Uint8Array([0x25, 0x50, 0x44, 0x46]) }, fixtures, {
+    pdf: fakePdf(["", ""]),
+    ocrPage: async (page) => ocr[page.pageIndex],
+    decodeBarcodes: async (page) => codes[page.pageIndex],
+  });
+  assert.deepEqual(rows.map(r => r.customer_order_no), ["ZB-1001"]);
+  const separator = auditEvents.find(e => e.event_type === "SEPARATOR_SHEET");
+  assert.deepEqual(separator?.details.fields, { CUSTOMER: "Zenith Builders", BATCH: "42" });
+});
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { QueueDocument, QueueSnapshot, archiveOf, purgeTargets } from "../services/workQueueStore.ts";
+import { lineRow } from "./fixtures.ts";
+
+const queueDoc = (doc_id: string, source_sha256: string, archive_id?: string): QueueDocument => ({
+  doc_id,
+  source_sha256,
+  filename: `${source_sha256}.pdf`,
+  page_images: [],
+  added_at: "2026-10-19T08:00:00.000Z",
+  archive_id,
+});
+
+test("archiving keeps the whole snapshot with its document ids; an empty queue is not archived", () => {
+  const active: QueueSnapshot = {
+    rows: [lineRow(), lineRow({ line_no: 2 }), lineRow({ doc_id: "ZB-1002" })],
+    po_exports: [],
+    audit_events: [{ at: "2026-10-19T09:00:00.000Z", event_type: "HUMAN_OVERRIDE", actor: "HUMAN" }],
+    updated_at: "2026-10-19T09:00:00.000Z",
+  };
+  const archive = archiveOf(active, "CLEARED_BY_OPERATOR", "2026-10-19T17:30:05.123Z");
+  assert.equal(archive?.archive_id, "arch_20261019173005123");
+  assert.deepEqual(archive?.doc_ids, ["ZB-1001", "ZB-1002"]);
+  assert.equal(archive?.row_count, 3);
+  assert.deepEqual(archive?.audit_events, active.audit_events);
+
+  assert.equal(archiveOf({ ...active, rows: [] }, "CLEARED_BY_OPERATOR", "2026-10-19T17:30:05.123Z"), null);
+  assert.equal(archiveOf(undefined, "CLEARED_BY_OPERATOR", "2026-10-19T17:30:05.123Z"), null);
+});
+
+test("purging an archive deletes its documents and only the source files nothing else uses", () => {
+  const docs = [
+    queueDoc("ZB-1001", "packet", "arch_1"),
+    queueDoc("ZB-1002", "packet"),            // still in the active queue
+    queueDoc("ZB-1003", "fax", "arch_1"),
+    queueDoc("ZB-1004", "scan", "arch_2"),
+  ];
+  assert.deepEqual(purgeTargets(docs, "arch_1"), { docIds: ["ZB-1001", "ZB-1003"], sourceSha256s: ["fax"] });
+  assert.deepEqual(purgeTargets(docs, "arch_9"), { docIds: [], sourceSha256s: [] });
+});
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ReferenceService } from "../services/referenceService.ts";
+import { enrichAndValidate } from "../services/enrichAndValidate.ts";
+import { ReferencePack } from "../referencePack.schema.ts";
+import { REFERENCE_PACK, lineRow } from "./fixtures.ts";
+
+const PACK: ReferencePack = {
+  ...REFERENCE_PACK,
+  manufacturers: [
+    { abbr: "SCH", name: "Schlage", aliases: ["Schlage Lock"] },
+    { abbr: "LCN", name: "LCN Closers", aliases: [] },
+    { abbr: "LC", name: "Lawrence Hardware", aliases: [] },
+  ],
+  finishes: [
+    { us_code: "US26D", bhma_code: "626", name: "Satin Chrome" },
+    { us_code: "US3", bhma_code: "605", name: "Bright Brass" },
+  ],
+  categories: [{ gordon_symbol: "LH", category: "Locks" }],
+};
+const ref = new ReferenceService(PACK);
+const abbrs = (text: string) => ref.matchManufacturers(text).map(m => [m.ref.abbr, m.method, m.span.text]);
+
+test("short codes match only as a whole token or a part-number prefix, never inside a word", () => {
+  assert.deepEqual(abbrs("Wall BLOCK stop, CLOCK bracket"), []);
+  assert.deepEqual(abbrs("LC 100 hinge"), [["LC", "EXACT", "LC"]]);
+  assert.deepEqual(abbrs("LC-100 hinge"), [["LC", "PATTERN", "LC"]]);
+  assert.deepEqual(abbrs("LCN4040XP closer"), [["LCN", "PATTERN", "LCN"]]);
+  assert.deepEqual(abbrs("SCH/ND50PD"), [["SCH", "PATTERN", "SCH"]]);
+});
+
+test("exact hits outrank prefixes and typos, and a two-letter code is weaker evidence", () => {
+  const ranked = ref.matchManufacturers("Schlgae ND50PD lever with LCN 4040XP closer, LC-7 stop");
+  assert.deepEqual(ranked.map(m => [m.ref.abbr, m.method]), [["LCN", "EXACT"], ["SCH", "FUZZY"], ["LC", "PATTERN"]]);
+  assert.equal(ranked[0].score, 1);
+  assert.ok(ranked[1].score < 0.9 && ranked[1].score >= 0.8 * 0.9);
+  assert.equal(ranked[2].score, 0.9 * 0.85);
+
+  // Codes are not matched fuzzily; names are.
+  assert.deepEqual(abbrs("Schlage Lock ND50"), [["SCH", "EXACT", "Schlage Lock"]]);
+  assert.deepEqual(abbrs("LCM hinge"), []);
+  assert.deepEqual(abbrs("LCM closer"), [["LCN", "FUZZY", "LCM closer"]]);
+});
+
+test("finishes match by US code, BHMA code, bare code or name; a bare number is not a finish", () => {
+  const finish = (text: string) => ref.matchFinishes(text).map(m => [m.ref.us_code, m.method, m.score]);
+  assert.deepEqual(finish("ND50PD RHO US26D"), [["US26D", "EXACT", 1]]);
+  assert.deepEqual(finish("ND50PD RHO 626"), [["US26D", "EXACT", 1]]);
+  assert.deepEqual(finish("ND50PD-RHO-26D"), [["US26D", "PATTERN", 0.8]]);
+  assert.deepEqual(finish("satin chrome lever"), [["US26D", "EXACT", 1]]);
+  assert.deepEqual(finish("qty 3 levers"), []);
+});
+
+test("each grounding adds a signal, and the line's confidence is weighted by the match scores", () => {
+  const [exact, fuzzy] = enrichAndValidate([
+    lineRow({ customer_item_no: "ND50PD", customer_item_desc_raw: "Schlage lever US26D", automation_lane: "AUTO" }),
+    lineRow({ customer_item_no: "ND50PD", customer_item_desc_raw: "Schlgae lever 26D", automation_lane: "AUTO" }),
+  ], ref, "test-1");
+
+  assert.deepEqual(exact.signals?.map(s => [s.type, s.weight]), [["EXACT_CATALOG_MATCH", 1], ["EXACT_CATALOG_MATCH", 1]]);
+  assert.equal(exact.confidence_score, 0.8);
+  assert.equal(exact.automation_lane, "AUTO");
+  assert.equal(exact.abh_item_no_candidate, "SCH-ND50PD");
+
+  assert.deepEqual(fuzzy.signals?.map(s => s.type), ["FUZZY_MATCH", "REGEX_MATCH"]);
+  assert.ok(fuzzy.confidence_score! < 0.8);
+  assert.equal(fuzzy.automation_lane, "ASSIST");
+  assert.match(fuzzy.routing_reason ?? "", /Weak Reference Match/);
+});
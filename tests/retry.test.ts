@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseDocument } from "../services/geminiService.ts";
+import { ExtractionProvider, ExtractionRequest, ProviderHttpError } from "../services/extractionProviders.ts";
+import { loadFixtureSet } from "./fixtures.ts";
+
+const GOOD = JSON.stringify(loadFixtureSet("replay.json").fixtures["po.png"]);
+
+// Plays back one answer (text, or an error to throw) per call and keeps the prompts it was sent.
+function scriptedProvider(...answers: (string | Error)[]): ExtractionProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    id: "GEMINI",
+    modelId: "test-model",
+    prompts,
+    async generate(req: ExtractionRequest) {
+      const answer = answers[prompts.length];
+      prompts.push(req.prompt);
+      if (answer instanceof Error) throw answer;
+      return { text: answer, provider: "GEMINI", model_id: "test-model" };
+    },
+  };
+}
+
+const parse = (provider: ExtractionProvider, status: string[] = []) =>
+  parseDocument("iVBORw0KGgo=", "image/png", undefined, undefined, s => status.push(s), undefined, provider, "po.png");
+
+test("a 503 is retried with backoff; a 400 is not", async () => {
+  const status: string[] = [];
+  const flaky = scriptedProvider(new ProviderHttpError("Service Unavailable", 503), GOOD);
+  const { documents } = await parse(flaky, status);
+  assert.equal(flaky.prompts.length, 2);
+  assert.equal(documents[0].order.customer_order_no, "ZB-1001");
+  assert.ok(status.some(s => s.startsWith("Model call failed, retrying in 1s (1/3)")));
+
+  const rejected = scriptedProvider(new ProviderHttpError("Bad Request", 400), GOOD);
+  const [standIn] = (await parse(rejected)).documents;
+  assert.equal(rejected.prompts.length, 1);
+  assert.deepEqual(standIn.routing.reason_codes, ["PARSING_ERROR"]);
+  assert.equal(standIn.routing.routing_notes, "Bad Request");
+});
+
+test("malformed output is re-prompted once with the errors and the previous response", async () => {
+  const repaired = scriptedProvider('{"documents": [', GOOD);
+  const { documents } = await parse(repaired);
+  assert.equal(documents[0].order.customer_order_no, "ZB-1001");
+  assert.equal(repaired.prompts.length, 2);
+  assert.match(repaired.prompts[1], /REPAIR REQUEST:[\s\S]*\(root\)[\s\S]*PREVIOUS RESPONSE:\n\{"documents": \[/);
+});
+
+test("output that stays malformed becomes a PARSING_ERROR stand-in carrying the violations", async () => {
+  const broken = scriptedProvider("not json", '{"document": {}}');
+  const [standIn] = (await parse(broken)).documents;
+  assert.equal(broken.prompts.length, 2);
+  assert.deepEqual(standIn.line_items, []);
+  assert.deepEqual(standIn.routing.reason_codes, ["PARSING_ERROR"]);
+  const [event] = standIn.audit.events;
+  assert.equal(event.event_type, "PARSING_ERROR");
+  assert.ok((event.details?.violations as unknown[]).length > 0);
+});
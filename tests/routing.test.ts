@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { DEFAULT_POLICY } from "../policy/policyStore.ts";
+import { ItemMasterRef, ItemStatus } from "../referencePack.schema.ts";
+import { REFERENCE_PACK, customerMaster, loadFixtureSet, processWithReplay } from "./fixtures.ts";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+const replay = loadFixtureSet("replay.json");
+
+const itemMasterRef = (sku: string, status: ItemStatus): ItemMasterRef => ({ sku, mfr_abbr: "SCH", description: "lever", base_uom: "EA", status });
+
+test("a grounded catalog line from a known customer goes AUTO", async () => {
+  const { rows } = await processWithReplay({ name: "po.png", data: PNG }, replay, {
+    referencePack: REFERENCE_PACK,
+    customerMaster: customerMaster("Zenith Builders"),
+  });
+  assert.equal(rows.length, 1);
+  assert.equal(rows[0].automation_lane, "AUTO");
+  assert.equal(rows[0].sage_import_ready, true);
+});
+
+test("reference grounding keeps the policy REVIEW for an unknown customer (R-500)", async () => {
+  const { rows } = await processWithReplay({ name: "po.png", data: PNG }, replay, {
+    referencePack: REFERENCE_PACK,
+    customerMaster: customerMaster("Acme Door Supply"),
+  });
+  const [row] = rows;
+  assert.ok(row.edge_case_flags.includes("UNKNOWN_CUSTOMER"));
+  assert.equal(row.automation_lane, "REVIEW");
+  assert.equal(row.sage_import_ready, false);
+  assert.ok(row.policy_rule_ids_applied?.includes("R-500"));
+  assert.ok(row.policy_rule_ids_applied?.includes("REF_GROUNDING_V5"));
+  assert.match(row.routing_reason ?? "", /customer/i);
+});
+
+test("an X12 850 change order (BEG01 01) stays in REVIEW with a reference pack loaded (R-400)", async () => {
+  const original = readFileSync(new URL("./fixtures/zenith-850.edi", import.meta.url), "utf8");
+  const opts = { referencePack: REFERENCE_PACK, customerMaster: customerMaster("Zenith Builders") };
+
+  const { rows: [placed] } = await processWithReplay({ name: "zenith-850.edi", data: original }, replay, opts);
+  assert.equal(placed.automation_lane, "AUTO");
+
+  const change = original.replace("BEG*00*", "BEG*01*");
+  const { rows: [changed] } = await processWithReplay({ name: "zenith-850.edi", data: change }, replay, opts);
+  assert.ok(changed.edge_case_flags.includes("EDI_CHANGE_ORDER"));
+  assert.equal(changed.automation_lane, "REVIEW");
+  assert.ok(changed.policy_rule_ids_applied?.includes("R-400"));
+});
+
+test("no SKU is made up against an item master", async () => {
+  const pack = { ...REFERENCE_PACK, items: [itemMasterRef("SCH-ND80PD", "ACTIVE")] };
+  const { rows: [row] } = await processWithReplay({ name: "po.png", data: PNG }, replay, {
+    referencePack: pack,
+    customerMaster: customerMaster("Zenith Builders"),
+  });
+  assert.ok(!row.abh_item_no_candidate);
+  assert.ok(!row.edge_case_flags.includes("UNKNOWN_SKU"));
+});
+
+test("item master flags route through R-600 only", async () => {
+  const pack = { ...REFERENCE_PACK, items: [itemMasterRef("ND50PD", "DISCONTINUED")] };
+  const opts = { referencePack: pack, customerMaster: customerMaster("Zenith Builders") };
+
+  const { rows: [flagged] } = await processWithReplay({ name: "po.png", data: PNG }, replay, opts);
+  assert.ok(flagged.edge_case_flags.includes("DISCONTINUED_SKU"));
+  assert.equal(flagged.automation_lane, "REVIEW");
+  assert.ok(flagged.policy_rule_ids_applied?.includes("R-600"));
+
+  const policy = { ...DEFAULT_POLICY, rules: DEFAULT_POLICY.rules.map(r => (r.rule_id === "R-600" ? { ...r, enabled: false } : r)) };
+  const { rows: [unrouted] } = await processWithReplay({ name: "po.png", data: PNG }, replay, { ...opts, policy });
+  assert.ok(unrouted.edge_case_flags.includes("DISCONTINUED_SKU"));
+  assert.equal(unrouted.automation_lane, "AUTO");
+});
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as XLSX from "xlsx";
+import { readSpreadsheetPo, selectColumnMapping } from "../services/spreadsheetPo.ts";
+import { ColumnMappingSet } from "../extraction/extractionSettings.ts";
+import { loadFixtureSet, processWithReplay } from "./fixtures.ts";
+
+const csv = (text: string) => ({ name: "po.csv", mimeType: "text/csv", data: new TextEncoder().encode(text) });
+
+const ZENITH_CSV = [
+  "Zenith Builders,,,,",
+  "PO Number:,ZB-1001,,,",
+  "Date:,2026-10-19,,,",
+  ",,,,",
+  "Line,Part #,Description,Qty Ordered,Unit Price,Ext Price",
+  "1,ND50PD,Schlage lever US26D,4,212.00,848.00",
+  ",,Deliver to site trailer,,,",
+  "2,4040XP,LCN closer,2,\"$1,310.00\",\"2,620.00\"",
+  "3,CR-1,Credit for returned closer,1,(310.00),(310.00)",
+  ",,Subtotal,,,3158.00",
+].join("\n");
+
+test("the header row is found below title rows, and label cells above it fill the order fields", () => {
+  const po = readSpreadsheetPo(csv(ZENITH_CSV));
+  assert.ok(po);
+  assert.equal(po.header_row, 5);
+  assert.deepEqual(po.columns, {
+    line_no: "Line",
+    customer_item_no: "Part #",
+    description: "Description",
+    qty: "Qty Ordered",
+    unit_price: "Unit Price",
+    extended_price: "Ext Price",
+  });
+  assert.deepEqual([po.customer_order_no, po.document_date], ["ZB-1001", "2026-10-19"]);
+  assert.deepEqual(po.lines.map(l => [l.line_no, l.customer_item_no, l.qty, l.unit_price, l.extended_price]), [
+    [1, "ND50PD", 4, 212, 848],
+    [2, "4040XP", 2, 1310, 2620],
+    [3, "CR-1", 1, -310, -310],
+  ]);
+  assert.equal(po.skipped_rows, 2);
+});
+
+test("a workbook is read from the first sheet that holds a line table", () => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["Notes"], ["Call before delivery"]]), "Cover");
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    ["Item Number", "Quantity", "UOM", "Mfr"],
+    ["ND50PD", 4, "ea", "Schlage"],
+  ]), "Order");
+  const data = new Uint8Array(XLSX.write(wb, { type: "array", bookType: "xlsx" }));
+  const po = readSpreadsheetPo({ name: "po.xlsx", mimeType: "", data });
+  assert.equal(po?.sheet, "Order");
+  assert.deepEqual(po?.lines.map(l => [l.customer_item_no, l.qty, l.uom, l.manufacturer]), [["ND50PD", 4, "EA", "Schlage"]]);
+});
+
+test("a saved customer mapping reads headers no synonym knows, and reports mapped columns it cannot find", () => {
+  const set: ColumnMappingSet = {
+    version: "1",
+    mappings: [{
+      mapping_id: "MAP-ZB",
+      customer_name: "Zenith Builders",
+      match: ["zenithbuilders.com"],
+      columns: { customer_item_no: "Cust Ref", qty: "Pcs", unit_price: "Each $" },
+    }],
+  };
+  const sheet = csv("Cust Ref,Pcs,Notes\nND50PD,4,rush");
+  assert.equal(readSpreadsheetPo(sheet), null);
+
+  const mapping = selectColumnMapping(set, ["po.csv", "buyer@ZenithBuilders.com"]);
+  assert.equal(mapping?.mapping_id, "MAP-ZB");
+  assert.equal(selectColumnMapping(set, ["po.csv", "buyer@acmedoor.com"]), undefined);
+
+  const po = readSpreadsheetPo(sheet, mapping);
+  assert.deepEqual(po?.lines.map(l => [l.customer_item_no, l.qty]), [["ND50PD", 4]]);
+  assert.equal(po?.customer_name, "Zenith Builders");
+  assert.deepEqual(po?.warnings, ['Mapped column(s) not found in "Sheet1": unit_price="Each $"']);
+});
+
+test("a spreadsheet PO becomes rows without a model call", async () => {
+  // The empty fixture set fails any model call.
+  const { rows, auditEvents } = await processWithReplay({ name: "zb-1001.csv", data: ZENITH_CSV }, loadFixtureSet("empty.json"));
+  assert.deepEqual(rows.map(r => r.customer_item_no), ["ND50PD", "4040XP", "CR-1"]);
+  assert.equal(rows[0].customer_order_no, "ZB-1001");
+  assert.ok(auditEvents.some(e => e.event_type === "TABULAR_IMPORT"));
+});
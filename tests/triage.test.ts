@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_TRIAGE_RULES, buildSegments, triagePages } from "../services/pdfPacketTriage.ts";
+import { fakePdf, loadFixtureSet, processWithReplay } from "./fixtures.ts";
+
+const PACKET = [
+  "From: buyer@zenithbuilders.com Sent: Monday To: orders@abh.com Subject: PO ZB-1001 and credit memo",
+  "PURCHASE ORDER ZB-1001 Zenith Builders Ship To: 12 Main St Page 1 of 2 Line 1 ND50PD Schlage lever 4 EA 212.00 continued on next page",
+  "ZB-1001 Page 2 of 2 Line 2 4040XP LCN closer 2 EA 310.00 Subtotal 1468.00",
+  "CREDIT MEMO CM-9981 Original Invoice 44512 Bill To: Zenith Builders Ship To: 12 Main St Total -212.00",
+];
+
+test("the totals fallback does not add to invoice wording next to a PO header", () => {
+  const [page] = triagePages(["PURCHASE ORDER 7781 Ship To: 12 Main St Quote PO on every invoice Subtotal 100.00 Total 108.00"]);
+  assert.equal(page.label, "PURCHASE_ORDER");
+  assert.equal(page.scores?.INVOICE, 0.89);
+});
+
+test("matching rules add up per label, capped at 1, less any negative weights", () => {
+  const rule = (rule_id: string, label: "INVOICE" | "SALES_ORDER", pattern: string, weight: number) => ({ rule_id, enabled: true, label, pattern, weight });
+  const rules = {
+    ...DEFAULT_TRIAGE_RULES,
+    rules: [
+      rule("SO", "SALES_ORDER", "\\bSALES\\s+ORDER\\b", 0.9),
+      rule("INV", "INVOICE", "\\bINVOICE\\b", 0.5),
+      rule("REMIT", "INVOICE", "\\bREMIT\\s+TO\\b", 0.4),
+      rule("DUE", "INVOICE", "\\bDUE\\s+DATE\\b", 0.3),
+      rule("NOT_SO", "SALES_ORDER", "\\bINVOICE\\b", -0.2),
+    ],
+  };
+  const [two] = triagePages(["Sales Order 5521 Invoice 8812 Remit To: ABH Hardware"], rules);
+  assert.equal(two.label, "INVOICE");
+  assert.deepEqual(two.reasons, ["INV", "REMIT", "ALSO_SALES_ORDER:0.70"]);
+  assert.equal(two.score, 0.9);
+
+  const [three] = triagePages(["Sales Order 5521 Invoice 8812 Remit To: ABH Hardware Due Date 11/18"], rules);
+  assert.equal(three.scores?.INVOICE, 1);
+  assert.equal(three.score, 0.99);
+});
+
+test("the totals + address block only classifies pages without a header", () => {
+  const [page] = triagePages(["Bill To: Zenith Builders Ship To: 12 Main St Subtotal 100.00 Total 108.00"]);
+  assert.equal(page.label, "INVOICE");
+  assert.deepEqual(page.reasons, ["TOTALS_PLUS_ADDRESS_BLOCK"]);
+});
+
+test("a stored rule set without the fallback flag keeps the stock fallback rule", () => {
+  const legacy = { ...DEFAULT_TRIAGE_RULES, rules: DEFAULT_TRIAGE_RULES.rules.map(({ fallback, ...r }) => r) };
+  const [page] = triagePages(["CREDIT MEMO CM-1 Original Invoice 4451 Bill To: X Ship To: Y Total 50.00"], legacy);
+  assert.equal(page.label, "CREDIT_MEMO");
+  assert.equal(page.scores?.CREDIT_MEMO, 0.97);
+});
+
+test("a packet splits into cover, a two-page PO and a credit memo", () => {
+  const segments = buildSegments(triagePages(PACKET));
+  assert.deepEqual(segments.map(s => [s.label, s.pages]), [
+    ["EMAIL_COVER", [0]],
+    ["PURCHASE_ORDER", [1, 2]],
+    ["CREDIT_MEMO", [3]],
+  ]);
+});
+
+test("packet segments are parsed from their recorded fixtures and routed", async () => {
+  const { rows } = await processWithReplay({ name: "packet.pdf", data: new Uint8Array([0x25, 0x50, 0x44, 0x46]) }, loadFixtureSet("packet.json"), {
+    pdf: fakePdf(PACKET),
+  });
+  const po = rows.filter(r => r.doc_type === "PURCHASE_ORDER");
+  const memo = rows.filter(r => r.doc_type === "CREDIT_MEMO");
+  assert.equal(rows.length, 3);
+  assert.deepEqual(po.map(r => r.customer_item_no), ["ND50PD", "4040XP"]);
+  assert.ok(po.every(r => r.automation_lane === "AUTO"));
+  assert.equal(memo[0].automation_lane, "REVIEW");
+  assert.ok(memo[0].policy_rule_ids_applied?.includes("R-100"));
+});
+
+test("without OCR, text-less scanned pages stay one document between separator sheets", () => {
+  const scan = ["", "", "", "", ""];
+  assert.equal(buildSegments(triagePages(scan)).length, 5);
+
+  const separator = { format: "code_128", payload: "SEP", fields: {} };
+  const triage = triagePages(scan, undefined, { joinPagesWithoutText: true, marks: { 2: { separator }, 3: { blank: { ink: 0 } } } });
+  assert.deepEqual(buildSegments(triage).map(s => s.pages), [[0, 1], [4]]);
+});
+
+test("a faxed three-page PO is parsed once when no OCR is available", async () => {
+  const replay = loadFixtureSet("replay.json");
+  const fixtures = { ...replay, fixtures: { "fax.pdf#0-2": replay.fixtures["po.png"] } };
+  const { rows } = await processWithReplay({ name: "fax.pdf", data: new Uint8Array([0x25, 0x50, 0x44, 0x46]) }, fixtures, {
+    pdf: fakePdf(["", "", ""]),
+  });
+  assert.deepEqual(rows.map(r => r.customer_order_no), ["ZB-1001"]);
+  assert.equal(new Set(rows.map(r => r.doc_id)).size, 1);
+});
@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SCHEMA_VALIDATION_EVENT, schemaViolationsOf, validateParsingResult } from "../services/abhValidation.ts";
+import { buildExportsForRows } from "../services/pipeline.ts";
+import { DEFAULT_POLICY } from "../policy/policyStore.ts";
+import { loadFixtureSet, processWithReplay } from "./fixtures.ts";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+const validation = loadFixtureSet("validation.json");
+
+test("safe coercions repair the model output and are recorded on the document", () => {
+  const { result, violations, fatal } = validateParsingResult(validation.fixtures["loose.png"]);
+  const [doc] = result.documents;
+  assert.equal(fatal, false);
+  assert.equal(doc.document.document_type, "PURCHASE_ORDER");
+  assert.equal(doc.line_items[0].parsed.quantity, 4);
+  assert.equal(doc.line_items[0].parsed.unit_price, 1212.5);
+  assert.deepEqual(doc.line_items[1].flags, []);
+  assert.ok(doc.audit.events.some(e => e.event_type === SCHEMA_VALIDATION_EVENT));
+  assert.deepEqual(schemaViolationsOf(doc), violations.map(v => ({ ...v, path: v.path.replace(/^documents\[0\]\./, "") })));
+});
+
+test("a value that cannot be coerced stays a hard violation", () => {
+  const { violations } = validateParsingResult(validation.fixtures["loose.png"]);
+  const hard = violations.filter(v => !v.coerced);
+  assert.deepEqual(hard.map(v => v.path), ["documents[0].line_items[1].parsed.quantity"]);
+});
+
+test("output without a documents array is fatal", () => {
+  const { result, fatal } = validateParsingResult({ document: {} });
+  assert.equal(fatal, true);
+  assert.deepEqual(result.documents, []);
+});
+
+test("hard violations block only the lines they concern", async () => {
+  const { rows } = await processWithReplay({ name: "loose.png", data: PNG }, validation);
+  const [good, bad] = rows;
+  assert.equal(good.qty, 4);
+  assert.equal(good.sage_blockers, undefined);
+  assert.match(good.raw_edge_case_notes ?? "", /Coerced: .*line_items\[0\]\.parsed\.quantity/);
+  assert.equal(bad.sage_import_ready, false);
+  assert.deepEqual(bad.sage_blockers, ['SCHEMA:line_items[1].parsed.quantity expected number, got "four"']);
+  assert.ok(bad.fields_requiring_review?.includes("qty"));
+});
+
+test("validation findings reach the exported document's audit trail", async () => {
+  const { rows, auditEvents } = await processWithReplay({ name: "loose.png", data: PNG }, validation);
+  const [exported] = buildExportsForRows(rows, DEFAULT_POLICY, auditEvents);
+  const event = exported.audit.events.find(e => e.event_type === SCHEMA_VALIDATION_EVENT);
+  assert.ok(event);
+  assert.equal(event.details?.doc_id, exported.document.document_id);
+  assert.ok((event.details?.violations as unknown[]).length > 0);
+});
+
+test("a document without lines keeps its violations on a placeholder row", async () => {
+  const { rows, auditEvents } = await processWithReplay({ name: "no-lines.png", data: PNG }, validation);
+  assert.equal(rows.length, 1);
+  assert.equal(rows[0].automation_lane, "REVIEW");
+  assert.equal(rows[0].sage_import_ready, false);
+  assert.deepEqual(rows[0].sage_blockers, ["SCHEMA:line_items expected array, got missing"]);
+
+  const [exported] = buildExportsForRows(rows, DEFAULT_POLICY, auditEvents);
+  assert.equal(exported.routing.decision, "REVIEW");
+  assert.deepEqual(exported.routing.reason_codes, ["PARSING_ERROR"]);
+  assert.deepEqual(exported.line_items, []);
+  assert.ok(exported.audit.events.some(e => e.event_type === SCHEMA_VALIDATION_EVENT));
+
+  // Exports rebuilt from the rows alone (e.g. POST /v1/route) still say why there are no lines.
+  const [rebuilt] = buildExportsForRows(rows, DEFAULT_POLICY);
+  assert.deepEqual(rebuilt.line_items, []);
+  const failure = rebuilt.audit.events.find(e => e.event_type === "PARSING_ERROR");
+  assert.deepEqual(failure?.details?.blockers, ["SCHEMA:line_items expected array, got missing"]);
+});
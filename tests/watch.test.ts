@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { WatchOptions, loadLedger, runWatch } from "../cli/watchFolder.ts";
+import { FixtureReplayExtractionProvider } from "../services/extractionProviders.ts";
+import { PipelineOptions } from "../services/pipeline.ts";
+import { DEFAULT_POLICY } from "../policy/policyStore.ts";
+import { loadFixtureSet } from "./fixtures.ts";
+
+const X12 = new URL("./fixtures/zenith-850.edi", import.meta.url);
+
+async function inbox(): Promise<{ dir: string; opts: WatchOptions; lines: string[] }> {
+  const dir = await fs.mkdtemp(path.join(tmpdir(), "orderflow-watch-"));
+  const lines: string[] = [];
+  const pipeline: PipelineOptions = {
+    policy: DEFAULT_POLICY,
+    provider: new FixtureReplayExtractionProvider(loadFixtureSet("empty.json")),
+    pdf: {} as PipelineOptions["pdf"],
+  };
+  const opts: WatchOptions = {
+    inbox: dir,
+    outDir: path.join(dir, "out"),
+    ledgerPath: path.join(dir, ".orderflow-ledger.json"),
+    intervalMs: 0,
+    once: true,
+    retryFailed: false,
+    pipeline,
+    log: (line) => lines.push(line),
+  };
+  return { dir, opts, lines };
+}
+
+test("files are ledgered by sha256, written per document and moved by outcome", async () => {
+  const { dir, opts, lines } = await inbox();
+  try {
+    await fs.copyFile(X12, path.join(dir, "zenith-850.edi"));
+    await fs.writeFile(path.join(dir, "notes.txt"), "not an order");
+    await runWatch(opts);
+
+    assert.deepEqual((await fs.readdir(path.join(dir, "processed"))), ["zenith-850.edi"]);
+    assert.deepEqual((await fs.readdir(path.join(dir, "failed"))), ["notes.txt"]);
+    const outputs = (await fs.readdir(opts.outDir)).sort();
+    assert.equal(outputs.length, 2);
+    assert.match(outputs[0], /^.+-[0-9a-f]{8}\.abh\.po\.v1\.json$/);
+    const ledger = await loadLedger(opts.ledgerPath);
+    assert.deepEqual(Object.values(ledger.entries).map(e => [e.filename, e.outcome]).sort(), [["notes.txt", "FAILED"], ["zenith-850.edi", "PROCESSED"]]);
+
+    // The same bytes under a new name are not parsed again.
+    await fs.copyFile(X12, path.join(dir, "resent.edi"));
+    await runWatch(opts);
+    assert.ok(lines.some(l => l.startsWith("SKIP resent.edi")));
+    assert.deepEqual((await fs.readdir(path.join(dir, "processed"))).sort(), ["resent.edi", "zenith-850.edi"]);
+    assert.equal(Object.keys((await loadLedger(opts.ledgerPath)).entries).length, 2);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("a file that cannot be moved is ledgered and logged, and the watcher goes on", async () => {
+  const { dir, opts, lines } = await inbox();
+  try {
+    await fs.copyFile(X12, path.join(dir, "a.edi"));
+    // A plain file where the processed/ folder should be makes the move fail.
+    await fs.writeFile(path.join(dir, "processed"), "");
+    await runWatch(opts);
+
+    assert.ok(lines.some(l => l.startsWith("Could not move a.edi")));
+    assert.ok((await fs.readdir(dir)).includes("a.edi"));
+    assert.deepEqual(await fs.readdir(path.join(dir, "failed")), ["processed"]);
+    const ledger = await loadLedger(opts.ledgerPath);
+    assert.deepEqual(Object.values(ledger.entries).map(e => e.filename).sort(), ["a.edi", "processed"]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyCrossReference,
+  confirmCrossReferences,
+  lookupCrossReference,
+  recordCrossReference,
+} from "../services/partCrossReference.ts";
+import { PartCrossReference } from "../partCrossReference.schema.ts";
+import { lineRow } from "./fixtures.ts";
+
+const EMPTY: PartCrossReference = { version: "1", entries: [] };
+const AT = "2026-10-01T00:00:00.000Z";
+
+test("entries are looked up by account and normalized part number", () => {
+  const xref = recordCrossReference(EMPTY, { account_id: "c100", customer_item_no: "nd-50 pd", abh_item_no: "SCH-ND50PD", at: AT, source: "REVIEW" });
+  assert.equal(lookupCrossReference(xref, "C100", "ND50PD")?.abh_item_no, "SCH-ND50PD");
+  assert.equal(lookupCrossReference(xref, "C101", "ND50PD"), undefined);
+});
+
+test("confirming adds a use and a correction starts the count again", () => {
+  const entry = { account_id: "C100", customer_item_no: "ND50PD", abh_item_no: "SCH-ND50PD", at: AT, source: "REVIEW" as const };
+  let xref = recordCrossReference(EMPTY, entry);
+  xref = recordCrossReference(xref, { ...entry, at: "2026-10-02T00:00:00.000Z" });
+  assert.deepEqual([xref.entries[0].uses, xref.entries[0].last_confirmed_at], [2, "2026-10-02T00:00:00.000Z"]);
+
+  xref = recordCrossReference(xref, { ...entry, abh_item_no: "SCH-ND50PD-626" });
+  assert.equal(xref.entries.length, 1);
+  assert.deepEqual([xref.entries[0].abh_item_no, xref.entries[0].uses], ["SCH-ND50PD-626", 1]);
+});
+
+test("a known part gets the candidate and a HISTORICAL_MATCH weighted by its uses", () => {
+  const xref = recordCrossReference(EMPTY, { account_id: "C100", customer_item_no: "ND50PD", abh_item_no: "SCH-ND50PD", at: AT, uses: 3, source: "IMPORT" });
+  const [row] = applyCrossReference([lineRow({ customer_account_id: "C100", customer_item_no: "ND50PD" })], xref);
+  assert.equal(row.abh_item_no_candidate, "SCH-ND50PD");
+  assert.deepEqual(row.signals?.map(s => [s.type, s.weight]), [["HISTORICAL_MATCH", 0.95]]);
+  assert.match(row.signals![0].detail!, /3 use\(s\), last confirmed 2026-10-01/);
+});
+
+test("approving or exporting a cross-referenced row confirms it once", () => {
+  const xref = recordCrossReference(EMPTY, { account_id: "C100", customer_item_no: "ND50PD", abh_item_no: "SCH-ND50PD", at: AT, source: "REVIEW" });
+  const rows = applyCrossReference([
+    lineRow({ customer_account_id: "C100", customer_item_no: "ND50PD" }),
+    lineRow({ line_no: 2, customer_account_id: "C100", customer_item_no: "ND50PD", review_status: "REJECTED" }),
+    lineRow({ line_no: 3, customer_account_id: "C100", customer_item_no: "4040XP" }),
+  ], xref);
+
+  const first = confirmCrossReferences(xref, rows, "2026-10-19T00:00:00.000Z");
+  assert.deepEqual(first.confirmed.map(r => r.line_no), [1]);
+  assert.deepEqual([first.xref.entries[0].uses, first.xref.entries[0].last_confirmed_at], [2, "2026-10-19T00:00:00.000Z"]);
+
+  const again = confirmCrossReferences(first.xref, [{ ...rows[0], cross_reference_confirmed_at: "2026-10-19T00:00:00.000Z" }]);
+  assert.equal(again.xref, first.xref);
+  assert.deepEqual(again.confirmed, []);
+});
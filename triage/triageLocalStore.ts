@@ -0,0 +1,31 @@
+// triage/triageLocalStore.ts
+import { PageClassifierModel, emptyPageClassifier, parsePageClassifier } from "../services/pageClassifier.ts";
+
+const CLASSIFIER_KEY = "orderflow.pageClassifier";
+
+export function loadPageClassifier(): PageClassifierModel {
+  try {
+    const raw = localStorage.getItem(CLASSIFIER_KEY);
+    if (!raw) return emptyPageClassifier();
+    return parsePageClassifier(JSON.parse(raw));
+  } catch (e) {
+    console.warn("LocalStorage loadPageClassifier failed", e);
+    return emptyPageClassifier();
+  }
+}
+
+export function savePageClassifier(model: PageClassifierModel) {
+  try {
+    localStorage.setItem(CLASSIFIER_KEY, JSON.stringify(model));
+  } catch (e) {
+    console.warn("LocalStorage savePageClassifier failed", e);
+  }
+}
+
+export function clearPageClassifier() {
+  try {
+    localStorage.removeItem(CLASSIFIER_KEY);
+  } catch (e) {
+    console.warn("LocalStorage clearPageClassifier failed", e);
+  }
+}
@@ -11,6 +11,15 @@ export type DocType =
 
 export type AutomationLane = "AUTO" | "REVIEW" | "BLOCK" | "ASSIST";
 export type ItemClass = "CATALOG" | "CONFIGURED" | "CUSTOM" | "UNKNOWN";
+export type ReviewStatus = "PENDING" | "APPROVED" | "REJECTED";
+
+// Where a line was read from; MODEL boxes come from the extraction, TEXT_LAYER from pdf.js text items.
+export type LineEvidence = {
+  page: number;              // 0-based page index in the source file
+  bbox?: BoundingBox;
+  fields?: FieldBox[];
+  source: "MODEL" | "TEXT_LAYER";
+};
 
 export type POLineRow = {
   // --- doc-level identifiers
@@ -21,18 +30,25 @@ export type POLineRow = {
   source_pages?: number[];   // 0-based page indexes
   page_start?: number;       // 0-based inclusive
   page_end?: number;         // 0-based inclusive
+  evidence?: LineEvidence;
+  archive_path?: string;     // member path when the source came out of a ZIP archive
 
   customer_name?: string;
+  customer_account_id?: string;     // customer master account (as printed until resolved)
   customer_order_no?: string;
   abh_order_no?: string;
   document_date?: string;
 
   // shipping/billing
   ship_to_name?: string;
+  ship_to_address?: Address;        // normalized; *_address_raw is its one-line form
   ship_to_address_raw?: string;
   bill_to_name?: string;
+  bill_to_address?: Address;
   bill_to_address_raw?: string;
   mark_instructions?: string;
+  ship_to_id?: string;              // known ship-to of the resolved account
+  payment_terms?: string;           // as printed, else the account's default terms
 
   // --- line-level fields
   line_no: number;
@@ -49,6 +65,7 @@ export type POLineRow = {
   // ABH mapping
   abh_item_no_candidate?: string;
   abh_item_no_final?: string;
+  abh_item_no_replacement?: string;   // active replacement for a discontinued / superseded SKU
 
   // Extra attributes
   manufacturer?: string;
@@ -62,12 +79,19 @@ export type POLineRow = {
 
   // confidence (0..1 internal)
   confidence_score?: number;
+  signals?: Signal[];               // evidence behind the scores, exported as confidence.signals
 
   // policy outcomes
   automation_lane: AutomationLane;
   routing_reason?: string;
   fields_requiring_review?: string[];
 
+  // operator review (persisted with the work queue)
+  review_status?: ReviewStatus;
+  reviewer?: string;
+  review_timestamp?: string;  // ISO
+  cross_reference_confirmed_at?: string;  // ISO; the row's ABH item has counted as a cross-reference use
+
   // audit
   policy_version_applied?: string;
   policy_rule_ids_applied?: string[];
@@ -79,7 +103,7 @@ export type POLineRow = {
 };
 
 // Internal interface for parsing results from geminiService
-import { POExportV1 } from "./services/abhSchema.ts";
+import { POExportV1, Address, BoundingBox, FieldBox, Signal } from "./services/abhSchema.ts";
 
 export interface GeminiParsingResult {
   documents: POExportV1[];